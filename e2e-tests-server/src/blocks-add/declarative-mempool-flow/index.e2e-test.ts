@@ -0,0 +1,78 @@
+import { resolve } from 'node:path';
+import { config } from 'dotenv';
+import { bootstrap } from '@easylayer/bitcoin-crawler';
+import {
+  BitcoinMempoolInitializedEvent,
+  BitcoinMempoolSynchronizedEvent,
+  BlockchainProviderService,
+} from '@easylayer/bitcoin';
+import { SQLiteService } from '../../+helpers/sqlite/sqlite.service';
+import { cleanDataFolder } from '../../+helpers/clean-data-folder';
+import MempoolWatcherModel, { AGGREGATE_ID, BlockAddedEvent, MempoolObservedEvent } from './mempool.model';
+import { MEMPOOL_HEIGHT, mockMempoolTransactions, mockRawMempool } from './mocks';
+
+jest.spyOn(BlockchainProviderService.prototype, 'getCurrentBlockHeightFromNetwork').mockResolvedValue(-1);
+jest.spyOn(BlockchainProviderService.prototype, 'getCurrentBlockHeightFromMempool').mockResolvedValue(MEMPOOL_HEIGHT);
+jest.spyOn(BlockchainProviderService.prototype, 'getRawMempoolFromAll').mockResolvedValue(mockRawMempool as any);
+jest
+  .spyOn(BlockchainProviderService.prototype, 'getMempoolTransactionsByTxids')
+  .mockImplementation(
+    async (txids: string[]): Promise<any> =>
+      txids.map((txid) => mockMempoolTransactions.find((tx) => tx.txid === txid) ?? null)
+  );
+
+function payloadToObject(p: any): any {
+  if (p == null) return p;
+  if (Buffer.isBuffer(p)) return JSON.parse(p.toString('utf8'));
+  if (typeof p === 'string') return JSON.parse(p);
+  return p;
+}
+
+describe('/Bitcoin Crawler: Mempool Tick Flow (declarative model)', () => {
+  let dbService!: SQLiteService;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+  });
+
+  beforeAll(async () => {
+    jest.resetModules();
+    config({ path: resolve(process.cwd(), 'src/blocks-add/declarative-mempool-flow/.env') });
+    await cleanDataFolder('eventstore');
+    await bootstrap({
+      Models: [MempoolWatcherModel],
+      testing: {
+        handlerEventsToWait: [
+          { eventType: BitcoinMempoolInitializedEvent, count: 1 },
+          { eventType: BitcoinMempoolSynchronizedEvent, count: 1 },
+        ],
+      },
+    });
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await dbService?.close().catch(() => {});
+  });
+
+  it('should run mempool and mempoolTx sources and never call block sources during a tick', async () => {
+    dbService = new SQLiteService({ path: resolve(process.cwd(), 'eventstore/bitcoin.db') });
+    await dbService.connect();
+
+    const events = await dbService.all(`SELECT * FROM ${AGGREGATE_ID} ORDER BY version ASC`);
+
+    expect(events.filter((e: any) => e.type === BlockAddedEvent.name)).toHaveLength(0);
+
+    const observed = events.filter((e: any) => e.type === MempoolObservedEvent.name);
+    expect(observed.length).toBeGreaterThanOrEqual(1);
+
+    observed.forEach((ev: any, i: number) => {
+      expect(ev.version).toBe(i + 1);
+      expect(Number(ev.blockHeight)).toBe(MEMPOOL_HEIGHT);
+    });
+
+    const payload = payloadToObject(observed[observed.length - 1].payload);
+    expect([...payload.txids].sort()).toEqual(mockMempoolTransactions.map((tx) => tx.txid).sort());
+    expect(payload.outputs).toBe(mockMempoolTransactions.reduce((acc, tx) => acc + tx.vout.length, 0));
+  });
+});
@@ -0,0 +1,88 @@
+export const MEMPOOL_HEIGHT = 850000;
+
+export const mockMempoolTransactions = [
+  {
+    txid: 'a1'.repeat(32),
+    hash: 'a1'.repeat(32),
+    version: 2,
+    size: 222,
+    vsize: 141,
+    weight: 561,
+    locktime: 0,
+    vin: [
+      {
+        txid: 'f0'.repeat(32),
+        vout: 0,
+        scriptSig: { asm: '', hex: '' },
+        sequence: 4294967293,
+      },
+    ],
+    vout: [
+      {
+        value: 0.0001,
+        n: 0,
+        scriptPubKey: {
+          asm: '0 751e76e8199196d454941c45d1b3a323f1433bd6',
+          hex: '0014751e76e8199196d454941c45d1b3a323f1433bd6',
+          type: 'witness_v0_keyhash',
+        },
+      },
+      {
+        value: 0.0002,
+        n: 1,
+        scriptPubKey: {
+          asm: '0 1d0f172a0ecb48aee1be1f2687d2963ae33f71a1',
+          hex: '00141d0f172a0ecb48aee1be1f2687d2963ae33f71a1',
+          type: 'witness_v0_keyhash',
+        },
+      },
+    ],
+  },
+  {
+    txid: 'b2'.repeat(32),
+    hash: 'b2'.repeat(32),
+    version: 2,
+    size: 191,
+    vsize: 110,
+    weight: 437,
+    locktime: 0,
+    vin: [
+      {
+        txid: 'e0'.repeat(32),
+        vout: 1,
+        scriptSig: { asm: '', hex: '' },
+        sequence: 4294967293,
+      },
+    ],
+    vout: [
+      {
+        value: 0.0005,
+        n: 0,
+        scriptPubKey: {
+          asm: '0 c0cebcd6c3d3ca8c75dc5ec62ebe55330ef910e2',
+          hex: '0014c0cebcd6c3d3ca8c75dc5ec62ebe55330ef910e2',
+          type: 'witness_v0_keyhash',
+        },
+      },
+    ],
+  },
+];
+
+// getrawmempool (verbose) per provider: txid -> entry
+export const mockRawMempool = [
+  Object.fromEntries(
+    mockMempoolTransactions.map((tx) => [
+      tx.txid,
+      {
+        vsize: tx.vsize,
+        weight: tx.weight,
+        time: 1700000000,
+        height: MEMPOOL_HEIGHT,
+        fee: 0.00005,
+        fees: { base: 0.00005, modified: 0.00005, ancestor: 0.00005, descendant: 0.00005 },
+        depends: [],
+        spentby: [],
+      },
+    ])
+  ),
+];
@@ -0,0 +1,23 @@
+import { Model } from '@easylayer/bitcoin-crawler';
+import UtxoModel from './utxo.model';
+
+export const FEE_AGGREGATE_ID = 'FeeModel';
+
+export class OutputsSeenEvent {
+  constructor(public readonly total: number) {}
+}
+
+export default class FeeModel extends Model {
+  static override modelId: string = FEE_AGGREGATE_ID;
+  static override dependsOn = [UtxoModel];
+
+  public async processBlock(ctx: any): Promise<void> {
+    const b = ctx.block;
+    if (!b) return;
+    // In-flight instance: already updated for this block
+    const utxo = ctx.models.get(UtxoModel);
+    this.applyEvent('OutputsSeenEvent', b.height, { total: utxo.outputs });
+  }
+
+  protected onOutputsSeenEvent(e: OutputsSeenEvent): void {}
+}
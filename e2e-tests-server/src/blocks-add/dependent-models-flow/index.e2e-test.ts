@@ -0,0 +1,92 @@
+import { resolve } from 'node:path';
+import { config } from 'dotenv';
+import { bootstrap } from '@easylayer/bitcoin-crawler';
+import { BitcoinNetworkBlocksAddedEvent, BlockchainProviderService } from '@easylayer/bitcoin';
+import { SQLiteService } from '../../+helpers/sqlite/sqlite.service';
+import { cleanDataFolder } from '../../+helpers/clean-data-folder';
+import UtxoModel, { UTXO_AGGREGATE_ID } from './utxo.model';
+import FeeModel, { FEE_AGGREGATE_ID } from './fee.model';
+// Same fixture chain as the class model flow
+import { mockBlocks } from '../class-model-flow/mocks';
+
+const LAST_MOCK_HEIGHT = mockBlocks[mockBlocks.length - 1]!.height; // 2
+
+jest.spyOn(BlockchainProviderService.prototype, 'getCurrentBlockHeightFromNetwork').mockResolvedValue(LAST_MOCK_HEIGHT);
+
+jest
+  .spyOn(BlockchainProviderService.prototype, 'getManyBlocksStatsByHeights')
+  .mockImplementation(async (heights: (string | number)[]): Promise<any> => {
+    const numHeights = heights.map(Number);
+    return mockBlocks
+      .filter((b: any) => numHeights.includes(Number(b.height)))
+      .map((b: any) => ({ blockhash: b.hash, total_size: 1, height: b.height }));
+  });
+
+jest.spyOn(BlockchainProviderService.prototype, 'getManyBlocksByHeights').mockImplementation(
+  async (heights: any[]): Promise<any[]> =>
+    heights.map((h) => {
+      const blk = mockBlocks.find((b) => b.height === Number(h));
+      if (!blk) throw new Error(`No mock block for height ${h}`);
+      return blk;
+    })
+);
+
+function payloadToObject(p: any): any {
+  if (p == null) return p;
+  if (Buffer.isBuffer(p)) return JSON.parse(p.toString('utf8'));
+  if (typeof p === 'string') return JSON.parse(p);
+  return p;
+}
+
+describe('/Bitcoin Crawler: Add Blocks Flow (dependent models)', () => {
+  let dbService!: SQLiteService;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+  });
+
+  beforeAll(async () => {
+    jest.resetModules();
+    config({ path: resolve(process.cwd(), 'src/blocks-add/dependent-models-flow/.env') });
+    await cleanDataFolder('eventstore');
+    await bootstrap({
+      // Dependent model first on purpose: the framework must reorder by dependsOn
+      Models: [FeeModel, UtxoModel],
+      testing: {
+        handlerEventsToWait: [{ eventType: BitcoinNetworkBlocksAddedEvent, count: mockBlocks.length }],
+      },
+    });
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await dbService?.close().catch(() => {});
+  });
+
+  it('should process the dependency before the dependent model', async () => {
+    dbService = new SQLiteService({ path: resolve(process.cwd(), 'eventstore/bitcoin.db') });
+    await dbService.connect();
+
+    const events = await dbService.all(`SELECT * FROM ${UTXO_AGGREGATE_ID} ORDER BY version ASC`);
+    const counts = events.map((e: any) => payloadToObject(e.payload).count);
+
+    expect(counts).toEqual(mockBlocks.map((b: any) => b.tx.reduce((acc: number, tx: any) => acc + tx.vout.length, 0)));
+  });
+
+  it('should read the in-flight dependency state updated for the same block', async () => {
+    dbService = new SQLiteService({ path: resolve(process.cwd(), 'eventstore/bitcoin.db') });
+    await dbService.connect();
+
+    const events = await dbService.all(`SELECT * FROM ${FEE_AGGREGATE_ID} ORDER BY version ASC`);
+    expect(events.length).toBe(mockBlocks.length);
+
+    let expectedTotal = 0;
+    events.forEach((ev: any, i: number) => {
+      expectedTotal += mockBlocks[i]!.tx.reduce((acc: number, tx: any) => acc + tx.vout.length, 0);
+
+      expect(ev.type).toBe('OutputsSeenEvent');
+      expect(Number(ev.blockHeight)).toBe(i);
+      expect(payloadToObject(ev.payload).total).toBe(expectedTotal);
+    });
+  });
+});
@@ -0,0 +1,24 @@
+import { Model } from '@easylayer/bitcoin-crawler';
+
+export const UTXO_AGGREGATE_ID = 'UtxoModel';
+
+export class OutputsAddedEvent {
+  constructor(public readonly count: number) {}
+}
+
+export default class UtxoModel extends Model {
+  static override modelId: string = UTXO_AGGREGATE_ID;
+
+  public outputs = 0;
+
+  public async processBlock(ctx: any): Promise<void> {
+    const b = ctx.block;
+    if (!b) return;
+    const count = b.tx.reduce((acc: number, tx: any) => acc + tx.vout.length, 0);
+    this.applyEvent('OutputsAddedEvent', b.height, { count });
+  }
+
+  protected onOutputsAddedEvent({ payload }: any): void {
+    this.outputs += payload.count;
+  }
+}
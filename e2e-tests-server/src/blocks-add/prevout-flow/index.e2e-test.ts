@@ -0,0 +1,93 @@
+import { resolve } from 'node:path';
+import { config } from 'dotenv';
+import { bootstrap } from '@easylayer/bitcoin-crawler';
+import { BitcoinNetworkBlocksAddedEvent, BlockchainProviderService } from '@easylayer/bitcoin';
+import { SQLiteService } from '../../+helpers/sqlite/sqlite.service';
+import { cleanDataFolder } from '../../+helpers/clean-data-folder';
+import SpendsModel, { AGGREGATE_ID } from './spends.model';
+// Same fixture chain as the class model flow
+import { mockBlocks } from '../class-model-flow/mocks';
+
+const LAST_MOCK_HEIGHT = mockBlocks[mockBlocks.length - 1]!.height; // 2
+
+jest.spyOn(BlockchainProviderService.prototype, 'getCurrentBlockHeightFromNetwork').mockResolvedValue(LAST_MOCK_HEIGHT);
+
+jest
+  .spyOn(BlockchainProviderService.prototype, 'getManyBlocksStatsByHeights')
+  .mockImplementation(async (heights: (string | number)[]): Promise<any> => {
+    const numHeights = heights.map(Number);
+    return mockBlocks
+      .filter((b: any) => numHeights.includes(Number(b.height)))
+      .map((b: any) => ({ blockhash: b.hash, total_size: 1, height: b.height }));
+  });
+
+jest.spyOn(BlockchainProviderService.prototype, 'getManyBlocksByHeights').mockImplementation(
+  async (heights: any[]): Promise<any[]> =>
+    heights.map((h) => {
+      const blk = mockBlocks.find((b) => b.height === Number(h));
+      if (!blk) throw new Error(`No mock block for height ${h}`);
+      return blk;
+    })
+);
+
+function payloadToObject(p: any): any {
+  if (p == null) return p;
+  if (Buffer.isBuffer(p)) return JSON.parse(p.toString('utf8'));
+  if (typeof p === 'string') return JSON.parse(p);
+  return p;
+}
+
+describe('/Bitcoin Crawler: Add Blocks Flow (resolved prevouts)', () => {
+  let dbService!: SQLiteService;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+  });
+
+  beforeAll(async () => {
+    jest.resetModules();
+    config({ path: resolve(process.cwd(), 'src/blocks-add/prevout-flow/.env') });
+    await cleanDataFolder('eventstore');
+    await bootstrap({
+      Models: [SpendsModel],
+      testing: {
+        handlerEventsToWait: [{ eventType: BitcoinNetworkBlocksAddedEvent, count: mockBlocks.length }],
+      },
+    });
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await dbService?.close().catch(() => {});
+  });
+
+  it('should resolve prevouts of inputs spending outputs of processed blocks from the cache', async () => {
+    dbService = new SQLiteService({ path: resolve(process.cwd(), 'eventstore/bitcoin.db') });
+    await dbService.connect();
+
+    const events = await dbService.all(`SELECT * FROM ${AGGREGATE_ID} ORDER BY version ASC`);
+    const spends = events.filter((e: any) => e.type === 'InputSpentEvent').map((e: any) => payloadToObject(e.payload));
+
+    // Every non-coinbase input of the mocks spends an output of an earlier mock block
+    const expected = mockBlocks.flatMap((b: any) =>
+      b.tx.flatMap((tx: any) =>
+        tx.vin
+          .filter((vin: any) => !vin.coinbase)
+          .map((vin: any) => {
+            const prevBlock: any = mockBlocks.find((pb: any) => pb.tx.some((ptx: any) => ptx.txid === vin.txid));
+            const prevVout = prevBlock.tx.find((ptx: any) => ptx.txid === vin.txid).vout[vin.vout];
+            return {
+              txid: vin.txid,
+              vout: vin.vout,
+              value: prevVout.value,
+              address: prevVout.scriptPubKey.addresses[0],
+              height: prevBlock.height,
+            };
+          })
+      )
+    );
+
+    expect(expected.length).toBeGreaterThan(0);
+    expect(spends).toEqual(expected);
+  });
+});
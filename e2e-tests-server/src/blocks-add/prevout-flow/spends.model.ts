@@ -0,0 +1,47 @@
+import type { DeclarativeModel } from '@easylayer/bitcoin-crawler';
+import { compileStateModelBTC } from '@easylayer/bitcoin-crawler';
+
+export const AGGREGATE_ID = 'SpendsModel';
+
+export class InputSpentEvent {
+  constructor(
+    public readonly txid: string,
+    public readonly vout: number,
+    public readonly value: number,
+    public readonly address: string,
+    public readonly height: number
+  ) {}
+}
+
+type Store = { spent: number };
+
+const SpendsModelDeclarative: DeclarativeModel<Store> = {
+  modelId: AGGREGATE_ID,
+  state: (): Store => ({ spent: 0 }),
+
+  sources: {
+    async vin({ block, vin, prevout, applyEvent }: any): Promise<void> {
+      if (!prevout) return;
+      await applyEvent('InputSpentEvent', block.height, {
+        txid: vin.txid,
+        vout: vin.vout,
+        value: prevout.value,
+        address: prevout.address,
+        height: prevout.height,
+      });
+    },
+  },
+
+  reducers: {
+    InputSpentEvent(state: Store) {
+      state.spent += 1;
+    },
+  },
+
+  options: {
+    snapshotsEnabled: false,
+  },
+};
+
+const SpendsModel = compileStateModelBTC<Store>(SpendsModelDeclarative);
+export default SpendsModel;
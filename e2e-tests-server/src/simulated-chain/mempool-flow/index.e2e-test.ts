@@ -0,0 +1,55 @@
+import { resolve } from 'node:path';
+import { config } from 'dotenv';
+import { bootstrap, SimulatedChain } from '@easylayer/bitcoin-crawler';
+import { BitcoinMempoolInitializedEvent, BitcoinMempoolSynchronizedEvent } from '@easylayer/bitcoin';
+import { SQLiteService } from '../../+helpers/sqlite/sqlite.service';
+import { cleanDataFolder } from '../../+helpers/clean-data-folder';
+import MempoolWatcherModel, { AGGREGATE_ID, MempoolObservedEvent } from './mempool.model';
+
+const chain = new SimulatedChain({ seed: 'e2e-mempool', height: 2, network: 'regtest' });
+const injected = [chain.injectMempoolTx(), chain.injectMempoolTx(), chain.injectMempoolTx()];
+chain.dropMempoolTx(injected[2].txid);
+
+function payloadToObject(p: any): any {
+  if (p == null) return p;
+  if (Buffer.isBuffer(p)) return JSON.parse(p.toString('utf8'));
+  if (typeof p === 'string') return JSON.parse(p);
+  return p;
+}
+
+describe('/Bitcoin Crawler: Mempool Flow (simulated chain)', () => {
+  let dbService!: SQLiteService;
+
+  beforeAll(async () => {
+    jest.resetModules();
+    config({ path: resolve(process.cwd(), 'src/simulated-chain/mempool-flow/.env') });
+    await cleanDataFolder('eventstore');
+    await bootstrap({
+      Models: [MempoolWatcherModel],
+      config: { simulatedChain: chain },
+      testing: {
+        handlerEventsToWait: [
+          { eventType: BitcoinMempoolInitializedEvent, count: 1 },
+          { eventType: BitcoinMempoolSynchronizedEvent, count: 1 },
+        ],
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await dbService?.close().catch(() => {});
+  });
+
+  it('should sync injected mempool transactions without a node', async () => {
+    dbService = new SQLiteService({ path: resolve(process.cwd(), 'eventstore/bitcoin.db') });
+    await dbService.connect();
+
+    const events = await dbService.all(`SELECT * FROM ${AGGREGATE_ID} ORDER BY version ASC`);
+    const observed = events.filter((e: any) => e.type === MempoolObservedEvent.name);
+    expect(observed.length).toBeGreaterThanOrEqual(1);
+
+    const payload = payloadToObject(observed[observed.length - 1].payload);
+    expect([...payload.txids].sort()).toEqual([injected[0].txid, injected[1].txid].sort());
+    expect(payload.outputs).toBe(injected[0].vout.length + injected[1].vout.length);
+  });
+});
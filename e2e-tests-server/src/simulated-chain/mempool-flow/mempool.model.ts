@@ -0,0 +1,55 @@
+import type { DeclarativeModel } from '@easylayer/bitcoin-crawler';
+import { compileStateModelBTC } from '@easylayer/bitcoin-crawler';
+
+export const AGGREGATE_ID = 'MempoolWatcherModel';
+
+export class MempoolObservedEvent {
+  constructor(
+    public readonly txids: string[],
+    public readonly outputs: number
+  ) {}
+}
+
+export class BlockAddedEvent {
+  constructor(public readonly hash: string) {}
+}
+
+type Store = { seen: string[] };
+
+const MempoolWatcherDeclarative: DeclarativeModel<Store> = {
+  modelId: AGGREGATE_ID,
+  state: (): Store => ({ seen: [] }),
+
+  sources: {
+    // Block handler must never be called during a mempool tick
+    async block({ block, applyEvent }: any): Promise<void> {
+      await applyEvent('BlockAddedEvent', block.height, { hash: block.hash });
+    },
+
+    async mempoolTx({ tx }: any) {
+      return { txid: tx.txid, outputs: (tx.vout ?? []).length };
+    },
+
+    async mempool({ mempool, locals, applyEvent }: any): Promise<void> {
+      const height = await mempool.getLastHeight();
+      await applyEvent('MempoolObservedEvent', height, {
+        txids: locals.mempoolTx.map((t: any) => t.txid),
+        outputs: locals.mempoolTx.reduce((acc: number, t: any) => acc + t.outputs, 0),
+      });
+    },
+  },
+
+  reducers: {
+    BlockAddedEvent() {},
+    MempoolObservedEvent(state, e) {
+      state.seen = e.payload.txids;
+    },
+  },
+
+  options: {
+    snapshotsEnabled: false,
+  },
+};
+
+const MempoolWatcherModel = compileStateModelBTC<Store>(MempoolWatcherDeclarative);
+export default MempoolWatcherModel;
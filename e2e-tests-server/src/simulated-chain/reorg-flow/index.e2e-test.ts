@@ -0,0 +1,66 @@
+import { resolve } from 'node:path';
+import { config } from 'dotenv';
+import { bootstrap, SimulatedChain } from '@easylayer/bitcoin-crawler';
+import { BitcoinNetworkBlocksAddedEvent, BitcoinNetworkReorganizedEvent } from '@easylayer/bitcoin';
+import { SQLiteService } from '../../+helpers/sqlite/sqlite.service';
+import { cleanDataFolder } from '../../+helpers/clean-data-folder';
+import BlocksModel, { AGGREGATE_ID, BlockAddedEvent } from './blocks.model';
+
+// Blocks 0..2; once block 2 was served, blocks 1..2 are replaced by 1'..3'
+const chain = new SimulatedChain({ seed: 'e2e-reorg', height: 2, network: 'regtest' });
+const staleHashes = [1, 2].map((h) => chain.getBlock(h).hash);
+chain.when(2, { action: 'fork', height: 1, count: 3 });
+
+function payloadToObject(p: any): any {
+  if (p == null) return p;
+  if (Buffer.isBuffer(p)) return JSON.parse(p.toString('utf8'));
+  if (typeof p === 'string') return JSON.parse(p);
+  return p;
+}
+
+describe('/Bitcoin Crawler: Reorganisation Flow (simulated chain)', () => {
+  let dbService!: SQLiteService;
+
+  beforeAll(async () => {
+    jest.resetModules();
+    config({ path: resolve(process.cwd(), 'src/simulated-chain/reorg-flow/.env') });
+    await cleanDataFolder('eventstore');
+    await bootstrap({
+      Models: [BlocksModel],
+      config: { simulatedChain: chain },
+      testing: {
+        handlerEventsToWait: [
+          { eventType: BitcoinNetworkReorganizedEvent, count: 1 },
+          // 0, 1, 2 before the fork and 1', 2', 3' after it
+          { eventType: BitcoinNetworkBlocksAddedEvent, count: 6 },
+        ],
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await dbService?.close().catch(() => {});
+  });
+
+  it('should reorganise the network model onto the new branch', async () => {
+    dbService = new SQLiteService({ path: resolve(process.cwd(), 'eventstore/bitcoin.db') });
+    await dbService.connect();
+
+    const events = await dbService.all(`SELECT * FROM network ORDER BY id ASC`);
+    const reorg = events.find((e: any) => e.type === BitcoinNetworkReorganizedEvent.name);
+    expect(reorg).toBeDefined();
+
+    const reorgPayload = payloadToObject(reorg.payload);
+    expect(reorgPayload.blocks.map((b: any) => b.hash).sort()).toEqual([...staleHashes].sort());
+  });
+
+  it('should keep only blocks of the new branch in the user model', async () => {
+    const events = await dbService.all(`SELECT * FROM ${AGGREGATE_ID} ORDER BY version ASC`);
+    const hashes = events
+      .filter((e: any) => e.type === BlockAddedEvent.name)
+      .map((e: any) => payloadToObject(e.payload).hash);
+
+    expect(hashes).toEqual([0, 1, 2, 3].map((h) => chain.getBlock(h).hash));
+    staleHashes.forEach((hash) => expect(hashes).not.toContain(hash));
+  });
+});
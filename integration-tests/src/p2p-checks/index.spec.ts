@@ -0,0 +1,140 @@
+import { resolve } from 'node:path';
+import { config } from 'dotenv';
+import type { INestApplication, INestApplicationContext } from '@nestjs/common';
+import { bootstrap } from '@easylayer/bitcoin-crawler';
+import { BitcoinNetworkInitializedEvent, BitcoinNetworkBlocksAddedEvent } from '@easylayer/bitcoin';
+import { Client } from '@easylayer/transport-sdk';
+import { cleanDataFolder } from '../+helpers/clean-data-folder';
+import BlocksModel, { AGGREGATE_ID } from './blocks.model';
+import { P2PPeerStandIn, REGTEST_GENESIS_HASH, buildRegtestChain } from './peer-stand-in';
+
+jest.setTimeout(60000);
+
+describe('/Bitcoin Crawler: P2P Provider', () => {
+  const chain = buildRegtestChain(2);
+
+  beforeAll(() => {
+    config({ path: resolve(process.cwd(), 'src/p2p-checks/.env') });
+  });
+
+  describe('without peers', () => {
+    const peersBackup = process.env.PROVIDER_NETWORK_P2P_PEERS;
+
+    afterAll(() => {
+      process.env.PROVIDER_NETWORK_P2P_PEERS = peersBackup;
+    });
+
+    it('should refuse to start', async () => {
+      process.env.PROVIDER_NETWORK_P2P_PEERS = '';
+      await expect(bootstrap({ Models: [BlocksModel] })).rejects.toThrow(
+        'PROVIDER_NETWORK_P2P_PEERS is required when using p2p network provider type'
+      );
+    });
+  });
+
+  describe('with a local peer', () => {
+    let app!: INestApplication | INestApplicationContext;
+    let client!: Client;
+    let peer!: P2PPeerStandIn;
+
+    let eventsDeferred: { promise: Promise<void>; resolve: () => void };
+    const expectedEventCount = 3;
+
+    const receivedBlockAddedEvents: any[] = [];
+    let resolved = false;
+
+    beforeAll(async () => {
+      jest.useRealTimers();
+      jest.resetModules();
+
+      const makeDeferred = () => {
+        let resolveFn!: () => void;
+        const promise = new Promise<void>((res) => {
+          resolveFn = res;
+        });
+        return { promise, resolve: resolveFn };
+      };
+      eventsDeferred = makeDeferred();
+
+      await cleanDataFolder('eventstore');
+
+      peer = new P2PPeerStandIn(chain);
+      await peer.listen();
+      process.env.PROVIDER_NETWORK_P2P_PEERS = `127.0.0.1:${peer.port}`;
+
+      const wsUrl = `ws://${process.env.TRANSPORT_WS_HOST}:${process.env.TRANSPORT_WS_PORT}${process.env.TRANSPORT_WS_PATH}`;
+      client = new Client({
+        transport: {
+          type: 'ws',
+          options: { url: wsUrl },
+        },
+      });
+
+      await client.connect();
+
+      client.subscribe('BlockAddedEvent', async (event: any) => {
+        receivedBlockAddedEvents.push(event);
+        if (!resolved && receivedBlockAddedEvents.length >= expectedEventCount) {
+          resolved = true;
+          eventsDeferred.resolve();
+        }
+      });
+
+      app = await bootstrap({ Models: [BlocksModel] });
+
+      await eventsDeferred.promise;
+    });
+
+    afterAll(async () => {
+      await (client as any)?.disconnect?.().catch(() => undefined);
+      await (client as any)?.close?.().catch(() => undefined);
+      await app?.close?.().catch(() => undefined);
+      await peer?.close();
+
+      await new Promise((r) => setImmediate(r));
+    });
+
+    it('should handshake with the configured peer', () => {
+      expect(peer.handshakes).toBeGreaterThanOrEqual(1);
+    });
+
+    it('should download the blocks from the peer', () => {
+      expect(chain[0]!.hash).toBe(REGTEST_GENESIS_HASH);
+      expect(peer.requestedBlocks).toEqual(expect.arrayContaining(chain.map((b) => b.hash)));
+    });
+
+    it('should get three BlockAddedEvent events with the peer chain', () => {
+      expect(receivedBlockAddedEvents.length).toBe(expectedEventCount);
+      expect(receivedBlockAddedEvents.map((e) => e.blockHeight)).toEqual([0, 1, 2]);
+      expect(receivedBlockAddedEvents.map((e) => e.payload.hash)).toEqual(chain.map((b) => b.hash));
+      expect(receivedBlockAddedEvents.map((e) => e.payload.tx)).toEqual(chain.map((b) => [b.txid]));
+    });
+
+    it('should link the blocks as served by the peer', () => {
+      expect(receivedBlockAddedEvents.map((e) => e.payload.previousblockhash).slice(1)).toEqual(
+        chain.slice(1).map((b) => b.previousblockhash)
+      );
+    });
+
+    it('should return the full Network model at the latest block height', async () => {
+      const [networkModel] = await client.query<any, any>('GetModelsQuery', { modelIds: ['network'] });
+      expect(networkModel.modelId).toBe('network');
+      expect(networkModel.blockHeight).toBe(2);
+      expect(networkModel.payload.chain.length).toBe(3);
+    });
+
+    it('should return all events for Network model', async () => {
+      const events = await client.query<any, any>('FetchEventsQuery', { modelIds: ['network'] });
+      expect(events.length).toBe(4);
+      expect(events[0].eventType).toBe(BitcoinNetworkInitializedEvent.name);
+      expect(events.slice(1).every((e: any) => e.eventType === BitcoinNetworkBlocksAddedEvent.name)).toBe(true);
+      expect(events.slice(1).map((e: any) => e.blockHeight)).toEqual([0, 1, 2]);
+    });
+
+    it('should return the full BlocksModel at the latest block height', async () => {
+      const [blocksModel] = await client.query<any, any>('GetModelsQuery', { modelIds: [AGGREGATE_ID] });
+      expect(blocksModel.blockHeight).toBe(2);
+      expect(blocksModel.payload.blocks.map((b: any) => b.hash)).toEqual(chain.map((b) => b.hash));
+    });
+  });
+});
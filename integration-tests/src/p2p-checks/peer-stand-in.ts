@@ -0,0 +1,240 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { createServer } from 'node:net';
+import type { AddressInfo, Server, Socket } from 'node:net';
+
+const REGTEST_MAGIC = Buffer.from('fabfb5da', 'hex');
+const PROTOCOL_VERSION = 70016;
+const MSG_BLOCK = 2;
+const MSG_WITNESS_FLAG = 0x40000000;
+const MAX_HEADERS = 2000;
+
+// Mainnet/regtest genesis coinbase
+const GENESIS_COINBASE =
+  '01000000010000000000000000000000000000000000000000000000000000000000000000ffffffff4d04ffff001d0104455468652054696d65732030332f4a616e2f32303039204368616e63656c6c6f72206f6e206272696e6b206f66207365636f6e64206261696c6f757420666f722062616e6b73ffffffff0100f2052a01000000434104678afdb0fe5548271967f1a67130b7105cd6a828e03909a67962e0ea1f61deb649f6bc3f4cef38c4f35504e51ec112de5c384df7ba0b8d578a4c702b6bf11d5fac00000000';
+
+export const REGTEST_GENESIS_HASH = '0f9188f13cb7b2c71f2a335e3a4fc328bf5beb436012afca590b1a11466e2206';
+
+export interface StandInBlock {
+  height: number;
+  hash: string;
+  previousblockhash?: string;
+  txid: string;
+  header: Buffer;
+  raw: Buffer;
+}
+
+const sha256d = (data: Buffer) => createHash('sha256').update(createHash('sha256').update(data).digest()).digest();
+const toHash = (internal: Buffer) => Buffer.from(internal).reverse().toString('hex');
+const fromHash = (hash: string) => Buffer.from(hash, 'hex').reverse();
+
+function varint(n: number): Buffer {
+  if (n < 0xfd) return Buffer.from([n]);
+  const out = Buffer.alloc(3);
+  out[0] = 0xfd;
+  out.writeUInt16LE(n, 1);
+  return out;
+}
+
+function readVarint(buf: Buffer, offset: number): [number, number] {
+  const first = buf[offset]!;
+  if (first < 0xfd) return [first, offset + 1];
+  if (first === 0xfd) return [buf.readUInt16LE(offset + 1), offset + 3];
+  return [buf.readUInt32LE(offset + 1), offset + 5];
+}
+
+function header(version: number, prev: Buffer, merkleRoot: Buffer, time: number, nonce: number): Buffer {
+  const out = Buffer.alloc(80);
+  out.writeInt32LE(version, 0);
+  prev.copy(out, 4);
+  merkleRoot.copy(out, 36);
+  out.writeUInt32LE(time, 68);
+  out.writeUInt32LE(0x207fffff, 72);
+  out.writeUInt32LE(nonce, 76);
+  return out;
+}
+
+/** Coinbase paying 50 BTC to OP_TRUE, BIP34 height in the scriptSig. */
+function coinbase(height: number): Buffer {
+  const heightPush = Buffer.from([4, height & 0xff, (height >> 8) & 0xff, (height >> 16) & 0xff, height >>> 24]);
+  const value = Buffer.alloc(8);
+  value.writeBigUInt64LE(5000000000n);
+  return Buffer.concat([
+    Buffer.from('01000000', 'hex'),
+    Buffer.from([1]),
+    Buffer.alloc(32),
+    Buffer.from('ffffffff', 'hex'),
+    varint(heightPush.length),
+    heightPush,
+    Buffer.from('ffffffff', 'hex'),
+    Buffer.from([1]),
+    value,
+    Buffer.from([1, 0x51]),
+    Buffer.alloc(4),
+  ]);
+}
+
+/** Regtest chain: the real genesis block followed by `count` mined blocks. */
+export function buildRegtestChain(count: number): StandInBlock[] {
+  const genesisTx = Buffer.from(GENESIS_COINBASE, 'hex');
+  const genesisHeader = header(1, Buffer.alloc(32), sha256d(genesisTx), 1296688602, 2);
+  const chain: StandInBlock[] = [
+    {
+      height: 0,
+      hash: toHash(sha256d(genesisHeader)),
+      txid: toHash(sha256d(genesisTx)),
+      header: genesisHeader,
+      raw: Buffer.concat([genesisHeader, varint(1), genesisTx]),
+    },
+  ];
+
+  for (let height = 1; height <= count; height++) {
+    const prev = chain[height - 1]!;
+    const tx = coinbase(height);
+    const merkleRoot = sha256d(tx);
+
+    // Regtest target: about every second nonce is valid
+    let nonce = 0;
+    let blockHeader = header(0x20000000, fromHash(prev.hash), merkleRoot, 1296688602 + height * 600, nonce);
+    while (sha256d(blockHeader)[31]! >= 0x7f) {
+      blockHeader = header(0x20000000, fromHash(prev.hash), merkleRoot, 1296688602 + height * 600, ++nonce);
+    }
+
+    chain.push({
+      height,
+      hash: toHash(sha256d(blockHeader)),
+      previousblockhash: prev.hash,
+      txid: toHash(merkleRoot),
+      header: blockHeader,
+      raw: Buffer.concat([blockHeader, varint(1), tx]),
+    });
+  }
+
+  return chain;
+}
+
+/**
+ * Local stand-in for a regtest bitcoind P2P peer: answers the version handshake,
+ * ping, getheaders and getdata (blocks) from a fixed chain.
+ */
+export class P2PPeerStandIn {
+  private readonly server: Server;
+  private readonly sockets = new Set<Socket>();
+
+  public handshakes = 0;
+  public readonly requestedBlocks: string[] = [];
+
+  constructor(private readonly chain: StandInBlock[]) {
+    this.server = createServer((socket) => this.accept(socket));
+  }
+
+  get port(): number {
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  listen(): Promise<void> {
+    return new Promise((resolve) => this.server.listen(0, '127.0.0.1', () => resolve()));
+  }
+
+  close(): Promise<void> {
+    for (const socket of this.sockets) socket.destroy();
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  private accept(socket: Socket): void {
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+    socket.on('error', () => undefined);
+
+    let buffer = Buffer.alloc(0);
+    socket.on('data', (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      while (buffer.length >= 24) {
+        const length = buffer.readUInt32LE(16);
+        if (buffer.length < 24 + length) return;
+        const command = buffer.subarray(4, 16).toString('ascii').replace(/\0+$/, '');
+        const payload = buffer.subarray(24, 24 + length);
+        buffer = buffer.subarray(24 + length);
+        this.onMessage(socket, command, payload);
+      }
+    });
+  }
+
+  private send(socket: Socket, command: string, payload: Buffer = Buffer.alloc(0)): void {
+    const head = Buffer.alloc(24);
+    REGTEST_MAGIC.copy(head, 0);
+    head.write(command, 4, 'ascii');
+    head.writeUInt32LE(payload.length, 16);
+    sha256d(payload).copy(head, 20, 0, 4);
+    socket.write(Buffer.concat([head, payload]));
+  }
+
+  private onMessage(socket: Socket, command: string, payload: Buffer): void {
+    switch (command) {
+      case 'version':
+        this.handshakes++;
+        this.send(socket, 'version', this.version());
+        this.send(socket, 'verack');
+        break;
+      case 'ping':
+        this.send(socket, 'pong', payload);
+        break;
+      case 'getheaders':
+        this.send(socket, 'headers', this.headersAfter(payload));
+        break;
+      case 'getdata':
+        this.serveData(socket, payload);
+        break;
+      default:
+        break;
+    }
+  }
+
+  private version(): Buffer {
+    const tip = this.chain.length - 1;
+    const out = Buffer.alloc(86);
+    out.writeInt32LE(PROTOCOL_VERSION, 0);
+    out.writeBigUInt64LE(9n, 4); // NODE_NETWORK | NODE_WITNESS
+    out.writeBigInt64LE(BigInt(Math.floor(Date.now() / 1000)), 12);
+    // addr_recv (26) + addr_from (26) left empty
+    randomBytes(8).copy(out, 72);
+    out[80] = 0; // empty user agent
+    out.writeInt32LE(tip, 81);
+    out[85] = 1; // relay
+    return out;
+  }
+
+  private headersAfter(payload: Buffer): Buffer {
+    let [count, offset] = readVarint(payload, 4);
+    let start = 0;
+    for (let i = 0; i < count; i++, offset += 32) {
+      const known = this.chain.find((b) => b.hash === toHash(payload.subarray(offset, offset + 32)));
+      if (known) {
+        start = known.height + 1;
+        break;
+      }
+    }
+
+    const headers = this.chain.slice(start, start + MAX_HEADERS);
+    return Buffer.concat([varint(headers.length), ...headers.map((b) => Buffer.concat([b.header, varint(0)]))]);
+  }
+
+  private serveData(socket: Socket, payload: Buffer): void {
+    let [count, offset] = readVarint(payload, 0);
+    const missing: Buffer[] = [];
+
+    for (let i = 0; i < count; i++, offset += 36) {
+      const type = payload.readUInt32LE(offset) & ~MSG_WITNESS_FLAG;
+      const hash = toHash(payload.subarray(offset + 4, offset + 36));
+      const block = type === MSG_BLOCK ? this.chain.find((b) => b.hash === hash) : undefined;
+
+      if (block) {
+        this.requestedBlocks.push(hash);
+        this.send(socket, 'block', block.raw);
+      } else {
+        missing.push(payload.subarray(offset, offset + 36));
+      }
+    }
+
+    if (missing.length) this.send(socket, 'notfound', Buffer.concat([varint(missing.length), ...missing]));
+  }
+}
@@ -0,0 +1,103 @@
+import { AppService } from '../app.service';
+import type { NetworkCommandFactoryService, MempoolCommandFactoryService } from '../application-layer/services';
+import type { BusinessConfig, ProvidersConfig } from '../config';
+import { validateChainWindow } from '../domain-layer/services';
+import type { DeepReorgState } from '../domain-layer/services';
+
+const deepReorg: DeepReorgState = {
+  requestId: 'r',
+  forkHeight: 10,
+  depth: 7,
+  maxDepth: 6,
+  forkOutsideWindow: true,
+  oldBranch: [],
+  newBranch: [],
+  detectedAt: 1000,
+  status: 'approved',
+};
+
+function setup(
+  business: Partial<BusinessConfig>,
+  repair: () => Promise<{ repaired: boolean; rollbackHeight?: number }>,
+  resolve: () => Promise<DeepReorgState> = async () => deepReorg
+) {
+  const calls: string[] = [];
+  const network: Pick<NetworkCommandFactoryService, 'init' | 'repairChain' | 'resolveDeepReorg'> = {
+    init: async () => {
+      calls.push('init');
+    },
+    repairChain: async ({ requestId }) => {
+      calls.push(`repair:${typeof requestId}`);
+      return { ...(await repair()), report: { ...validateChainWindow([]), isValid: true, lastReorg: null } };
+    },
+    resolveDeepReorg: async ({ resolution, rollbackHeight }) => {
+      calls.push(`resolve:${resolution}:${rollbackHeight}`);
+      return { deepReorg: await resolve() };
+    },
+  };
+  const providers: Pick<ProvidersConfig, 'isMempoolEnabled'> = { isMempoolEnabled: () => false };
+
+  const service = new AppService(
+    network as NetworkCommandFactoryService,
+    {} as MempoolCommandFactoryService,
+    providers as ProvidersConfig,
+    business as BusinessConfig
+  );
+  return { service, calls };
+}
+
+describe('AppService operator commands', () => {
+  it('repairs the network chain before the network is initialized', async () => {
+    const { service, calls } = setup({ NETWORK_REPAIR_CHAIN_ON_START: true }, async () => ({
+      repaired: true,
+      rollbackHeight: 99,
+    }));
+
+    await service.init();
+
+    expect(calls).toEqual(['repair:string', 'init']);
+  });
+
+  it('starts anyway when the repair fails', async () => {
+    const { service, calls } = setup({ NETWORK_REPAIR_CHAIN_ON_START: true }, async () => {
+      throw new Error('Provider returned an inconsistent range');
+    });
+
+    await service.init();
+
+    expect(calls).toEqual(['repair:string', 'init']);
+  });
+
+  it('resolves a deep reorganisation before the network is initialized', async () => {
+    const { service, calls } = setup(
+      { NETWORK_RESOLVE_DEEP_REORG: 'proceed', NETWORK_RESOLVE_DEEP_REORG_ROLLBACK_HEIGHT: 3 },
+      async () => ({ repaired: false })
+    );
+
+    await service.init();
+
+    expect(calls).toEqual(['resolve:proceed:3', 'init']);
+  });
+
+  it('starts anyway when there is no deep reorganisation to resolve', async () => {
+    const { service, calls } = setup(
+      { NETWORK_RESOLVE_DEEP_REORG: 'pin' },
+      async () => ({ repaired: false }),
+      async () => {
+        throw new Error('There is no deep reorganisation waiting for a decision');
+      }
+    );
+
+    await service.init();
+
+    expect(calls).toEqual(['resolve:pin:undefined', 'init']);
+  });
+
+  it('runs nothing unless requested', async () => {
+    const { service, calls } = setup({}, async () => ({ repaired: false }));
+
+    await service.init();
+
+    expect(calls).toEqual(['init']);
+  });
+});
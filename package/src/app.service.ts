@@ -1,7 +1,7 @@
 import { v4 as uuidv4 } from 'uuid';
 import { Injectable, Logger } from '@nestjs/common';
 import { NetworkCommandFactoryService, MempoolCommandFactoryService } from './application-layer/services';
-import { ProvidersConfig } from './config';
+import { BusinessConfig, ProvidersConfig } from './config';
 
 @Injectable()
 export class AppService {
@@ -9,20 +9,55 @@ export class AppService {
   constructor(
     private readonly networkCommandFactory: NetworkCommandFactoryService,
     private readonly mempoolCommandFactory: MempoolCommandFactoryService,
-    private readonly providersConfig: ProvidersConfig
+    private readonly providersConfig: ProvidersConfig,
+    private readonly businessConfig: BusinessConfig
   ) {}
 
   async init() {
-    if (
-      Array.isArray(this.providersConfig.PROVIDER_MEMPOOL_RPC_URLS) &&
-      this.providersConfig.PROVIDER_MEMPOOL_RPC_URLS.length > 0
-    ) {
+    await this.runOperatorCommands();
+
+    if (this.providersConfig.isMempoolEnabled()) {
       await this.mempoolInitialization();
     } else {
       await this.networkInitialization();
     }
   }
 
+  /**
+   * Operator commands requested through the environment, so that a crawler run as a service (CLI,
+   * Docker) can be operated with a restart. They run before the blocks queue starts and a failure
+   * is logged without stopping the crawler, as the variables may stay set across restarts.
+   */
+  private async runOperatorCommands(): Promise<void> {
+    if (this.businessConfig.NETWORK_REPAIR_CHAIN_ON_START) {
+      try {
+        const { repaired, rollbackHeight } = await this.networkCommandFactory.repairChain({ requestId: uuidv4() });
+        this.log.log('Network chain repair on start finished', { args: { repaired, rollbackHeight } });
+      } catch (error) {
+        this.log.warn('Network chain repair on start failed', { args: { message: (error as any)?.message } });
+      }
+    }
+
+    const resolution = this.businessConfig.NETWORK_RESOLVE_DEEP_REORG;
+    if (resolution) {
+      const rollbackHeight = this.businessConfig.NETWORK_RESOLVE_DEEP_REORG_ROLLBACK_HEIGHT;
+      try {
+        const { deepReorg } = await this.networkCommandFactory.resolveDeepReorg({
+          requestId: uuidv4(),
+          resolution,
+          ...(rollbackHeight !== undefined && { rollbackHeight }),
+        });
+        this.log.log('Deep reorganisation resolved on start', {
+          args: { resolution, forkHeight: deepReorg.forkHeight, rollbackHeight },
+        });
+      } catch (error) {
+        this.log.warn('Deep reorganisation resolution on start failed', {
+          args: { resolution, message: (error as any)?.message },
+        });
+      }
+    }
+  }
+
   private async networkInitialization(): Promise<void> {
     // Init Network
     await this.networkCommandFactory.init({ requestId: uuidv4() });
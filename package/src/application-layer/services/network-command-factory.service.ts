@@ -3,6 +3,9 @@ import { Injectable } from '@nestjs/common';
 import { CommandBus } from '@easylayer/common/cqrs';
 import { InitNetworkCommand, AddBlocksBatchCommand } from '@easylayer/bitcoin';
 import type { BlocksCommandExecutor } from '@easylayer/bitcoin';
+import { RepairNetworkChainCommand, ResolveDeepReorgCommand } from '../../domain-layer/commands';
+import type { RepairNetworkChainCommandDto, ResolveDeepReorgCommandDto } from '../../domain-layer/commands';
+import type { ChainRepairResult, DeepReorgState } from '../../domain-layer/services';
 
 @Injectable()
 export class NetworkCommandFactoryService implements BlocksCommandExecutor {
@@ -15,4 +18,12 @@ export class NetworkCommandFactoryService implements BlocksCommandExecutor {
   public async handleBatch(dto: any): Promise<void> {
     await this.commandBus.execute(new AddBlocksBatchCommand({ ...dto }));
   }
+
+  public async repairChain(dto: RepairNetworkChainCommandDto): Promise<ChainRepairResult> {
+    return await this.commandBus.execute(new RepairNetworkChainCommand(dto));
+  }
+
+  public async resolveDeepReorg(dto: ResolveDeepReorgCommandDto): Promise<{ deepReorg: DeepReorgState }> {
+    return await this.commandBus.execute(new ResolveDeepReorgCommand(dto));
+  }
 }
@@ -17,12 +17,31 @@ import {
 } from '../application-layer/services';
 import {
   NetworkModelFactoryService,
+  ChainIdentityModelFactoryService,
+  ChainIdentityModel,
+  ReorgHistoryModelFactoryService,
+  ReorgHistoryModel,
   MempoolModelFactoryService,
   MempoolReadService,
   NetworkReadService,
+  ExecutionContextFactoryService,
+  ModelBackfillService,
+  PrevoutResolverService,
+  ChainValidationService,
+  ChainRepairService,
+  DeepReorgGuardService,
   NETWORK_AGGREGATE_ID,
   MEMPOOL_AGGREGATE_ID,
+  CHAIN_IDENTITY_AGGREGATE_ID,
+  REORG_HISTORY_AGGREGATE_ID,
 } from '../domain-layer/services';
+import {
+  SimulatedProviderService,
+  ProviderPoolService,
+  EsploraProviderService,
+  ProviderCompositionService,
+  toRpcConnections,
+} from '../infrastructure-layer/providers';
 import {
   AppConfig,
   BusinessConfig,
@@ -70,6 +89,7 @@ export class BrowserAppModule {
     const providersConfig = await transformAndValidate(ProvidersConfig, env, {
       validator: { whitelist: true },
     });
+    providersConfig.validateNetwork();
     const transportConfig = await transformAndValidate(TransportConfig, env, {
       validator: { whitelist: true },
     });
@@ -80,17 +100,16 @@ export class BrowserAppModule {
 
     const networkModel = new Network({ aggregateId: NETWORK_AGGREGATE_ID, maxSize: 0, blockHeight: -1 });
     const mempoolModel = new Mempool({ aggregateId: MEMPOOL_AGGREGATE_ID, blockHeight: -1 });
+    const chainIdentityModel = new ChainIdentityModel();
+    const reorgHistoryModel = new ReorgHistoryModel();
 
     const NormalizedModels = normalizeModelsBTC(Models);
     const userModels = NormalizedModels.map((ModelCtr) => new ModelCtr());
 
     // Browser only supports RPC (no P2P, no ZMQ)
-    const networkConnections: any = (providersConfig.PROVIDER_NETWORK_RPC_URLS ?? []).map((item) => ({
-      baseUrl: item,
-    }));
-    const mempoolConnections: any = (providersConfig.PROVIDER_MEMPOOL_RPC_URLS ?? []).map((item) => ({
-      baseUrl: item,
-    }));
+    // Credentials are sent by the RPC pools, never in the connection URLs
+    const networkConnections: any = toRpcConnections(providersConfig.getNetworkRpcEndpoints());
+    const mempoolConnections: any = toRpcConnections(providersConfig.getMempoolRpcEndpoints());
 
     return {
       module: BrowserAppModule,
@@ -98,7 +117,12 @@ export class BrowserAppModule {
       imports: [
         CqrsTransportModule.forRoot({
           isGlobal: true,
-          systemAggregates: [NETWORK_AGGREGATE_ID, MEMPOOL_AGGREGATE_ID],
+          systemAggregates: [
+            NETWORK_AGGREGATE_ID,
+            MEMPOOL_AGGREGATE_ID,
+            CHAIN_IDENTITY_AGGREGATE_ID,
+            REORG_HISTORY_AGGREGATE_ID,
+          ],
         }),
 
         // Browser NetworkTransportModule accepts only client-side transports:
@@ -130,7 +154,7 @@ export class BrowserAppModule {
           name: `${appName}-eventstore`,
           type: 'sqlite-opfs',
           database: eventstoreConfig.EVENTSTORE_DB_NAME,
-          aggregates: [...userModels, networkModel, mempoolModel],
+          aggregates: [...userModels, networkModel, mempoolModel, chainIdentityModel, reorgHistoryModel],
           logging: eventstoreConfig.isLogging(),
           sqliteRuntimeBaseUrl: eventstoreConfig.EVENTSTORE_SQLITE_RUNTIME_BASE_URL,
         }),
@@ -156,6 +180,7 @@ export class BrowserAppModule {
         { provide: ProvidersConfig, useValue: providersConfig },
         { provide: TransportConfig, useValue: transportConfig },
         { provide: 'BootstrapConfig', useValue: config },
+        { provide: 'UserProviders', useValue: Providers },
         { provide: 'FrameworkModelsConstructors', useValue: NormalizedModels },
         { provide: 'ConsolePromptService', useClass: ConsolePromptService },
         {
@@ -168,17 +193,31 @@ export class BrowserAppModule {
         ArithmeticService,
         NetworkCommandFactoryService,
         NetworkModelFactoryService,
+        ChainIdentityModelFactoryService,
+        ReorgHistoryModelFactoryService,
         ReadStateExceptionHandlerService,
         MempoolCommandFactoryService,
         MempoolModelFactoryService,
         MempoolReadService,
         NetworkReadService,
+        ExecutionContextFactoryService,
+        ModelBackfillService,
+        PrevoutResolverService,
+        ChainValidationService,
+        ChainRepairService,
+        DeepReorgGuardService,
+        SimulatedProviderService,
+        ProviderPoolService,
+        EsploraProviderService,
+        ProviderCompositionService,
         ...Providers,
       ],
       exports: [
         AppService,
         NetworkCommandFactoryService,
         NetworkModelFactoryService,
+        ChainIdentityModelFactoryService,
+        ReorgHistoryModelFactoryService,
         ReadStateExceptionHandlerService,
         MempoolCommandFactoryService,
         MempoolModelFactoryService,
@@ -195,6 +234,15 @@ export class BrowserAppModule {
         EventStoreModule,
         MempoolReadService,
         NetworkReadService,
+        ExecutionContextFactoryService,
+        ModelBackfillService,
+        PrevoutResolverService,
+        ChainValidationService,
+        ChainRepairService,
+        DeepReorgGuardService,
+        SimulatedProviderService,
+        ProviderPoolService,
+        EsploraProviderService,
         ...Providers,
       ],
     };
@@ -4,3 +4,7 @@ export * from './app.module';
 // Same framework exports as node index — Model, ModelFactoryService, ModelInput, etc.
 // These are pure TypeScript with no Node-only deps, safe for browser builds.
 export * from '../domain-layer/framework';
+export * from '../domain-layer/queries';
+export * from '../domain-layer/commands';
+export { SimulatedChain } from '../infrastructure-layer/providers';
+export type { SimulatedChainOptions, SimulatedChainStep } from '../infrastructure-layer/providers';
@@ -25,4 +25,16 @@ export class BlocksQueueConfig {
   })
   @IsNumber()
   BLOCKS_QUEUE_LOADER_PRELOADER_BASE_COUNT: number = 1;
+
+  @Transform(({ value }) => {
+    const n = parseInt(value, 10);
+    return n > 0 ? n : 50;
+  })
+  @IsNumber()
+  @JSONSchema({
+    description:
+      'Blocks fetched per step while a model behind the network catches up on its own backfill track (e.g. a newly added model or one with an earlier startHeight).',
+    default: 50,
+  })
+  BLOCKS_QUEUE_BACKFILL_BATCH_SIZE: number = 50;
 }
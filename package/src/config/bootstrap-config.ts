@@ -1,7 +1,15 @@
+import type { SimulatedChain } from '../infrastructure-layer/providers';
+
 export class BootstrapConfig {
   /**
    * Authoritative last processed block height provided by the bootstrap caller.
    * When set, this value has priority over START_BLOCK_HEIGHT from env.
    */
   lastBlockHeight?: number;
+
+  /**
+   * Chain served when NETWORK_PROVIDER_TYPE=simulated (default: generated from PROVIDER_SIMULATED_SEED).
+   * Lets tests script extends, forks and mempool changes on the instance they pass.
+   */
+  simulatedChain?: SimulatedChain;
 }
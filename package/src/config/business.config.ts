@@ -146,6 +146,84 @@ export class BusinessConfig {
   })
   MEMPOOL_MIN_FEE_RATE: number = 1;
 
+  @Transform(({ value }) => value === 'true')
+  @IsBoolean()
+  @JSONSchema({
+    description:
+      'Resolve previous outputs of block inputs (ctx.prevout / ctx.prevouts) from an in-memory cache of processed outputs, falling back to the provider',
+    default: false,
+  })
+  PREVOUT_RESOLVER_ENABLED: boolean = false;
+
+  @Transform(({ value }) => {
+    const n = parseInt(value, 10);
+    return n > 0 ? n : 500000;
+  })
+  @IsNumber()
+  @JSONSchema({
+    description: 'Maximum number of outputs kept in the prevout cache (least recently used are evicted first)',
+    default: 500000,
+  })
+  PREVOUT_CACHE_MAX_ENTRIES: number = 500000;
+
+  @Transform(({ value }) => {
+    const n = parseInt(value, 10);
+    return n > 0 ? n : 0;
+  })
+  @IsNumber()
+  @JSONSchema({
+    description:
+      'Maximum depth of a reorganisation handled automatically. Deeper ones pause ingestion until an operator resolves them with ResolveDeepReorgCommand. 0 = no limit',
+    default: 0,
+  })
+  NETWORK_MAX_REORG_DEPTH: number = 0;
+
+  @Transform(({ value }) => value === 'true')
+  @IsBoolean()
+  @JSONSchema({
+    description:
+      'Run RepairNetworkChainCommand on start, before the network is initialized: a broken link in the network model window is re-fetched from the provider and the models are rolled back to the last block it agrees with',
+    default: false,
+  })
+  NETWORK_REPAIR_CHAIN_ON_START: boolean = false;
+
+  @Transform(({ value }) => {
+    const n = parseInt(value, 10);
+    return n > 0 ? n : 86400000;
+  })
+  @IsNumber()
+  @JSONSchema({
+    description:
+      'How long an operator pin of the old chain holds after a deep reorganisation, in milliseconds. Once it expires, reorganisations orphaning the pinned blocks are handled like any other (a deep one pauses ingestion again)',
+    default: 86400000,
+  })
+  NETWORK_REORG_PIN_TTL_MS: number = 86400000;
+
+  @Transform(({ value }) => (value === 'proceed' || value === 'pin' ? value : undefined))
+  @IsOptional()
+  @IsIn(['proceed', 'pin'])
+  @JSONSchema({
+    description:
+      'Run ResolveDeepReorgCommand with this resolution on start, before the network is initialized. With nothing waiting for a decision a warning is logged and the crawler starts anyway; remove the variable once the reorganisation is resolved',
+    enum: ['proceed', 'pin'],
+    default: undefined,
+  })
+  NETWORK_RESOLVE_DEEP_REORG?: 'proceed' | 'pin';
+
+  @Transform(({ value }) => {
+    if (!value || value === '') return undefined;
+    const n = parseInt(value, 10);
+    return Number.isNaN(n) ? undefined : n;
+  })
+  @IsOptional()
+  @IsNumber()
+  @JSONSchema({
+    description:
+      'rollbackHeight passed with NETWORK_RESOLVE_DEEP_REORG=proceed when the fork point is outside of the network model window: the last height both chains share',
+    default: undefined,
+  })
+  NETWORK_RESOLVE_DEEP_REORG_ROLLBACK_HEIGHT?: number;
+
   /**
    * Returns normalized network configuration built from this config.
    */
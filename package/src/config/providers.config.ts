@@ -1,17 +1,37 @@
 import { Injectable } from '@nestjs/common';
 import { Transform } from 'class-transformer';
-import { IsString, IsNumber, IsOptional } from 'class-validator';
+import { IsString, IsNumber, IsOptional, IsBoolean, IsIn } from 'class-validator';
 import { JSONSchema } from 'class-validator-jsonschema';
 
-type ProviderType = 'rpc' | 'p2p';
+type ProviderType = 'rpc' | 'p2p' | 'simulated' | 'file' | 'esplora';
+
+export type RpcCredentials =
+  | { type: 'basic'; username: string; password: string }
+  | { type: 'bearer'; token: string }
+  | { type: 'cookie'; path: string };
+
+/** RPC URL without credentials, and the credentials to send in the Authorization header. */
+export interface RpcEndpointConfig {
+  url: string;
+  credentials?: RpcCredentials;
+}
+
+/** Comma-separated values kept by position (empty entries included) to line up with the RPC URLs. */
+const toPositionalList = ({ value }: { value: any }) =>
+  value
+    ? String(value)
+        .split(',')
+        .map((item: string) => item.trim())
+    : [];
 
 @Injectable()
 export class ProvidersConfig {
   @Transform(({ value }) => (value ? value : 'rpc'))
   @IsString()
   @JSONSchema({
-    description: 'Type of the network provider',
-    enum: ['rpc', 'p2p'],
+    description:
+      'Type of the network provider (simulated: deterministic in-memory chain, network and mempool; file: blk*.dat or NDJSON block files; esplora: Esplora/Electrs REST API)',
+    enum: ['rpc', 'p2p', 'simulated', 'file', 'esplora'],
   })
   NETWORK_PROVIDER_TYPE: ProviderType = 'rpc';
 
@@ -58,6 +78,25 @@ export class ProvidersConfig {
   })
   PROVIDER_NETWORK_ZMQ_ENDPOINT?: string;
 
+  @Transform(({ value }) => (value ? value : ''))
+  @IsString()
+  @IsOptional()
+  @JSONSchema({
+    description: 'ZMQ endpoint publishing rawtx when it differs from PROVIDER_NETWORK_ZMQ_ENDPOINT',
+  })
+  PROVIDER_MEMPOOL_ZMQ_ENDPOINT?: string;
+
+  @Transform(({ value }) => {
+    const n = parseInt(value, 10);
+    return n > 0 ? n : 1000;
+  })
+  @IsNumber()
+  @JSONSchema({
+    description:
+      'Tip polling interval of the blocks queue while ZMQ is configured; polls are answered from ZMQ notifications without RPC calls',
+  })
+  PROVIDER_NETWORK_ZMQ_POLL_INTERVAL_MS: number = 1000;
+
   @Transform(({ value }) => {
     if (!value) return [];
     try {
@@ -100,7 +139,7 @@ export class ProvidersConfig {
     try {
       return value.split(',').map((peer: string) => {
         const [host, port] = peer.trim().split(':');
-        if (!host || !port) {
+        if (!host || !port || !/^\d+$/.test(port.trim())) {
           throw new Error(`Invalid peer format: ${peer}. Expected format: host:port`);
         }
         return {
@@ -158,19 +197,258 @@ export class ProvidersConfig {
   })
   PROVIDER_RATE_LIMIT_REQUEST_DELAY_MS: number = 1000;
 
+  @Transform(({ value }) => (value ? String(value) : 'easylayer'))
+  @IsString()
+  @JSONSchema({
+    description: 'Seed of the simulated chain; the same seed always produces the same blocks',
+  })
+  PROVIDER_SIMULATED_SEED: string = 'easylayer';
+
+  @Transform(({ value }) => {
+    const n = parseInt(value, 10);
+    return Number.isNaN(n) ? 10 : n;
+  })
+  @IsNumber()
+  @JSONSchema({
+    description: 'Tip height of the simulated chain at startup',
+  })
+  PROVIDER_SIMULATED_INITIAL_HEIGHT: number = 10;
+
+  @Transform(({ value }) => {
+    const n = parseInt(value, 10);
+    return Number.isNaN(n) ? 2 : n;
+  })
+  @IsNumber()
+  @JSONSchema({
+    description: 'Generated non-coinbase transactions per simulated block (and mempool refill per interval)',
+  })
+  PROVIDER_SIMULATED_TXS_PER_BLOCK: number = 2;
+
+  @Transform(({ value }) => {
+    const n = parseInt(value, 10);
+    return n > 0 ? n : 0;
+  })
+  @IsNumber()
+  @JSONSchema({
+    description: 'Mine a simulated block every N milliseconds (0: the chain only changes when scripted)',
+  })
+  PROVIDER_SIMULATED_BLOCK_INTERVAL_MS: number = 0;
+
+  @Transform(({ value }) => (value ? String(value) : ''))
+  @IsString()
+  @IsOptional()
+  @JSONSchema({
+    description:
+      'File provider source: a bitcoind blocks directory (blk*.dat), an NDJSON block dump, or a directory of *.ndjson dumps',
+  })
+  PROVIDER_FILE_PATH?: string;
+
+  @Transform(({ value }) => (value ? value : 'auto'))
+  @IsIn(['auto', 'blk', 'ndjson'])
+  @JSONSchema({
+    description:
+      'Format of PROVIDER_FILE_PATH (auto: blk when the directory contains blk*.dat files, otherwise ndjson)',
+    enum: ['auto', 'blk', 'ndjson'],
+  })
+  PROVIDER_FILE_FORMAT: 'auto' | 'blk' | 'ndjson' = 'auto';
+
+  @Transform(({ value }) => value === 'true')
+  @IsBoolean()
+  @JSONSchema({
+    description:
+      'When the file source reaches its last block, continue with PROVIDER_NETWORK_RPC_URLS for live tailing (default false: stop at the last file block)',
+  })
+  PROVIDER_FILE_HANDOVER_TO_RPC: boolean = false;
+
+  @Transform(({ value }) => (value ? String(value) : ''))
+  @IsString()
+  @IsOptional()
+  @JSONSchema({
+    description:
+      'Base URL of the Esplora/Electrs REST API used by the esplora provider type (e.g. https://blockstream.info/api)',
+  })
+  PROVIDER_ESPLORA_URL?: string;
+
+  @Transform(({ value }) => value === 'true')
+  @IsBoolean()
+  @JSONSchema({
+    description:
+      'Sync the mempool from the Esplora API as well (default false: one request per mempool transaction, heavy on public instances)',
+  })
+  PROVIDER_ESPLORA_MEMPOOL: boolean = false;
+
+  @Transform(({ value }) => (value ? String(value) : ''))
+  @IsString()
+  @IsOptional()
+  @JSONSchema({
+    description:
+      'Directory of the on-disk block cache; fetched blocks are served from it when the chain is crawled again (Node.js only, unset: disabled)',
+  })
+  BLOCK_CACHE_DIR?: string;
+
+  @Transform(({ value }) => {
+    const n = parseInt(value, 10);
+    return n > 0 ? n : 1024;
+  })
+  @IsNumber()
+  @JSONSchema({
+    description: 'Maximum size of the block cache in megabytes; least recently used blocks are evicted first',
+  })
+  BLOCK_CACHE_MAX_SIZE_MB: number = 1024;
+
+  @Transform(({ value }) => {
+    const n = parseInt(value, 10);
+    return n > 0 ? n : 1;
+  })
+  @IsNumber()
+  @JSONSchema({
+    description:
+      'Number of PROVIDER_NETWORK_RPC_URLS endpoints that must report the same block hash before the crawler advances to a new tip (1: off)',
+  })
+  PROVIDER_TIP_CONSENSUS: number = 1;
+
+  @Transform(({ value }) => {
+    const n = parseInt(value, 10);
+    return n > 0 ? n : 10000;
+  })
+  @IsNumber()
+  @JSONSchema({
+    description: 'Interval in milliseconds of the health probes of the RPC provider pool',
+  })
+  PROVIDER_POOL_PROBE_INTERVAL_MS: number = 10000;
+
+  @Transform(({ value }) => {
+    const n = parseInt(value, 10);
+    return n > 0 ? n : 3;
+  })
+  @IsNumber()
+  @JSONSchema({
+    description: 'Consecutive failures after which an RPC endpoint is taken out of the pool',
+  })
+  PROVIDER_POOL_CIRCUIT_FAILURES: number = 3;
+
+  @Transform(({ value }) => {
+    const n = parseInt(value, 10);
+    return n > 0 ? n : 30000;
+  })
+  @IsNumber()
+  @JSONSchema({
+    description: 'Milliseconds before an RPC endpoint taken out of the pool gets a trial request',
+  })
+  PROVIDER_POOL_CIRCUIT_COOLDOWN_MS: number = 30000;
+
+  @Transform(({ value }) => {
+    const n = parseInt(value, 10);
+    return n >= 0 ? n : 2;
+  })
+  @IsNumber()
+  @JSONSchema({
+    description: 'RPC endpoints further behind the best tip are only used when no other endpoint is available',
+  })
+  PROVIDER_POOL_MAX_LAG_BLOCKS: number = 2;
+
+  @Transform(({ value }) => (value ? String(value) : ''))
+  @IsString()
+  @IsOptional()
+  @JSONSchema({
+    description:
+      "Path of bitcoind's .cookie file, used by RPC endpoints without other credentials and re-read when the node answers 401 (Node.js only)",
+  })
+  PROVIDER_RPC_COOKIE_PATH?: string;
+
+  @Transform(toPositionalList)
+  @IsOptional()
+  @JSONSchema({
+    description:
+      'RPC usernames by position of PROVIDER_NETWORK_RPC_URLS, comma-separated (a single value applies to every URL)',
+  })
+  PROVIDER_NETWORK_RPC_USERS?: string[];
+
+  @Transform(toPositionalList)
+  @IsOptional()
+  @JSONSchema({
+    description:
+      'RPC passwords by position of PROVIDER_NETWORK_RPC_URLS, comma-separated (a single value applies to every URL)',
+  })
+  PROVIDER_NETWORK_RPC_PASSWORDS?: string[];
+
+  @Transform(toPositionalList)
+  @IsOptional()
+  @JSONSchema({
+    description:
+      'Bearer tokens by position of PROVIDER_NETWORK_RPC_URLS, comma-separated (a single value applies to every URL)',
+  })
+  PROVIDER_NETWORK_RPC_TOKENS?: string[];
+
+  @Transform(toPositionalList)
+  @IsOptional()
+  @JSONSchema({
+    description:
+      'RPC usernames by position of PROVIDER_MEMPOOL_RPC_URLS, comma-separated (a single value applies to every URL)',
+  })
+  PROVIDER_MEMPOOL_RPC_USERS?: string[];
+
+  @Transform(toPositionalList)
+  @IsOptional()
+  @JSONSchema({
+    description:
+      'RPC passwords by position of PROVIDER_MEMPOOL_RPC_URLS, comma-separated (a single value applies to every URL)',
+  })
+  PROVIDER_MEMPOOL_RPC_PASSWORDS?: string[];
+
+  @Transform(toPositionalList)
+  @IsOptional()
+  @JSONSchema({
+    description:
+      'Bearer tokens by position of PROVIDER_MEMPOOL_RPC_URLS, comma-separated (a single value applies to every URL)',
+  })
+  PROVIDER_MEMPOOL_RPC_TOKENS?: string[];
+
+  @Transform(({ value }) => value === 'true')
+  @IsBoolean()
+  @JSONSchema({
+    description:
+      'Verify fetched blocks before they are processed: header hash, proof-of-work, merkle root, witness commitment and transactions against their hex. Requires the rpc provider type with several PROVIDER_NETWORK_RPC_URLS (default false)',
+  })
+  PROVIDER_VERIFY_BLOCKS: boolean = false;
+
   // ========== VALIDATION HELPERS ==========
 
-  // validateNetwork(): void {
-  //   if (this.NETWORK_PROVIDER_TYPE === 'RPC') {
-  //     if (!this.PROVIDER_NETWORK_RPC_URLS || this.PROVIDER_NETWORK_RPC_URLS.length === 0) {
-  //       throw new Error('PROVIDER_NETWORK_RPC_URLS is required when using RPC network provider type');
-  //     }
-  //   } else if (this.NETWORK_PROVIDER_TYPE === 'P2P') {
-  //     if (!this.PROVIDER_NETWORK_P2P_PEERS || this.PROVIDER_NETWORK_P2P_PEERS.length === 0) {
-  //       throw new Error('PROVIDER_NETWORK_P2P_PEERS is required when using P2P network provider type');
-  //     }
-  //   }
-  // }
+  /** Fails fast on settings the selected network provider type cannot start without. */
+  validateNetwork(): void {
+    if (this.NETWORK_PROVIDER_TYPE === 'p2p') {
+      if (!this.PROVIDER_NETWORK_P2P_PEERS || this.PROVIDER_NETWORK_P2P_PEERS.length === 0) {
+        throw new Error('PROVIDER_NETWORK_P2P_PEERS is required when using p2p network provider type');
+      }
+    }
+    if (this.isEsplora() && !this.PROVIDER_ESPLORA_URL) {
+      throw new Error('PROVIDER_ESPLORA_URL is required when using esplora network provider type');
+    }
+    if (
+      this.PROVIDER_TIP_CONSENSUS > 1 &&
+      this.PROVIDER_TIP_CONSENSUS > (this.PROVIDER_NETWORK_RPC_URLS?.length ?? 0)
+    ) {
+      throw new Error('PROVIDER_TIP_CONSENSUS cannot exceed the number of PROVIDER_NETWORK_RPC_URLS');
+    }
+    if (
+      this.isBlockVerificationEnabled() &&
+      !(this.NETWORK_PROVIDER_TYPE === 'rpc' && (this.PROVIDER_NETWORK_RPC_URLS?.length ?? 0) > 1)
+    ) {
+      throw new Error(
+        'PROVIDER_VERIFY_BLOCKS requires NETWORK_PROVIDER_TYPE=rpc with several PROVIDER_NETWORK_RPC_URLS, so a block failing verification is requested from another endpoint'
+      );
+    }
+
+    for (const kind of ['network', 'mempool'] as const) {
+      const urls = (kind === 'network' ? this.PROVIDER_NETWORK_RPC_URLS : this.PROVIDER_MEMPOOL_RPC_URLS) ?? [];
+      if (this.credentialLists(kind).some((list) => list && list.length > 1 && list.length !== urls.length)) {
+        const prefix = `PROVIDER_${kind.toUpperCase()}_RPC`;
+        throw new Error(
+          `${prefix}_USERS, ${prefix}_PASSWORDS and ${prefix}_TOKENS must have a single value or one per ${prefix}_URLS entry`
+        );
+      }
+    }
+  }
 
   // validateMempool(): void {
   //   if (!this.PROVIDER_MEMPOOL_RPC_URLS || this.PROVIDER_MEMPOOL_RPC_URLS.length === 0) {
@@ -178,6 +456,126 @@ export class ProvidersConfig {
   //   }
   // }
 
+  isSimulated(): boolean {
+    return this.NETWORK_PROVIDER_TYPE === 'simulated';
+  }
+
+  isFileSource(): boolean {
+    return this.NETWORK_PROVIDER_TYPE === 'file';
+  }
+
+  isEsplora(): boolean {
+    return this.NETWORK_PROVIDER_TYPE === 'esplora';
+  }
+
+  /** ZMQ notifications (Node.js only) apply to bitcoind providers; simulated and file sources are local. */
+  isZmqEnabled(): boolean {
+    return !!this.PROVIDER_NETWORK_ZMQ_ENDPOINT && !this.isSimulated() && !this.isFileSource() && !this.isEsplora();
+  }
+
+  /** Block integrity verification; the simulated chain has no real witness data and is not verified. */
+  isBlockVerificationEnabled(): boolean {
+    return this.PROVIDER_VERIFY_BLOCKS && !this.isSimulated();
+  }
+
+  /** Provider type passed to BlockchainProviderModule (simulated, file and esplora sources are served on top of rpc). */
+  getBlockchainProviderType(): 'rpc' | 'p2p' {
+    return this.NETWORK_PROVIDER_TYPE === 'p2p' ? 'p2p' : 'rpc';
+  }
+
+  /**
+   * Network connections for the p2p provider type: one entry with the peer list,
+   * the provider keeps up to `maxPeers` of them connected.
+   */
+  getP2PConnections() {
+    return [
+      {
+        peers: this.PROVIDER_NETWORK_P2P_PEERS ?? [],
+        maxPeers: this.PROVIDER_P2P_MAX_PEERS,
+        connectionTimeout: this.PROVIDER_P2P_CONNECTION_TIMEOUT,
+        maxBlocksBatchSize: this.PROVIDER_NETWORK_P2P_MAX_BLOCKS_BATCH_SIZE,
+      },
+    ];
+  }
+
+  /**
+   * Several RPC URLs are served by ProviderPoolService with health-scored routing; so is a single
+   * URL with credentials, as only the pool sends them (and re-reads a rotated cookie). The file
+   * source hands over to the same RPC calls.
+   */
+  isProviderPoolEnabled(): boolean {
+    const urls = this.PROVIDER_NETWORK_RPC_URLS?.length ?? 0;
+    return (
+      (this.NETWORK_PROVIDER_TYPE === 'rpc' || this.isFileSource()) &&
+      (urls > 1 || (urls === 1 && this.hasRpcCredentials('network')))
+    );
+  }
+
+  /** Mempool RPC calls go through a pool of their own when their URLs have credentials. */
+  isMempoolPoolEnabled(): boolean {
+    return this.hasRpcCredentials('mempool');
+  }
+
+  /** Whether any network or mempool RPC URL has credentials: in the URL, a cookie file, usernames or tokens. */
+  hasRpcCredentials(kind: 'network' | 'mempool'): boolean {
+    const endpoints = kind === 'network' ? this.getNetworkRpcEndpoints() : this.getMempoolRpcEndpoints();
+    return endpoints.some((endpoint) => !!endpoint.credentials);
+  }
+
+  getNetworkRpcEndpoints(): RpcEndpointConfig[] {
+    return this.rpcEndpoints(this.PROVIDER_NETWORK_RPC_URLS, this.credentialLists('network'));
+  }
+
+  getMempoolRpcEndpoints(): RpcEndpointConfig[] {
+    return this.rpcEndpoints(this.PROVIDER_MEMPOOL_RPC_URLS, this.credentialLists('mempool'));
+  }
+
+  private credentialLists(kind: 'network' | 'mempool') {
+    return kind === 'network'
+      ? [this.PROVIDER_NETWORK_RPC_USERS, this.PROVIDER_NETWORK_RPC_PASSWORDS, this.PROVIDER_NETWORK_RPC_TOKENS]
+      : [this.PROVIDER_MEMPOOL_RPC_USERS, this.PROVIDER_MEMPOOL_RPC_PASSWORDS, this.PROVIDER_MEMPOOL_RPC_TOKENS];
+  }
+
+  /**
+   * Credentials of each URL, first match wins: token, username/password, credentials
+   * embedded in the URL, cookie file. The returned URLs never contain credentials.
+   */
+  private rpcEndpoints(urls: string[] = [], [users = [], passwords = [], tokens = []]: (string[] | undefined)[]) {
+    const at = (list: string[], i: number) => (list.length === 1 ? list[0] : list[i]) || undefined;
+
+    return urls.map((raw, i): RpcEndpointConfig => {
+      const parsed = new URL(raw);
+      const embedded = parsed.username
+        ? { username: decodeURIComponent(parsed.username), password: decodeURIComponent(parsed.password) }
+        : undefined;
+      parsed.username = '';
+      parsed.password = '';
+      const url = parsed.toString().replace(/\/$/, '');
+
+      const token = at(tokens, i);
+      const username = at(users, i);
+      let credentials: RpcCredentials | undefined;
+      if (token) credentials = { type: 'bearer', token };
+      else if (username) credentials = { type: 'basic', username, password: at(passwords, i) ?? '' };
+      else if (embedded) credentials = { type: 'basic', ...embedded };
+      else if (this.PROVIDER_RPC_COOKIE_PATH) credentials = { type: 'cookie', path: this.PROVIDER_RPC_COOKIE_PATH };
+
+      return { url, ...(credentials && { credentials }) };
+    });
+  }
+
+  /**
+   * Mempool is synced when mempool RPC URLs are configured, from Esplora when PROVIDER_ESPLORA_MEMPOOL
+   * is set, and always on the simulated chain.
+   */
+  isMempoolEnabled(): boolean {
+    return (
+      this.isSimulated() ||
+      (this.isEsplora() && this.PROVIDER_ESPLORA_MEMPOOL) ||
+      (this.PROVIDER_MEMPOOL_RPC_URLS?.length ?? 0) > 0
+    );
+  }
+
   /**
    * RateLimits object for providers layer
    * {
@@ -0,0 +1,168 @@
+import { InitNetworkCommand } from '@easylayer/bitcoin';
+import type { BlockchainProviderService, Network } from '@easylayer/bitcoin';
+import type { EventStoreWriteService } from '@easylayer/common/eventstore';
+import { InitNetworkCommandHandler } from '../init-network.command-handler';
+import { Model, ModelVersionMismatchError, getModelIdByCtor } from '../../framework';
+import type { ModelFactoryService, NormalizedModelCtor } from '../../framework';
+import { ChainIdentityModel, ReorgHistoryModel } from '../../services';
+import type {
+  ChainIdentityModelFactoryService,
+  DeepReorgGuardService,
+  NetworkModelFactoryService,
+  ReorgHistoryModelFactoryService,
+} from '../../services';
+import type { BootstrapConfig, BusinessConfig } from '../../../config';
+
+class Balances extends Model {
+  static modelId = 'balances';
+  static version = 2;
+  static rebuildOnVersionMismatch = true;
+}
+
+class Unversioned extends Model {
+  static modelId = 'unversioned';
+}
+
+const identity = { network: 'mainnet', nativeCurrencySymbol: 'BTC', genesisHash: 'genesis' } as const;
+
+function setup({
+  startBlockHeight,
+  modelStartHeight,
+  Models = [Balances, Unversioned],
+}: {
+  startBlockHeight?: number;
+  modelStartHeight?: number;
+  Models?: NormalizedModelCtor[];
+}) {
+  const rollbacks: Array<{ modelIds: string[]; blockHeight: number }> = [];
+  const networkModel = {
+    aggregateId: 'network',
+    lastBlockHeight: 100,
+    init: jest.fn(async () => {}),
+    clearChain: jest.fn(async () => {}),
+  };
+  const deepReorgGuard = { invalidate: jest.fn() };
+
+  const eventStore: Pick<EventStoreWriteService, 'save' | 'rollback'> = {
+    save: async () => {},
+    rollback: async ({
+      modelsToRollback,
+      blockHeight,
+    }: {
+      modelsToRollback: { aggregateId: string }[];
+      blockHeight: number;
+    }) => {
+      rollbacks.push({ modelIds: modelsToRollback.map((m) => m.aggregateId), blockHeight });
+    },
+  };
+  const network: Pick<Network, 'aggregateId' | 'lastBlockHeight' | 'init' | 'clearChain'> = networkModel;
+  const networkModelFactory: Pick<NetworkModelFactoryService, 'initModel'> = {
+    initModel: async () => network as Network,
+  };
+  const recorded = new ChainIdentityModel();
+  recorded.record(identity);
+  const chainIdentityModelFactory: Pick<ChainIdentityModelFactoryService, 'initModel' | 'createNewModel'> = {
+    initModel: async () => recorded,
+    createNewModel: () => new ChainIdentityModel(),
+  };
+  const reorgHistoryModelFactory: Pick<ReorgHistoryModelFactoryService, 'createNewModel'> = {
+    createNewModel: () => new ReorgHistoryModel(),
+  };
+  const guard: Pick<DeepReorgGuardService, 'invalidate'> = deepReorgGuard;
+  const businessConfig: Pick<BusinessConfig, 'START_BLOCK_HEIGHT' | 'NETWORK_TYPE' | 'NETWORK_NATIVE_CURRENCY_SYMBOL'> =
+    {
+      START_BLOCK_HEIGHT: startBlockHeight,
+      NETWORK_TYPE: identity.network,
+      NETWORK_NATIVE_CURRENCY_SYMBOL: identity.nativeCurrencySymbol,
+    };
+  const provider: Pick<BlockchainProviderService, 'getCurrentBlockHeightFromNetwork' | 'getBasicBlockByHeight'> = {
+    getCurrentBlockHeightFromNetwork: async () => 120,
+    getBasicBlockByHeight: async () => ({ hash: identity.genesisHash }),
+  };
+  const modelFactory: Pick<ModelFactoryService, 'restoreByCtor' | 'getStartHeight' | 'createNewModel'> = {
+    // Stored events of Balances were written by version 1 and no upcasters cover 1 -> 2
+    restoreByCtor: async <T extends Model>(ModelCtor: NormalizedModelCtor<T>) => {
+      if (getModelIdByCtor(ModelCtor) === 'balances' && !rollbacks.length) {
+        throw new ModelVersionMismatchError('balances', 1, 2);
+      }
+      return new ModelCtor();
+    },
+    getStartHeight: () => modelStartHeight ?? startBlockHeight,
+    createNewModel: <T extends Model>(ModelCtor: NormalizedModelCtor<T>) => new ModelCtor(),
+  };
+  const bootstrapConfig: BootstrapConfig = {};
+
+  const handler = new InitNetworkCommandHandler(
+    eventStore as EventStoreWriteService,
+    networkModelFactory as NetworkModelFactoryService,
+    chainIdentityModelFactory as ChainIdentityModelFactoryService,
+    reorgHistoryModelFactory as ReorgHistoryModelFactoryService,
+    guard as DeepReorgGuardService,
+    businessConfig as BusinessConfig,
+    provider as BlockchainProviderService,
+    // The user confirms a reset when START_BLOCK_HEIGHT leaves a gap above the indexed blocks
+    { askDataResetConfirmation: async () => true },
+    Models,
+    modelFactory as ModelFactoryService,
+    bootstrapConfig
+  );
+
+  return { handler, rollbacks, networkModel, deepReorgGuard };
+}
+
+const init = (handler: InitNetworkCommandHandler) => handler.execute(new InitNetworkCommand({ requestId: 'req' }));
+
+describe('InitNetworkCommandHandler', () => {
+  it('rolls an outdated model back to its start height', async () => {
+    const { handler, rollbacks, networkModel } = setup({ startBlockHeight: 50 });
+
+    await init(handler);
+
+    expect(rollbacks).toEqual([{ modelIds: ['balances'], blockHeight: 49 }]);
+    expect(networkModel.init).toHaveBeenCalledTimes(1);
+  });
+
+  it('rebuilds from the model start height in listen mode', async () => {
+    const { handler, rollbacks } = setup({ modelStartHeight: 0 });
+
+    await init(handler);
+
+    expect(rollbacks).toEqual([{ modelIds: ['balances'], blockHeight: -1 }]);
+  });
+
+  it('refuses to rebuild without a start height to replay from', async () => {
+    const { handler, rollbacks, networkModel } = setup({});
+
+    await expect(init(handler)).rejects.toThrow(
+      'Model "balances" cannot be rebuilt after its version changed (1 -> 2): it has no start height to replay from.'
+    );
+    expect(rollbacks).toHaveLength(0);
+    expect(networkModel.init).not.toHaveBeenCalled();
+  });
+
+  it('clears the system aggregates on a data reset', async () => {
+    const { handler, rollbacks, networkModel, deepReorgGuard } = setup({
+      startBlockHeight: 150,
+      Models: [Unversioned],
+    });
+
+    await init(handler);
+
+    expect(rollbacks).toEqual([
+      { modelIds: ['unversioned', 'network', 'chain_identity', 'reorg_history'], blockHeight: -1 },
+    ]);
+    expect(networkModel.clearChain).toHaveBeenCalledTimes(1);
+    expect(networkModel.init).not.toHaveBeenCalled();
+    expect(deepReorgGuard.invalidate).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails on a version mismatch without the rebuild opt-in', async () => {
+    class Strict extends Balances {
+      static rebuildOnVersionMismatch = false;
+    }
+    const { handler, rollbacks } = setup({ startBlockHeight: 50, Models: [Strict] });
+
+    await expect(init(handler)).rejects.toThrow(ModelVersionMismatchError);
+    expect(rollbacks).toHaveLength(0);
+  });
+});
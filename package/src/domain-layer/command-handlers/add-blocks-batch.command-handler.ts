@@ -1,4 +1,4 @@
-import { Injectable, Inject, Logger } from '@nestjs/common';
+import { Injectable, Inject, Logger, Optional } from '@nestjs/common';
 import { CommandHandler, ICommandHandler } from '@easylayer/common/cqrs';
 import { EventStoreWriteService } from '@easylayer/common/eventstore';
 import {
@@ -6,22 +6,27 @@ import {
   Network,
   BlockchainProviderService,
   BlockchainValidationError,
+  LightBlock,
 } from '@easylayer/bitcoin';
-import { NetworkModelFactoryService, NetworkReadService, MempoolReadService } from '../services';
-import { ModelFactoryService, Model, NormalizedModelCtor } from '../framework';
-import type { ProcessBlockExecutionContext } from '../framework';
-
-function deepFreeze<T>(obj: T): T {
-  Object.getOwnPropertyNames(obj).forEach((name) => {
-    const value = (obj as any)[name];
-
-    if (value && typeof value === 'object') {
-      deepFreeze(value);
-    }
-  });
+import {
+  NetworkModelFactoryService,
+  ExecutionContextFactoryService,
+  ModelBackfillService,
+  PrevoutResolverService,
+  ReorgHistoryModelFactoryService,
+  DeepReorgGuardService,
+  ChainRepairService,
+} from '../services';
+import type { ReorgRecord } from '../services';
+import {
+  ModelFactoryService,
+  Model,
+  NormalizedModelCtor,
+  ModelEventValidationError,
+  getModelDependencyIds,
+} from '../framework';
+import type { BlockCacheService } from '../../infrastructure-layer/providers/cache';
 
-  return Object.freeze(obj);
-}
 @Injectable()
 @CommandHandler(AddBlocksBatchCommand)
 export class AddBlocksBatchCommandHandler implements ICommandHandler<AddBlocksBatchCommand> {
@@ -33,75 +38,170 @@ export class AddBlocksBatchCommandHandler implements ICommandHandler<AddBlocksBa
     @Inject('FrameworkModelsConstructors')
     private Models: NormalizedModelCtor[],
     private readonly modelFactoryService: ModelFactoryService,
-    private readonly networkReadService: NetworkReadService,
-    private readonly mempoolReadService: MempoolReadService
+    private readonly executionContextFactory: ExecutionContextFactoryService,
+    private readonly modelBackfill: ModelBackfillService,
+    private readonly prevoutResolver: PrevoutResolverService,
+    private readonly reorgHistoryModelFactory: ReorgHistoryModelFactoryService,
+    private readonly deepReorgGuard: DeepReorgGuardService,
+    private readonly chainRepair: ChainRepairService,
+    // Node.js only; absent in the browser build
+    @Optional() @Inject('BlockCache') private readonly blockCache?: BlockCacheService
   ) {}
 
   async execute({ payload }: AddBlocksBatchCommand) {
     const { batch, requestId } = payload;
 
+    // Rejected like a failed batch, so the queue keeps retrying until an operator resolves the deep reorg
+    await this.deepReorgGuard.assertNotPaused();
+
     try {
       const networkModel: Network = await this.networkModelFactory.initModel();
 
+      const batchStartHeight = Math.min(...batch.map((b: any) => b.height));
+
       const models: Model[] = [];
+      // Height each model already covers; models with a later start height skip earlier blocks
+      const coveredHeights = new Map<Model, number>();
+      // In-flight instances by model id, read by dependents via ctx.models (Models are in dependency order)
+      const instances = new Map<string, Model>();
+
+      for (const ModelCtor of this.Models) {
+        const dependencyLagging = getModelDependencyIds(ModelCtor).some((id) => !instances.has(id));
+        const m = dependencyLagging ? undefined : await this.modelBackfill.join(ModelCtor, batchStartHeight);
+
+        if (!m) {
+          // Behind the network: caught up on its own track, not saved with this batch
+          this.modelBackfill.schedule(ModelCtor);
+          continue;
+        }
 
-      for (const m of this.Models) {
-        models.push(await this.modelFactoryService.restoreByCtor(m));
+        models.push(m);
+        coveredHeights.set(m, m.lastBlockHeight);
+        instances.set(m.aggregateId, m);
       }
 
       await networkModel.addBlocks({ requestId, blocks: batch, logger: this.logger });
 
       for (const block of batch) {
-        const frozen = deepFreeze(block);
-        const ctx: ProcessBlockExecutionContext = {
-          block: frozen,
-          network: this.networkReadService,
-          mempool: this.mempoolReadService,
-          services: {
-            nodeProvider: this.blockchainProvider,
-            networkModelService: this.networkModelFactory,
-            userModelService: this.modelFactoryService,
-          },
-          networkConfig: this.blockchainProvider.config,
-        };
+        const ctx = await this.executionContextFactory.forBlock(block);
 
         for (const m of models) {
-          await m.processBlock(ctx);
+          if (block.height <= coveredHeights.get(m)!) continue;
+          await m.processBlock(this.executionContextFactory.forModel(ctx, m, instances));
         }
       }
 
-      await this.eventStore.save([...models, networkModel]);
+      await this.modelBackfill.write(() => this.eventStore.save([...models, networkModel]));
 
       this.logger.verbose('Blocks saved into eventstore');
     } catch (error) {
       if (error instanceof BlockchainValidationError) {
-        const networkModel: Network = await this.networkModelFactory.initModel();
-
-        const models: Model[] = this.Models.map((ModelCtr) => this.modelFactoryService.createNewModel(ModelCtr));
-
-        await networkModel.reorganisation({
-          reorgHeight: networkModel.lastBlockHeight, // IMPORTANT: last network height
-          requestId,
-          blocks: [],
-          service: this.blockchainProvider,
-          logger: this.logger,
-        });
-
-        // IMPORTANT: set blockHeight from last state of Network AFTER state reorganisation
-        const reorgHeight = networkModel.lastBlockHeight;
+        await this.reorganise(requestId);
+        return;
+      }
 
-        await this.eventStore.rollback({
-          modelsToRollback: models,
-          blockHeight: reorgHeight,
-          modelsToSave: [networkModel],
+      if (error instanceof ModelEventValidationError) {
+        // Nothing was saved: the whole batch is rejected and will be retried by the queue
+        this.logger.error('Model emitted an invalid event, batch rejected', {
+          args: {
+            modelId: error.modelId,
+            eventName: error.eventName,
+            blockHeight: error.blockHeight,
+            errors: error.errors,
+            requestId,
+          },
         });
-
-        this.logger.debug('Blocks successfully reorganized', { args: { blockHeight: reorgHeight, requestId } });
-        return;
+        throw error;
       }
 
       this.logger.warn('Error while adding blocks', { args: { message: (error as any)?.message } });
       throw error;
     }
   }
+
+  private async reorganise(requestId: string): Promise<void> {
+    const startedAt = Date.now();
+
+    const networkModel: Network = await this.networkModelFactory.initModel();
+    const blocksBefore: LightBlock[] = [...networkModel.getAllBlocks()];
+    const oldestHeight = blocksBefore[0]?.height ?? 0;
+
+    // Located on the in-memory model: nothing is saved until the guard lets it through
+    await networkModel.reorganisation({
+      reorgHeight: networkModel.lastBlockHeight, // IMPORTANT: last network height
+      requestId,
+      blocks: [],
+      service: this.blockchainProvider,
+      logger: this.logger,
+    });
+
+    // IMPORTANT: set blockHeight from last state of Network AFTER state reorganisation
+    const locatedHeight = networkModel.lastBlockHeight;
+    // Not even the oldest block of the window is shared with the provider's chain
+    const forkOutsideWindow = blocksBefore.length > 0 && locatedHeight < oldestHeight;
+    // With the fork outside of the window the operator tells where the chains meet
+    const { rollbackHeight: reorgHeight } = await this.deepReorgGuard.assess({
+      requestId,
+      forkHeight: forkOutsideWindow ? oldestHeight - 1 : locatedHeight,
+      orphaned: blocksBefore.filter((block) => block.height > locatedHeight),
+      forkOutsideWindow,
+    });
+    const rolledBackModels = await this.findModelsAbove(reorgHeight);
+
+    if (forkOutsideWindow) {
+      await this.chainRepair.rollbackTo(reorgHeight);
+    } else {
+      // Backfill tracks must not save on top of the rolled back state; lagging models are rescheduled later
+      await this.modelBackfill.cancelAll();
+      this.prevoutResolver.invalidateAbove(reorgHeight);
+      await this.blockCache?.invalidateAbove(reorgHeight);
+
+      const models: Model[] = this.Models.map((ModelCtr) => this.modelFactoryService.createNewModel(ModelCtr));
+      await this.eventStore.rollback({
+        modelsToRollback: models,
+        blockHeight: reorgHeight,
+        modelsToSave: [networkModel],
+      });
+    }
+
+    const durationMs = Date.now() - startedAt;
+    const orphaned = blocksBefore.filter((block) => block.height > reorgHeight);
+    const replacement = await this.deepReorgGuard.fetchNewBranch(orphaned);
+    await this.recordReorg({
+      requestId,
+      forkHeight: reorgHeight,
+      depth: orphaned.length,
+      orphanedHashes: orphaned.map((block) => block.hash),
+      replacementHashes: replacement.map((block) => block.hash),
+      rolledBackModels,
+      startedAt,
+      durationMs,
+    });
+
+    this.logger.debug('Blocks successfully reorganized', { args: { blockHeight: reorgHeight, requestId } });
+  }
+
+  /** Ids of the user models holding blocks above `height`, restored before they are rolled back. */
+  private async findModelsAbove(height: number): Promise<string[]> {
+    const ids: string[] = [];
+    for (const ModelCtor of this.Models) {
+      const m = await this.modelFactoryService.restoreByCtor(ModelCtor);
+      if (m.lastBlockHeight > height) ids.push(m.aggregateId);
+    }
+    return ids;
+  }
+
+  /** The rollback is already saved: a failure here loses the history entry, not the reorganisation. */
+  private async recordReorg(reorg: ReorgRecord): Promise<void> {
+    try {
+      const history = await this.reorgHistoryModelFactory.initModel();
+      history.record(reorg);
+      await this.eventStore.save(history);
+      this.deepReorgGuard.invalidate();
+    } catch (error) {
+      this.logger.warn('Could not record the reorganisation', {
+        args: { forkHeight: reorg.forkHeight, message: (error as any)?.message },
+      });
+    }
+  }
 }
@@ -3,6 +3,8 @@ import { InitNetworkCommandHandler } from './init-network.command-handler';
 import { InitMempoolCommandHandler } from './init-mempool.command-handler';
 import { SyncMempoolCommandHandler } from './sync-mempool.command-handler';
 import { RefreshMempoolCommandHandler } from './refresh-mempool.command-handler';
+import { RepairNetworkChainCommandHandler } from './repair-network-chain.command-handler';
+import { ResolveDeepReorgCommandHandler } from './resolve-deep-reorg.command-handler';
 
 export const CommandHandlers = [
   AddBlocksBatchCommandHandler,
@@ -10,4 +12,6 @@ export const CommandHandlers = [
   InitMempoolCommandHandler,
   SyncMempoolCommandHandler,
   RefreshMempoolCommandHandler,
+  RepairNetworkChainCommandHandler,
+  ResolveDeepReorgCommandHandler,
 ];
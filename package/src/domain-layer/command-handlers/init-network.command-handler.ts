@@ -2,9 +2,23 @@ import { Inject, Injectable, Logger } from '@nestjs/common';
 import { CommandHandler, ICommandHandler } from '@easylayer/common/cqrs';
 import { EventStoreWriteService } from '@easylayer/common/eventstore';
 import { InitNetworkCommand, Network, BlockchainProviderService } from '@easylayer/bitcoin';
-import { NetworkModelFactoryService } from '../services';
+import {
+  NetworkModelFactoryService,
+  ChainIdentityModelFactoryService,
+  ChainIdentityMismatchError,
+  ReorgHistoryModelFactoryService,
+  DeepReorgGuardService,
+  compareChainIdentity,
+} from '../services';
+import type { ChainIdentity } from '../services';
 import { BusinessConfig, BootstrapConfig } from '../../config';
-import { ModelFactoryService, NormalizedModelCtor } from '../framework';
+import {
+  ModelFactoryService,
+  NormalizedModelCtor,
+  ModelVersionMismatchError,
+  getModelVersion,
+  isRebuildOnVersionMismatch,
+} from '../framework';
 
 @Injectable()
 @CommandHandler(InitNetworkCommand)
@@ -13,6 +27,9 @@ export class InitNetworkCommandHandler implements ICommandHandler<InitNetworkCom
   constructor(
     private readonly eventStore: EventStoreWriteService,
     private readonly networkModelFactory: NetworkModelFactoryService,
+    private readonly chainIdentityModelFactory: ChainIdentityModelFactoryService,
+    private readonly reorgHistoryModelFactory: ReorgHistoryModelFactoryService,
+    private readonly deepReorgGuard: DeepReorgGuardService,
     private readonly businessConfig: BusinessConfig,
     private readonly blockchainProviderService: BlockchainProviderService,
     @Inject('ConsolePromptService')
@@ -34,6 +51,8 @@ export class InitNetworkCommandHandler implements ICommandHandler<InitNetworkCom
     const bootstrapLastBlockHeight = this.bootstrapConfig.lastBlockHeight;
 
     try {
+      await this.verifyChainIdentity(requestId);
+
       if (bootstrapLastBlockHeight !== undefined) {
         networkModel = await this.alignToExternalCheckpoint({
           networkModel,
@@ -42,6 +61,8 @@ export class InitNetworkCommandHandler implements ICommandHandler<InitNetworkCom
         });
       }
 
+      await this.rebuildOutdatedModels(requestId);
+
       const finalStartHeight = await this.determineStartHeight(
         networkModel.lastBlockHeight,
         configStartHeight,
@@ -72,11 +93,18 @@ export class InitNetworkCommandHandler implements ICommandHandler<InitNetworkCom
         // This event is NOT saved to eventstore, only published to trigger saga
         await networkModel.clearChain({ requestId });
 
+        // System aggregates too: a deep reorganisation paused on the old data must not block the new one
         await this.eventStore.rollback({
-          modelsToRollback: [...models, networkModel],
+          modelsToRollback: [
+            ...models,
+            networkModel,
+            this.chainIdentityModelFactory.createNewModel(),
+            this.reorgHistoryModelFactory.createNewModel(),
+          ],
           blockHeight: -1, // Clear everything
           modelsToSave: [networkModel],
         });
+        this.deepReorgGuard.invalidate();
 
         this.logger.log('Database cleared successfully, saga will reinitialize network');
         return;
@@ -87,6 +115,48 @@ export class InitNetworkCommandHandler implements ICommandHandler<InitNetworkCom
     }
   }
 
+  /**
+   * Records the chain the EventStore is built from on first init and refuses to start when a later
+   * start points at another one (NETWORK_TYPE, currency symbol or the provider's genesis block).
+   * A provider that cannot return block 0 only skips the genesis comparison; the hash is recorded
+   * on the first start where it is available.
+   */
+  private async verifyChainIdentity(requestId: string): Promise<void> {
+    const model = await this.chainIdentityModelFactory.initModel();
+    const current: ChainIdentity = {
+      network: this.businessConfig.NETWORK_TYPE,
+      nativeCurrencySymbol: this.businessConfig.NETWORK_NATIVE_CURRENCY_SYMBOL,
+      genesisHash: await this.fetchGenesisHash(),
+    };
+    const stored = model.identity;
+
+    if (stored) {
+      const mismatches = compareChainIdentity(stored, current);
+      if (mismatches.length) {
+        throw new ChainIdentityMismatchError(stored, current, mismatches);
+      }
+      if (stored.genesisHash || !current.genesisHash) return;
+    }
+
+    model.record(current);
+    await this.eventStore.save(model);
+
+    this.logger.log('Chain identity recorded', { module: 'network-init', args: { ...current, requestId } });
+  }
+
+  private async fetchGenesisHash(): Promise<string | undefined> {
+    try {
+      const genesis = await this.blockchainProviderService.getBasicBlockByHeight(0);
+      return genesis?.hash || undefined;
+    } catch (error) {
+      this.logger.warn('Genesis block is not available from the provider, chain identity is checked without it', {
+        module: 'network-init',
+        args: { message: (error as any)?.message },
+      });
+      return undefined;
+    }
+  }
+
   /**
    * Align the local EventStore write model with an external read-model checkpoint.
    *
@@ -174,6 +244,52 @@ export class InitNetworkCommandHandler implements ICommandHandler<InitNetworkCom
     );
   }
 
+  /**
+   * Checks every versioned model against its stored events before the queue starts.
+   * A model whose upcasters cannot bridge the stored version is either rolled back to its
+   * start height (opt-in `rebuildOnVersionMismatch`, other models are not touched) and then
+   * re-processed on its backfill track, or startup fails with ModelVersionMismatchError.
+   * A rebuild needs a start height (START_BLOCK_HEIGHT or the model's own) to replay from.
+   */
+  private async rebuildOutdatedModels(requestId: string): Promise<void> {
+    for (const ModelCtor of this.Models) {
+      if (getModelVersion(ModelCtor) === undefined) continue;
+
+      try {
+        await this.modelFactoryService.restoreByCtor(ModelCtor);
+      } catch (error) {
+        if (!(error instanceof ModelVersionMismatchError) || !isRebuildOnVersionMismatch(ModelCtor)) {
+          throw error;
+        }
+
+        // In listen mode the model would restart empty at the tip instead of replaying its history
+        const startHeight = this.modelFactoryService.getStartHeight(ModelCtor);
+        if (startHeight === undefined) {
+          throw new Error(
+            `Model "${error.modelId}" cannot be rebuilt after its version changed (${error.storedVersion} -> ${error.version}): ` +
+              'it has no start height to replay from. Set START_BLOCK_HEIGHT or the model start height, or add upcasters.'
+          );
+        }
+
+        this.logger.warn('Model version changed without upcasters — rebuilding model from its start height', {
+          module: 'network-init',
+          args: {
+            modelId: error.modelId,
+            storedVersion: error.storedVersion,
+            version: error.version,
+            startHeight,
+            requestId,
+          },
+        });
+
+        await this.eventStore.rollback({
+          modelsToRollback: [this.modelFactoryService.createNewModel(ModelCtor)],
+          blockHeight: startHeight - 1,
+        });
+      }
+    }
+  }
+
   private async determineStartHeight(
     currentDbHeight: number,
     configStartHeight: number | undefined,
@@ -0,0 +1,15 @@
+import { Injectable } from '@nestjs/common';
+import { CommandHandler, ICommandHandler } from '@easylayer/common/cqrs';
+import { RepairNetworkChainCommand } from '../commands';
+import { ChainRepairService } from '../services';
+import type { ChainRepairResult } from '../services';
+
+@Injectable()
+@CommandHandler(RepairNetworkChainCommand)
+export class RepairNetworkChainCommandHandler implements ICommandHandler<RepairNetworkChainCommand> {
+  constructor(private readonly chainRepair: ChainRepairService) {}
+
+  async execute({ payload }: RepairNetworkChainCommand): Promise<ChainRepairResult> {
+    return await this.chainRepair.repair();
+  }
+}
@@ -0,0 +1,16 @@
+import { Injectable } from '@nestjs/common';
+import { CommandHandler, ICommandHandler } from '@easylayer/common/cqrs';
+import { ResolveDeepReorgCommand } from '../commands';
+import { DeepReorgGuardService } from '../services';
+import type { DeepReorgState } from '../services';
+
+@Injectable()
+@CommandHandler(ResolveDeepReorgCommand)
+export class ResolveDeepReorgCommandHandler implements ICommandHandler<ResolveDeepReorgCommand> {
+  constructor(private readonly deepReorgGuard: DeepReorgGuardService) {}
+
+  async execute({ payload }: ResolveDeepReorgCommand): Promise<{ deepReorg: DeepReorgState }> {
+    const { resolution, rollbackHeight } = payload;
+    return { deepReorg: await this.deepReorgGuard.resolve(resolution, rollbackHeight) };
+  }
+}
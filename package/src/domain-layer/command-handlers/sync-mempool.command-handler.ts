@@ -2,14 +2,16 @@ import { Injectable, Inject, Logger } from '@nestjs/common';
 import { CommandHandler, ICommandHandler } from '@easylayer/common/cqrs';
 import { EventStoreWriteService } from '@easylayer/common/eventstore';
 import { SyncMempoolCommand, Mempool, BlockchainProviderService } from '@easylayer/bitcoin';
-import { MempoolModelFactoryService, NetworkReadService, MempoolReadService } from '../services';
+import { MempoolModelFactoryService, ExecutionContextFactoryService } from '../services';
 import { ModelFactoryService, Model, NormalizedModelCtor } from '../framework';
-import type { MempoolTickExecutionContext } from '../framework';
 
 @Injectable()
 @CommandHandler(SyncMempoolCommand)
 export class SyncMempoolCommandHandler implements ICommandHandler<SyncMempoolCommand> {
   private readonly logger = new Logger(SyncMempoolCommandHandler.name);
+  // Syncs come from the mempool loader and from ZMQ notifications; they run one at a time
+  private running: Promise<void> = Promise.resolve();
+
   constructor(
     private readonly eventStore: EventStoreWriteService,
     @Inject('FrameworkModelsConstructors')
@@ -17,11 +19,16 @@ export class SyncMempoolCommandHandler implements ICommandHandler<SyncMempoolCom
     private readonly modelFactoryService: ModelFactoryService,
     private readonly mempoolModelFactory: MempoolModelFactoryService,
     private readonly blockchainProvider: BlockchainProviderService,
-    private readonly networkReadService: NetworkReadService,
-    private readonly mempoolReadService: MempoolReadService
+    private readonly executionContextFactory: ExecutionContextFactoryService
   ) {}
 
-  async execute({ payload }: SyncMempoolCommand) {
+  async execute(command: SyncMempoolCommand) {
+    const run = this.running.then(() => this.sync(command));
+    this.running = run.catch(() => undefined);
+    return run;
+  }
+
+  private async sync({ payload }: SyncMempoolCommand) {
     const { requestId } = payload;
 
     const mempoolModel: Mempool = await this.mempoolModelFactory.initModel();
@@ -39,18 +46,13 @@ export class SyncMempoolCommandHandler implements ICommandHandler<SyncMempoolCom
         logger: this.logger,
       });
 
-      const ctx: MempoolTickExecutionContext = {
-        network: this.networkReadService,
-        mempool: this.mempoolReadService,
-        networkConfig: this.blockchainProvider.config,
-        services: {
-          nodeProvider: this.blockchainProvider,
-          userModelService: this.modelFactoryService,
-        },
-      };
+      const ctx = this.executionContextFactory.forMempool();
+
+      // Models are in dependency order, so ctx.models sees dependencies already ticked
+      const instances = new Map(models.map((m) => [m.aggregateId, m] as const));
 
       for (const m of models) {
-        await m.mempoolTick?.(ctx);
+        await m.mempoolTick?.(this.executionContextFactory.forModel(ctx, m, instances));
       }
 
       await this.eventStore.save([...models, mempoolModel]);
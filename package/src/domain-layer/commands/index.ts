@@ -0,0 +1,2 @@
+export * from './repair-network-chain.command';
+export * from './resolve-deep-reorg.command';
@@ -0,0 +1,12 @@
+export interface RepairNetworkChainCommandDto {
+  requestId: string;
+}
+
+/**
+ * When GetNetworkStatsQuery reports a broken link, re-fetches the broken range from the provider
+ * and rolls the network and user models back to the last block that matches it.
+ * Does nothing on a valid chain.
+ */
+export class RepairNetworkChainCommand {
+  constructor(public readonly payload: RepairNetworkChainCommandDto) {}
+}
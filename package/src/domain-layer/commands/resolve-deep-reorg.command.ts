@@ -0,0 +1,15 @@
+export interface ResolveDeepReorgCommandDto {
+  requestId: string;
+  resolution: 'proceed' | 'pin';
+  /** Only to proceed with a fork point outside of the network model window: the last height both chains share. */
+  rollbackHeight?: number;
+}
+
+/**
+ * Operator decision on the deep reorganisation ingestion is paused on.
+ * `proceed` lets the next reorganisation roll the models back onto the new branch, `pin` resumes
+ * ingestion on the old chain and keeps rejecting the reorganisations that would orphan it.
+ */
+export class ResolveDeepReorgCommand {
+  constructor(public readonly payload: ResolveDeepReorgCommandDto) {}
+}
@@ -1,19 +1,23 @@
 import { v4 as uuidv4 } from 'uuid';
-import { Injectable } from '@nestjs/common';
+import { Inject, Injectable, Optional } from '@nestjs/common';
 import { EventsHandler, IEventHandler } from '@easylayer/common/cqrs';
 import { BitcoinMempoolInitializedEvent, MempoolLoaderService } from '@easylayer/bitcoin';
 import { NetworkCommandFactoryService } from '../../application-layer/services';
+import type { ZmqNotificationsService } from '../../infrastructure-layer/providers/zmq';
 
 @Injectable()
 @EventsHandler(BitcoinMempoolInitializedEvent)
 export class BitcoinMempoolInitializedEventHandler implements IEventHandler<BitcoinMempoolInitializedEvent> {
   constructor(
     private readonly mempoolLoaderService: MempoolLoaderService,
-    private readonly networkCommandFactory: NetworkCommandFactoryService
+    private readonly networkCommandFactory: NetworkCommandFactoryService,
+    // Node.js only; absent in the browser build
+    @Optional() @Inject('ZmqNotifications') private readonly zmqNotifications?: ZmqNotificationsService
   ) {}
 
   async handle(event: BitcoinMempoolInitializedEvent) {
     this.mempoolLoaderService.start();
+    this.zmqNotifications?.startMempool();
     await this.networkCommandFactory.init({ requestId: uuidv4() });
   }
 }
@@ -0,0 +1,100 @@
+import { Model } from '../model';
+import { MODEL_BACKFILL_EVENT } from '../backfill';
+import { ModelEventValidationError, assertCatalogHandlers, defineEvent, validateModelEvent } from '../events';
+
+const events = {
+  Deposit: defineEvent<{ address: string; value: string }>(
+    (p: any) => (typeof p?.address === 'string' && typeof p?.value === 'string') || 'address and value must be strings'
+  ),
+  Reset: defineEvent(),
+};
+
+class Balances extends Model<typeof events> {
+  static modelId = 'balances';
+  static events = events;
+
+  public deposits: string[] = [];
+  public backfillDone = false;
+
+  protected onDeposit({ payload }: { payload: { address: string } }) {
+    this.deposits.push(payload.address);
+  }
+
+  protected onReset() {
+    this.deposits = [];
+  }
+
+  protected onModelBackfillProgressed(e: { payload: { done: boolean } }) {
+    super.onModelBackfillProgressed(e);
+    this.backfillDone = e.payload.done;
+  }
+}
+
+describe('Event catalog', () => {
+  it('accepts payloads matching the catalog', () => {
+    expect(() => validateModelEvent(events, 'balances', 'Deposit', 5, { address: 'bc1q', value: '1' })).not.toThrow();
+    expect(() => validateModelEvent(events, 'balances', 'Reset', 5, undefined)).not.toThrow();
+    // Models without a catalog keep the untyped behaviour
+    expect(() => validateModelEvent(undefined, 'balances', 'Anything', 5, 42)).not.toThrow();
+
+    const model = new Balances();
+    model.applyEvent('Deposit', 5, { address: 'bc1q', value: '1' });
+    expect(model.deposits).toEqual(['bc1q']);
+  });
+
+  it('rejects invalid payloads with the validator message', () => {
+    const model = new Balances();
+    expect(() => model.applyEvent('Deposit', 7, { address: 1 } as any)).toThrow(
+      'Model "balances" emitted invalid event "Deposit" at block 7: address and value must be strings'
+    );
+    expect(model.deposits).toEqual([]);
+
+    const strict = { Tagged: defineEvent((p: any) => (p ? ['tag is missing', 'label is missing'] : false)) };
+    expect(() => validateModelEvent(strict, 'm', 'Tagged', 1, {})).toThrow('tag is missing; label is missing');
+    expect(() => validateModelEvent(strict, 'm', 'Tagged', 1, null)).toThrow('payload does not match the event schema');
+
+    const throwing = {
+      Tagged: defineEvent(() => {
+        throw new Error('validator blew up');
+      }),
+    };
+    const error = (() => {
+      try {
+        validateModelEvent(throwing, 'm', 'Tagged', 3, {});
+      } catch (e) {
+        return e;
+      }
+    })();
+    expect(error).toBeInstanceOf(ModelEventValidationError);
+    expect(error).toMatchObject({ modelId: 'm', eventName: 'Tagged', blockHeight: 3, errors: ['validator blew up'] });
+  });
+
+  it('rejects events missing from the catalog', () => {
+    const model = new Balances();
+    expect(() => model.applyEvent('Withdraw' as any, 5, {})).toThrow(ModelEventValidationError);
+    expect(() => model.applyEvent('Withdraw' as any, 5, {})).toThrow('unknown event, expected one of: Deposit, Reset');
+    expect(() => validateModelEvent({}, 'm', 'Withdraw', 5, {})).toThrow('(empty catalog)');
+  });
+
+  it('lets framework events bypass the catalog', () => {
+    const model = new Balances();
+    expect(() => validateModelEvent(events, 'balances', MODEL_BACKFILL_EVENT, 5, { done: true })).not.toThrow();
+
+    model.applyEvent(MODEL_BACKFILL_EVENT as any, 5, { done: true } as any);
+    expect(model.backfillDone).toBe(true);
+  });
+
+  it('requires a handler for every catalog entry', () => {
+    expect(() => assertCatalogHandlers('balances', events, ['Deposit', 'Reset'], { strict: true })).not.toThrow();
+    expect(() => assertCatalogHandlers('balances', events, ['Deposit'], { strict: false })).toThrow(
+      'Model "balances" declares events without reducers: Reset'
+    );
+    // Class models may have handlers for events outside of the catalog, declarative ones may not
+    const handlers = ['Deposit', 'Reset', 'Legacy'];
+    expect(() => assertCatalogHandlers('balances', events, handlers, { strict: false })).not.toThrow();
+    expect(() => assertCatalogHandlers('balances', events, handlers, { strict: true })).toThrow(
+      'has reducers for events missing in its catalog: Legacy'
+    );
+    expect(() => assertCatalogHandlers('balances', undefined, [], { strict: true })).not.toThrow();
+  });
+});
@@ -0,0 +1,59 @@
+import { bytesToHex, computeMerkleRoot, hexToBytes, reverseHex, sha256d } from '../crypto';
+import { computeMerkleBranch, computeMerkleRootFromBranch, verifyTxMerkleProof } from '../merkle-proof';
+import type { TxMerkleProof } from '../merkle-proof';
+
+const txid = (n: number) => reverseHex(bytesToHex(sha256d(new Uint8Array([n]))));
+const hashOf = (hex: string) => reverseHex(bytesToHex(sha256d(hexToBytes(hex))));
+
+/** Proof of `txids[index]` with a header committing to their merkle root. */
+function proofOf(txids: string[], index: number): TxMerkleProof {
+  const merkleRoot = computeMerkleRoot(txids);
+  const header = '01000000' + 'aa'.repeat(32) + reverseHex(merkleRoot) + '29ab5f49' + 'ffff001d' + '1dac2b7c';
+  return {
+    txid: txids[index]!,
+    blockHash: hashOf(header),
+    blockHeight: 7,
+    merkleRoot,
+    index,
+    branch: computeMerkleBranch(txids, index),
+    header,
+  };
+}
+
+describe('Merkle proof', () => {
+  it('builds branches that lead to the merkle root for every position', () => {
+    for (const count of [1, 2, 3, 5, 8]) {
+      const txids = Array.from({ length: count }, (_, i) => txid(i));
+      txids.forEach((id, index) => {
+        const branch = computeMerkleBranch(txids, index);
+        expect(branch).toHaveLength(Math.ceil(Math.log2(count)));
+        expect(computeMerkleRootFromBranch(id, index, branch)).toBe(computeMerkleRoot(txids));
+        expect(verifyTxMerkleProof(proofOf(txids, index))).toBe(true);
+      });
+    }
+
+    expect(computeMerkleBranch([txid(0)], 0)).toEqual([]);
+    expect(() => computeMerkleBranch([txid(0)], 1)).toThrow(/out of range/);
+  });
+
+  it('rejects a proof with another txid, position or branch', () => {
+    const txids = Array.from({ length: 5 }, (_, i) => txid(i));
+    const proof = proofOf(txids, 4);
+
+    expect(verifyTxMerkleProof({ ...proof, txid: txid(9) })).toBe(false);
+    expect(verifyTxMerkleProof({ ...proof, index: 3 })).toBe(false);
+    expect(verifyTxMerkleProof({ ...proof, index: 4 + 8 })).toBe(false);
+    expect(verifyTxMerkleProof({ ...proof, branch: [txid(9), ...proof.branch.slice(1)] })).toBe(false);
+  });
+
+  it('checks that the header hashes to the block hash and commits to the merkle root', () => {
+    const txids = Array.from({ length: 3 }, (_, i) => txid(i));
+    const proof = proofOf(txids, 1);
+    const other = proofOf([txid(7), txid(8)], 0);
+
+    expect(verifyTxMerkleProof({ ...proof, header: undefined })).toBe(true);
+    expect(verifyTxMerkleProof({ ...proof, blockHash: other.blockHash })).toBe(false);
+    expect(verifyTxMerkleProof({ ...proof, header: other.header, blockHash: other.blockHash })).toBe(false);
+    expect(verifyTxMerkleProof({ ...proof, header: proof.header + '00' })).toBe(false);
+  });
+});
@@ -0,0 +1,103 @@
+import { classifyInputSpend, classifyOutputScript, getOutputScript } from '../script';
+import { walkBTC } from '../walker';
+
+const HASH160 = '751e76e8199196d454941c45d1b3a323f1433bd6';
+const P2PKH = '76a914' + HASH160 + '88ac';
+const P2SH = 'a914b472a266d0bd89c13706a4132ccfb16f7c3b9fcb87';
+const P2WPKH = '0014' + HASH160;
+const P2WSH = '00201863143c14c5166804bd19203356da136c985678cd4d27a1b8c6329604903262';
+const P2TR = '512079be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798';
+const PUBKEY = '02' + '11'.repeat(32);
+const SIG64 = 'aa'.repeat(64);
+
+describe('classifyOutputScript', () => {
+  it('derives addresses for standard outputs', () => {
+    expect(classifyOutputScript(P2PKH)).toEqual({ type: 'p2pkh', address: '1BgGZ9tcN4rm9KBzDn7KprQz87SZ26SAMH' });
+    expect(classifyOutputScript(P2SH)).toEqual({ type: 'p2sh', address: '3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy' });
+    expect(classifyOutputScript(P2WPKH).address).toBe('bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4');
+    expect(classifyOutputScript(P2WSH).address).toBe('bc1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3qccfmv3');
+    expect(classifyOutputScript(P2TR)).toEqual({
+      type: 'p2tr',
+      witnessVersion: 1,
+      address: 'bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0',
+    });
+  });
+
+  it('uses the network prefixes', () => {
+    expect(classifyOutputScript(P2WPKH, 'testnet').address).toBe('tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx');
+    expect(classifyOutputScript(P2WPKH, 'regtest').address!.startsWith('bcrt1q')).toBe(true);
+    expect(classifyOutputScript(P2PKH, 'testnet').address!.startsWith('m')).toBe(true);
+  });
+
+  it('recognizes op_return, multisig and nonstandard scripts', () => {
+    expect(classifyOutputScript('6a0568656c6c6f')).toEqual({
+      type: 'op_return',
+      opReturn: { pushes: ['68656c6c6f'], data: '68656c6c6f' },
+    });
+    expect(classifyOutputScript('51' + '21' + PUBKEY + '21' + PUBKEY + '52ae').type).toBe('multisig');
+    expect(classifyOutputScript('21' + PUBKEY + 'ac').type).toBe('p2pk');
+    expect(classifyOutputScript('deadbeef').type).toBe('nonstandard');
+  });
+
+  it('prefers the node-provided address and memoizes per vout', () => {
+    const vout = { scriptPubKey: { hex: P2PKH, address: 'node-address' } };
+    const script = getOutputScript(vout);
+    expect(script.address).toBe('node-address');
+    expect(getOutputScript(vout)).toBe(script);
+  });
+});
+
+describe('classifyInputSpend', () => {
+  it('classifies legacy and segwit v0 spends', () => {
+    expect(classifyInputSpend({ coinbase: '00' })).toEqual({ type: 'coinbase' });
+    expect(classifyInputSpend({ scriptSig: { hex: '47' + 'bb'.repeat(71) + '21' + PUBKEY } }).type).toBe('p2pkh');
+    expect(classifyInputSpend({ txinwitness: ['bb'.repeat(71), PUBKEY] })).toEqual({
+      type: 'p2wpkh',
+      witnessVersion: 0,
+    });
+    expect(classifyInputSpend({ scriptSig: { hex: '16' + P2WPKH }, txinwitness: ['bb'.repeat(71), PUBKEY] }).type).toBe(
+      'p2sh-p2wpkh'
+    );
+  });
+
+  it('distinguishes taproot key path and script path', () => {
+    expect(classifyInputSpend({ txinwitness: [SIG64] })).toEqual({
+      type: 'p2tr',
+      witnessVersion: 1,
+      taprootPath: 'key',
+    });
+    const control = 'c0' + '22'.repeat(32);
+    expect(classifyInputSpend({ txinwitness: [SIG64, '20' + '33'.repeat(32) + 'ac', control] }).taprootPath).toBe(
+      'script'
+    );
+    // annex is ignored
+    expect(classifyInputSpend({ txinwitness: [SIG64, '50aa'] }, P2TR).taprootPath).toBe('key');
+  });
+
+  it('uses the prevout script when known', () => {
+    expect(classifyInputSpend({ txinwitness: ['bb'.repeat(71), PUBKEY] }, P2TR).type).toBe('p2tr');
+    expect(classifyInputSpend({ scriptSig: { hex: '00' } }, P2PKH).type).toBe('p2pkh');
+  });
+});
+
+describe('walker contexts', () => {
+  it('exposes lazy script and spend getters', async () => {
+    const block = {
+      tx: [{ vin: [{ txinwitness: [SIG64] }], vout: [{ scriptPubKey: { hex: P2WPKH } }] }],
+    };
+    const base = { networkConfig: { network: 'testnet' } };
+
+    const vouts: any[] = [];
+    await walkBTC('block.tx.vout', block, (ctx) => {
+      vouts.push(Object.setPrototypeOf(ctx, base));
+    });
+    expect(Object.keys(vouts[0])).not.toContain('script');
+    expect(vouts[0].script.address).toBe('tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx');
+
+    const vins: any[] = [];
+    await walkBTC('block.tx.vin', block, (ctx) => {
+      vins.push(ctx);
+    });
+    expect(vins[0].spend.taprootPath).toBe('key');
+  });
+});
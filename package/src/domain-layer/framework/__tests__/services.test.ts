@@ -0,0 +1,64 @@
+import {
+  DeterministicProvider,
+  ModelServiceError,
+  ModelServices,
+  isDeterministicProvider,
+  markDeterministicProvider,
+} from '../services';
+
+@DeterministicProvider()
+class WatchlistRepository {
+  public readonly addresses = ['bc1qwatched'];
+}
+
+class PriceFeed {
+  public price(): number {
+    return 1;
+  }
+}
+
+const WATCHLIST_TOKEN = Symbol('WATCHLIST');
+
+describe('ModelServices', () => {
+  const watchlist = new WatchlistRepository();
+  const prices = new PriceFeed();
+  const container = new Map<any, any>([
+    [WatchlistRepository, watchlist],
+    [PriceFeed, prices],
+    ['PRICES', prices],
+    [WATCHLIST_TOKEN, { addresses: [] }],
+  ]);
+  const builtins = { nodeProvider: {}, userModelService: {} };
+  const services = new ModelServices((token) => container.get(token), builtins);
+
+  it('resolves providers by class and by token', () => {
+    expect(services.get(WatchlistRepository).addresses).toEqual(['bc1qwatched']);
+    expect(services.get<PriceFeed>('PRICES')).toBe(prices);
+    expect(services.has(PriceFeed)).toBe(true);
+    expect(services.nodeProvider).toBe(builtins.nodeProvider);
+  });
+
+  it('throws for unregistered providers', () => {
+    class Missing {}
+    expect(services.has(Missing)).toBe(false);
+    expect(() => services.get(Missing)).toThrow(ModelServiceError);
+    expect(() => services.get(Missing)).toThrow('no provider is registered');
+  });
+
+  it('limits deterministic models to deterministic providers', () => {
+    const restricted = services.forDeterministicModel('balances');
+
+    expect(restricted.get(WatchlistRepository)).toBe(watchlist);
+    // instance of a decorated class registered under a string token
+    container.set('WATCHLIST', watchlist);
+    expect(restricted.get('WATCHLIST')).toBe(watchlist);
+
+    expect(restricted.has(PriceFeed)).toBe(false);
+    expect(() => restricted.get(PriceFeed)).toThrow('Model "balances" cannot use service "PriceFeed"');
+    expect(() => restricted.nodeProvider).toThrow(ModelServiceError);
+
+    markDeterministicProvider(WATCHLIST_TOKEN);
+    expect(isDeterministicProvider(WATCHLIST_TOKEN)).toBe(true);
+    expect(restricted.get(WATCHLIST_TOKEN)).toEqual({ addresses: [] });
+  });
+});
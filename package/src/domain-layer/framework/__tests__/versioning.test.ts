@@ -0,0 +1,87 @@
+import { Model } from '../model';
+import {
+  MODEL_VERSION_EVENT,
+  ModelVersionMismatchError,
+  assertModelVersioning,
+  assertRestoredModelVersion,
+  getPendingVersionUpgrade,
+  hasUpcasterChain,
+} from '../versioning';
+
+class Deposits extends Model {
+  static modelId = 'deposits';
+  static version = 3;
+  static upcasters = {
+    // v1 stored numbers, v2 strings, v3 renamed `value` to `amount`
+    1: { Deposit: (p: any) => ({ ...p, value: String(p.value) }) },
+    2: { Deposit: ({ value, ...p }: any) => ({ ...p, amount: value }) },
+  };
+
+  public amounts: string[] = [];
+
+  protected onDeposit({ payload }: { payload: { amount: string } }) {
+    this.amounts.push(payload.amount);
+  }
+}
+
+/** Replays stored events the way the EventStore does: straight into the on{EventName} handlers. */
+const replay = (model: Model, events: Array<[string, number, any]>) => {
+  for (const [name, blockHeight, payload] of events) {
+    (model as any)[`on${name}`]({ blockHeight, payload });
+  }
+  return model;
+};
+
+describe('Model versioning', () => {
+  it('upcasts stored events from the version they were written with', () => {
+    const model = replay(new Deposits(), [
+      ['Deposit', 1, { value: 5 }],
+      [MODEL_VERSION_EVENT, 2, { from: 1, to: 2 }],
+      ['Deposit', 2, { value: '6' }],
+    ]) as Deposits;
+
+    expect(model.amounts).toEqual(['5', '6']);
+    expect(model.eventsVersion).toBe(2);
+    expect(getPendingVersionUpgrade(model, Deposits)).toEqual({ from: 2, to: 3 });
+
+    // The first event of the new version is preceded by the version stamp and is not upcast
+    model.applyEvent('Deposit', 3, { amount: '7' });
+    expect(model.eventsVersion).toBe(3);
+    expect(model.amounts).toEqual(['5', '6', '7']);
+    expect(getPendingVersionUpgrade(model, Deposits)).toBeUndefined();
+  });
+
+  it('rejects stored versions the upcasters do not bridge', () => {
+    expect(hasUpcasterChain(Deposits.upcasters, 1, 3)).toBe(true);
+    expect(hasUpcasterChain({ 2: {} }, 1, 3)).toBe(false);
+
+    class Rewritten extends Deposits {
+      static version = 4;
+      static upcasters = { 1: Deposits.upcasters[1], 2: Deposits.upcasters[2] } as any;
+    }
+    const stored = replay(new Rewritten(), [['Deposit', 1, { value: 5 }]]);
+
+    expect(() => assertRestoredModelVersion(stored, Rewritten, true)).toThrow(ModelVersionMismatchError);
+    expect(() => assertRestoredModelVersion(stored, Rewritten, true)).toThrow(
+      'Model "deposits" has events of version 1 but is declared as version 4, and no upcasters cover 1 -> 4.'
+    );
+    // Nothing stored yet, and models whose upcasters cover the change
+    expect(() => assertRestoredModelVersion(new Rewritten(), Rewritten, false)).not.toThrow();
+    expect(() => assertRestoredModelVersion(replay(new Deposits(), []), Deposits, true)).not.toThrow();
+  });
+
+  it('validates version declarations', () => {
+    const declaring = (statics: object) => Object.assign(class extends Deposits {}, statics);
+
+    expect(() => assertModelVersioning('deposits', Deposits)).not.toThrow();
+    expect(() => assertModelVersioning('m', declaring({ version: 0 }))).toThrow(
+      'Model "m" version must be a positive integer, got: 0'
+    );
+    expect(() => assertModelVersioning('m', declaring({ upcasters: { 3: {} } }))).toThrow(
+      'Model "m" has an upcaster for version 3 outside of 1..2'
+    );
+    expect(() => assertModelVersioning('m', declaring({ upcasters: { 1: { Deposit: 'x' } } }))).toThrow(
+      'Model "m" upcasters of version 1 are not functions: Deposit'
+    );
+  });
+});
@@ -0,0 +1,104 @@
+import { WalkerRegistry, btcWalkerRegistry, walkBTC } from '../walker';
+import type { SourceHandlers } from '../declarative';
+
+const P2PKH = '76a9141bc3305d889ed9519b8ab87cd43968b64f2d380d88ac';
+const P2TR = '5120' + 'ab'.repeat(32);
+// OP_RETURN <"hello"> <0x0102>
+const OP_RETURN = '6a' + '0568656c6c6f' + '020102';
+
+const block = {
+  height: 1,
+  tx: [
+    {
+      txid: 'a',
+      vin: [{ coinbase: '00' }],
+      vout: [{ n: 0, scriptPubKey: { hex: P2PKH } }],
+    },
+    {
+      txid: 'b',
+      vin: [
+        { txid: 'a', vout: 0, txinwitness: ['30440220', '02ff'] },
+        { txid: 'c', vout: 1 },
+      ],
+      vout: [
+        { n: 0, scriptPubKey: { hex: P2TR } },
+        { n: 1, scriptPubKey: { hex: OP_RETURN } },
+      ],
+    },
+  ],
+};
+
+async function collect(path: string, source: any = block): Promise<any[]> {
+  const out: any[] = [];
+  await walkBTC(path, source, (ctx) => {
+    out.push(ctx);
+  });
+  return out;
+}
+
+describe('walkBTC', () => {
+  it('keeps the built-in paths', async () => {
+    expect((await collect('block')).length).toBe(1);
+    expect((await collect('block.tx')).map((c) => c.tx.txid)).toEqual(['a', 'b']);
+    expect((await collect('block.tx.vin')).length).toBe(3);
+    expect((await collect('block.tx.vout')).length).toBe(3);
+    expect((await collect('mempool.tx', { tx: block.tx })).length).toBe(2);
+    expect(walkBTC.order?.('block.tx.vout')).toBe('reverse');
+    expect(walkBTC.order?.('block.tx')).toBe('forward');
+  });
+
+  it('walks witness stacks of segwit inputs only', async () => {
+    const ctxs = await collect('block.tx.witness');
+    expect(ctxs).toHaveLength(1);
+    expect(ctxs[0].vin.txid).toBe('a');
+    expect(ctxs[0].witness).toEqual(['30440220', '02ff']);
+  });
+
+  it('decodes OP_RETURN data pushes', async () => {
+    const ctxs = await collect('block.tx.vout.opreturn');
+    expect(ctxs).toHaveLength(1);
+    expect(ctxs[0].pushes).toEqual(['68656c6c6f', '0102']);
+    expect(ctxs[0].data).toBe('68656c6c6f0102');
+  });
+
+  it('walks taproot outputs with their output key', async () => {
+    const ctxs = await collect('block.tx.vout.taproot');
+    expect(ctxs).toHaveLength(1);
+    expect(ctxs[0].outputKey).toBe('ab'.repeat(32));
+  });
+
+  it('ignores unknown paths', async () => {
+    expect(await collect('block.unknown')).toEqual([]);
+  });
+});
+
+describe('WalkerRegistry', () => {
+  it('registers custom paths and rejects duplicates', async () => {
+    const registry = new WalkerRegistry().register('numbers', async (source: number[], fn) => {
+      for (const n of source) await fn({ n });
+    });
+
+    const seen: number[] = [];
+    await registry.walker('numbers', [1, 2], ({ n }) => {
+      seen.push(n);
+    });
+
+    expect(seen).toEqual([1, 2]);
+    expect(registry.has('numbers')).toBe(true);
+    expect(() => registry.register('numbers', async () => {})).toThrow('already registered');
+    expect(() => btcWalkerRegistry.register('block.tx', async () => {})).toThrow('already registered');
+  });
+});
+
+describe('SourceHandlers', () => {
+  it('types sources by registered walker path', () => {
+    const sources: SourceHandlers<{ data: string[] }> = {
+      'block.tx.vout.opreturn': (ctx) => ctx.data,
+      'block.tx.witness': (ctx) => ctx.witness.length,
+      // @ts-expect-error misspelled paths do not type-check, see walker.types.ts
+      'block.tx.vout.opretrun': () => [],
+    };
+
+    expect(Object.keys(sources).filter((path) => !btcWalkerRegistry.has(path))).toEqual(['block.tx.vout.opretrun']);
+  });
+});
@@ -0,0 +1,9 @@
+import type { SourceHandlers } from '../declarative';
+
+// Type test, checked by `yarn test:types` (tsc --noEmit); jest does not run it
+export const sources: SourceHandlers<{ data: string[] }> = {
+  'block.tx.vout.opreturn': (ctx) => ctx.data,
+  'block.tx.witness': (ctx) => ctx.witness.length,
+  // @ts-expect-error misspelled paths do not type-check
+  'block.tx.vout.opretrun': () => [],
+};
@@ -0,0 +1,33 @@
+import type { AnyModelCtor } from '@easylayer/common/framework';
+import { MODEL_VERSION_EVENT } from './versioning';
+
+/**
+ * Framework event emitted on a model while it catches up on its own backfill track.
+ * It makes the catch-up progress durable even for models that emit nothing for a range,
+ * and marks the hand-over to the shared AddBlocksBatch flow (`done: true`).
+ */
+export const MODEL_BACKFILL_EVENT = 'ModelBackfillProgressed';
+
+export type ModelBackfillState = 'running' | 'done';
+
+export interface ModelBackfillProgressedPayload {
+  done: boolean;
+}
+
+/** Framework-owned event names; they bypass user event catalogs. */
+export const FRAMEWORK_EVENT_NAMES: ReadonlySet<string> = new Set([MODEL_BACKFILL_EVENT, MODEL_VERSION_EVENT]);
+
+/** Declared start height of a model: static `startHeight` (compiled declarative models define it from options). */
+export function getModelStartHeight(Ctor: AnyModelCtor): number | undefined {
+  const h = (Ctor as any).startHeight;
+  return typeof h === 'number' && Number.isInteger(h) && h >= 0 ? h : undefined;
+}
+
+export function getModelBackfillState(model: object): ModelBackfillState | undefined {
+  return (model as any).backfillState;
+}
+
+/** Reducer shared by class-based and compiled declarative models. */
+export function reduceModelBackfillProgressed(model: object, e: { payload: ModelBackfillProgressedPayload }): void {
+  (model as any).backfillState = e.payload?.done ? 'done' : 'running';
+}
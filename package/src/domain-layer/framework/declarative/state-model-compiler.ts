@@ -1,108 +1,206 @@
 import type { Model, ZeroArgModelCtor } from '@easylayer/common/framework';
 import type { AggregateOptions } from '@easylayer/common/cqrs';
 import { StateModel } from './state-model';
-import type { ProcessBlockExecutionContext, MempoolTickExecutionContext } from '../types';
+import type { ProcessBlockExecutionContext, MempoolTickExecutionContext, Prevout } from '../types';
+import type { ApplyEventFn, EventCatalog, EventPayload, ModelEvent } from '../events';
+import { validateModelEvent } from '../events';
+import type { ModelUpcasters } from '../versioning';
+import type { ModelDependency } from '../dependencies';
+import { MODEL_VERSION_EVENT, getPendingVersionUpgrade, installModelUpcasters } from '../versioning';
+import type { InputSpend, OutputScript } from '../script';
 
 // Emits a compiled zero-args class with { state } on the instance
 export type CompiledModelClass<State, T extends Model = Model> = ZeroArgModelCtor<T & { state: State }>;
 
 // Reducer: pure mutator of state. No `this`, only (state, event)
 export type ReducerFn<State, E = any> = (state: State, e: E) => void;
-export type ReducersMap<State> = Record<string, ReducerFn<State, any>>;
+// With a typed catalog every event needs a reducer and the event payload is inferred
+export type ReducersMap<State, Events extends EventCatalog = EventCatalog> = {
+  [K in keyof Events]: ReducerFn<State, ModelEvent<EventPayload<Events[K]>>>;
+};
 
 // Selector: pure read helper. Receives readonly state and extra args
 export type SelectorFn<State, R = any> = (state: Readonly<State>, ...args: any[]) => R;
 export type SelectorsMap<State> = Record<string, SelectorFn<State, any>>;
 
+export type WalkOrder = 'forward' | 'reverse';
+
 // Walker signature remains generic (we stream sub-contexts)
-export type Walker = (from: string, source: any, fn: (ctx: any) => void | Promise<void>) => Promise<void>;
+export type Walker = ((from: string, source: any, fn: (ctx: any) => void | Promise<void>) => Promise<void>) & {
+  /** Registry-backed walkers: whether the path is registered (validates custom source paths). */
+  has?(path: string): boolean;
+  /** Registry-backed walkers: order in which sources receive the path contexts. */
+  order?(path: string): WalkOrder;
+};
 
-/** Per-block accumulator (not persisted). */
+/** Per-block accumulator (not persisted); custom walker paths collect into locals[path]. */
 export type Locals = {
   vout: any[];
   vin: any[];
   tx: any[];
+  [path: string]: any[];
 };
 
 // Minimal, read-only state wrapper for sources (compile-time only)
 type R<State> = Readonly<State>;
 
 /** Base ctx for block-phase handlers; `locals` is per-block. */
-export interface BlockBaseCtx<State> extends ProcessBlockExecutionContext {
+export interface BlockBaseCtx<State, Events extends EventCatalog = EventCatalog> extends ProcessBlockExecutionContext {
   /** Read-only view of model state; do not mutate here. */
   state: R<State>;
   /** Emit domain events; users call this manually where needed. */
-  applyEvent: (eventName: string, blockHeight: number, payload?: any) => void;
+  applyEvent: ApplyEventFn<Events>;
   /** Per-block accumulator; not persisted. */
   locals: Locals;
 }
 
-/** Base ctx for mempool-phase handlers; reuses the same Locals shape. */
-export interface MempoolBaseCtx<State> extends MempoolTickExecutionContext {
+/** Per-tick accumulator (not persisted); vout/vin/tx are filled only when block sources are reused. */
+export type MempoolLocals = Locals & {
+  mempoolTx: any[];
+  mempool: any[];
+};
+
+/** Base ctx for mempool-phase handlers. */
+export interface MempoolBaseCtx<State, Events extends EventCatalog = EventCatalog> extends MempoolTickExecutionContext {
   /** Read-only view of model state; do not mutate here. */
   state: R<State>;
   /** Emit domain events; users call this manually where needed. */
-  applyEvent: (eventName: string, blockHeight: number, payload?: any) => void;
+  applyEvent: ApplyEventFn<Events>;
   /** Per-tick accumulator; not persisted. */
-  locals: Locals;
+  locals: MempoolLocals;
 }
 
 // Block-phase contexts
-export interface VoutCtx<State> extends BlockBaseCtx<State> {
+export interface VoutCtx<State, Events extends EventCatalog = EventCatalog> extends BlockBaseCtx<State, Events> {
   block: any;
   tx: any;
   vout: any;
+  /** Lazily classified output script: type, address for the configured network, OP_RETURN data. */
+  readonly script: OutputScript;
 }
-export interface VinCtx<State> extends BlockBaseCtx<State> {
+export interface VinCtx<State, Events extends EventCatalog = EventCatalog> extends BlockBaseCtx<State, Events> {
   block: any;
   tx: any;
   vin: any;
+  /** Output spent by this input; undefined for coinbase inputs and unresolved prevouts. */
+  prevout?: Prevout;
+  /** Lazily classified spend type (exact when the prevout is known), incl. taproot key/script path. */
+  readonly spend: InputSpend;
 }
-export interface TxCtx<State> extends BlockBaseCtx<State> {
+export interface TxCtx<State, Events extends EventCatalog = EventCatalog> extends BlockBaseCtx<State, Events> {
   block: any;
   tx: any;
 }
-export interface BlockCtx<State> extends BlockBaseCtx<State> {
+export interface BlockCtx<State, Events extends EventCatalog = EventCatalog> extends BlockBaseCtx<State, Events> {
   block: any;
 }
 
 // Mempool-phase contexts (no block snapshot)
-export interface MempoolCtx<State> extends MempoolBaseCtx<State> {
+export interface MempoolCtx<State, Events extends EventCatalog = EventCatalog> extends MempoolBaseCtx<State, Events> {
   /** Full mempool snapshot object with tx: any[] */
   mempool: any;
 }
-export interface MempoolTxCtx<State> extends MempoolBaseCtx<State> {
+export interface MempoolTxCtx<State, Events extends EventCatalog = EventCatalog> extends MempoolBaseCtx<State, Events> {
   /** Single unconfirmed transaction from mempool. */
   tx: any;
 }
 
+/**
+ * Contexts of the walker paths declarative sources accept besides the built-in phases, keyed by path.
+ * Augment it next to the registration of a custom path so that sources for it type-check:
+ *
+ *   declare module '@easylayer/bitcoin-crawler' {
+ *     interface WalkerPathContexts {
+ *       'block.tx.coinbase': { block: any; tx: any };
+ *     }
+ *   }
+ */
+export interface WalkerPathContexts {
+  /** Witness stack of every segwit input. */
+  'block.tx.witness': { block: any; tx: any; vin: any; witness: string[]; readonly spend: InputSpend };
+  /** OP_RETURN outputs with their hex data pushes. */
+  'block.tx.vout.opreturn': {
+    block: any;
+    tx: any;
+    vout: any;
+    pushes: string[];
+    data: string;
+    readonly script: OutputScript;
+  };
+  /** Taproot (witness v1) outputs with their output key. */
+  'block.tx.vout.taproot': { block: any; tx: any; vout: any; outputKey: string; readonly script: OutputScript };
+}
+
+export type WalkerPath = Extract<keyof WalkerPathContexts, string>;
+
+/** Context of a walker path: the base context of its phase plus whatever the path walker provides. */
+export type PathCtx<
+  State,
+  Events extends EventCatalog = EventCatalog,
+  P extends WalkerPath = WalkerPath,
+> = (P extends `mempool${string}` ? MempoolBaseCtx<State, Events> : BlockBaseCtx<State, Events>) &
+  WalkerPathContexts[P];
+
 // High-level source handlers; returned values will be appended into ctx.locals.<phase>
-export type SourceHandlers<State> = {
-  vout?: (ctx: VoutCtx<State>) => any | any[] | void | Promise<any | any[] | void>;
-  vin?: (ctx: VinCtx<State>) => any | any[] | void | Promise<any | any[] | void>;
-  tx?: (ctx: TxCtx<State>) => any | any[] | void | Promise<any | any[] | void>;
-  block?: (ctx: BlockCtx<State>) => void | Promise<void>;
+export type SourceHandlers<State, Events extends EventCatalog = EventCatalog> = {
+  vout?: (ctx: VoutCtx<State, Events>) => any | any[] | void | Promise<any | any[] | void>;
+  vin?: (ctx: VinCtx<State, Events>) => any | any[] | void | Promise<any | any[] | void>;
+  tx?: (ctx: TxCtx<State, Events>) => any | any[] | void | Promise<any | any[] | void>;
+  block?: (ctx: BlockCtx<State, Events>) => void | Promise<void>;
 
   /** Mempool tick: whole-mempool handler (called once per tick). */
-  mempool?: (ctx: MempoolCtx<State>) => any | any[] | void | Promise<any | any[] | void>;
+  mempool?: (ctx: MempoolCtx<State, Events>) => any | any[] | void | Promise<any | any[] | void>;
   /** Mempool tick: per-transaction handler (called for each tx). */
-  mempoolTx?: (ctx: MempoolTxCtx<State>) => any | any[] | void | Promise<any | any[] | void>;
+  mempoolTx?: (ctx: MempoolTxCtx<State, Events>) => any | any[] | void | Promise<any | any[] | void>;
+} & {
+  /**
+   * Other registered walker paths (see WalkerPathContexts).
+   * Block paths run after `tx` and before `block`; mempool paths after `mempoolTx` and before `mempool`.
+   */
+  [P in WalkerPath]?: (ctx: PathCtx<State, Events, P>) => any | any[] | void | Promise<any | any[] | void>;
 };
 
+const BUILTIN_SOURCES = new Set(['vout', 'vin', 'tx', 'block', 'mempool', 'mempoolTx']);
+
 /** Declarative model descriptor. */
-export type DeclarativeModel<State> = {
+export type DeclarativeModel<State, Events extends EventCatalog = EventCatalog> = {
   /** Aggregate/model id; must be unique. */
   modelId: string;
   /** Initial state object or factory. */
   state: State | (() => State);
+  /** Event catalog; types applyEvent/reducers and validates payloads at runtime. */
+  events?: Events;
   /** Reducers map; attached as on{EventName} methods at runtime. */
-  reducers?: ReducersMap<State>;
+  reducers?: ReducersMap<State, Events>;
   /** Source handlers; order is enforced by the compiler. */
-  sources?: SourceHandlers<State>;
+  sources?: SourceHandlers<State, Events>;
+  /**
+   * Also run vout/vin/tx sources for unconfirmed txs on each mempool tick (default: false).
+   * Handlers then receive mempool contexts ({ mempool, tx, vout|vin }) without `block`.
+   */
+  reuseBlockSourcesInMempool?: boolean;
   /** Public read helpers; available as instance.<name>(...). */
   selectors?: SelectorsMap<State>;
-  /** Options forwarded to the base aggregate (snapshots/pruning/etc). */
-  options?: AggregateOptions;
+  /**
+   * Selectors reachable remotely via CallModelSelectorQuery (default: none).
+   * `true` exposes every selector, a list exposes only the named ones.
+   */
+  exposeSelectors?: boolean | string[];
+  /** Current model version (default: unversioned, treated as 1). */
+  version?: number;
+  /** Stored event upcasters keyed by source version N (N -> N+1), applied before reducers. */
+  upcasters?: ModelUpcasters;
+  /** Roll the model back to its start height on startup when no upcasters cover a version change. */
+  rebuildOnVersionMismatch?: boolean;
+  /** Models read via ctx.models.get(...) (class ctors or declarative descriptors); processed before this one. */
+  dependsOn?: ModelDependency[];
+  /** Restrict ctx.services to providers marked deterministic (see services.ts). */
+  deterministic?: boolean;
+  /**
+   * Options forwarded to the base aggregate (snapshots/pruning/etc).
+   * `startHeight` is consumed by the framework: first block this model processes (default: START_BLOCK_HEIGHT).
+   */
+  options?: AggregateOptions & { startHeight?: number };
 };
 
 /** Factory wrapper for initial state. */
@@ -122,27 +220,91 @@ function pushTo(arr: any[], ret: any | any[] | void): void {
 
 /**
  * Compiles a declarative model into a zero-args class that extends StateModel<State>.
- * Order: vout (reverse) → vin (reverse) → tx (forward) → block (once).
- * Returns from handlers are appended into ctx.locals.<phase>.
+ * Order: vout (reverse) → vin (reverse) → tx (forward) → other walker paths → block (once).
+ * Mempool tick: mempoolTx (per tx) → other mempool walker paths → mempool (once); see mempoolTick().
+ * Returns from handlers are appended into ctx.locals.<phase> (ctx.locals[path] for other paths).
  * Reducers invoked as reducer(this.state, event).
  * Public selectors are exposed as instance methods defined from `selectors`.
+ * Events are validated against the optional `events` catalog before they are applied.
+ * Stored events of older versions pass through `upcasters` before they reach reducers.
  */
-export function compileStateModel<State>(
-  declarative: DeclarativeModel<State>,
+export function compileStateModel<State, Events extends EventCatalog = EventCatalog>(
+  declarative: DeclarativeModel<State, Events>,
   walker: Walker
 ): CompiledModelClass<State, Model> {
-  const { modelId, state, reducers, selectors, sources, options } = declarative;
+  const {
+    modelId,
+    state,
+    events,
+    reducers,
+    selectors,
+    sources,
+    options,
+    reuseBlockSourcesInMempool,
+    exposeSelectors,
+    version,
+    upcasters,
+    rebuildOnVersionMismatch,
+    dependsOn,
+    deterministic,
+  } = declarative;
   const makeState = asFactory(state);
   const has = (k: keyof NonNullable<typeof sources>) => Boolean(sources && sources[k]);
+  // Sources keyed by path, including paths registered at runtime
+  const pathSources = (sources ?? {}) as Record<string, ((ctx: any) => any) | undefined>;
+
+  // Sources for other registered walker paths, in declaration order
+  const customPaths = Object.keys(pathSources).filter((key) => !BUILTIN_SOURCES.has(key) && pathSources[key]);
+  if (walker.has) {
+    const unknown = customPaths.filter((path) => !walker.has!(path));
+    if (unknown.length) {
+      throw new Error(`Model "${modelId}" has sources for unregistered walker paths: ${unknown.join(', ')}`);
+    }
+  }
+  const blockPaths = customPaths.filter((path) => !path.startsWith('mempool'));
+  const mempoolPaths = customPaths.filter((path) => path.startsWith('mempool'));
+
+  /** Runs the source of a custom walker path; returns are appended into locals[path]. */
+  async function runPath(path: string, source: any, baseCtx: any, locals: Locals): Promise<void> {
+    const handler = pathSources[path]!;
+    const bucket = locals[path]!;
+
+    if (walker.order?.(path) === 'reverse') {
+      const bag: any[] = [];
+      await walker(path, source, (subctx) => {
+        bag.push(subctx);
+      });
+      for (let i = bag.length - 1; i >= 0; i--) {
+        Object.setPrototypeOf(bag[i], baseCtx);
+        pushTo(bucket, await handler(bag[i]));
+      }
+      return;
+    }
+
+    await walker(path, source, async (subctx) => {
+      Object.setPrototypeOf(subctx, baseCtx);
+      pushTo(bucket, await handler(subctx));
+    });
+  }
 
   class Compiled extends StateModel<State> {
     private static readonly DEFAULT_START_HEIGHT = -1 as const;
+    static readonly modelId = modelId;
+    static readonly startHeight = options?.startHeight;
+    static readonly version = version;
+    static readonly upcasters = upcasters;
+    static readonly rebuildOnVersionMismatch = rebuildOnVersionMismatch;
+    static readonly dependsOn = dependsOn;
+    static readonly deterministic = deterministic;
+    static readonly exposedSelectors: string[] =
+      exposeSelectors === true ? Object.keys(selectors ?? {}) : Array.isArray(exposeSelectors) ? exposeSelectors : [];
 
     // selectors will be attached on the instance as read-only object
     public readonly selectors!: Record<string, (...args: any[]) => any>;
 
     constructor() {
-      const mergedOptions = { ...(options ?? {}), initialState: makeState };
+      const { startHeight: _startHeight, ...aggregateOptions } = options ?? {};
+      const mergedOptions = { ...aggregateOptions, initialState: makeState };
       super(modelId, Compiled.DEFAULT_START_HEIGHT, mergedOptions);
 
       // Bind reducers as on{EventName}; call with (this.state, e)
@@ -155,6 +317,7 @@ export function compileStateModel<State>(
           configurable: true,
         });
       }
+      installModelUpcasters(this, Compiled);
 
       // Bind selectors as instance.selectors.<name>(...args)
       if (selectors && Object.keys(selectors).length) {
@@ -188,6 +351,15 @@ export function compileStateModel<State>(
       // }
     }
 
+    public applyEvent(eventName: string, blockHeight: number, payload?: any) {
+      validateModelEvent(events, modelId, eventName, blockHeight, payload);
+
+      const upgrade = getPendingVersionUpgrade(this, Compiled);
+      if (upgrade) super.applyEvent(MODEL_VERSION_EVENT, blockHeight, upgrade);
+
+      return super.applyEvent(eventName, blockHeight, payload);
+    }
+
     // precise context type for block phase
     public async processBlock(ctx: ProcessBlockExecutionContext): Promise<void> {
       const block = ctx?.block;
@@ -198,6 +370,7 @@ export function compileStateModel<State>(
 
       // Per-block accumulator; not persisted
       const locals: Locals = { vout: [], vin: [], tx: [] };
+      for (const path of blockPaths) locals[path] = [];
 
       // Inject stable references into baseCtx
       Object.defineProperty(baseCtx, 'state', { value: this.state, writable: false, enumerable: false });
@@ -230,6 +403,7 @@ export function compileStateModel<State>(
         });
         for (let i = bag.length - 1; i >= 0; i--) {
           const subctx = bag[i] as VinCtx<State>;
+          subctx.prevout = ctx.prevouts?.get(subctx.vin);
           Object.setPrototypeOf(subctx, baseCtx);
           const ret = await (sources!.vin as any)(subctx);
           pushTo(locals.vin, ret);
@@ -246,7 +420,12 @@ export function compileStateModel<State>(
         });
       }
 
-      // 4) block — forward (once)
+      // 4) custom walker paths — in declaration order
+      for (const path of blockPaths) {
+        await runPath(path, block, baseCtx, locals);
+      }
+
+      // 5) block — forward (once)
       if (has('block')) {
         const subctx = { block } as BlockCtx<State>;
         Object.setPrototypeOf(subctx, baseCtx);
@@ -258,9 +437,13 @@ export function compileStateModel<State>(
      * Optional mempool tick.
      *
      * Order per tick:
-     *  - walker('mempool', mempool) → sources.mempool(ctx) once (if provided)
+     *  - (opt-in `reuseBlockSourcesInMempool`) vout (reverse) → vin (reverse) → tx (forward)
+     *    over the unconfirmed txs; returns go into locals.vout / locals.vin / locals.tx
      *  - walker('mempool.tx', mempool) → sources.mempoolTx(ctx) for each tx (if provided)
-     * Returns from handlers are appended into locals.mempool / locals.mempoolTx respectively.
+     *  - other registered mempool paths → sources[path](ctx), in declaration order
+     *  - walker('mempool', mempool) → sources.mempool(ctx) once (if provided)
+     * Returns from handlers are appended into locals.mempoolTx / locals.mempool respectively.
+     * The `block` source is never called during a tick.
      * Keep handlers idempotent for the same input tick.
      */
     public async mempoolTick(ctx: MempoolTickExecutionContext): Promise<void> {
@@ -271,7 +454,8 @@ export function compileStateModel<State>(
       const baseCtx = Object.create(ctx);
 
       // Per-tick accumulator for mempool; not persisted
-      const locals: Locals = { vout: [], vin: [], tx: [] };
+      const locals: MempoolLocals = { vout: [], vin: [], tx: [], mempoolTx: [], mempool: [] };
+      for (const path of mempoolPaths) locals[path] = [];
 
       // Inject stable references into baseCtx
       Object.defineProperty(baseCtx, 'state', { value: this.state, writable: false, enumerable: false });
@@ -282,49 +466,68 @@ export function compileStateModel<State>(
       });
       Object.defineProperty(baseCtx, 'locals', { value: locals, writable: false, enumerable: false });
 
-      // 1) vout — reverse
-      if (has('vout')) {
-        const bag: any[] = [];
-        await walker('mempool.tx.vout', mempool, (subctx) => {
-          bag.push(subctx);
-        });
-        for (let i = bag.length - 1; i >= 0; i--) {
-          const subctx = bag[i] as VoutCtx<State>;
-          Object.setPrototypeOf(subctx, baseCtx);
-          const ret = await (sources!.vout as any)(subctx);
-          pushTo(locals.vout, ret);
+      if (reuseBlockSourcesInMempool) {
+        // 1) vout — reverse
+        if (has('vout')) {
+          const bag: any[] = [];
+          await walker('mempool.tx.vout', mempool, (subctx) => {
+            bag.push(subctx);
+          });
+          for (let i = bag.length - 1; i >= 0; i--) {
+            const subctx = bag[i];
+            Object.setPrototypeOf(subctx, baseCtx);
+            const ret = await (sources!.vout as any)(subctx);
+            pushTo(locals.vout, ret);
+          }
         }
-      }
 
-      // 2) vin — reverse
-      if (has('vin')) {
-        const bag: any[] = [];
-        await walker('mempool.tx.vin', mempool, (subctx) => {
-          bag.push(subctx);
-        });
-        for (let i = bag.length - 1; i >= 0; i--) {
-          const subctx = bag[i] as VinCtx<State>;
-          Object.setPrototypeOf(subctx, baseCtx);
-          const ret = await (sources!.vin as any)(subctx);
-          pushTo(locals.vin, ret);
+        // 2) vin — reverse
+        if (has('vin')) {
+          const bag: any[] = [];
+          await walker('mempool.tx.vin', mempool, (subctx) => {
+            bag.push(subctx);
+          });
+          for (let i = bag.length - 1; i >= 0; i--) {
+            const subctx = bag[i];
+            Object.setPrototypeOf(subctx, baseCtx);
+            const ret = await (sources!.vin as any)(subctx);
+            pushTo(locals.vin, ret);
+          }
+        }
+
+        // 3) tx — forward
+        if (has('tx')) {
+          await walker('mempool.tx', mempool, async (subctx) => {
+            Object.setPrototypeOf(subctx, baseCtx);
+            const ret = await (sources!.tx as any)(subctx);
+            pushTo(locals.tx, ret);
+          });
         }
       }
 
-      // 3) tx — forward
-      if (has('tx')) {
+      // 4) mempoolTx — forward, per unconfirmed tx
+      if (has('mempoolTx')) {
         await walker('mempool.tx', mempool, async (subctx) => {
-          const ctxTx = subctx as MempoolTxCtx<State>;
+          const ctxTx = subctx as MempoolTxCtx<State, Events>;
           Object.setPrototypeOf(ctxTx, baseCtx);
-          const ret = await (sources!.tx as any)(ctxTx);
-          pushTo(locals.tx, ret);
+          const ret = await (sources!.mempoolTx as any)(ctxTx);
+          pushTo(locals.mempoolTx, ret);
         });
       }
 
-      // 4) block — forward (once)
-      if (has('block')) {
-        const subctx = { mempool } as MempoolCtx<State>;
-        Object.setPrototypeOf(subctx, baseCtx);
-        await (sources!.block as any)(subctx);
+      // 5) custom mempool walker paths — in declaration order
+      for (const path of mempoolPaths) {
+        await runPath(path, mempool, baseCtx, locals);
+      }
+
+      // 6) mempool — once per tick
+      if (has('mempool')) {
+        await walker('mempool', mempool, async (subctx) => {
+          const ctxMempool = subctx as MempoolCtx<State, Events>;
+          Object.setPrototypeOf(ctxMempool, baseCtx);
+          const ret = await (sources!.mempool as any)(ctxMempool);
+          pushTo(locals.mempool, ret);
+        });
       }
     }
   }
@@ -1,9 +1,19 @@
 import { Model } from '@easylayer/common/framework';
 import type { AggregateOptions } from '@easylayer/common/cqrs';
+import type { ModelBackfillState, ModelBackfillProgressedPayload } from '../backfill';
+import { reduceModelBackfillProgressed } from '../backfill';
+import type { ModelVersionUpgradedPayload } from '../versioning';
+import { reduceModelVersionUpgraded } from '../versioning';
 
 export abstract class StateModel<State> extends Model {
   public state: State;
 
+  /** Set by the framework while the model catches up on its backfill track. */
+  public backfillState?: ModelBackfillState;
+
+  /** Version of the events applied so far; set by the framework. */
+  public eventsVersion?: number;
+
   /** Optional default adapters at class level (can be overridden per instance in options). */
   static snapshotFieldAdapters?: Record<string, { toJSON(v: any): any; fromJSON(raw: any): any }>;
 
@@ -30,5 +40,19 @@ export abstract class StateModel<State> extends Model {
     if (Object.prototype.hasOwnProperty.call(revived ?? {}, 'state')) {
       this.state = revived.state as State;
     }
+    if (Object.prototype.hasOwnProperty.call(revived ?? {}, 'backfillState')) {
+      this.backfillState = revived.backfillState;
+    }
+    if (Object.prototype.hasOwnProperty.call(revived ?? {}, 'eventsVersion')) {
+      this.eventsVersion = revived.eventsVersion;
+    }
+  }
+
+  protected onModelBackfillProgressed(e: { payload: ModelBackfillProgressedPayload }): void {
+    reduceModelBackfillProgressed(this, e);
+  }
+
+  protected onModelVersionUpgraded(e: { payload: ModelVersionUpgradedPayload }): void {
+    reduceModelVersionUpgraded(this, e);
   }
 }
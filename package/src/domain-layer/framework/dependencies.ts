@@ -0,0 +1,125 @@
+import type { AnyModelCtor, Model, ZeroArgModelCtor } from '@easylayer/common/framework';
+import type { DeclarativeModel } from './declarative';
+
+/**
+ * Cross-model reads within the same block.
+ *
+ * A model declares the models it reads (class: `static dependsOn`, declarative: `dependsOn`):
+ *
+ *   static dependsOn = [UtxoModel];
+ *   ...
+ *   const utxo = ctx.models.get(UtxoModel); // same instance, already updated for ctx.block
+ *
+ * Models are processed in dependency order; cycles and unknown dependencies fail at normalize time.
+ */
+export type ModelDependency = AnyModelCtor | DeclarativeModel<any, any>;
+
+/** Logical id of a dependency reference (class ctor or declarative descriptor). */
+export function getDependencyId(dep: ModelDependency): string {
+  return typeof dep === 'function' ? (((dep as any).modelId ?? dep.name) as string) : dep.modelId;
+}
+
+/** Ids of the models this model declared as dependencies. */
+export function getModelDependencyIds(Ctor: AnyModelCtor): string[] {
+  const deps = ((Ctor as any).dependsOn ?? []) as ModelDependency[];
+  return deps.map((dep) => {
+    if (!dep || (typeof dep !== 'function' && typeof (dep as any).modelId !== 'string')) {
+      throw new Error(`Model "${(Ctor as any).modelId ?? Ctor.name}" has an invalid dependsOn entry: ${String(dep)}`);
+    }
+    return getDependencyId(dep);
+  });
+}
+
+/**
+ * Orders models so that every model comes after its dependencies (stable for independent models).
+ * Throws on dependencies that are not registered and on cycles.
+ */
+export function orderModelsByDependencies<C extends AnyModelCtor>(ctors: C[], getId: (Ctor: C) => string): C[] {
+  const byId = new Map<string, C>();
+  for (const Ctor of ctors) byId.set(getId(Ctor), Ctor);
+
+  const ordered: C[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  const visit = (Ctor: C, path: string[]) => {
+    const id = getId(Ctor);
+    if (state.get(id) === 'done') return;
+    if (state.get(id) === 'visiting') {
+      const cycle = [...path.slice(path.indexOf(id)), id];
+      throw new Error(`Model dependency cycle detected: ${cycle.join(' -> ')}`);
+    }
+
+    state.set(id, 'visiting');
+    for (const depId of getModelDependencyIds(Ctor)) {
+      const Dep = byId.get(depId);
+      if (!Dep) {
+        throw new Error(`Model "${id}" depends on "${depId}", which is not registered`);
+      }
+      visit(Dep, [...path, id]);
+    }
+    state.set(id, 'done');
+    ordered.push(Ctor);
+  };
+
+  for (const Ctor of ctors) visit(Ctor, []);
+  return ordered;
+}
+
+/** Dependencies of the model including transitive ones, in processing order. */
+export function collectModelDependencies<C extends AnyModelCtor>(Ctor: AnyModelCtor, ctors: C[]): C[] {
+  const wanted = new Set<string>();
+  const byId = new Map(ctors.map((C) => [getDependencyId(C), C] as const));
+
+  const walk = (C: AnyModelCtor) => {
+    for (const depId of getModelDependencyIds(C)) {
+      if (wanted.has(depId)) continue;
+      wanted.add(depId);
+      const Dep = byId.get(depId);
+      if (Dep) walk(Dep);
+    }
+  };
+  walk(Ctor);
+
+  // `ctors` is already in dependency order
+  return ctors.filter((C) => wanted.has(getDependencyId(C)));
+}
+
+export class ModelDependencyError extends Error {
+  constructor(
+    public readonly modelId: string,
+    public readonly dependencyId: string,
+    reason: string
+  ) {
+    super(`Model "${modelId}" cannot read "${dependencyId}": ${reason}`);
+    this.name = 'ModelDependencyError';
+  }
+}
+
+/**
+ * `ctx.models`: read access to in-flight instances of declared dependencies.
+ * Only declared dependencies are reachable, so the processing order always guarantees
+ * they are already updated for the current block.
+ */
+export class ModelsAccessor {
+  constructor(
+    private readonly ownerId: string,
+    private readonly allowed: ReadonlySet<string>,
+    private readonly instances: ReadonlyMap<string, Model>
+  ) {}
+
+  get<T extends Model>(Dep: ZeroArgModelCtor<T>): T;
+  get<State>(Dep: DeclarativeModel<State, any>): Model & { state: State };
+  get(Dep: ModelDependency): Model;
+  get(Dep: ModelDependency): Model {
+    const id = getDependencyId(Dep);
+    if (!this.allowed.has(id)) {
+      throw new ModelDependencyError(this.ownerId, id, 'it is not declared in dependsOn');
+    }
+
+    const instance = this.instances.get(id);
+    if (!instance) {
+      throw new ModelDependencyError(this.ownerId, id, 'it is not processed in this run');
+    }
+    return instance;
+  }
+}
@@ -0,0 +1,135 @@
+import { FRAMEWORK_EVENT_NAMES } from './backfill';
+
+/**
+ * Event catalog: a per-model declaration of the domain events it may emit.
+ *
+ * The catalog gives `applyEvent(...)` and reducers a shared, type-checked vocabulary
+ * and validates payloads at runtime, when the event is applied (i.e. before the
+ * EventStore ever persists it). Models without a catalog keep the untyped behaviour.
+ *
+ * Usage:
+ *   const events = {
+ *     Deposit: defineEvent<{ address: string; value: string }>((p: any) =>
+ *       typeof p?.address === 'string' || 'address must be a string'
+ *     ),
+ *     Reset: defineEvent(),
+ *   };
+ */
+
+/**
+ * Runtime payload check.
+ * Return `true`/`undefined` when valid; `false`, an error message or a list of messages otherwise.
+ */
+export type EventPayloadValidator = (payload: unknown) => boolean | string | string[] | void;
+
+export interface EventSchema<P = any> {
+  readonly validate?: EventPayloadValidator;
+  /** Type-only marker carrying the payload type; never set at runtime. */
+  readonly __payload?: P;
+}
+
+export type EventCatalog = Record<string, EventSchema<any>>;
+
+export type EventName<Events extends EventCatalog> = Extract<keyof Events, string>;
+
+export type EventPayload<S> = S extends EventSchema<infer P> ? P : any;
+
+/** Event as received by reducers / on{EventName} handlers. */
+export interface ModelEvent<P = any> {
+  payload: P;
+  blockHeight: number;
+  requestId?: string;
+  [key: string]: any;
+}
+
+/** applyEvent signature narrowed to a catalog (falls back to `string`/`any` for the default catalog). */
+export type ApplyEventFn<Events extends EventCatalog = EventCatalog> = <K extends EventName<Events>>(
+  eventName: K,
+  blockHeight: number,
+  payload?: EventPayload<Events[K]>
+) => void;
+
+export function defineEvent<P = void>(validate?: EventPayloadValidator): EventSchema<P> {
+  return { validate };
+}
+
+export class ModelEventValidationError extends Error {
+  constructor(
+    public readonly modelId: string,
+    public readonly eventName: string,
+    public readonly blockHeight: number,
+    public readonly errors: string[]
+  ) {
+    super(`Model "${modelId}" emitted invalid event "${eventName}" at block ${blockHeight}: ${errors.join('; ')}`);
+    this.name = 'ModelEventValidationError';
+  }
+}
+
+function toErrors(result: ReturnType<EventPayloadValidator>): string[] {
+  if (result === undefined || result === true) return [];
+  if (result === false) return ['payload does not match the event schema'];
+  if (Array.isArray(result)) return result;
+  return [result];
+}
+
+/**
+ * Validates an event against the model catalog.
+ * No-op when the model has no catalog.
+ * Throws ModelEventValidationError for unknown names or schema violations.
+ */
+export function validateModelEvent(
+  catalog: EventCatalog | undefined,
+  modelId: string,
+  eventName: string,
+  blockHeight: number,
+  payload: unknown
+): void {
+  if (!catalog || FRAMEWORK_EVENT_NAMES.has(eventName)) return;
+
+  const schema = catalog[eventName];
+  if (!schema) {
+    throw new ModelEventValidationError(modelId, eventName, blockHeight, [
+      `unknown event, expected one of: ${Object.keys(catalog).join(', ') || '(empty catalog)'}`,
+    ]);
+  }
+
+  if (!schema.validate) return;
+
+  let result: ReturnType<EventPayloadValidator>;
+  try {
+    result = schema.validate(payload);
+  } catch (e) {
+    result = (e as Error)?.message ?? String(e);
+  }
+
+  const errors = toErrors(result);
+  if (errors.length) {
+    throw new ModelEventValidationError(modelId, eventName, blockHeight, errors);
+  }
+}
+
+/**
+ * Ensures that every catalog event has a handler and (optionally) that every handler
+ * belongs to the catalog. Called at normalize time so mismatches fail on startup.
+ */
+export function assertCatalogHandlers(
+  modelName: string,
+  catalog: EventCatalog | undefined,
+  handlerNames: string[],
+  { strict }: { strict: boolean }
+): void {
+  if (!catalog) return;
+
+  const known = new Set(handlerNames);
+  const missing = Object.keys(catalog).filter((name) => !known.has(name));
+  if (missing.length) {
+    throw new Error(`Model "${modelName}" declares events without reducers: ${missing.join(', ')}`);
+  }
+
+  if (strict) {
+    const unknown = handlerNames.filter((name) => !(name in catalog));
+    if (unknown.length) {
+      throw new Error(`Model "${modelName}" has reducers for events missing in its catalog: ${unknown.join(', ')}`);
+    }
+  }
+}
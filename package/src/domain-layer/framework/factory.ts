@@ -3,11 +3,14 @@ import { EventStoreReadService } from '@easylayer/common/eventstore';
 import { Model } from '../framework';
 import type { ZeroArgModelCtor } from '../framework';
 import { BusinessConfig } from '../../config';
+import { getModelStartHeight } from './backfill';
+import { assertRestoredModelVersion } from './versioning';
 
 export interface IModelFactoryService {
   createNewModel<T extends Model>(ModelCtor: ZeroArgModelCtor<T>): T;
   restoreModel<T extends Model>(modelInstance: T): Promise<T>;
   restoreByCtor<T extends Model>(ModelCtor: ZeroArgModelCtor<T>): Promise<T>;
+  restoreByCtorAtHeight<T extends Model>(ModelCtor: ZeroArgModelCtor<T>, blockHeight: number): Promise<T>;
 }
 
 @Injectable()
@@ -21,9 +24,15 @@ export class ModelFactoryService implements IModelFactoryService {
     return this.instantiateModel(ModelCtor);
   }
 
+  /**
+   * Stored events of older model versions are upcast on the way to the handlers;
+   * throws ModelVersionMismatchError when the model upcasters cannot bridge the stored version.
+   */
   public async restoreModel<T extends Model>(modelInstance: T): Promise<T> {
     // Delegates to the EventStore to load events/snapshots into the given instance
-    return await this.eventStore.getOne<T>(modelInstance);
+    const restored = await this.eventStore.getOne<T>(modelInstance);
+    this.assertVersion(restored);
+    return restored;
   }
 
   public async restoreByCtor<T extends Model>(ModelCtor: ZeroArgModelCtor<T>): Promise<T> {
@@ -31,16 +40,38 @@ export class ModelFactoryService implements IModelFactoryService {
     return await this.restoreModel(instance);
   }
 
+  /**
+   * Height the model starts processing from: static `startHeight` (or declarative `options.startHeight`),
+   * fallback: START_BLOCK_HEIGHT. Undefined in listen mode for models without their own start height.
+   */
+  public getStartHeight<T extends Model>(ModelCtor: ZeroArgModelCtor<T>): number | undefined {
+    return getModelStartHeight(ModelCtor) ?? this.config.START_BLOCK_HEIGHT;
+  }
+
+  /** Restores the model state as of `blockHeight` (events above it are ignored). */
+  public async restoreByCtorAtHeight<T extends Model>(ModelCtor: ZeroArgModelCtor<T>, blockHeight: number): Promise<T> {
+    const instance = this.instantiateModel(ModelCtor);
+    const [restored] = await this.eventStore.getManyModelsByHeight([instance], blockHeight);
+    this.assertVersion(restored as T);
+    return restored as T;
+  }
+
+  private assertVersion<T extends Model>(model: T): void {
+    const ModelCtor = model.constructor as ZeroArgModelCtor<T>;
+    const start = this.getStartHeight(ModelCtor) ?? 0;
+    assertRestoredModelVersion(model, ModelCtor, model.lastBlockHeight >= start);
+  }
+
   private instantiateModel<T extends Model>(ModelCtor: ZeroArgModelCtor<T>): T {
     try {
       // 1) Create a new instance with zero-args constructor.
       const instance = new ModelCtor();
 
-      // 2) Set initial lastBlockHeight from business config.
+      // 2) Set initial lastBlockHeight from the model start height (fallback: business config).
       //    IMPORTANT: No fromSnapshot here (by design).
       //    We directly set the internal field so that
-      //    the first processed block equals START_BLOCK_HEIGHT.
-      const start = this.config.START_BLOCK_HEIGHT ?? 0;
+      //    the first processed block equals the start height.
+      const start = this.getStartHeight(ModelCtor) ?? 0;
       const normalizedHeight = start - 1;
 
       // WARNING:
@@ -5,4 +5,12 @@ export * from './model';
 export * from './declarative';
 export * from './normalizer';
 export * from './types';
+export * from './events';
+export * from './backfill';
+export * from './versioning';
+export * from './dependencies';
 export * from './query-factory';
+export * from './script';
+export * from './services';
+export * from './merkle-proof';
+export { computeMerkleRoot, serializeBlockHeader } from './crypto';
@@ -0,0 +1,76 @@
+import { bytesToHex, hexToBytes, reverseHex, sha256d } from './crypto';
+
+/**
+ * SPV inclusion proof of a transaction: the merkle branch from the txid up to the merkle root
+ * of its block, plus the serialized block header committing to that root.
+ *
+ * Hashes are in display (RPC) byte order.
+ */
+export interface TxMerkleProof {
+  txid: string;
+  blockHash: string;
+  blockHeight: number;
+  merkleRoot: string;
+  /** Position of the transaction in the block; selects left/right at every branch level. */
+  index: number;
+  /** Sibling hashes from the txid level up to (excluding) the root. */
+  branch: string[];
+  /** 80-byte block header (hex) when the block came with its header fields. */
+  header?: string;
+}
+
+const internal = (hash: string) => hexToBytes(reverseHex(hash));
+const display = (bytes: Uint8Array) => reverseHex(bytesToHex(bytes));
+
+function hashPair(left: Uint8Array, right: Uint8Array): Uint8Array {
+  const pair = new Uint8Array(64);
+  pair.set(left);
+  pair.set(right, 32);
+  return sha256d(pair);
+}
+
+/** Merkle branch of `txids[index]`; an odd last node is paired with itself like in Bitcoin Core. */
+export function computeMerkleBranch(txids: string[], index: number): string[] {
+  if (index < 0 || index >= txids.length) {
+    throw new Error(`Transaction index ${index} is out of range of ${txids.length} transactions`);
+  }
+
+  const branch: string[] = [];
+  let level = txids.map(internal);
+  let position = index;
+  while (level.length > 1) {
+    branch.push(display(level[position ^ 1] ?? level[position]!));
+    const next: Uint8Array[] = [];
+    for (let i = 0; i < level.length; i += 2) next.push(hashPair(level[i]!, level[i + 1] ?? level[i]!));
+    level = next;
+    position >>= 1;
+  }
+  return branch;
+}
+
+/** Merkle root the branch leads to from `txid` at `index`. */
+export function computeMerkleRootFromBranch(txid: string, index: number, branch: string[]): string {
+  let hash = internal(txid);
+  branch.forEach((sibling, level) => {
+    hash = (index >> level) & 1 ? hashPair(internal(sibling), hash) : hashPair(hash, internal(sibling));
+  });
+  return display(hash);
+}
+
+/**
+ * Checks a proof offline: the branch must lead from the txid to `merkleRoot`, and a `header`,
+ * when present, must hash to `blockHash` and commit to `merkleRoot`. Whether `blockHash` belongs
+ * to the best chain is up to the caller (e.g. compare it with a header chain it trusts).
+ */
+export function verifyTxMerkleProof(proof: TxMerkleProof): boolean {
+  if (proof.index >= 2 ** proof.branch.length) return false;
+  if (computeMerkleRootFromBranch(proof.txid, proof.index, proof.branch) !== proof.merkleRoot) return false;
+  if (proof.header === undefined) return true;
+
+  const header = hexToBytes(proof.header);
+  return (
+    header.length === 80 &&
+    display(sha256d(header)) === proof.blockHash &&
+    display(header.subarray(36, 68)) === proof.merkleRoot
+  );
+}
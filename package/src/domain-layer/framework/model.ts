@@ -1,22 +1,63 @@
 import { Model as FrameworkModel } from '@easylayer/common/framework';
+import type { AnyModelCtor } from '@easylayer/common/framework';
 import type { AggregateOptions } from '@easylayer/common/cqrs';
 import type { ProcessBlockExecutionContext, MempoolTickExecutionContext } from './types';
+import type { EventCatalog, EventName, EventPayload } from './events';
+import { validateModelEvent } from './events';
+import type { ModelBackfillState, ModelBackfillProgressedPayload } from './backfill';
+import { reduceModelBackfillProgressed } from './backfill';
+import type { ModelDependency } from './dependencies';
+import type { ModelUpcasters, ModelVersionUpgradedPayload } from './versioning';
+import {
+  MODEL_VERSION_EVENT,
+  getPendingVersionUpgrade,
+  installModelUpcasters,
+  reduceModelVersionUpgraded,
+} from './versioning';
 
 export type ZeroArgModelCtor<T extends Model = Model> = new () => T;
 
 /**
  * Minimal base for zero-args models:
  * - aggregateId is taken from static `modelId` (fallback: class name)
- * - start height is fixed at class level (DEFAULT_START_HEIGHT)
+ * - start height is fixed at class level (DEFAULT_START_HEIGHT); an optional static
+ *   `startHeight` makes the model backfill from that height on its own track
  * - only explicitly overridden options are forwarded to super()
  * - no dynamic hooks, no per-model overrides beyond the static partial
+ * - optional static `events` catalog: applyEvent(...) is type-checked against it
+ *   and payloads are validated at runtime before they reach the EventStore
+ * - optional static `version` + `upcasters`: stored events of older versions are upcast
+ *   before they reach on{EventName} handlers (see versioning.ts)
+ * - optional static `dependsOn`: in-flight instances of those models via ctx.models.get(...)
+ * - optional static `deterministic`: ctx.services only resolves providers marked deterministic
  *
  * NOTE: Uses `new.target` to access the actual subclass constructor
  * before calling `super(...)` (no `this` access before super).
  */
-export abstract class Model extends FrameworkModel {
+export abstract class Model<Events extends EventCatalog = EventCatalog> extends FrameworkModel {
   static modelId: string;
   static aggregateOptionsOverride?: Partial<AggregateOptions>;
+  static events?: EventCatalog;
+  /** Public methods reachable remotely via CallModelSelectorQuery (default: none). */
+  static exposedSelectors?: string[];
+  /** First block this model processes (default: START_BLOCK_HEIGHT). */
+  static startHeight?: number;
+  /** Current model version (default: unversioned, treated as 1). */
+  static version?: number;
+  /** Stored event upcasters keyed by source version N (N -> N+1). */
+  static upcasters?: ModelUpcasters;
+  /** Roll the model back to its start height on startup when no upcasters cover a version change. */
+  static rebuildOnVersionMismatch?: boolean;
+  /** Models read via ctx.models.get(...); they are processed before this one. */
+  static dependsOn?: ModelDependency[];
+  /** Restrict ctx.services to providers marked deterministic (see services.ts). */
+  static deterministic?: boolean;
+
+  /** Set by the framework while the model catches up on its backfill track. */
+  public backfillState?: ModelBackfillState;
+
+  /** Version of the events applied so far; set by the framework. */
+  public eventsVersion?: number;
 
   private static readonly DEFAULT_START_HEIGHT = -1 as const;
 
@@ -31,6 +72,26 @@ export abstract class Model extends FrameworkModel {
     const opts = (Ctor.aggregateOptionsOverride ?? undefined) as AggregateOptions | undefined;
 
     super(id, h, opts);
+
+    installModelUpcasters(this, this.constructor as AnyModelCtor);
+  }
+
+  public applyEvent<K extends EventName<Events>>(eventName: K, blockHeight: number, payload?: EventPayload<Events[K]>) {
+    const Ctor = this.constructor as typeof Model;
+    validateModelEvent(Ctor.events, this.aggregateId, eventName, blockHeight, payload);
+
+    const upgrade = getPendingVersionUpgrade(this, this.constructor as AnyModelCtor);
+    if (upgrade) super.applyEvent(MODEL_VERSION_EVENT, blockHeight, upgrade);
+
+    return super.applyEvent(eventName, blockHeight, payload);
+  }
+
+  protected onModelBackfillProgressed(e: { payload: ModelBackfillProgressedPayload }) {
+    reduceModelBackfillProgressed(this, e);
+  }
+
+  protected onModelVersionUpgraded(e: { payload: ModelVersionUpgradedPayload }) {
+    reduceModelVersionUpgraded(this, e);
   }
 
   public async processBlock(ctx: ProcessBlockExecutionContext): Promise<void> {}
@@ -1,6 +1,9 @@
 import type { Model, AnyModelCtor, ZeroArgModelCtor } from '@easylayer/common/framework';
 import type { DeclarativeModel, Walker } from './declarative';
 import { compileStateModel } from './declarative';
+import { assertCatalogHandlers } from './events';
+import { assertModelVersioning } from './versioning';
+import { orderModelsByDependencies } from './dependencies';
 
 export type ModelInput<T extends Model = Model> = AnyModelCtor<T> | DeclarativeModel<any>;
 export type NormalizedModelCtor<T extends Model = Model> = ZeroArgModelCtor<T>;
@@ -35,24 +38,64 @@ function requireZeroArgCtor<T extends Model>(Ctor: AnyModelCtor<T>, modelName: s
   return Ctor as ZeroArgModelCtor<T>;
 }
 
+/** Logical model id: static `modelId` (compiled declarative models define it too), fallback: class name. */
+export function getModelIdByCtor(Ctor: AnyModelCtor): string {
+  return ((Ctor as any).modelId ?? Ctor.name) as string;
+}
+
+/** Selectors the model opted in to expose remotely. */
+export function getExposedSelectors(Ctor: AnyModelCtor): string[] {
+  return ((Ctor as any).exposedSelectors ?? []) as string[];
+}
+
+/** Collects on{EventName} handler names along the prototype chain (without the `on` prefix). */
+function collectEventHandlerNames(Ctor: AnyModelCtor): string[] {
+  const names = new Set<string>();
+  for (let proto = Ctor.prototype; proto && proto !== Object.prototype; proto = Object.getPrototypeOf(proto)) {
+    for (const key of Object.getOwnPropertyNames(proto)) {
+      if (/^on[A-Z]/.test(key) && typeof proto[key] === 'function') names.add(key.slice(2));
+    }
+  }
+  return [...names];
+}
+
 /**
  * Normalizes inputs into zero-arg constructors.
  * - Class models are validated as-is.
  * - Declarative models are compiled with the provided walker, then validated.
+ * - Event catalogs (if any) are checked against reducers/on{EventName} handlers.
+ * - Declared versions and upcasters are validated.
+ * - The result is ordered by `dependsOn` (dependencies first); cycles and unknown dependencies throw.
  */
 export function normalizeModels(inputs: ModelInput[], walker: Walker): NormalizedModelCtor[] {
-  return (inputs ?? []).map((item) => {
+  const normalized = (inputs ?? []).map((item) => {
     if (isClassModel(item)) {
       const name = (item as Function).name || 'AnonymousModel';
+      assertCatalogHandlers(name, (item as any).events, collectEventHandlerNames(item), { strict: false });
+      const notMethods = getExposedSelectors(item).filter((sel) => typeof item.prototype[sel] !== 'function');
+      if (notMethods.length) {
+        throw new Error(`Model "${name}" exposes selectors that are not methods: ${notMethods.join(', ')}`);
+      }
+      assertModelVersioning(name, item);
       return requireZeroArgCtor(item, name);
     }
 
     if (isDeclarative(item)) {
+      assertCatalogHandlers(item.modelId, item.events, Object.keys(item.reducers ?? {}), { strict: true });
+      if (Array.isArray(item.exposeSelectors)) {
+        const undeclared = item.exposeSelectors.filter((sel) => !item.selectors?.[sel]);
+        if (undeclared.length) {
+          throw new Error(`Model "${item.modelId}" exposes undeclared selectors: ${undeclared.join(', ')}`);
+        }
+      }
       const compiled = compileStateModel(item, walker) as unknown as AnyModelCtor;
+      assertModelVersioning(item.modelId, compiled);
       // NOTE: for declarative models we use modelId as the logical name
       return requireZeroArgCtor(compiled, item.modelId);
     }
 
     throw new Error(`Unsupported model provider: ${String(item)}`);
   });
+
+  return orderModelsByDependencies(normalized, getModelIdByCtor);
 }
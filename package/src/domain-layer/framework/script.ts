@@ -0,0 +1,290 @@
+import { base58checkEncode, hexToBytes, segwitAddressEncode } from './crypto';
+
+/**
+ * Minimal script helpers for walker contexts (pure TS, no Buffer: works in node and browser).
+ * Scripts are handled as lowercase hex strings, as returned by the node in `scriptPubKey.hex`.
+ */
+
+const OP_RETURN = 0x6a;
+const OP_PUSHDATA1 = 0x4c;
+const OP_PUSHDATA2 = 0x4d;
+const OP_PUSHDATA4 = 0x4e;
+const OP_1NEGATE = 0x4f;
+const OP_1 = 0x51;
+const OP_16 = 0x60;
+
+function byteAt(hex: string, i: number): number {
+  return parseInt(hex.substr(i * 2, 2), 16);
+}
+
+/** Data pushes of a script as hex strings; stops at the first non-push opcode or truncated push. */
+export function decodeScriptPushes(hex: string, fromByte = 0): string[] {
+  const pushes: string[] = [];
+  const len = hex.length / 2;
+  let i = fromByte;
+
+  while (i < len) {
+    const op = byteAt(hex, i++);
+    let size: number;
+
+    if (op === 0) {
+      pushes.push('');
+      continue;
+    } else if (op < OP_PUSHDATA1) {
+      size = op;
+    } else if (op === OP_PUSHDATA1) {
+      size = byteAt(hex, i);
+      i += 1;
+    } else if (op === OP_PUSHDATA2) {
+      size = byteAt(hex, i) | (byteAt(hex, i + 1) << 8);
+      i += 2;
+    } else if (op === OP_PUSHDATA4) {
+      size = (byteAt(hex, i) | (byteAt(hex, i + 1) << 8) | (byteAt(hex, i + 2) << 16)) + byteAt(hex, i + 3) * 2 ** 24;
+      i += 4;
+    } else if (op === OP_1NEGATE || (op >= OP_1 && op <= OP_16)) {
+      // Small integers are pushed as a single byte (OP_1NEGATE -> 0x81)
+      pushes.push(op === OP_1NEGATE ? '81' : (op - OP_1 + 1).toString(16).padStart(2, '0'));
+      continue;
+    } else {
+      break;
+    }
+
+    if (Number.isNaN(size) || i + size > len) break;
+    pushes.push(hex.substr(i * 2, size * 2));
+    i += size;
+  }
+
+  return pushes;
+}
+
+export function isOpReturnScript(hex: string | undefined): hex is string {
+  return typeof hex === 'string' && hex.length >= 2 && byteAt(hex.toLowerCase(), 0) === OP_RETURN;
+}
+
+/** Data pushes following OP_RETURN; undefined when the script is not an OP_RETURN output. */
+export function decodeOpReturn(hex: string | undefined): { pushes: string[]; data: string } | undefined {
+  if (!isOpReturnScript(hex)) return undefined;
+  const pushes = decodeScriptPushes(hex.toLowerCase(), 1);
+  return { pushes, data: pushes.join('') };
+}
+
+/** Output key of a taproot (witness v1, 32-byte program) output; undefined otherwise. */
+export function getTaprootOutputKey(hex: string | undefined): string | undefined {
+  if (typeof hex !== 'string' || hex.length !== 68) return undefined;
+  const lower = hex.toLowerCase();
+  return lower.startsWith('5120') ? lower.slice(4) : undefined;
+}
+
+export type OutputScriptType =
+  | 'p2pkh'
+  | 'p2sh'
+  | 'p2wpkh'
+  | 'p2wsh'
+  | 'p2tr'
+  | 'p2pk'
+  | 'multisig'
+  | 'op_return'
+  | 'nonstandard';
+
+export interface OutputScript {
+  type: OutputScriptType;
+  /** Address for the configured network; undefined for scripts without one (op_return, multisig, p2pk, ...). */
+  address?: string;
+  /** Witness version for segwit outputs. */
+  witnessVersion?: number;
+  /** Decoded data pushes for op_return outputs. */
+  opReturn?: { pushes: string[]; data: string };
+}
+
+export type InputSpendType =
+  | 'coinbase'
+  | 'p2pkh'
+  | 'p2sh'
+  | 'p2sh-p2wpkh'
+  | 'p2sh-p2wsh'
+  | 'p2wpkh'
+  | 'p2wsh'
+  | 'p2tr'
+  | 'unknown';
+
+export interface InputSpend {
+  type: InputSpendType;
+  /** Witness version of the spent program (0 for segwit v0, 1 for taproot); undefined for legacy spends. */
+  witnessVersion?: number;
+  /** Taproot only: key path (single signature) or script path (script + control block). */
+  taprootPath?: 'key' | 'script';
+}
+
+type NetworkName = 'mainnet' | 'testnet' | 'regtest' | 'signet' | string;
+
+const NETWORK_PARAMS: Record<string, { p2pkh: number; p2sh: number; hrp: string }> = {
+  mainnet: { p2pkh: 0x00, p2sh: 0x05, hrp: 'bc' },
+  testnet: { p2pkh: 0x6f, p2sh: 0xc4, hrp: 'tb' },
+  signet: { p2pkh: 0x6f, p2sh: 0xc4, hrp: 'tb' },
+  regtest: { p2pkh: 0x6f, p2sh: 0xc4, hrp: 'bcrt' },
+};
+
+/** Classifies an output script and derives its address for the network (mainnet when unknown). */
+export function classifyOutputScript(hex: string | undefined, network?: NetworkName): OutputScript {
+  const script = (hex ?? '').toLowerCase();
+  const params = NETWORK_PARAMS[network ?? 'mainnet'] ?? NETWORK_PARAMS.mainnet!;
+  const len = script.length / 2;
+
+  const opReturn = decodeOpReturn(script);
+  if (opReturn) {
+    return { type: 'op_return', opReturn };
+  }
+  if (len === 25 && script.startsWith('76a914') && script.endsWith('88ac')) {
+    return { type: 'p2pkh', address: base58checkEncode(params.p2pkh, hexToBytes(script.slice(6, 46))) };
+  }
+  if (len === 23 && script.startsWith('a914') && script.endsWith('87')) {
+    return { type: 'p2sh', address: base58checkEncode(params.p2sh, hexToBytes(script.slice(4, 44))) };
+  }
+  if (len === 22 && script.startsWith('0014')) {
+    return {
+      type: 'p2wpkh',
+      witnessVersion: 0,
+      address: segwitAddressEncode(params.hrp, 0, hexToBytes(script.slice(4))),
+    };
+  }
+  if (len === 34 && script.startsWith('0020')) {
+    return {
+      type: 'p2wsh',
+      witnessVersion: 0,
+      address: segwitAddressEncode(params.hrp, 0, hexToBytes(script.slice(4))),
+    };
+  }
+  if (getTaprootOutputKey(script)) {
+    return {
+      type: 'p2tr',
+      witnessVersion: 1,
+      address: segwitAddressEncode(params.hrp, 1, hexToBytes(script.slice(4))),
+    };
+  }
+  if ((len === 35 && script.startsWith('21')) || (len === 67 && script.startsWith('41'))) {
+    if (script.endsWith('ac')) return { type: 'p2pk' };
+  }
+  if (isMultisigScript(script)) {
+    return { type: 'multisig' };
+  }
+
+  return { type: 'nonstandard' };
+}
+
+function isMultisigScript(script: string): boolean {
+  if (script.length < 6 || !script.endsWith('ae')) return false;
+  const m = byteAt(script, 0);
+  const n = byteAt(script, script.length / 2 - 2);
+  if (m < OP_1 || m > OP_16 || n < OP_1 || n > OP_16 || m > n) return false;
+
+  const keys = decodeScriptPushes(script.slice(2, -4));
+  return keys.length === n - OP_1 + 1 && keys.every((k) => k.length === 66 || k.length === 130);
+}
+
+/** Strips the optional taproot annex (last element starting with 0x50, BIP-341). */
+function withoutAnnex(witness: string[]): string[] {
+  return witness.length >= 2 && witness[witness.length - 1]!.toLowerCase().startsWith('50')
+    ? witness.slice(0, -1)
+    : witness;
+}
+
+function isControlBlock(hex: string): boolean {
+  const len = hex.length / 2;
+  const first = byteAt(hex.toLowerCase(), 0);
+  return len >= 33 && (len - 33) % 32 === 0 && (first & 0xfe) === 0xc0;
+}
+
+/**
+ * Spend type of an input, from its scriptSig / witness and, when known, the spent output script
+ * (e.g. ctx.prevout.scriptPubKey.hex), which makes the classification exact.
+ */
+export function classifyInputSpend(vin: any, prevoutScriptHex?: string): InputSpend {
+  if (!vin || vin.coinbase) return { type: 'coinbase' };
+
+  const witness: string[] = Array.isArray(vin.txinwitness) ? vin.txinwitness : [];
+  const scriptSig = String(vin.scriptSig?.hex ?? '').toLowerCase();
+  const prevType = prevoutScriptHex ? classifyOutputScript(prevoutScriptHex).type : undefined;
+
+  const taproot = (): InputSpend => {
+    const stack = withoutAnnex(witness);
+    const path = stack.length > 1 && isControlBlock(stack[stack.length - 1]!) ? 'script' : 'key';
+    return { type: 'p2tr', witnessVersion: 1, taprootPath: path };
+  };
+
+  if (prevType === 'p2tr') return taproot();
+  if (prevType === 'p2wpkh') return { type: 'p2wpkh', witnessVersion: 0 };
+  if (prevType === 'p2wsh') return { type: 'p2wsh', witnessVersion: 0 };
+  if (prevType === 'p2pkh') return { type: 'p2pkh' };
+
+  if (scriptSig) {
+    const pushes = decodeScriptPushes(scriptSig);
+    const redeem = pushes[pushes.length - 1] ?? '';
+    if (witness.length && redeem.length === 44 && redeem.startsWith('0014')) {
+      return { type: 'p2sh-p2wpkh', witnessVersion: 0 };
+    }
+    if (witness.length && redeem.length === 68 && redeem.startsWith('0020')) {
+      return { type: 'p2sh-p2wsh', witnessVersion: 0 };
+    }
+    if (prevType === 'p2sh') return { type: 'p2sh' };
+    // <sig> <pubkey>: legacy pay-to-pubkey-hash
+    if (pushes.length === 2 && (redeem.length === 66 || redeem.length === 130)) return { type: 'p2pkh' };
+    return prevType === undefined && pushes.length > 1 ? { type: 'p2sh' } : { type: 'unknown' };
+  }
+
+  if (witness.length) {
+    // <sig> <33-byte pubkey>
+    if (witness.length === 2 && witness[1]!.length === 66) return { type: 'p2wpkh', witnessVersion: 0 };
+    const stack = withoutAnnex(witness);
+    // single 64/65-byte schnorr signature, or script + control block
+    if (stack.length === 1 && (stack[0]!.length === 128 || stack[0]!.length === 130)) return taproot();
+    if (stack.length > 1 && isControlBlock(stack[stack.length - 1]!)) return taproot();
+    return { type: 'p2wsh', witnessVersion: 0 };
+  }
+
+  return { type: 'unknown' };
+}
+
+const outputScriptCache = new WeakMap<object, { network?: string; script: OutputScript }>();
+
+/** Memoized per vout object: contexts of all models share one classification per block. */
+export function getOutputScript(vout: any, network?: NetworkName): OutputScript {
+  const cached = vout && typeof vout === 'object' ? outputScriptCache.get(vout) : undefined;
+  if (cached && cached.network === network) return cached.script;
+
+  const script = classifyOutputScript(vout?.scriptPubKey?.hex, network);
+  // Prefer the address reported by the node when the script has one
+  const nodeAddress = vout?.scriptPubKey?.address ?? vout?.scriptPubKey?.addresses?.[0];
+  if (nodeAddress && script.type !== 'op_return') script.address = nodeAddress;
+
+  if (vout && typeof vout === 'object') outputScriptCache.set(vout, { network, script });
+  return script;
+}
+
+/**
+ * Defines lazy, memoized `script` (vout contexts) and `spend` (vin contexts) getters on a walker
+ * context. The network is read from the context chain (`networkConfig.network`) on first access,
+ * so nothing is computed for models that never touch them.
+ */
+export function defineLazyScriptProps(ctx: any): any {
+  if ('vout' in ctx) {
+    Object.defineProperty(ctx, 'script', {
+      get(this: any) {
+        return getOutputScript(this.vout, this.networkConfig?.network);
+      },
+      enumerable: false,
+      configurable: true,
+    });
+  }
+  if ('vin' in ctx) {
+    Object.defineProperty(ctx, 'spend', {
+      get(this: any) {
+        const value = classifyInputSpend(this.vin, this.prevout?.scriptPubKey?.hex);
+        Object.defineProperty(this, 'spend', { value, enumerable: false, configurable: true });
+        return value;
+      },
+      enumerable: false,
+      configurable: true,
+    });
+  }
+  return ctx;
+}
@@ -0,0 +1,124 @@
+/**
+ * `ctx.services`: typed access to providers registered in the DI container
+ * (the `Providers` passed to bootstrap, in node and in the browser).
+ *
+ *   const prices = ctx.services.get(PriceFeed);      // class token
+ *   const list = ctx.services.get<Watchlist>('WATCHLIST'); // string / symbol token
+ *
+ * A model declared `deterministic` (class: `static deterministic = true`, declarative:
+ * `deterministic: true`) may only resolve providers marked with @DeterministicProvider()
+ * or markDeterministicProvider(): read-only sources that give the same answer for the
+ * same block, so replays and reorg rebuilds produce the same events.
+ */
+
+export type ServiceToken<T = any> = (abstract new (...args: any[]) => T) | string | symbol;
+
+/** Resolves a token of the user `Providers`; undefined for any other token. */
+export type ServiceResolver = (token: ServiceToken) => any;
+
+const deterministicClasses = new WeakSet<object>();
+const deterministicTokens = new Set<string | symbol>();
+
+/** Class decorator: marks a provider as read-only / deterministic. */
+export function DeterministicProvider(): ClassDecorator {
+  return (target) => {
+    deterministicClasses.add(target);
+  };
+}
+
+/** Same as @DeterministicProvider() for classes you don't own, or for string / symbol tokens. */
+export function markDeterministicProvider(token: ServiceToken): void {
+  if (typeof token === 'function') deterministicClasses.add(token);
+  else deterministicTokens.add(token);
+}
+
+export function isDeterministicProvider(token: ServiceToken, instance?: any): boolean {
+  if (typeof token === 'function') return deterministicClasses.has(token);
+  if (deterministicTokens.has(token)) return true;
+  return Boolean(instance?.constructor && deterministicClasses.has(instance.constructor));
+}
+
+function tokenName(token: ServiceToken): string {
+  return typeof token === 'function' ? token.name : String(token);
+}
+
+export class ModelServiceError extends Error {
+  constructor(
+    public readonly modelId: string | undefined,
+    public readonly token: string,
+    reason: string
+  ) {
+    super(`${modelId ? `Model "${modelId}"` : 'Model'} cannot use service "${token}": ${reason}`);
+    this.name = 'ModelServiceError';
+  }
+}
+
+/** Services that were on ctx.services before get(); kept for existing models. */
+export interface BuiltinModelServices {
+  nodeProvider: any;
+  networkModelService?: any;
+  userModelService: any;
+}
+
+export class ModelServices implements BuiltinModelServices {
+  constructor(
+    private readonly resolver: ServiceResolver,
+    private readonly builtins: BuiltinModelServices,
+    private readonly ownerId?: string,
+    private readonly deterministic = false
+  ) {}
+
+  public get nodeProvider(): any {
+    return this.builtin('nodeProvider');
+  }
+
+  public get networkModelService(): any {
+    return this.builtin('networkModelService');
+  }
+
+  public get userModelService(): any {
+    return this.builtin('userModelService');
+  }
+
+  /** Resolves a provider by class or token; throws when it is missing or not allowed. */
+  public get<T>(token: ServiceToken<T>): T {
+    const instance = this.resolver(token);
+    if (instance === undefined || instance === null) {
+      throw new ModelServiceError(
+        this.ownerId,
+        tokenName(token),
+        'no provider is registered for it among the Providers passed to bootstrap'
+      );
+    }
+    if (this.deterministic && !isDeterministicProvider(token, instance)) {
+      throw new ModelServiceError(
+        this.ownerId,
+        tokenName(token),
+        'the model is deterministic and the provider is not marked deterministic'
+      );
+    }
+    return instance as T;
+  }
+
+  public has(token: ServiceToken): boolean {
+    const instance = this.resolver(token);
+    return instance != null && (!this.deterministic || isDeterministicProvider(token, instance));
+  }
+
+  /** View for a deterministic model: only deterministic providers, no built-ins. */
+  public forDeterministicModel(ownerId: string): ModelServices {
+    return new ModelServices(this.resolver, this.builtins, ownerId, true);
+  }
+
+  private builtin(name: keyof BuiltinModelServices): any {
+    if (this.deterministic) {
+      throw new ModelServiceError(this.ownerId, name, 'the model is deterministic; built-in services read live data');
+    }
+    return this.builtins[name];
+  }
+}
+
+/** Whether a model class is declared deterministic. */
+export function isDeterministicModel(Ctor: any): boolean {
+  return Ctor?.deterministic === true;
+}
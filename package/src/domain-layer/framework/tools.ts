@@ -4,9 +4,12 @@ import type { DeclarativeModel, CompiledModelClass } from './declarative';
 import { compileStateModel } from './declarative';
 import { walkBTC } from './walker';
 import type { Model } from './model';
+import type { EventCatalog } from './events';
 
-export function compileStateModelBTC<State>(decl: DeclarativeModel<State>): CompiledModelClass<State> {
-  return compileStateModel<State>(decl, walkBTC);
+export function compileStateModelBTC<State, Events extends EventCatalog = EventCatalog>(
+  decl: DeclarativeModel<State, Events>
+): CompiledModelClass<State> {
+  return compileStateModel<State, Events>(decl, walkBTC);
 }
 
 /**
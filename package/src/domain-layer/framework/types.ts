@@ -1,18 +1,42 @@
 import type { ExecutionContext } from '@easylayer/common/framework';
 import type { Block, NetworkConfig } from '@easylayer/bitcoin';
 import type { NetworkReadService, MempoolReadService } from '../services';
+import type { ModelsAccessor } from './dependencies';
+import type { ModelServices } from './services';
+
+/** Previous output spent by an input. `value` uses the same units as `vout.value`. */
+export interface Prevout {
+  value: number;
+  scriptPubKey: any;
+  address?: string;
+  /** Height of the block that created the output, when known. */
+  height?: number;
+}
+
+/** Per-block prevout lookup; resolved before models run, so lookups are synchronous. */
+export interface PrevoutLookup {
+  get(vin: { txid?: string; vout?: number; coinbase?: string }): Prevout | undefined;
+}
 
 export interface ProcessBlockExecutionContext extends ExecutionContext {
   block: Block;
   network: NetworkReadService;
   mempool: MempoolReadService;
   networkConfig: NetworkConfig;
-  services: any;
+  /** DI providers via get(Token), plus the built-in nodeProvider / userModelService. */
+  services: ModelServices;
+  /** In-flight instances of the models declared in `dependsOn`. */
+  models: ModelsAccessor;
+  /** Previous outputs of this block's inputs (PREVOUT_RESOLVER_ENABLED; otherwise node-provided prevouts only). */
+  prevouts: PrevoutLookup;
 }
 
 export interface MempoolTickExecutionContext extends ExecutionContext {
   network: NetworkReadService;
   mempool: MempoolReadService;
   networkConfig: NetworkConfig;
-  services: any;
+  /** DI providers via get(Token), plus the built-in nodeProvider / userModelService. */
+  services: ModelServices;
+  /** In-flight instances of the models declared in `dependsOn`. */
+  models: ModelsAccessor;
 }
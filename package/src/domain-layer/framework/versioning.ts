@@ -0,0 +1,156 @@
+import type { AnyModelCtor } from '@easylayer/common/framework';
+
+/**
+ * Model versioning.
+ *
+ * A model declares its current `version` (class: `static version`, declarative: `version`) and,
+ * optionally, upcasters that turn stored event payloads of version N into version N+1:
+ *
+ *   static version = 3;
+ *   static upcasters = {
+ *     1: { Deposit: (p) => ({ ...p, value: String(p.value) }) }, // v1 -> v2
+ *     2: {},                                                     // v2 -> v3: events unchanged
+ *   };
+ *
+ * Events do not carry a version themselves. Before the first event written by a newer model
+ * version the framework emits MODEL_VERSION_EVENT, so on replay every event is upcast from the
+ * version that was current when it was stored. Events stored before versioning count as version 1.
+ *
+ * Upcasters transform events only, not snapshots: if a snapshot of an older version exists, its
+ * state is restored as-is. Use a rebuild when reducers change the state shape.
+ */
+export const MODEL_VERSION_EVENT = 'ModelVersionUpgraded';
+
+export interface ModelVersionUpgradedPayload {
+  from: number;
+  to: number;
+}
+
+export type EventUpcaster = (payload: any, event: any) => any;
+
+/** Keyed by the source version N; each step maps event names to N -> N+1 payload transforms. */
+export type ModelUpcasters = Record<number, Record<string, EventUpcaster>>;
+
+export class ModelVersionMismatchError extends Error {
+  constructor(
+    public readonly modelId: string,
+    public readonly storedVersion: number,
+    public readonly version: number
+  ) {
+    super(
+      `Model "${modelId}" has events of version ${storedVersion} but is declared as version ${version}, ` +
+        `and no upcasters cover ${storedVersion} -> ${version}. Add upcasters or enable rebuildOnVersionMismatch.`
+    );
+    this.name = 'ModelVersionMismatchError';
+  }
+}
+
+/** Declared model version (positive integer), undefined for unversioned models. */
+export function getModelVersion(Ctor: AnyModelCtor): number | undefined {
+  const v = (Ctor as any).version;
+  return typeof v === 'number' && Number.isInteger(v) && v >= 1 ? v : undefined;
+}
+
+export function getModelUpcasters(Ctor: AnyModelCtor): ModelUpcasters {
+  return ((Ctor as any).upcasters ?? {}) as ModelUpcasters;
+}
+
+/** Whether the model opted in to be rebuilt from its start height when no upcasters bridge the gap. */
+export function isRebuildOnVersionMismatch(Ctor: AnyModelCtor): boolean {
+  return (Ctor as any).rebuildOnVersionMismatch === true;
+}
+
+/** Version of the events applied to the model so far (1 for models that never stamped one). */
+export function getModelEventsVersion(model: object): number {
+  return (model as any).eventsVersion ?? 1;
+}
+
+export function hasUpcasterChain(upcasters: ModelUpcasters, from: number, to: number): boolean {
+  for (let v = from; v < to; v++) {
+    if (!upcasters[v]) return false;
+  }
+  return true;
+}
+
+/** Validates version/upcasters declarations. Called at normalize time so mistakes fail on startup. */
+export function assertModelVersioning(modelName: string, Ctor: AnyModelCtor): void {
+  const declared = (Ctor as any).version;
+  if (declared !== undefined && getModelVersion(Ctor) === undefined) {
+    throw new Error(`Model "${modelName}" version must be a positive integer, got: ${String(declared)}`);
+  }
+
+  const version = getModelVersion(Ctor) ?? 1;
+  for (const [key, step] of Object.entries(getModelUpcasters(Ctor))) {
+    const from = Number(key);
+    if (!Number.isInteger(from) || from < 1 || from >= version) {
+      throw new Error(`Model "${modelName}" has an upcaster for version ${key} outside of 1..${version - 1}`);
+    }
+    const notFunctions = Object.keys(step ?? {}).filter((name) => typeof step[name] !== 'function');
+    if (notFunctions.length) {
+      throw new Error(`Model "${modelName}" upcasters of version ${key} are not functions: ${notFunctions.join(', ')}`);
+    }
+  }
+}
+
+/**
+ * Throws ModelVersionMismatchError when a restored model holds events of an older version
+ * that its upcasters cannot bridge. Models without history are always accepted.
+ */
+export function assertRestoredModelVersion(model: object, Ctor: AnyModelCtor, hasHistory: boolean): void {
+  const version = getModelVersion(Ctor);
+  if (version === undefined || !hasHistory) return;
+
+  const stored = getModelEventsVersion(model);
+  if (stored < version && !hasUpcasterChain(getModelUpcasters(Ctor), stored, version)) {
+    throw new ModelVersionMismatchError((model as any).aggregateId, stored, version);
+  }
+}
+
+/**
+ * Payload of the MODEL_VERSION_EVENT to emit before the next event, if the model still runs on
+ * events of an older version; undefined otherwise.
+ */
+export function getPendingVersionUpgrade(model: object, Ctor: AnyModelCtor): ModelVersionUpgradedPayload | undefined {
+  const version = getModelVersion(Ctor);
+  if (version === undefined) return undefined;
+
+  const from = getModelEventsVersion(model);
+  return from < version ? { from, to: version } : undefined;
+}
+
+/**
+ * Wraps the model's on{EventName} handlers that have upcasters so that events are brought
+ * to the current version before they reach the handler (replayed and live events alike).
+ */
+export function installModelUpcasters(model: object, Ctor: AnyModelCtor): void {
+  const version = getModelVersion(Ctor);
+  const upcasters = getModelUpcasters(Ctor);
+  if (version === undefined) return;
+
+  const eventNames = new Set(Object.values(upcasters).flatMap((step) => Object.keys(step ?? {})));
+  for (const eventName of eventNames) {
+    const key = `on${eventName}`;
+    const handler = (model as any)[key];
+    if (typeof handler !== 'function') continue;
+
+    Object.defineProperty(model, key, {
+      value: (e: any) => {
+        let payload = e?.payload;
+        for (let v = getModelEventsVersion(model); v < version; v++) {
+          const upcast = upcasters[v]?.[eventName];
+          if (upcast) payload = upcast(payload, e);
+        }
+        if (payload === e?.payload) return handler.call(model, e);
+        return handler.call(model, Object.assign(Object.create(Object.getPrototypeOf(e)), e, { payload }));
+      },
+      writable: false,
+      enumerable: false,
+      configurable: true,
+    });
+  }
+}
+
+/** Reducer shared by class-based and compiled declarative models. */
+export function reduceModelVersionUpgraded(model: object, e: { payload: ModelVersionUpgradedPayload }): void {
+  (model as any).eventsVersion = e.payload?.to;
+}
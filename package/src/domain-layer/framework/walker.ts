@@ -1,122 +1,196 @@
-import type { Walker } from './declarative';
+import type { Walker, WalkOrder } from './declarative';
+import { decodeOpReturn, defineLazyScriptProps, getTaprootOutputKey } from './script';
 
 function isAsyncIterable(x: any): x is AsyncIterable<any> {
   return x && typeof x[Symbol.asyncIterator] === 'function';
 }
 
-export const walkBTC: Walker = async (from, source, fn) => {
-  if (!source) return;
+/** vin / vout contexts get lazy `spend` / `script` getters (see defineLazyScriptProps). */
+const lazy = defineLazyScriptProps;
 
-  switch (from) {
-    // -------- Block traversal --------
-    case 'block': {
-      await fn({ block: source });
-      return;
-    }
-    case 'block.tx': {
-      const block: any = source;
-      for (const tx of block.tx) await fn({ block, tx });
-      return;
-    }
-    case 'block.tx.vin': {
-      const block: any = source;
-      for (const tx of block.tx) for (const vin of (tx as any).vin) await fn({ block, tx, vin });
-      return;
-    }
-    case 'block.tx.vout': {
-      const block: any = source;
-      for (const tx of block.tx) for (const vout of (tx as any).vout) await fn({ block, tx, vout });
-      return;
-    }
+export type WalkFn = (ctx: any) => void | Promise<void>;
+export type WalkPathFn = (source: any, fn: WalkFn) => Promise<void>;
 
-    // -------- Mempool traversal --------
-    case 'mempool': {
-      await fn({ mempool: source });
-      return;
-    }
+export interface WalkerPathOptions {
+  /** Order in which declarative sources receive the contexts of this path (default: forward). */
+  order?: WalkOrder;
+}
 
-    case 'mempool.tx': {
-      const mempool: any = source;
+/**
+ * Registry of traversal paths. Paths starting with `mempool` run on mempool ticks, all others
+ * on blocks. Declarative `sources` accept handlers for any registered path; their returns are
+ * collected in `ctx.locals[path]`.
+ *
+ * Usage:
+ *   btcWalkerRegistry.register('block.tx.vout.inscription', async (block, fn) => { ... });
+ */
+export class WalkerRegistry {
+  private readonly paths = new Map<string, { walk: WalkPathFn; order: WalkOrder }>();
+
+  /** Walker function bound to this registry (late registrations are visible). */
+  public readonly walker: Walker;
+
+  constructor() {
+    const walker = async (from: string, source: any, fn: WalkFn) => {
+      if (!source) return;
+      const def = this.paths.get(from);
+      if (!def) return;
+      await def.walk(source, fn);
+    };
+
+    this.walker = Object.assign(walker, {
+      has: (path: string) => this.has(path),
+      order: (path: string) => this.paths.get(path)?.order ?? 'forward',
+    });
+  }
 
-      // 1) snapshot { tx: any[] }
-      if (Array.isArray(mempool?.tx)) {
-        for (const tx of mempool.tx) await fn({ mempool, tx });
-        return;
-      }
+  public register(path: string, walk: WalkPathFn, options: WalkerPathOptions = {}): this {
+    if (!path || typeof walk !== 'function') {
+      throw new Error(`Walker path "${path}" must have a walk function`);
+    }
+    if (this.paths.has(path)) {
+      throw new Error(`Walker path "${path}" is already registered`);
+    }
+    this.paths.set(path, { walk, order: options.order ?? 'forward' });
+    return this;
+  }
 
-      // 2) service: iterLoadedTx()
-      if (typeof mempool?.iterLoadedTx === 'function') {
-        const iter = mempool.iterLoadedTx();
-        if (isAsyncIterable(iter)) {
-          for await (const tx of iter) await fn({ mempool, tx });
-          return;
-        }
-      }
+  public has(path: string): boolean {
+    return this.paths.has(path);
+  }
 
-      // 3) service: forEachLoadedTx(cb)
-      if (typeof mempool?.forEachLoadedTx === 'function') {
-        await mempool.forEachLoadedTx(async (tx: any) => {
-          await fn({ mempool, tx });
-        });
-        return;
-      }
+  public list(): string[] {
+    return [...this.paths.keys()];
+  }
+}
 
-      throw new Error('mempool.tx: unsupported mempool source.');
-    }
+/** Feeds every tx of a mempool source: snapshot { tx: [] } or a mempool service. */
+async function forEachMempoolTx(mempool: any, feed: (tx: any) => Promise<void>, path: string): Promise<void> {
+  if (Array.isArray(mempool?.tx)) {
+    for (const tx of mempool.tx) await feed(tx);
+    return;
+  }
+  if (typeof mempool?.iterLoadedTx === 'function') {
+    for await (const tx of mempool.iterLoadedTx()) await feed(tx);
+    return;
+  }
+  if (typeof mempool?.forEachLoadedTx === 'function') {
+    await mempool.forEachLoadedTx(feed);
+    return;
+  }
+  if (typeof mempool?.forEachTxLazy === 'function') {
+    await mempool.forEachTxLazy(feed);
+    return;
+  }
 
-    case 'mempool.tx.vin': {
-      const mempool: any = source;
-      const feed = async (tx: any) => {
-        for (const vin of tx?.vin ?? []) await fn({ mempool, tx, vin });
-      };
+  throw new Error(`${path}: unsupported mempool source.`);
+}
 
-      if (Array.isArray(mempool?.tx)) {
-        for (const tx of mempool.tx) await feed(tx);
-        return;
-      }
-      if (typeof mempool?.iterLoadedTx === 'function') {
-        for await (const tx of mempool.iterLoadedTx()) await feed(tx);
-        return;
+export const btcWalkerRegistry = new WalkerRegistry()
+  // -------- Block traversal --------
+  .register('block', async (block, fn) => {
+    await fn({ block });
+  })
+  .register('block.tx', async (block, fn) => {
+    for (const tx of block.tx) await fn({ block, tx });
+  })
+  .register(
+    'block.tx.vin',
+    async (block, fn) => {
+      for (const tx of block.tx) for (const vin of (tx as any).vin) await fn(lazy({ block, tx, vin }));
+    },
+    { order: 'reverse' }
+  )
+  .register(
+    'block.tx.vout',
+    async (block, fn) => {
+      for (const tx of block.tx) for (const vout of (tx as any).vout) await fn(lazy({ block, tx, vout }));
+    },
+    { order: 'reverse' }
+  )
+  // Witness stack of every segwit input
+  .register('block.tx.witness', async (block, fn) => {
+    for (const tx of block.tx) {
+      for (const vin of (tx as any).vin ?? []) {
+        const witness: string[] | undefined = vin?.txinwitness;
+        if (witness?.length) await fn(lazy({ block, tx, vin, witness }));
       }
-      if (typeof mempool?.forEachLoadedTx === 'function') {
-        await mempool.forEachLoadedTx(feed);
-        return;
+    }
+  })
+  // OP_RETURN outputs with their decoded data pushes
+  .register('block.tx.vout.opreturn', async (block, fn) => {
+    for (const tx of block.tx) {
+      for (const vout of (tx as any).vout ?? []) {
+        const opReturn = decodeOpReturn(vout?.scriptPubKey?.hex);
+        if (opReturn) await fn(lazy({ block, tx, vout, pushes: opReturn.pushes, data: opReturn.data }));
       }
-      if (typeof mempool?.forEachTxLazy === 'function') {
-        await mempool.forEachTxLazy(feed);
-        return;
+    }
+  })
+  // Taproot (witness v1) outputs with their output key
+  .register('block.tx.vout.taproot', async (block, fn) => {
+    for (const tx of block.tx) {
+      for (const vout of (tx as any).vout ?? []) {
+        const outputKey = getTaprootOutputKey(vout?.scriptPubKey?.hex);
+        if (outputKey) await fn(lazy({ block, tx, vout, outputKey }));
       }
-
-      throw new Error('mempool.tx.vin: unsupported mempool source.');
+    }
+  })
+
+  // -------- Mempool traversal --------
+  .register('mempool', async (mempool, fn) => {
+    await fn({ mempool });
+  })
+  .register('mempool.tx', async (mempool, fn) => {
+    // 1) snapshot { tx: any[] }
+    if (Array.isArray(mempool?.tx)) {
+      for (const tx of mempool.tx) await fn({ mempool, tx });
+      return;
     }
 
-    case 'mempool.tx.vout': {
-      const mempool: any = source;
-      const feed = async (tx: any) => {
-        for (const vout of tx?.vout ?? []) await fn({ mempool, tx, vout });
-      };
-
-      if (Array.isArray(mempool?.tx)) {
-        for (const tx of mempool.tx) await feed(tx);
-        return;
-      }
-      if (typeof mempool?.iterLoadedTx === 'function') {
-        for await (const tx of mempool.iterLoadedTx()) await feed(tx);
-        return;
-      }
-      if (typeof mempool?.forEachLoadedTx === 'function') {
-        await mempool.forEachLoadedTx(feed);
+    // 2) service: iterLoadedTx()
+    if (typeof mempool?.iterLoadedTx === 'function') {
+      const iter = mempool.iterLoadedTx();
+      if (isAsyncIterable(iter)) {
+        for await (const tx of iter) await fn({ mempool, tx });
         return;
       }
-      if (typeof mempool?.forEachTxLazy === 'function') {
-        await mempool.forEachTxLazy(feed);
-        return;
-      }
-
-      throw new Error('mempool.tx.vout: unsupported mempool source.');
     }
 
-    default:
+    // 3) service: forEachLoadedTx(cb)
+    if (typeof mempool?.forEachLoadedTx === 'function') {
+      await mempool.forEachLoadedTx(async (tx: any) => {
+        await fn({ mempool, tx });
+      });
       return;
-  }
-};
+    }
+
+    throw new Error('mempool.tx: unsupported mempool source.');
+  })
+  .register(
+    'mempool.tx.vin',
+    async (mempool, fn) => {
+      await forEachMempoolTx(
+        mempool,
+        async (tx: any) => {
+          for (const vin of tx?.vin ?? []) await fn(lazy({ mempool, tx, vin }));
+        },
+        'mempool.tx.vin'
+      );
+    },
+    { order: 'reverse' }
+  )
+  .register(
+    'mempool.tx.vout',
+    async (mempool, fn) => {
+      await forEachMempoolTx(
+        mempool,
+        async (tx: any) => {
+          for (const vout of tx?.vout ?? []) await fn(lazy({ mempool, tx, vout }));
+        },
+        'mempool.tx.vout'
+      );
+    },
+    { order: 'reverse' }
+  );
+
+export const walkBTC: Walker = btcWalkerRegistry.walker;
@@ -0,0 +1,34 @@
+export interface CallModelSelectorQueryDto {
+  /** Model id (static `modelId` of a class model or `modelId` of a declarative one). */
+  modelId: string;
+  /** Name of an exposed selector. */
+  selector: string;
+  /** Positional arguments forwarded to the selector after the state. */
+  args?: any[];
+  /** Evaluate against the model state at this height (default: latest). */
+  blockHeight?: number;
+}
+
+export type CallModelSelectorErrorCode = 'MODEL_NOT_FOUND' | 'SELECTOR_NOT_EXPOSED' | 'SELECTOR_FAILED';
+
+export type CallModelSelectorResult =
+  | {
+      modelId: string;
+      selector: string;
+      blockHeight?: number;
+      result: any;
+    }
+  | {
+      modelId: string;
+      selector: string;
+      blockHeight?: number;
+      error: { code: CallModelSelectorErrorCode; message: string };
+    };
+
+/**
+ * Generic query for selectors a model opted in to expose
+ * (`exposeSelectors` on declarative models, static `exposedSelectors` on class models).
+ */
+export class CallModelSelectorQuery {
+  constructor(public readonly payload: CallModelSelectorQueryDto) {}
+}
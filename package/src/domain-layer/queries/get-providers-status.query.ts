@@ -0,0 +1,9 @@
+export type GetProvidersStatusQueryDto = Record<string, never>;
+
+/**
+ * Health of the network RPC endpoints: circuit state, score, latency, error rate and tip
+ * per endpoint, plus the tip consensus (PROVIDER_TIP_CONSENSUS).
+ */
+export class GetProvidersStatusQuery {
+  constructor(public readonly payload: GetProvidersStatusQueryDto = {}) {}
+}
@@ -0,0 +1,14 @@
+export interface GetReorgHistoryQueryDto {
+  /** Default 20. */
+  limit?: number;
+  /** Default 0. */
+  offset?: number;
+}
+
+/**
+ * Reorganisations handled by the crawler, newest first: fork height, depth, orphaned and
+ * replacement hashes, rolled back user models and duration.
+ */
+export class GetReorgHistoryQuery {
+  constructor(public readonly payload: GetReorgHistoryQueryDto = {}) {}
+}
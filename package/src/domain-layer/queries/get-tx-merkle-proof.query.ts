@@ -0,0 +1,26 @@
+import type { LightBlock } from '@easylayer/bitcoin';
+import type { TxMerkleProof } from '../framework';
+
+export interface GetTxMerkleProofQueryDto {
+  txid: string;
+  /** Block of the transaction, by height or by hash (one of them is required). */
+  blockHeight?: number;
+  blockHash?: string;
+}
+
+export interface GetTxMerkleProofResult {
+  /** False when the block does not contain the transaction. */
+  exists: boolean;
+  proof: TxMerkleProof | null;
+  /** The block as indexed by the network model; null when it is outside of the model's window. */
+  block: Omit<LightBlock, 'tx'> | null;
+}
+
+/**
+ * SPV proof that a transaction is included in a block: the merkle branch built from the block's
+ * transaction list (fetched from the provider, or the block cache) and the block header.
+ * Check it offline with `verifyTxMerkleProof`.
+ */
+export class GetTxMerkleProofQuery {
+  constructor(public readonly payload: GetTxMerkleProofQueryDto) {}
+}
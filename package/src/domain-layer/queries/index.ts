@@ -0,0 +1,4 @@
+export * from './call-model-selector.query';
+export * from './get-providers-status.query';
+export * from './get-tx-merkle-proof.query';
+export * from './get-reorg-history.query';
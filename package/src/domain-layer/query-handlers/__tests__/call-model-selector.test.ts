@@ -0,0 +1,139 @@
+import { CallModelSelectorQueryHandler } from '../call-model-selector.query-handler';
+import { CallModelSelectorQuery } from '../../queries';
+import { Model, normalizeModelsBTC } from '../../framework';
+import type { DeclarativeModel } from '../../framework';
+
+class Watchlist extends Model {
+  static modelId = 'watchlist';
+  static exposedSelectors = ['isWatched', 'fail'];
+
+  public addresses: string[] = [];
+
+  protected onAddressWatched({ payload }: { payload: { address: string } }) {
+    this.addresses.push(payload.address);
+  }
+
+  public isWatched(address: string): boolean {
+    return this.addresses.includes(address);
+  }
+
+  public count(): number {
+    return this.addresses.length;
+  }
+
+  public fail(): never {
+    throw new Error('state is not ready');
+  }
+}
+
+const Balances: DeclarativeModel<{ balance: number }> = {
+  modelId: 'balances',
+  state: () => ({ balance: 0 }),
+  sources: {},
+  reducers: {
+    Deposited: (state, e) => {
+      state.balance += e.payload.value;
+    },
+  },
+  selectors: {
+    balance: (state) => state.balance,
+    balanceIn: (state, unit: number) => state.balance / unit,
+    internal: (state) => state,
+  },
+  exposeSelectors: ['balance', 'balanceIn'],
+};
+
+function setup() {
+  const Models = normalizeModelsBTC([Watchlist, Balances]);
+  const restored: Array<{ modelId: string; blockHeight?: number }> = [];
+
+  // Restores the watchlist with one address per height and the balances with a deposit of 10 per height
+  const restore = (Ctor: any, height = 2) => {
+    const model = new Ctor();
+    restored.push({ modelId: model.aggregateId, ...(height !== 2 && { blockHeight: height }) });
+    for (let h = 0; h <= height; h++) {
+      if (model.aggregateId === 'watchlist') model.applyEvent('AddressWatched', h, { address: `bc1q${h}` });
+      else model.applyEvent('Deposited', h, { value: 10 });
+    }
+    return model;
+  };
+  const modelFactoryService: any = {
+    restoreByCtor: async (Ctor: any) => restore(Ctor),
+    restoreByCtorAtHeight: async (Ctor: any, height: number) => restore(Ctor, height),
+  };
+
+  return { handler: new CallModelSelectorQueryHandler(Models, modelFactoryService), restored };
+}
+
+const call = (handler: CallModelSelectorQueryHandler, payload: CallModelSelectorQuery['payload']) =>
+  handler.execute(new CallModelSelectorQuery(payload));
+
+describe('CallModelSelectorQueryHandler', () => {
+  it('calls exposed selectors of class-based and declarative models', async () => {
+    const { handler, restored } = setup();
+
+    expect(await call(handler, { modelId: 'watchlist', selector: 'isWatched', args: ['bc1q1'] })).toEqual({
+      modelId: 'watchlist',
+      selector: 'isWatched',
+      blockHeight: undefined,
+      result: true,
+    });
+    expect(await call(handler, { modelId: 'balances', selector: 'balance' })).toMatchObject({ result: 30 });
+    expect(await call(handler, { modelId: 'balances', selector: 'balanceIn', args: [5], blockHeight: 0 })).toEqual({
+      modelId: 'balances',
+      selector: 'balanceIn',
+      blockHeight: 0,
+      result: 2,
+    });
+    expect(restored).toEqual([
+      { modelId: 'watchlist' },
+      { modelId: 'balances' },
+      { modelId: 'balances', blockHeight: 0 },
+    ]);
+  });
+
+  it('reports unknown models', async () => {
+    const { handler, restored } = setup();
+
+    expect(await call(handler, { modelId: 'missing', selector: 'balance' })).toEqual({
+      modelId: 'missing',
+      selector: 'balance',
+      blockHeight: undefined,
+      error: { code: 'MODEL_NOT_FOUND', message: 'Model "missing" is not registered' },
+    });
+    expect(restored).toHaveLength(0);
+  });
+
+  it('refuses selectors the model did not expose', async () => {
+    const { handler, restored } = setup();
+
+    // A public method and a declared selector that were not opted in
+    expect(await call(handler, { modelId: 'watchlist', selector: 'count' })).toMatchObject({
+      error: {
+        code: 'SELECTOR_NOT_EXPOSED',
+        message: 'Model "watchlist" does not expose selector "count"; exposed: isWatched, fail',
+      },
+    });
+    expect(await call(handler, { modelId: 'balances', selector: 'internal' })).toMatchObject({
+      error: { code: 'SELECTOR_NOT_EXPOSED' },
+    });
+    // Methods that are not selectors at all
+    for (const selector of ['applyEvent', 'processBlock', 'onAddressWatched', 'constructor']) {
+      expect(await call(handler, { modelId: 'watchlist', selector })).toMatchObject({
+        error: { code: 'SELECTOR_NOT_EXPOSED' },
+      });
+    }
+    expect(restored).toHaveLength(0);
+  });
+
+  it('reports selectors that throw', async () => {
+    const { handler } = setup();
+
+    expect(await call(handler, { modelId: 'watchlist', selector: 'fail' })).toEqual({
+      modelId: 'watchlist',
+      selector: 'fail',
+      blockHeight: undefined,
+      error: { code: 'SELECTOR_FAILED', message: 'state is not ready' },
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { IQueryHandler, QueryHandler } from '@easylayer/common/cqrs';
+import { CallModelSelectorQuery } from '../queries';
+import type { CallModelSelectorResult } from '../queries';
+import { ModelFactoryService, NormalizedModelCtor, getModelIdByCtor, getExposedSelectors } from '../framework';
+
+@Injectable()
+@QueryHandler(CallModelSelectorQuery)
+export class CallModelSelectorQueryHandler implements IQueryHandler<CallModelSelectorQuery> {
+  private readonly logger = new Logger(CallModelSelectorQueryHandler.name);
+  constructor(
+    @Inject('FrameworkModelsConstructors')
+    private Models: NormalizedModelCtor[],
+    private readonly modelFactoryService: ModelFactoryService
+  ) {}
+
+  async execute({ payload }: CallModelSelectorQuery): Promise<CallModelSelectorResult> {
+    const { modelId, selector, args = [], blockHeight } = payload;
+
+    const ModelCtor = this.Models.find((Ctor) => getModelIdByCtor(Ctor) === modelId);
+    if (!ModelCtor) {
+      return {
+        modelId,
+        selector,
+        blockHeight,
+        error: { code: 'MODEL_NOT_FOUND', message: `Model "${modelId}" is not registered` },
+      };
+    }
+
+    const exposed = getExposedSelectors(ModelCtor);
+    if (!exposed.includes(selector)) {
+      return {
+        modelId,
+        selector,
+        blockHeight,
+        error: {
+          code: 'SELECTOR_NOT_EXPOSED',
+          message: `Model "${modelId}" does not expose selector "${selector}"; exposed: ${
+            exposed.join(', ') || '(none)'
+          }`,
+        },
+      };
+    }
+
+    try {
+      const model =
+        blockHeight === undefined
+          ? await this.modelFactoryService.restoreByCtor(ModelCtor)
+          : await this.modelFactoryService.restoreByCtorAtHeight(ModelCtor, blockHeight);
+
+      const result = await (model as any)[selector](...(Array.isArray(args) ? args : [args]));
+      return { modelId, selector, blockHeight, result };
+    } catch (error) {
+      this.logger.warn('Selector call failed', {
+        args: { modelId, selector, blockHeight, message: (error as any)?.message },
+      });
+      return {
+        modelId,
+        selector,
+        blockHeight,
+        error: { code: 'SELECTOR_FAILED', message: (error as any)?.message ?? String(error) },
+      };
+    }
+  }
+}
@@ -1,11 +1,13 @@
 import { FetchEventsQueryHandler } from './fetch-events.query-handler';
 import { GetModelsQueryHandler } from './get-models.query-handler';
+import { CallModelSelectorQueryHandler } from './call-model-selector.query-handler';
 import MempoolQueryHandlers from './mempool';
 import NetworkQueryHandlers from './network';
 
 export const QueryHandlers = [
   FetchEventsQueryHandler,
   GetModelsQueryHandler,
+  CallModelSelectorQueryHandler,
   ...MempoolQueryHandlers,
   ...NetworkQueryHandlers,
 ];
@@ -1,16 +1,19 @@
 import { Injectable } from '@nestjs/common';
 import { IQueryHandler, QueryHandler } from '@easylayer/common/cqrs';
 import { GetNetworkStatsQuery } from '@easylayer/bitcoin';
-import { NetworkModelFactoryService } from '../../services';
+import { ChainValidationService } from '../../services';
+import type { ChainIdentity, ChainValidationReport } from '../../services';
 
 @Injectable()
 @QueryHandler(GetNetworkStatsQuery)
 export class GetNetworkStatsQueryHandler implements IQueryHandler<GetNetworkStatsQuery> {
-  constructor(private readonly networkModelFactory: NetworkModelFactoryService) {}
+  constructor(private readonly chainValidation: ChainValidationService) {}
 
-  async execute({ payload }: GetNetworkStatsQuery): Promise<{
-    isValid: boolean;
-  }> {
-    return await this.networkModelFactory.getNetworkStats();
+  async execute({ payload }: GetNetworkStatsQuery): Promise<
+    ChainValidationReport & {
+      identity?: ChainIdentity;
+    }
+  > {
+    return await this.chainValidation.getNetworkStats();
   }
 }
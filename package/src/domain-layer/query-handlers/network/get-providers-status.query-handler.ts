@@ -0,0 +1,14 @@
+import { Injectable } from '@nestjs/common';
+import { IQueryHandler, QueryHandler } from '@easylayer/common/cqrs';
+import { GetProvidersStatusQuery } from '../../queries';
+import { ProviderPoolService } from '../../../infrastructure-layer/providers';
+
+@Injectable()
+@QueryHandler(GetProvidersStatusQuery)
+export class GetProvidersStatusQueryHandler implements IQueryHandler<GetProvidersStatusQuery> {
+  constructor(private readonly providerPool: ProviderPoolService) {}
+
+  async execute({ payload }: GetProvidersStatusQuery) {
+    return this.providerPool.getStatus();
+  }
+}
@@ -0,0 +1,19 @@
+import { Injectable } from '@nestjs/common';
+import { IQueryHandler, QueryHandler } from '@easylayer/common/cqrs';
+import { GetReorgHistoryQuery } from '../../queries';
+import { ReorgHistoryModelFactoryService } from '../../services';
+import type { ReorgRecord } from '../../services';
+
+@Injectable()
+@QueryHandler(GetReorgHistoryQuery)
+export class GetReorgHistoryQueryHandler implements IQueryHandler<GetReorgHistoryQuery> {
+  constructor(private readonly reorgHistoryModelFactory: ReorgHistoryModelFactoryService) {}
+
+  async execute({ payload }: GetReorgHistoryQuery): Promise<{
+    reorgs: ReorgRecord[];
+    total: number;
+  }> {
+    const { limit, offset } = payload;
+    return await this.reorgHistoryModelFactory.getHistory(limit, offset);
+  }
+}
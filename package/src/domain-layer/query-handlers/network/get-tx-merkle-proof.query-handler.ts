@@ -0,0 +1,80 @@
+import { Injectable } from '@nestjs/common';
+import { IQueryHandler, QueryHandler } from '@easylayer/common/cqrs';
+import { BlockchainProviderService, LightBlock } from '@easylayer/bitcoin';
+import { GetTxMerkleProofQuery } from '../../queries';
+import type { GetTxMerkleProofResult } from '../../queries';
+import { NetworkModelFactoryService } from '../../services';
+import { computeMerkleBranch, computeMerkleRoot, serializeBlockHeader } from '../../framework';
+
+const HEADER_FIELDS = ['version', 'merkleroot', 'time', 'bits', 'nonce'];
+
+@Injectable()
+@QueryHandler(GetTxMerkleProofQuery)
+export class GetTxMerkleProofQueryHandler implements IQueryHandler<GetTxMerkleProofQuery> {
+  constructor(
+    private readonly networkModelFactory: NetworkModelFactoryService,
+    private readonly blockchainProvider: BlockchainProviderService
+  ) {}
+
+  async execute({ payload }: GetTxMerkleProofQuery): Promise<GetTxMerkleProofResult> {
+    const { txid, blockHeight, blockHash } = payload;
+    if (blockHeight === undefined && !blockHash) {
+      throw new Error('GetTxMerkleProofQuery requires blockHeight or blockHash');
+    }
+
+    const indexed = await this.findIndexedBlock(blockHeight, blockHash);
+
+    // By height when known: that call is served from the block cache when it is enabled
+    const height = blockHeight ?? indexed?.height;
+    const [block] =
+      height !== undefined
+        ? await this.blockchainProvider.getManyBlocksByHeights([height])
+        : await this.blockchainProvider.getManyBlocksByHashes([blockHash!]);
+
+    if (!block || (blockHash && block.hash !== blockHash)) {
+      throw new Error(`Block ${blockHash ?? height} is not available from the provider`);
+    }
+    if (indexed && (indexed.hash !== block.hash || indexed.merkleroot !== block.merkleroot)) {
+      throw new Error(`Provider returned block ${block.hash} instead of ${indexed.hash} at height ${indexed.height}`);
+    }
+
+    const txids: string[] = (block.tx ?? []).map((tx: any) => (typeof tx === 'string' ? tx : tx.txid));
+    if (computeMerkleRoot(txids) !== block.merkleroot) {
+      throw new Error(`Transactions of block ${block.hash} do not build its merkle root`);
+    }
+
+    // Not found when the block is outside of the network model window
+    let indexedHeader: GetTxMerkleProofResult['block'] = null;
+    if (indexed) {
+      const { tx, ...header } = indexed;
+      indexedHeader = header;
+    }
+    const index = txids.indexOf(txid);
+    if (index === -1) {
+      return { exists: false, proof: null, block: indexedHeader };
+    }
+
+    return {
+      exists: true,
+      proof: {
+        txid,
+        blockHash: block.hash,
+        blockHeight: block.height,
+        merkleRoot: block.merkleroot,
+        index,
+        branch: computeMerkleBranch(txids, index),
+        header: HEADER_FIELDS.every((field) => block[field] !== undefined) ? serializeBlockHeader(block) : undefined,
+      },
+      block: indexedHeader,
+    };
+  }
+
+  private async findIndexedBlock(height?: number, hash?: string): Promise<LightBlock | null> {
+    if (height !== undefined) {
+      const { block } = await this.networkModelFactory.getBlock(height);
+      return block;
+    }
+    const { blocks } = await this.networkModelFactory.getBlocks(undefined, true);
+    return blocks.find((block) => block.hash === hash) ?? null;
+  }
+}
@@ -2,10 +2,16 @@ import { GetNetworkStatsQueryHandler } from './get-network-stats.query-handler';
 import { GetNetworkBlockQueryHandler } from './get-network-block.query-handler';
 import { GetNetworkBlocksQueryHandler } from './get-network-blocks.query-handler';
 import { GetNetworkLastBlockQueryHandler } from './get-network-last-block.query-handler';
+import { GetProvidersStatusQueryHandler } from './get-providers-status.query-handler';
+import { GetTxMerkleProofQueryHandler } from './get-tx-merkle-proof.query-handler';
+import { GetReorgHistoryQueryHandler } from './get-reorg-history.query-handler';
 
 export default [
   GetNetworkStatsQueryHandler,
   GetNetworkBlockQueryHandler,
   GetNetworkBlocksQueryHandler,
   GetNetworkLastBlockQueryHandler,
+  GetProvidersStatusQueryHandler,
+  GetTxMerkleProofQueryHandler,
+  GetReorgHistoryQueryHandler,
 ];
@@ -0,0 +1,54 @@
+import {
+  ChainIdentityModel,
+  ChainIdentityMismatchError,
+  compareChainIdentity,
+  CHAIN_IDENTITY_AGGREGATE_ID,
+} from '../chain-identity-model-factory.service';
+import type { ChainIdentity } from '../chain-identity-model-factory.service';
+import { ModelEventValidationError } from '../../framework';
+
+const MAINNET: ChainIdentity = {
+  genesisHash: '000000000019d6689c085ae165831e934ff763ae46a2a6c172b3f1b60a8ce26f',
+  network: 'mainnet',
+  nativeCurrencySymbol: 'BTC',
+};
+const TESTNET: ChainIdentity = {
+  genesisHash: '000000000933ea01ad0ee984209779baaec3ced90fa3f408719526f8d77f4943',
+  network: 'testnet',
+  nativeCurrencySymbol: 'BTC',
+};
+
+describe('Chain identity', () => {
+  it('keeps the last recorded identity', () => {
+    const model = new ChainIdentityModel();
+    expect(model.aggregateId).toBe(CHAIN_IDENTITY_AGGREGATE_ID);
+    expect(model.identity).toBeUndefined();
+
+    model.record({ network: 'mainnet', nativeCurrencySymbol: 'BTC' });
+    model.record(MAINNET);
+    expect(model.identity).toEqual(MAINNET);
+
+    expect(() => model.record({ network: 'mainnet' } as any)).toThrow(ModelEventValidationError);
+  });
+
+  it('reports every differing field and skips an unknown genesis hash', () => {
+    expect(compareChainIdentity(MAINNET, { ...MAINNET })).toEqual([]);
+    expect(compareChainIdentity(MAINNET, { ...MAINNET, genesisHash: undefined })).toEqual([]);
+    expect(compareChainIdentity({ ...MAINNET, genesisHash: undefined }, TESTNET)).toEqual([
+      'network type mainnet != testnet',
+    ]);
+    expect(compareChainIdentity(MAINNET, { ...TESTNET, nativeCurrencySymbol: 'tBTC' })).toEqual([
+      'network type mainnet != testnet',
+      'currency symbol BTC != tBTC',
+      `genesis hash ${MAINNET.genesisHash} != ${TESTNET.genesisHash}`,
+    ]);
+  });
+
+  it('explains how to recover in the mismatch error', () => {
+    const mismatches = compareChainIdentity(MAINNET, { ...MAINNET, genesisHash: TESTNET.genesisHash });
+    const error = new ChainIdentityMismatchError(MAINNET, TESTNET, mismatches);
+
+    expect(error.message).toContain(`genesis hash ${MAINNET.genesisHash} != ${TESTNET.genesisHash}`);
+    expect(error.message).toMatch(/original network\/provider or use a new database/);
+  });
+});
@@ -0,0 +1,165 @@
+import type { EventStoreWriteService } from '@easylayer/common/eventstore';
+import type { BlockchainProviderService, BlocksQueueService, LightBlock, Network } from '@easylayer/bitcoin';
+import { ChainValidationService, validateChainWindow } from '../chain-validation.service';
+import { ChainRepairService } from '../chain-repair.service';
+import { ChainIdentityModel } from '../chain-identity-model-factory.service';
+import type { ChainIdentityModelFactoryService } from '../chain-identity-model-factory.service';
+import type { NetworkModelFactoryService } from '../network-model-factory.service';
+import type { ReorgHistoryModelFactoryService, ReorgRecord } from '../reorg-history-model-factory.service';
+import type { ModelBackfillService } from '../model-backfill.service';
+import type { PrevoutResolverService } from '../prevout-resolver.service';
+import { Model } from '../../framework';
+import type { ModelFactoryService, NormalizedModelCtor } from '../../framework';
+
+class UserModel extends Model {
+  static modelId = 'user-model';
+}
+
+const block = (height: number, branch = 'a', parentBranch = branch): LightBlock => ({
+  height,
+  hash: `${branch}-${height}`,
+  previousblockhash: `${parentBranch}-${height - 1}`,
+  tx: [],
+});
+
+const chain = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => block(from + i));
+
+/** Network model stand-in holding `blocks` as its window. */
+const networkModel = (blocks: LightBlock[]) => {
+  const model: Pick<Network, 'getAllBlocks' | 'getBlockByHeight'> & { chain: Pick<Network['chain'], 'validateChain'> } =
+    {
+      chain: { validateChain: () => true },
+      getAllBlocks: () => blocks,
+      getBlockByHeight: (height: number) => blocks.find((b) => b.height === height) ?? null,
+    };
+  return model as Network;
+};
+
+interface RollbackCall {
+  modelsToRollback: { aggregateId: string }[];
+  blockHeight: number;
+  modelsToSave: unknown[];
+}
+
+function setup(window: LightBlock[], providerChain: LightBlock[], lastReorg: ReorgRecord | null = null) {
+  const networkModelFactory: Pick<NetworkModelFactoryService, 'initModel' | 'createNewModel'> = {
+    initModel: async () => networkModel(window),
+    createNewModel: () => ({ aggregateId: 'network' }) as Network,
+  };
+  const chainIdentityModelFactory: Pick<ChainIdentityModelFactoryService, 'initModel'> = {
+    initModel: async () => new ChainIdentityModel(),
+  };
+  const reorgHistoryModelFactory: Pick<ReorgHistoryModelFactoryService, 'getLastReorg'> = {
+    getLastReorg: async () => lastReorg,
+  };
+  const chainValidation = new ChainValidationService(
+    networkModelFactory as NetworkModelFactoryService,
+    chainIdentityModelFactory as ChainIdentityModelFactoryService,
+    reorgHistoryModelFactory as ReorgHistoryModelFactoryService
+  );
+
+  const calls = { rollback: [] as RollbackCall[], reorganizeBlocks: [] as number[], invalidateAbove: [] as number[] };
+  const provider: Pick<BlockchainProviderService, 'getCurrentBlockHeightFromNetwork' | 'getBasicBlockByHeight'> = {
+    getCurrentBlockHeightFromNetwork: async () => providerChain[providerChain.length - 1]!.height,
+    getBasicBlockByHeight: async (height: number) => providerChain.find((b) => b.height === height) ?? null,
+  };
+  const blocksQueue: Pick<BlocksQueueService, 'reorganizeBlocks'> = {
+    reorganizeBlocks: async (height: number) => {
+      calls.reorganizeBlocks.push(height);
+    },
+  };
+  const eventStore: Pick<EventStoreWriteService, 'rollback'> = {
+    rollback: async (options: RollbackCall) => {
+      calls.rollback.push(options);
+    },
+  };
+  const modelFactory: Pick<ModelFactoryService, 'createNewModel'> = {
+    createNewModel: <T extends Model>(ModelCtor: NormalizedModelCtor<T>) => new ModelCtor(),
+  };
+  const modelBackfill: Pick<ModelBackfillService, 'cancelAll'> = { cancelAll: async () => {} };
+  const prevoutResolver: Pick<PrevoutResolverService, 'invalidateAbove'> = {
+    invalidateAbove: (height: number) => {
+      calls.invalidateAbove.push(height);
+    },
+  };
+  const repair = new ChainRepairService(
+    chainValidation,
+    networkModelFactory as NetworkModelFactoryService,
+    provider as BlockchainProviderService,
+    blocksQueue as BlocksQueueService,
+    eventStore as EventStoreWriteService,
+    modelFactory as ModelFactoryService,
+    modelBackfill as ModelBackfillService,
+    prevoutResolver as PrevoutResolverService,
+    [UserModel]
+  );
+  return { chainValidation, repair, calls };
+}
+
+describe('Chain validation', () => {
+  it('reports the first broken link of the window', () => {
+    expect(validateChainWindow(chain(5, 9))).toEqual({
+      blocksCount: 5,
+      oldestHeight: 5,
+      newestHeight: 9,
+      brokenLink: null,
+    });
+    expect(validateChainWindow([])).toMatchObject({ blocksCount: 0, oldestHeight: null, brokenLink: null });
+
+    const [b5, b6, b7, b8] = chain(5, 8);
+    expect(validateChainWindow([b5!, b6!, b6!, b7!]).brokenLink).toMatchObject({ height: 6, failure: 'duplicate' });
+    expect(validateChainWindow([b5!, b6!, b8!]).brokenLink).toMatchObject({
+      height: 8,
+      failure: 'height-gap',
+      previousHeight: 6,
+    });
+    expect(validateChainWindow([b5!, b6!, block(7, 'b'), block(8, 'c')]).brokenLink).toEqual({
+      height: 7,
+      hash: 'b-7',
+      failure: 'parent-hash',
+      previousHeight: 6,
+      previousHash: 'a-6',
+    });
+  });
+
+  it('includes the last reorganisation in the report', async () => {
+    const lastReorg: ReorgRecord = {
+      requestId: 'r1',
+      forkHeight: 1,
+      depth: 2,
+      orphanedHashes: ['x-2', 'x-3'],
+      replacementHashes: ['a-2', 'a-3'],
+      rolledBackModels: [],
+      startedAt: 1,
+      durationMs: 1,
+    };
+    const { chainValidation } = setup(chain(0, 3), chain(0, 3), lastReorg);
+
+    expect(await chainValidation.getReport()).toMatchObject({ isValid: true, blocksCount: 4, lastReorg });
+  });
+
+  it('rolls back to the last block the provider agrees with', async () => {
+    // 7 is a stale block the provider has replaced, 8 was linked on top of the new branch
+    const window = [...chain(4, 6), block(7, 'stale', 'a'), block(8), block(9)];
+    const { repair, calls } = setup(window, chain(0, 10));
+
+    const result = await repair.repair();
+
+    expect(result).toMatchObject({ repaired: true, rollbackHeight: 6, refetched: { fromHeight: 7, toHeight: 9 } });
+    expect(calls.rollback).toHaveLength(1);
+    expect(calls.rollback[0]).toMatchObject({ blockHeight: 6, modelsToSave: [] });
+    expect(calls.rollback[0]!.modelsToRollback.map((m) => m.aggregateId)).toEqual(['user-model', 'network']);
+    expect(calls.reorganizeBlocks).toEqual([6]);
+    expect(calls.invalidateAbove).toEqual([6]);
+  });
+
+  it('does nothing on a valid chain and refuses an inconsistent provider', async () => {
+    const valid = setup(chain(0, 5), chain(0, 5));
+    expect(await valid.repair.repair()).toMatchObject({ repaired: false, report: { isValid: true } });
+    expect(valid.calls.rollback).toHaveLength(0);
+
+    const broken = setup([...chain(0, 2), block(4)], [...chain(0, 3), block(4, 'b')]);
+    await expect(broken.repair.repair()).rejects.toThrow(/inconsistent chain at height 4 \(parent-hash\)/);
+    expect(broken.calls.rollback).toHaveLength(0);
+  });
+});
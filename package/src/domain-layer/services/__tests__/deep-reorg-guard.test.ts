@@ -0,0 +1,118 @@
+import { DeepReorgGuardService, DeepReorgPausedError } from '../deep-reorg-guard.service';
+import { ReorgHistoryModel } from '../reorg-history-model-factory.service';
+
+const block = (height: number, branch = 'old') => ({
+  height,
+  hash: `${branch}-${height}`,
+  previousblockhash: `${branch}-${height - 1}`,
+  tx: [],
+});
+
+const branch = (from: number, to: number, name?: string) =>
+  Array.from({ length: to - from + 1 }, (_, i) => block(from + i, name));
+
+const PIN_TTL_MS = 60000;
+
+function setup(maxDepth: number) {
+  const history = new ReorgHistoryModel();
+  const saved: ReorgHistoryModel[] = [];
+  const guard = new DeepReorgGuardService(
+    { NETWORK_MAX_REORG_DEPTH: maxDepth, NETWORK_REORG_PIN_TTL_MS: PIN_TTL_MS } as any,
+    { initModel: async () => history } as any,
+    { getBasicBlockByHeight: async (height: number) => (height <= 13 ? block(height, 'new') : null) } as any,
+    { save: async (model: ReorgHistoryModel) => saved.push(model) } as any
+  );
+  return { guard, history, saved };
+}
+
+describe('Deep reorg guard', () => {
+  it('lets reorganisations within the limit through', async () => {
+    const { guard, saved } = setup(3);
+
+    expect(
+      await guard.assess({ requestId: 'r', forkHeight: 10, orphaned: branch(11, 13), forkOutsideWindow: false })
+    ).toEqual({ rollbackHeight: 10, approval: null });
+    await expect(guard.assertNotPaused()).resolves.toBeUndefined();
+    expect(saved).toHaveLength(0);
+  });
+
+  it('pauses on a deeper reorganisation until it is resolved', async () => {
+    const { guard, history, saved } = setup(2);
+    const reorg = { requestId: 'r', forkHeight: 10, orphaned: branch(11, 14), forkOutsideWindow: false };
+
+    await expect(guard.assess(reorg)).rejects.toThrow(DeepReorgPausedError);
+    expect(saved).toHaveLength(1);
+    expect(history.deepReorg).toMatchObject({
+      status: 'pending',
+      depth: 4,
+      maxDepth: 2,
+      oldBranch: branch(11, 14).map(({ height, hash }) => expect.objectContaining({ height, hash })),
+      newBranch: branch(11, 13, 'new').map(({ height, hash }) => expect.objectContaining({ height, hash })),
+    });
+    await expect(guard.assertNotPaused()).rejects.toThrow(/NETWORK_MAX_REORG_DEPTH=2/);
+
+    await expect(guard.resolve('proceed', 5)).rejects.toThrow(/rollbackHeight only applies/);
+    expect(await guard.resolve('proceed')).toMatchObject({ status: 'approved' });
+    await expect(guard.assertNotPaused()).resolves.toBeUndefined();
+    expect(await guard.assess(reorg)).toMatchObject({ rollbackHeight: 10, approval: { status: 'approved' } });
+  });
+
+  it('keeps rejecting reorganisations of a pinned chain', async () => {
+    const { guard } = setup(1);
+    await expect(
+      guard.assess({ requestId: 'r', forkHeight: 10, orphaned: branch(11, 12), forkOutsideWindow: false })
+    ).rejects.toThrow(DeepReorgPausedError);
+
+    await guard.resolve('pin');
+    await expect(guard.assertNotPaused()).resolves.toBeUndefined();
+    // A second pin would push the expiry back
+    await expect(guard.resolve('pin')).rejects.toThrow(/already pinned/);
+    await expect(
+      guard.assess({ requestId: 'r', forkHeight: 11, orphaned: branch(12, 12), forkOutsideWindow: false })
+    ).rejects.toThrow(/old chain is pinned/);
+    expect(await guard.assess({ requestId: 'r', forkHeight: 12, orphaned: [], forkOutsideWindow: false })).toEqual({
+      rollbackHeight: 12,
+      approval: null,
+    });
+  });
+
+  it('resumes ingestion once the pin expires', async () => {
+    const { guard, history } = setup(1);
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    try {
+      await expect(
+        guard.assess({ requestId: 'r', forkHeight: 10, orphaned: branch(11, 12), forkOutsideWindow: false })
+      ).rejects.toThrow(DeepReorgPausedError);
+      await guard.resolve('pin');
+
+      // The provider keeps serving the other branch
+      const reorg = { requestId: 'r', forkHeight: 11, orphaned: branch(12, 12), forkOutsideWindow: false };
+      now.mockReturnValue(1000 + PIN_TTL_MS - 1);
+      await expect(guard.assess(reorg)).rejects.toThrow(/old chain is pinned/);
+
+      now.mockReturnValue(1000 + PIN_TTL_MS);
+      expect(await guard.assess(reorg)).toEqual({ rollbackHeight: 11, approval: null });
+      expect(history.deepReorg).toBeNull();
+      await expect(guard.assertNotPaused()).resolves.toBeUndefined();
+
+      // A deep one is detected again instead of being rejected by the expired pin
+      await expect(
+        guard.assess({ requestId: 'r', forkHeight: 9, orphaned: branch(10, 12), forkOutsideWindow: false })
+      ).rejects.toThrow(/NETWORK_MAX_REORG_DEPTH=1/);
+      expect(history.deepReorg).toMatchObject({ status: 'pending', forkHeight: 9 });
+    } finally {
+      now.mockRestore();
+    }
+  });
+
+  it('needs a rollback height to proceed with a fork outside of the window', async () => {
+    const { guard } = setup(0);
+    const reorg = { requestId: 'r', forkHeight: 10, orphaned: branch(11, 12), forkOutsideWindow: true };
+
+    await expect(guard.assess(reorg)).rejects.toThrow(/outside of the network model window/);
+    await expect(guard.resolve('proceed')).rejects.toThrow(/pass rollbackHeight/);
+    await expect(guard.resolve('proceed', 11)).rejects.toThrow(/between -1 and 10/);
+    expect(await guard.resolve('proceed', 7)).toMatchObject({ status: 'approved', rollbackHeight: 7 });
+    expect(await guard.assess(reorg)).toMatchObject({ rollbackHeight: 7, approval: { status: 'approved' } });
+  });
+});
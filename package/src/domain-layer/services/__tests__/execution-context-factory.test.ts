@@ -0,0 +1,59 @@
+import type { ModuleRef } from '@nestjs/core';
+import type { BlockchainProviderService } from '@easylayer/bitcoin';
+import { ModelServiceError } from '../../framework';
+import type { ModelFactoryService } from '../../framework';
+import { ExecutionContextFactoryService } from '../execution-context-factory.service';
+import type { NetworkModelFactoryService } from '../network-model-factory.service';
+import type { NetworkReadService } from '../network-model-read.service';
+import type { MempoolReadService } from '../mempool-model-read.service';
+import type { PrevoutResolverService } from '../prevout-resolver.service';
+
+class PriceFeed {
+  public price(): number {
+    return 1;
+  }
+}
+
+class EventStoreWriter {}
+
+describe('ExecutionContextFactoryService services', () => {
+  const prices = new PriceFeed();
+  const watchlist = { addresses: ['bc1qwatched'] };
+  const container = new Map<unknown, unknown>([
+    [PriceFeed, prices],
+    ['WATCHLIST', watchlist],
+    [EventStoreWriter, new EventStoreWriter()],
+  ]);
+  const lookups: unknown[] = [];
+  const moduleRef: Pick<ModuleRef, 'get'> = {
+    get: <TInput, TResult = TInput>(token: unknown): TResult => {
+      lookups.push(token);
+      return container.get(token) as TResult;
+    },
+  };
+  const provider: Pick<BlockchainProviderService, 'config'> = { config: { network: 'regtest' } };
+
+  const factory = new ExecutionContextFactoryService(
+    moduleRef as ModuleRef,
+    provider as BlockchainProviderService,
+    {} as NetworkModelFactoryService,
+    {} as ModelFactoryService,
+    {} as NetworkReadService,
+    {} as MempoolReadService,
+    {} as PrevoutResolverService,
+    [PriceFeed, { provide: 'WATCHLIST', useValue: watchlist }]
+  );
+  const { services } = factory.forMempool();
+
+  it('resolves the Providers passed to bootstrap', () => {
+    expect(services.get(PriceFeed)).toBe(prices);
+    expect(services.get('WATCHLIST')).toBe(watchlist);
+  });
+
+  it('rejects providers of the crawler itself', () => {
+    expect(() => services.get(EventStoreWriter)).toThrow(ModelServiceError);
+    expect(() => services.get(EventStoreWriter)).toThrow('among the Providers passed to bootstrap');
+    expect(services.has(EventStoreWriter)).toBe(false);
+    expect(lookups).not.toContain(EventStoreWriter);
+  });
+});
@@ -0,0 +1,261 @@
+import type { EventStoreWriteService } from '@easylayer/common/eventstore';
+import type { BlockchainProviderService, Network } from '@easylayer/bitcoin';
+import { ModelBackfillService } from '../model-backfill.service';
+import type { NetworkModelFactoryService } from '../network-model-factory.service';
+import type { ExecutionContextFactoryService, SharedContext } from '../execution-context-factory.service';
+import { Model, getModelStartHeight } from '../../framework';
+import type {
+  ModelFactoryService,
+  NormalizedModelCtor,
+  ProcessBlockExecutionContext,
+  MempoolTickExecutionContext,
+} from '../../framework';
+import type { BlocksQueueConfig } from '../../../config';
+
+class Counter extends Model {
+  static modelId = 'counter';
+  static startHeight?: number = 0;
+
+  public heights: number[] = [];
+
+  public async processBlock(ctx: ProcessBlockExecutionContext): Promise<void> {
+    this.applyEvent('BlockSeen', ctx.block.height, {});
+  }
+
+  protected onBlockSeen({ blockHeight }: { blockHeight: number }) {
+    this.heights.push(blockHeight);
+  }
+}
+
+/** Model without an own start height (listen mode). */
+class Listener extends Counter {
+  static modelId = 'listener';
+  static startHeight = undefined;
+}
+
+const BATCH_SIZE = 5;
+
+type TestBlock = { height: number; hash: string };
+
+function setup({ tip = 12, startHeight }: { tip?: number; startHeight?: number } = {}) {
+  // Saved heights by model id, replayed on restore
+  const stored = new Map<string, number[]>();
+  const saved: Array<{ modelId: string; blockHeight: number; heights: number[] }> = [];
+  // Every write in order; `hold` keeps the next track saves pending
+  const writes: string[] = [];
+  const eventStore = { hold: Promise.resolve(), pending: 0 };
+  let restores = 0;
+  const provider = {
+    requests: [] as number[][],
+    // Replaced by the tests that hold or drop blocks
+    respond: async (heights: number[]): Promise<TestBlock[]> =>
+      heights.map((height) => ({ height, hash: `h${height}` })),
+  };
+
+  const restore = <T extends Model>(Ctor: NormalizedModelCtor<T>): T => {
+    restores++;
+    const model = new Ctor();
+    for (const height of stored.get(model.aggregateId) ?? []) model.applyEvent('BlockSeen', height, {});
+    return model;
+  };
+
+  const networkModelFactory: Pick<NetworkModelFactoryService, 'initModel'> = {
+    initModel: async () => ({ lastBlockHeight: tip }) as Network,
+  };
+  const blockchainProvider: Pick<BlockchainProviderService, 'getManyBlocksByHeights'> = {
+    getManyBlocksByHeights: async (heights: number[]) => {
+      provider.requests.push(heights);
+      return provider.respond(heights);
+    },
+  };
+  const eventStoreWriter: Pick<EventStoreWriteService, 'save'> = {
+    save: async (models: Model | Model[]) => {
+      eventStore.pending++;
+      await eventStore.hold;
+      eventStore.pending--;
+      for (const model of [models].flat()) {
+        const heights = model instanceof Counter ? [...model.heights] : [];
+        writes.push(`track ${model.lastBlockHeight}`);
+        stored.set(model.aggregateId, heights);
+        saved.push({ modelId: model.aggregateId, blockHeight: model.lastBlockHeight, heights });
+      }
+    },
+  };
+  const modelFactory: Pick<ModelFactoryService, 'getStartHeight' | 'restoreByCtor' | 'restoreByCtorAtHeight'> = {
+    getStartHeight: (Ctor) => getModelStartHeight(Ctor) ?? startHeight,
+    restoreByCtor: async (Ctor) => restore(Ctor),
+    restoreByCtorAtHeight: async (Ctor) => restore(Ctor),
+  };
+  // Models only read the block
+  const contexts: Pick<ExecutionContextFactoryService, 'forBlock' | 'forModel'> = {
+    forBlock: async (block: TestBlock) => ({ block }) as SharedContext<ProcessBlockExecutionContext>,
+    forModel: <C extends ProcessBlockExecutionContext | MempoolTickExecutionContext>(ctx: SharedContext<C>) => ctx as C,
+  };
+  const queueConfig: Pick<BlocksQueueConfig, 'BLOCKS_QUEUE_BACKFILL_BATCH_SIZE'> = {
+    BLOCKS_QUEUE_BACKFILL_BATCH_SIZE: BATCH_SIZE,
+  };
+
+  const service = new ModelBackfillService(
+    networkModelFactory as NetworkModelFactoryService,
+    blockchainProvider as BlockchainProviderService,
+    eventStoreWriter as EventStoreWriteService,
+    modelFactory as ModelFactoryService,
+    contexts as ExecutionContextFactoryService,
+    queueConfig as BlocksQueueConfig,
+    [Counter, Listener]
+  );
+
+  // Resolves once every running track has finished
+  const settle = async () => {
+    while (service.isRunning(Counter) || service.isRunning(Listener)) await tick();
+  };
+
+  return { service, saved, provider, settle, writes, eventStore, restores: () => restores };
+}
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+const withHeights = (heights: number[]) => {
+  const model = new Counter();
+  heights.forEach((height) => model.applyEvent('BlockSeen', height, {}));
+  return model;
+};
+
+describe('Model backfill', () => {
+  it('classifies restored models against the batch', () => {
+    const { service } = setup();
+
+    // New model: caught up inline when the gap fits into a backfill batch, on its own track otherwise
+    expect(service.classify(new Counter(), Counter, 5)).toBe('handover');
+    expect(service.classify(new Counter(), Counter, 6)).toBe('lagging');
+
+    // Sparse models that already have events were never on a track: they stay in the shared flow
+    expect(service.classify(withHeights([2]), Counter, 50)).toBe('live');
+    expect(service.classify(withHeights([0, 1, 2, 3]), Counter, 5)).toBe('live');
+
+    // Listen mode without an own start height has nothing to catch up from
+    expect(service.classify(new Listener(), Listener, 50)).toBe('live');
+
+    const running = withHeights([0, 1]);
+    running.applyEvent('ModelBackfillProgressed', 1, { done: false });
+    expect(service.classify(running, Counter, 2)).toBe('handover');
+    expect(service.classify(running, Counter, 5)).toBe('handover');
+    expect(service.classify(running, Counter, 20)).toBe('lagging');
+
+    running.applyEvent('ModelBackfillProgressed', 1, { done: true });
+    expect(service.classify(running, Counter, 20)).toBe('live');
+  });
+
+  it('catches the gap up on handover', async () => {
+    const { service, provider, saved } = setup();
+    const model = withHeights([0, 1]);
+
+    await service.handover(model, 8);
+
+    expect(model.heights).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(model.lastBlockHeight).toBe(8);
+    expect(model.backfillState).toBe('done');
+    expect(provider.requests).toEqual([
+      [2, 3, 4, 5, 6],
+      [7, 8],
+    ]);
+    // The shared flow saves the model together with the batch
+    expect(saved).toHaveLength(0);
+  });
+
+  it('saves every step of a background track and stops at the tip', async () => {
+    const { service, saved, settle } = setup({ tip: 12 });
+
+    service.schedule(Counter);
+    expect(service.isRunning(Counter)).toBe(true);
+    expect(service.classify(new Counter(), Counter, 1)).toBe('lagging');
+    await settle();
+
+    expect(saved.map((s) => s.blockHeight)).toEqual([4, 9, 12]);
+    expect(saved[2]!.heights).toEqual(Array.from({ length: 13 }, (_, i) => i));
+    expect(service.isRunning(Counter)).toBe(false);
+  });
+
+  it('does not save a track cancelled by a reorganisation', async () => {
+    const { service, provider, saved, settle } = setup({ tip: 12 });
+    let release!: () => void;
+    const held = new Promise<void>((resolve) => (release = resolve));
+    const respond = provider.respond;
+    provider.respond = async (heights) => {
+      await held;
+      return respond(heights);
+    };
+
+    service.schedule(Counter);
+    while (!provider.requests.length) await tick();
+
+    const cancelled = service.cancelAll();
+    release();
+    await cancelled;
+    await settle();
+
+    expect(provider.requests).toHaveLength(1);
+    expect(saved).toHaveLength(0);
+    expect(service.isRunning(Counter)).toBe(false);
+
+    // The next batch reschedules it from the saved state
+    provider.respond = respond;
+    service.schedule(Counter);
+    await settle();
+    expect(saved.map((s) => s.blockHeight)).toEqual([4, 9, 12]);
+  });
+
+  it('saves track steps and batches one at a time', async () => {
+    const { service, writes, eventStore, settle } = setup({ tip: 12 });
+    let release!: () => void;
+    eventStore.hold = new Promise<void>((resolve) => (release = resolve));
+
+    service.schedule(Counter);
+    while (!eventStore.pending) await tick();
+
+    // A batch arriving while the first track step is being saved waits for it
+    const batch = service.write(async () => {
+      writes.push('batch');
+    });
+    await tick();
+    expect(writes).toEqual([]);
+
+    release();
+    await batch;
+    await settle();
+    expect(writes).toEqual(['track 4', 'batch', 'track 9', 'track 12']);
+  });
+
+  it('joins a model to the batch only once its track has stopped', async () => {
+    const { service, eventStore, settle, restores } = setup({ tip: 12 });
+    let release!: () => void;
+    eventStore.hold = new Promise<void>((resolve) => (release = resolve));
+
+    service.schedule(Counter);
+    while (!eventStore.pending) await tick();
+    const restoredByTrack = restores();
+
+    // The track is about to save: a restored instance would miss that step and replay its blocks
+    expect(await service.join(Counter, 13)).toBeUndefined();
+    expect(restores()).toBe(restoredByTrack);
+
+    release();
+    await settle();
+    const model = (await service.join(Counter, 13)) as Counter;
+    expect(model.heights).toEqual(Array.from({ length: 13 }, (_, i) => i));
+  });
+
+  it('fails when the provider returns fewer blocks than requested', async () => {
+    const { service, provider, saved, settle } = setup({ tip: 12 });
+    provider.respond = async (heights) => heights.slice(1).map((height) => ({ height, hash: `h${height}` }));
+
+    await expect(service.handover(new Counter(), 3)).rejects.toThrow(
+      'Backfill of model "counter" received 3 of 4 blocks for 0..3'
+    );
+
+    service.schedule(Counter);
+    await settle();
+    expect(saved).toHaveLength(0);
+    expect(service.isRunning(Counter)).toBe(false);
+  });
+});
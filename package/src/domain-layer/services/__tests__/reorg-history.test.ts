@@ -0,0 +1,73 @@
+import {
+  ReorgHistoryModel,
+  ReorgHistoryModelFactoryService,
+  REORG_HISTORY_AGGREGATE_ID,
+} from '../reorg-history-model-factory.service';
+import type { ReorgRecord } from '../reorg-history-model-factory.service';
+import { ModelEventValidationError } from '../../framework';
+
+const reorg = (forkHeight: number, depth = 1): ReorgRecord => ({
+  requestId: `request-${forkHeight}`,
+  forkHeight,
+  depth,
+  orphanedHashes: Array.from({ length: depth }, (_, i) => `old-${forkHeight + 1 + i}`),
+  replacementHashes: Array.from({ length: depth }, (_, i) => `new-${forkHeight + 1 + i}`),
+  rolledBackModels: ['balances'],
+  startedAt: 1700000000000,
+  durationMs: 12,
+});
+
+describe('Reorg history', () => {
+  it('keeps every recorded reorganisation', () => {
+    const model = new ReorgHistoryModel();
+    expect(model.aggregateId).toBe(REORG_HISTORY_AGGREGATE_ID);
+
+    model.record(reorg(10, 2));
+    model.record(reorg(8));
+    expect(model.reorgs).toEqual([reorg(10, 2), reorg(8)]);
+
+    expect(() => model.record({ ...reorg(12), orphanedHashes: [1] } as any)).toThrow(ModelEventValidationError);
+  });
+
+  it('pages the history newest first', async () => {
+    const model = new ReorgHistoryModel();
+    [5, 9, 14, 20].forEach((height) => model.record(reorg(height)));
+    const factory = new ReorgHistoryModelFactoryService({ getOne: async () => model } as any);
+
+    expect(await factory.getHistory(2, 1)).toEqual({ reorgs: [reorg(14), reorg(9)], total: 4, deepReorg: null });
+    expect((await factory.getHistory()).reorgs.map((r) => r.forkHeight)).toEqual([20, 14, 9, 5]);
+    expect(await factory.getLastReorg()).toEqual(reorg(20));
+  });
+
+  it('tracks the deep reorganisation until the approved one is handled', () => {
+    const model = new ReorgHistoryModel();
+    const detection = {
+      requestId: 'request-10',
+      forkHeight: 10,
+      depth: 3,
+      maxDepth: 2,
+      forkOutsideWindow: false,
+      oldBranch: [{ height: 11, hash: 'old-11' }],
+      newBranch: [{ height: 11, hash: 'new-11' }],
+      detectedAt: 1700000000000,
+    };
+
+    model.detectDeepReorg(detection);
+    expect(model.deepReorg).toEqual({ ...detection, status: 'pending' });
+
+    model.resolveDeepReorg('proceed');
+    expect(model.deepReorg).toMatchObject({ status: 'approved', rollbackHeight: undefined });
+
+    model.record(reorg(10, 3));
+    expect(model.deepReorg).toBeNull();
+
+    model.detectDeepReorg(detection);
+    model.resolveDeepReorg('pin');
+    model.record(reorg(20));
+    expect(model.deepReorg).toMatchObject({ status: 'pinned' });
+
+    model.expirePin(1700000060000);
+    expect(model.deepReorg).toBeNull();
+    expect(() => model.expirePin(1700000060000)).toThrow('There is no pinned chain to expire');
+  });
+});
@@ -0,0 +1,83 @@
+import { Injectable } from '@nestjs/common';
+import { EventStoreReadService } from '@easylayer/common/eventstore';
+import { Model, defineEvent } from '../framework';
+import type { ModelEvent } from '../framework';
+
+export const CHAIN_IDENTITY_AGGREGATE_ID = 'chain_identity';
+
+export interface ChainIdentity {
+  /** Hash of block 0; undefined when the provider could not return it at the time it was recorded. */
+  genesisHash?: string;
+  network: string;
+  nativeCurrencySymbol: string;
+}
+
+const events = {
+  ChainIdentityRecorded: defineEvent<ChainIdentity>(
+    (p: any) =>
+      (typeof p?.network === 'string' && typeof p?.nativeCurrencySymbol === 'string') ||
+      'network and nativeCurrencySymbol must be strings'
+  ),
+};
+
+/**
+ * System aggregate stored next to the network aggregate: the chain the EventStore was built from.
+ * Network comes from @easylayer/bitcoin and has no room for it, so it lives in its own stream
+ * that database resets and checkpoint rollbacks do not touch.
+ */
+export class ChainIdentityModel extends Model<typeof events> {
+  static modelId = CHAIN_IDENTITY_AGGREGATE_ID;
+  static events = events;
+
+  public identity?: ChainIdentity;
+
+  public record(identity: ChainIdentity): void {
+    this.applyEvent('ChainIdentityRecorded', -1, identity);
+  }
+
+  protected onChainIdentityRecorded({ payload }: ModelEvent<ChainIdentity>) {
+    this.identity = { ...payload };
+  }
+}
+
+/** Human-readable differences between the stored identity and the current one; a missing genesis hash is not compared. */
+export function compareChainIdentity(stored: ChainIdentity, current: ChainIdentity): string[] {
+  const mismatches: string[] = [];
+  if (stored.network !== current.network) {
+    mismatches.push(`network type ${stored.network} != ${current.network}`);
+  }
+  if (stored.nativeCurrencySymbol !== current.nativeCurrencySymbol) {
+    mismatches.push(`currency symbol ${stored.nativeCurrencySymbol} != ${current.nativeCurrencySymbol}`);
+  }
+  if (stored.genesisHash && current.genesisHash && stored.genesisHash !== current.genesisHash) {
+    mismatches.push(`genesis hash ${stored.genesisHash} != ${current.genesisHash}`);
+  }
+  return mismatches;
+}
+
+export class ChainIdentityMismatchError extends Error {
+  constructor(
+    public readonly stored: ChainIdentity,
+    public readonly current: ChainIdentity,
+    public readonly mismatches: string[]
+  ) {
+    super(
+      `The EventStore was built from a different chain than the one configured now (${mismatches.join('; ')}). ` +
+        'Point the crawler at the original network/provider or use a new database.'
+    );
+    this.name = 'ChainIdentityMismatchError';
+  }
+}
+
+@Injectable()
+export class ChainIdentityModelFactoryService {
+  constructor(private readonly eventStoreService: EventStoreReadService<ChainIdentityModel>) {}
+
+  public createNewModel(): ChainIdentityModel {
+    return new ChainIdentityModel();
+  }
+
+  public async initModel(): Promise<ChainIdentityModel> {
+    return this.eventStoreService.getOne(this.createNewModel());
+  }
+}
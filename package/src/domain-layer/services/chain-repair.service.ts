@@ -0,0 +1,108 @@
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import { EventStoreWriteService } from '@easylayer/common/eventstore';
+import { BlockchainProviderService, BlocksQueueService, LightBlock } from '@easylayer/bitcoin';
+import { ModelFactoryService, NormalizedModelCtor } from '../framework';
+import { NetworkModelFactoryService } from './network-model-factory.service';
+import { ChainValidationService, validateChainWindow } from './chain-validation.service';
+import type { ChainValidationReport } from './chain-validation.service';
+import { ModelBackfillService } from './model-backfill.service';
+import { PrevoutResolverService } from './prevout-resolver.service';
+import type { BlockCacheService } from '../../infrastructure-layer/providers/cache';
+
+export interface ChainRepairResult {
+  /** False when the chain was valid and nothing was done. */
+  repaired: boolean;
+  /** Height the models were rolled back to; blocks above it are fetched again by the blocks queue. */
+  rollbackHeight?: number;
+  /** Range re-fetched from the provider to locate the first wrong block. */
+  refetched?: { fromHeight: number; toHeight: number };
+  report: ChainValidationReport;
+}
+
+/**
+ * Repairs a network model window with a broken link: the broken range is re-fetched from the
+ * provider, and the network and user models are rolled back to the last block that still matches
+ * it, the same way a reorganisation does. The blocks queue then fetches the blocks above again.
+ */
+@Injectable()
+export class ChainRepairService {
+  private readonly logger = new Logger(ChainRepairService.name);
+
+  constructor(
+    private readonly chainValidation: ChainValidationService,
+    private readonly networkModelFactory: NetworkModelFactoryService,
+    private readonly blockchainProvider: BlockchainProviderService,
+    private readonly blocksQueueService: BlocksQueueService,
+    private readonly eventStore: EventStoreWriteService,
+    private readonly modelFactoryService: ModelFactoryService,
+    private readonly modelBackfill: ModelBackfillService,
+    private readonly prevoutResolver: PrevoutResolverService,
+    @Inject('FrameworkModelsConstructors')
+    private readonly Models: NormalizedModelCtor[],
+    // Node.js only; absent in the browser build
+    @Optional() @Inject('BlockCache') private readonly blockCache?: BlockCacheService
+  ) {}
+
+  public async repair(): Promise<ChainRepairResult> {
+    const report = await this.chainValidation.getReport();
+    if (!report.brokenLink) {
+      return { repaired: false, report };
+    }
+
+    const model = await this.networkModelFactory.initModel();
+    const { brokenLink, newestHeight } = report;
+    const fromHeight = Math.min(brokenLink.previousHeight, brokenLink.height);
+    const tipHeight = Number(await this.blockchainProvider.getCurrentBlockHeightFromNetwork());
+    const toHeight = Math.min(Math.max(newestHeight!, brokenLink.height), tipHeight);
+
+    const fetched: LightBlock[] = [];
+    for (let height = fromHeight; height <= toHeight; height++) {
+      const block = await this.blockchainProvider.getBasicBlockByHeight(height);
+      if (!block) break;
+      fetched.push(block);
+    }
+
+    const providerChain = validateChainWindow(fetched);
+    if (providerChain.brokenLink) {
+      const { height, failure } = providerChain.brokenLink;
+      throw new Error(`Provider returned an inconsistent chain at height ${height} (${failure}), repair aborted`);
+    }
+
+    // The broken block itself, or an earlier one the provider has with another hash; heights the
+    // provider does not have (anymore) count as wrong as well
+    const mismatch = fetched.find((block) => model.getBlockByHeight(block.height)?.hash !== block.hash);
+    const firstWrongHeight = Math.min(mismatch?.height ?? Infinity, brokenLink.height, fromHeight + fetched.length);
+    const rollbackHeight = firstWrongHeight - 1;
+
+    await this.rollbackTo(rollbackHeight);
+
+    this.logger.log('Network chain repaired', {
+      args: { brokenHeight: brokenLink.height, failure: brokenLink.failure, rollbackHeight },
+    });
+
+    return {
+      repaired: true,
+      rollbackHeight,
+      refetched: { fromHeight, toHeight: fromHeight + fetched.length - 1 },
+      report: await this.chainValidation.getReport(),
+    };
+  }
+
+  /**
+   * Rolls the network and user models back to `height` and restarts the blocks queue from there.
+   * Also the fallback of a reorganisation whose fork point is older than the network model window.
+   */
+  public async rollbackTo(height: number): Promise<void> {
+    await this.modelBackfill.cancelAll();
+    this.prevoutResolver.invalidateAbove(height);
+    await this.blockCache?.invalidateAbove(height);
+
+    const models = this.Models.map((ModelCtor) => this.modelFactoryService.createNewModel(ModelCtor));
+    await this.eventStore.rollback({
+      modelsToRollback: [...models, this.networkModelFactory.createNewModel()],
+      blockHeight: height,
+      modelsToSave: [],
+    });
+    await this.blocksQueueService.reorganizeBlocks(height);
+  }
+}
@@ -0,0 +1,108 @@
+import { Injectable } from '@nestjs/common';
+import { LightBlock } from '@easylayer/bitcoin';
+import { NetworkModelFactoryService } from './network-model-factory.service';
+import { ChainIdentityModelFactoryService } from './chain-identity-model-factory.service';
+import type { ChainIdentity } from './chain-identity-model-factory.service';
+import { ReorgHistoryModelFactoryService } from './reorg-history-model-factory.service';
+import type { ReorgRecord } from './reorg-history-model-factory.service';
+
+/**
+ * Which link of the network model window failed:
+ * - duplicate: the block repeats the height or hash of an earlier block
+ * - height-gap: the block is not at the height right after the previous one
+ * - parent-hash: `previousblockhash` is not the hash of the previous block
+ */
+export type ChainLinkFailure = 'duplicate' | 'height-gap' | 'parent-hash';
+
+export interface ChainBrokenLink {
+  /** Height of the first block that does not link to the block before it in the window. */
+  height: number;
+  hash: string;
+  failure: ChainLinkFailure;
+  previousHeight: number;
+  previousHash: string;
+}
+
+export interface ChainWindowValidation {
+  blocksCount: number;
+  oldestHeight: number | null;
+  newestHeight: number | null;
+  brokenLink: ChainBrokenLink | null;
+}
+
+export interface ChainValidationReport extends ChainWindowValidation {
+  isValid: boolean;
+  lastReorg: ReorgRecord | null;
+}
+
+/** Checks the links of consecutive blocks in the order the network model holds them. */
+export function validateChainWindow(blocks: LightBlock[]): ChainWindowValidation {
+  const seen = new Set<string>();
+  let brokenLink: ChainBrokenLink | null = null;
+
+  for (const [i, block] of blocks.entries()) {
+    const previous = blocks[i - 1];
+    if (previous && !brokenLink) {
+      const failure: ChainLinkFailure | null =
+        seen.has(block.hash) || block.height === previous.height
+          ? 'duplicate'
+          : block.height !== previous.height + 1
+            ? 'height-gap'
+            : block.previousblockhash !== previous.hash
+              ? 'parent-hash'
+              : null;
+      if (failure) {
+        brokenLink = {
+          height: block.height,
+          hash: block.hash,
+          failure,
+          previousHeight: previous.height,
+          previousHash: previous.hash,
+        };
+      }
+    }
+    seen.add(block.hash);
+  }
+
+  return {
+    blocksCount: blocks.length,
+    oldestHeight: blocks[0]?.height ?? null,
+    newestHeight: blocks[blocks.length - 1]?.height ?? null,
+    brokenLink,
+  };
+}
+
+/** Validation report of the network model window, see ChainRepairService for fixing a broken one. */
+@Injectable()
+export class ChainValidationService {
+  constructor(
+    private readonly networkModelFactory: NetworkModelFactoryService,
+    private readonly chainIdentityModelFactory: ChainIdentityModelFactoryService,
+    private readonly reorgHistoryModelFactory: ReorgHistoryModelFactoryService
+  ) {}
+
+  /**
+   * Validation report of the network model window
+   * Complexity: O(n) where n = number of blocks in chain
+   */
+  public async getReport(): Promise<ChainValidationReport> {
+    const model = await this.networkModelFactory.initModel();
+    const window = validateChainWindow(model.getAllBlocks());
+
+    return {
+      isValid: model.chain.validateChain() && !window.brokenLink,
+      ...window,
+      lastReorg: await this.reorgHistoryModelFactory.getLastReorg(),
+    };
+  }
+
+  /**
+   * Gets the validation report and the chain identity recorded on first init
+   * Complexity: O(n) where n = number of blocks in chain
+   */
+  public async getNetworkStats(): Promise<ChainValidationReport & { identity?: ChainIdentity }> {
+    const report = await this.getReport();
+    const { identity } = await this.chainIdentityModelFactory.initModel();
+    return { ...report, identity };
+  }
+}
@@ -0,0 +1,202 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { EventStoreWriteService } from '@easylayer/common/eventstore';
+import { BlockchainProviderService, LightBlock } from '@easylayer/bitcoin';
+import { BusinessConfig } from '../../config';
+import { ReorgHistoryModelFactoryService } from './reorg-history-model-factory.service';
+import type { DeepReorgResolution, DeepReorgState, ReorgBranchBlock } from './reorg-history-model-factory.service';
+
+export class DeepReorgPausedError extends Error {
+  constructor(public readonly deepReorg: DeepReorgState) {
+    const { depth, forkHeight, forkOutsideWindow, status } = deepReorg;
+    const reorg = forkOutsideWindow
+      ? `Reorganisation with a fork point below height ${forkHeight + 1} (outside of the network model window)`
+      : `Reorganisation of depth ${depth} at fork height ${forkHeight}`;
+    super(
+      status === 'pinned'
+        ? `${reorg} is rejected: the old chain is pinned until NETWORK_REORG_PIN_TTL_MS passes. Resolve it with ResolveDeepReorgCommand to proceed earlier.`
+        : `${reorg} exceeds NETWORK_MAX_REORG_DEPTH=${deepReorg.maxDepth}: ingestion is paused until it is resolved with ResolveDeepReorgCommand.`
+    );
+    this.name = 'DeepReorgPausedError';
+  }
+}
+
+export interface ReorgAssessment {
+  requestId: string;
+  forkHeight: number;
+  /** Indexed blocks above the fork height, lowest first. */
+  orphaned: LightBlock[];
+  forkOutsideWindow: boolean;
+}
+
+/** A reorganisation the guard lets through. */
+export interface ReorgDecision {
+  /** Located fork height, or the operator's rollbackHeight when the fork is outside of the window. */
+  rollbackHeight: number;
+  /** The operator approval it goes through with; null when it is within the limits. */
+  approval: DeepReorgState | null;
+}
+
+const toBranchBlock = ({ height, hash, previousblockhash }: LightBlock): ReorgBranchBlock => ({
+  height,
+  hash,
+  previousblockhash,
+});
+
+/**
+ * Keeps reorganisations deeper than NETWORK_MAX_REORG_DEPTH, and any whose fork point is older
+ * than the network model window, from being rolled through automatically. Such a reorganisation
+ * is recorded as DeepReorgDetected and every batch is rejected (so the blocks queue retries it)
+ * until an operator resolves it:
+ * - proceed: the next reorganisation is handled as usual; with the fork outside of the window the
+ *   models are rolled back to the height given by the operator instead
+ * - pin: ingestion resumes on the old chain and reorganisations orphaning its blocks are rejected
+ *   for NETWORK_REORG_PIN_TTL_MS; after that they are assessed like any other
+ *
+ * The state is kept on the reorg history aggregate, so a restart does not lift the pause; it is
+ * cached here as this process is its only writer.
+ */
+@Injectable()
+export class DeepReorgGuardService {
+  private readonly logger = new Logger(DeepReorgGuardService.name);
+  private state?: DeepReorgState | null;
+
+  constructor(
+    private readonly businessConfig: BusinessConfig,
+    private readonly reorgHistoryModelFactory: ReorgHistoryModelFactoryService,
+    private readonly blockchainProvider: BlockchainProviderService,
+    private readonly eventStore: EventStoreWriteService
+  ) {}
+
+  public async getState(): Promise<DeepReorgState | null> {
+    if (this.state === undefined) {
+      this.state = (await this.reorgHistoryModelFactory.initModel()).deepReorg;
+    }
+    return this.state;
+  }
+
+  /** Forgets the cached state after the reorg history has been saved elsewhere. */
+  public invalidate(): void {
+    this.state = undefined;
+  }
+
+  /** Throws while a deep reorganisation waits for an operator. */
+  public async assertNotPaused(): Promise<void> {
+    const state = await this.getState();
+    if (state?.status === 'pending') throw new DeepReorgPausedError(state);
+  }
+
+  /**
+   * Decides whether a located reorganisation may be handled and where the models are rolled back to;
+   * throws DeepReorgPausedError when it has to wait for an operator.
+   */
+  public async assess(reorg: ReorgAssessment): Promise<ReorgDecision> {
+    const state = await this.getState();
+    if (state?.status === 'pending') throw new DeepReorgPausedError(state);
+    if (state?.status === 'approved') {
+      if (!reorg.forkOutsideWindow) return { rollbackHeight: reorg.forkHeight, approval: state };
+      // An approval without rollbackHeight was given for a fork inside of the window
+      if (state.rollbackHeight !== undefined) return { rollbackHeight: state.rollbackHeight, approval: state };
+    }
+
+    if (state?.status === 'pinned') {
+      const pinned = new Set(state.oldBranch.map((block) => block.hash));
+      if (reorg.forkOutsideWindow || reorg.orphaned.some((block) => pinned.has(block.hash))) {
+        if (Date.now() - (state.resolvedAt ?? state.detectedAt) < this.businessConfig.NETWORK_REORG_PIN_TTL_MS) {
+          throw new DeepReorgPausedError(state);
+        }
+        await this.expirePin(state);
+      }
+    }
+
+    const maxDepth = this.businessConfig.NETWORK_MAX_REORG_DEPTH;
+    const tooDeep = maxDepth > 0 && reorg.orphaned.length > maxDepth;
+    if (!tooDeep && !reorg.forkOutsideWindow) return { rollbackHeight: reorg.forkHeight, approval: null };
+
+    const history = await this.reorgHistoryModelFactory.initModel();
+    history.detectDeepReorg({
+      requestId: reorg.requestId,
+      forkHeight: reorg.forkHeight,
+      depth: reorg.orphaned.length,
+      maxDepth,
+      forkOutsideWindow: reorg.forkOutsideWindow,
+      oldBranch: reorg.orphaned.map(toBranchBlock),
+      newBranch: await this.fetchNewBranch(reorg.orphaned),
+      detectedAt: Date.now(),
+    });
+    await this.eventStore.save(history);
+    this.state = history.deepReorg;
+
+    this.logger.warn('Deep reorganisation detected, ingestion paused', {
+      args: {
+        forkHeight: reorg.forkHeight,
+        depth: reorg.orphaned.length,
+        maxDepth,
+        forkOutsideWindow: reorg.forkOutsideWindow,
+      },
+    });
+    throw new DeepReorgPausedError(history.deepReorg!);
+  }
+
+  /** Operator decision on the detected deep reorganisation; `proceed` can also lift a pin. */
+  public async resolve(resolution: DeepReorgResolution, rollbackHeight?: number): Promise<DeepReorgState> {
+    const history = await this.reorgHistoryModelFactory.initModel();
+    const state = history.deepReorg;
+    if (!state || state.status === 'approved') {
+      throw new Error('There is no deep reorganisation waiting for a decision');
+    }
+    if (resolution === 'pin' && state.status === 'pinned') {
+      throw new Error('The old chain is already pinned until NETWORK_REORG_PIN_TTL_MS passes');
+    }
+
+    if (resolution === 'proceed' && state.forkOutsideWindow) {
+      if (rollbackHeight === undefined || !Number.isInteger(rollbackHeight)) {
+        throw new Error(
+          'The fork point is outside of the network model window and could not be located: pass rollbackHeight, the last height both chains share'
+        );
+      }
+      if (rollbackHeight < -1 || rollbackHeight > state.forkHeight) {
+        throw new Error(`rollbackHeight must be between -1 and ${state.forkHeight}`);
+      }
+    } else if (rollbackHeight !== undefined) {
+      throw new Error('rollbackHeight only applies when the fork point is outside of the network model window');
+    }
+
+    history.resolveDeepReorg(resolution, rollbackHeight);
+    await this.eventStore.save(history);
+    this.state = history.deepReorg;
+
+    this.logger.log('Deep reorganisation resolved', {
+      args: { resolution, forkHeight: state.forkHeight, depth: state.depth, rollbackHeight },
+    });
+    return history.deepReorg!;
+  }
+
+  /** The provider kept following the other branch for the whole pin: the old chain is given up on. */
+  private async expirePin(state: DeepReorgState): Promise<void> {
+    const history = await this.reorgHistoryModelFactory.initModel();
+    history.expirePin(Date.now());
+    await this.eventStore.save(history);
+    this.state = history.deepReorg;
+
+    this.logger.warn('Pin of the old chain expired, reorganisations orphaning it are handled again', {
+      args: { forkHeight: state.forkHeight, depth: state.depth, resolvedAt: state.resolvedAt },
+    });
+  }
+
+  /** Blocks the provider has at the orphaned heights; stops at the first height it does not have yet. */
+  public async fetchNewBranch(orphaned: LightBlock[]): Promise<ReorgBranchBlock[]> {
+    const branch: ReorgBranchBlock[] = [];
+    try {
+      for (const { height } of orphaned) {
+        const block = await this.blockchainProvider.getBasicBlockByHeight(height);
+        if (!block) break;
+        branch.push(toBranchBlock(block));
+      }
+    } catch (error) {
+      this.logger.warn('Could not fetch the new branch of a reorganisation', {
+        args: { message: (error as any)?.message },
+      });
+    }
+    return branch;
+  }
+}
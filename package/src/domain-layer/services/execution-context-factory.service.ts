@@ -0,0 +1,131 @@
+import { Inject, Injectable } from '@nestjs/common';
+import type { InjectionToken, Provider } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
+import { BlockchainProviderService } from '@easylayer/bitcoin';
+import type { AnyModelCtor } from '@easylayer/common/framework';
+import {
+  ModelFactoryService,
+  ModelsAccessor,
+  ModelServices,
+  getModelDependencyIds,
+  isDeterministicModel,
+} from '../framework';
+import type { ProcessBlockExecutionContext, MempoolTickExecutionContext, Model, ServiceToken } from '../framework';
+import { NetworkModelFactoryService } from './network-model-factory.service';
+import { NetworkReadService } from './network-model-read.service';
+import { MempoolReadService } from './mempool-model-read.service';
+import { PrevoutResolverService } from './prevout-resolver.service';
+
+function deepFreeze<T>(obj: T): T {
+  Object.getOwnPropertyNames(obj).forEach((name) => {
+    const value = (obj as any)[name];
+
+    if (value && typeof value === 'object') {
+      deepFreeze(value);
+    }
+  });
+
+  return Object.freeze(obj);
+}
+
+/** Context shared by all models of a block / tick; see forModel() for the per-model part. */
+export type SharedContext<C> = Omit<C, 'models'>;
+
+/**
+ * Builds execution contexts handed to user models, so the regular batch flow,
+ * backfill tracks and mempool ticks expose exactly the same surface.
+ */
+@Injectable()
+export class ExecutionContextFactoryService {
+  private readonly resolved = new Map<ServiceToken, unknown>();
+  private readonly userTokens: ReadonlySet<InjectionToken>;
+  private readonly blockServices: ModelServices;
+  private readonly mempoolServices: ModelServices;
+
+  constructor(
+    private readonly moduleRef: ModuleRef,
+    private readonly blockchainProvider: BlockchainProviderService,
+    private readonly networkModelFactory: NetworkModelFactoryService,
+    private readonly modelFactoryService: ModelFactoryService,
+    private readonly networkReadService: NetworkReadService,
+    private readonly mempoolReadService: MempoolReadService,
+    private readonly prevoutResolver: PrevoutResolverService,
+    @Inject('UserProviders') userProviders: Provider[]
+  ) {
+    this.userTokens = new Set(userProviders.map((provider) => ('provide' in provider ? provider.provide : provider)));
+    const resolve = (token: ServiceToken) => this.resolveService(token);
+    this.blockServices = new ModelServices(resolve, {
+      nodeProvider: this.blockchainProvider,
+      networkModelService: this.networkModelFactory,
+      userModelService: this.modelFactoryService,
+    });
+    this.mempoolServices = new ModelServices(resolve, {
+      nodeProvider: this.blockchainProvider,
+      userModelService: this.modelFactoryService,
+    });
+  }
+
+  public async forBlock(block: any): Promise<SharedContext<ProcessBlockExecutionContext>> {
+    const prevouts = await this.prevoutResolver.resolveBlock(block);
+    return {
+      block: deepFreeze(block),
+      prevouts,
+      network: this.networkReadService,
+      mempool: this.mempoolReadService,
+      services: this.blockServices,
+      networkConfig: this.blockchainProvider.config,
+    };
+  }
+
+  public forMempool(): SharedContext<MempoolTickExecutionContext> {
+    return {
+      network: this.networkReadService,
+      mempool: this.mempoolReadService,
+      networkConfig: this.blockchainProvider.config,
+      services: this.mempoolServices,
+    };
+  }
+
+  /**
+   * Per-model view of a shared context: adds `models` with the in-flight instances
+   * (keyed by model id) of the dependencies the model declared, and restricts
+   * `services` for deterministic models.
+   */
+  public forModel<C extends ProcessBlockExecutionContext | MempoolTickExecutionContext>(
+    ctx: SharedContext<C>,
+    model: Model,
+    instances: ReadonlyMap<string, Model>
+  ): C {
+    const Ctor = model.constructor as AnyModelCtor;
+    const allowed = new Set(getModelDependencyIds(Ctor));
+    const view = Object.create(ctx);
+    Object.defineProperty(view, 'models', {
+      value: new ModelsAccessor(model.aggregateId, allowed, instances),
+      writable: false,
+      enumerable: false,
+    });
+    if (isDeterministicModel(Ctor)) {
+      const { services } = ctx as SharedContext<ProcessBlockExecutionContext | MempoolTickExecutionContext>;
+      Object.defineProperty(view, 'services', {
+        value: services.forDeterministicModel(model.aggregateId),
+        writable: false,
+        enumerable: false,
+      });
+    }
+    return view as C;
+  }
+
+  /**
+   * Only the `Providers` passed to bootstrap: the crawler's own services (event store, command bus,
+   * configs) stay out of reach of models. Instances are cached.
+   */
+  private resolveService(token: ServiceToken): unknown {
+    // Anything else is reported by ModelServices.get()
+    if (!this.userTokens.has(token)) return undefined;
+    if (this.resolved.has(token)) return this.resolved.get(token);
+
+    const instance = this.moduleRef.get(token, { strict: false });
+    this.resolved.set(token, instance);
+    return instance;
+  }
+}
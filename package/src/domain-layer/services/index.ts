@@ -1,4 +1,12 @@
 export * from './network-model-factory.service';
+export * from './chain-identity-model-factory.service';
 export * from './mempool-model-factory.service';
 export * from './mempool-model-read.service';
 export * from './network-model-read.service';
+export * from './execution-context-factory.service';
+export * from './model-backfill.service';
+export * from './prevout-resolver.service';
+export * from './chain-validation.service';
+export * from './chain-repair.service';
+export * from './reorg-history-model-factory.service';
+export * from './deep-reorg-guard.service';
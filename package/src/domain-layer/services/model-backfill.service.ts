@@ -0,0 +1,231 @@
+import { Inject, Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { EventStoreWriteService } from '@easylayer/common/eventstore';
+import { BlockchainProviderService } from '@easylayer/bitcoin';
+import { BlocksQueueConfig } from '../../config';
+import {
+  ModelFactoryService,
+  Model,
+  NormalizedModelCtor,
+  MODEL_BACKFILL_EVENT,
+  getModelBackfillState,
+  getModelIdByCtor,
+  collectModelDependencies,
+} from '../framework';
+import type { ModelBackfillProgressedPayload } from '../framework';
+import { NetworkModelFactoryService } from './network-model-factory.service';
+import { ExecutionContextFactoryService } from './execution-context-factory.service';
+
+/**
+ * How a restored model takes part in the current batch:
+ * - live: processed with the batch as usual
+ * - handover: a few blocks behind; caught up inline, then processed with the batch
+ * - lagging: too far behind; skipped here and caught up on its own backfill track
+ */
+export type ModelTrack = 'live' | 'handover' | 'lagging';
+
+/**
+ * Catches up models that are behind the network model (newly added models or models with an
+ * earlier `startHeight`) without blocking the shared AddBlocksBatch flow.
+ *
+ * Progress is persisted on the model itself through MODEL_BACKFILL_EVENT, so a restart resumes the
+ * track where it stopped. The final hand-over happens inside AddBlocksBatchCommandHandler, which runs
+ * batches one at a time, so a model never misses the blocks of a batch that was in flight.
+ *
+ * Track steps and batches are saved one at a time through write(), and a batch only restores a
+ * model once its track has stopped (see join()), so it never starts from a state a track changes.
+ *
+ * Dependencies (`dependsOn`) are restored at the track height and re-processed in memory next to
+ * the model, so ctx.models behaves as in the shared flow; they are never saved from here.
+ */
+@Injectable()
+export class ModelBackfillService implements OnModuleDestroy {
+  private readonly logger = new Logger(ModelBackfillService.name);
+  private readonly tracks = new Map<string, Promise<void>>();
+  private writing: Promise<unknown> = Promise.resolve();
+  private generation = 0;
+  private stopped = false;
+
+  constructor(
+    private readonly networkModelFactory: NetworkModelFactoryService,
+    private readonly blockchainProvider: BlockchainProviderService,
+    private readonly eventStore: EventStoreWriteService,
+    private readonly modelFactoryService: ModelFactoryService,
+    private readonly executionContextFactory: ExecutionContextFactoryService,
+    private readonly blocksQueueConfig: BlocksQueueConfig,
+    @Inject('FrameworkModelsConstructors')
+    private readonly Models: NormalizedModelCtor[]
+  ) {}
+
+  async onModuleDestroy() {
+    this.stopped = true;
+    await this.cancelAll();
+  }
+
+  private get batchSize(): number {
+    return this.blocksQueueConfig.BLOCKS_QUEUE_BACKFILL_BATCH_SIZE;
+  }
+
+  public isRunning(ModelCtor: NormalizedModelCtor): boolean {
+    return this.tracks.has(getModelIdByCtor(ModelCtor));
+  }
+
+  public classify(model: Model, ModelCtor: NormalizedModelCtor, batchStartHeight: number): ModelTrack {
+    if (this.isRunning(ModelCtor)) return 'lagging';
+
+    const startHeight = this.modelFactoryService.getStartHeight(ModelCtor);
+    // Listen mode without an own start height: nothing to catch up from
+    if (startHeight === undefined) return 'live';
+
+    const state = getModelBackfillState(model);
+    if (state === 'done') return 'live';
+
+    const expectedHeight = batchStartHeight - 1;
+    if (model.lastBlockHeight >= expectedHeight) {
+      return state === 'running' ? 'handover' : 'live';
+    }
+
+    // Models that already have events and never were on a backfill track are regular (sparse) models
+    const isNew = model.lastBlockHeight === startHeight - 1;
+    if (!isNew && state !== 'running') return 'live';
+
+    return expectedHeight - model.lastBlockHeight <= this.batchSize ? 'handover' : 'lagging';
+  }
+
+  /**
+   * Restores the model for the batch starting at `batchStartHeight`, caught up when it is handed
+   * over; undefined when it belongs on its own track. A model whose track is still running is not
+   * restored, as the track may save it meanwhile.
+   */
+  public async join(ModelCtor: NormalizedModelCtor, batchStartHeight: number): Promise<Model | undefined> {
+    if (this.isRunning(ModelCtor)) return undefined;
+
+    const model = await this.modelFactoryService.restoreByCtor(ModelCtor);
+    const track = this.classify(model, ModelCtor, batchStartHeight);
+    if (track === 'lagging') return undefined;
+
+    if (track === 'handover') {
+      await this.handover(model, batchStartHeight - 1);
+    }
+    return model;
+  }
+
+  /** Runs `save` once every earlier write has finished; the batch handler saves through it as well. */
+  public write<T>(save: () => Promise<T>): Promise<T> {
+    const run = this.writing.then(save);
+    this.writing = run.catch(() => undefined);
+    return run;
+  }
+
+  /** Starts a background catch-up track for the model unless one is already running. */
+  public schedule(ModelCtor: NormalizedModelCtor): void {
+    const modelId = getModelIdByCtor(ModelCtor);
+    if (this.stopped || this.tracks.has(modelId)) return;
+
+    const generation = this.generation;
+    const track = this.runTrack(ModelCtor, generation)
+      .catch((error) => {
+        this.logger.warn('Model backfill track failed, it will be rescheduled with the next batch', {
+          args: { modelId, message: (error as any)?.message },
+        });
+      })
+      .finally(() => this.tracks.delete(modelId));
+
+    this.tracks.set(modelId, track);
+  }
+
+  /** Catches the model up to `toHeight` in place and marks it as part of the shared flow (not saved here). */
+  public async handover(model: Model, toHeight: number): Promise<void> {
+    if (model.lastBlockHeight < toHeight) {
+      await this.catchUp(model, model.lastBlockHeight + 1, toHeight);
+    }
+    this.markProgress(model, toHeight, true);
+
+    this.logger.log('Model backfill completed, joined the shared flow', {
+      args: { modelId: model.aggregateId, blockHeight: toHeight },
+    });
+  }
+
+  /** Stops all tracks without saving their current step (e.g. before a reorganisation rollback). */
+  public async cancelAll(): Promise<void> {
+    this.generation++;
+    await Promise.all([...this.tracks.values()]);
+  }
+
+  private async runTrack(ModelCtor: NormalizedModelCtor, generation: number): Promise<void> {
+    const modelId = getModelIdByCtor(ModelCtor);
+    this.logger.log('Model backfill started', { args: { modelId } });
+
+    while (!this.stopped && generation === this.generation) {
+      const networkModel = await this.networkModelFactory.initModel();
+      const tip = networkModel.lastBlockHeight;
+
+      // A dependency on its own track must finish first; the next batch reschedules this one
+      const waitingFor = collectModelDependencies(ModelCtor, this.Models).find((Dep) => this.isRunning(Dep));
+      if (waitingFor) {
+        this.logger.verbose('Model backfill waits for a dependency', {
+          args: { modelId, dependencyId: getModelIdByCtor(waitingFor) },
+        });
+        break;
+      }
+
+      const model = await this.modelFactoryService.restoreByCtor(ModelCtor);
+      const from = model.lastBlockHeight + 1;
+
+      // Close enough: the next batch hands the model over to the shared flow
+      if (from > tip) break;
+
+      const to = Math.min(tip, from + this.batchSize - 1);
+      await this.catchUp(model, from, to);
+
+      // Checked once it is this track's turn, so a cancelling reorganisation cannot slip in before the save
+      const saved = await this.write(async () => {
+        if (generation !== this.generation) return false;
+        this.markProgress(model, to, false);
+        await this.eventStore.save(model);
+        return true;
+      });
+      if (!saved) break;
+
+      this.logger.verbose('Model backfill progressed', { args: { modelId, blockHeight: to, tip } });
+    }
+  }
+
+  private async catchUp(model: Model, fromHeight: number, toHeight: number): Promise<void> {
+    const dependencies = await Promise.all(
+      collectModelDependencies(model.constructor as NormalizedModelCtor, this.Models).map((Dep) =>
+        this.modelFactoryService.restoreByCtorAtHeight(Dep, fromHeight - 1)
+      )
+    );
+    const instances = new Map(dependencies.map((m) => [m.aggregateId, m] as const));
+    const chain = [...dependencies, model];
+    // Dependencies with a later start height skip earlier blocks, as in the shared flow
+    const coveredHeights = new Map(chain.map((m) => [m, m.lastBlockHeight] as const));
+
+    for (let start = fromHeight; start <= toHeight; start += this.batchSize) {
+      const end = Math.min(toHeight, start + this.batchSize - 1);
+      const heights = Array.from({ length: end - start + 1 }, (_, i) => start + i);
+
+      const blocks: any[] = await this.blockchainProvider.getManyBlocksByHeights(heights);
+      const sorted = blocks.filter(Boolean).sort((a, b) => a.height - b.height);
+
+      if (sorted.length !== heights.length) {
+        throw new Error(
+          `Backfill of model "${model.aggregateId}" received ${sorted.length} of ${heights.length} blocks for ${start}..${end}`
+        );
+      }
+
+      for (const block of sorted) {
+        const ctx = await this.executionContextFactory.forBlock(block);
+        for (const m of chain) {
+          if (block.height <= coveredHeights.get(m)!) continue;
+          await m.processBlock(this.executionContextFactory.forModel(ctx, m, instances));
+        }
+      }
+    }
+  }
+
+  private markProgress(model: Model, blockHeight: number, done: boolean): void {
+    const payload: ModelBackfillProgressedPayload = { done };
+    model.applyEvent(MODEL_BACKFILL_EVENT, blockHeight, payload);
+  }
+}
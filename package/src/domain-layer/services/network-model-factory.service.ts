@@ -30,20 +30,6 @@ export class NetworkModelFactoryService {
     return model;
   }
 
-  /**
-   * Gets network chain statistics
-   * Complexity: O(1)
-   */
-  public async getNetworkStats(): Promise<{
-    isValid: boolean;
-  }> {
-    const model = await this.initModel();
-
-    return {
-      isValid: model.chain.validateChain(),
-    };
-  }
-
   /**
    * Gets a specific block by height
    * Complexity: O(n) where n = number of blocks in chain
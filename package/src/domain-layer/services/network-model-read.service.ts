@@ -1,23 +1,23 @@
 import { Injectable } from '@nestjs/common';
 import { LightBlock } from '@easylayer/bitcoin';
 import { NetworkModelFactoryService } from './network-model-factory.service';
+import { ChainValidationService } from './chain-validation.service';
+import type { ChainValidationReport } from './chain-validation.service';
+import type { ChainIdentity } from './chain-identity-model-factory.service';
 
 @Injectable()
 export class NetworkReadService {
-  constructor(private readonly networkModelFactory: NetworkModelFactoryService) {}
+  constructor(
+    private readonly networkModelFactory: NetworkModelFactoryService,
+    private readonly chainValidation: ChainValidationService
+  ) {}
 
   /**
-   * Gets network chain statistics
-   * Complexity: O(1)
+   * Gets the validation report of the network model window and the chain identity recorded on first init
+   * Complexity: O(n) where n = number of blocks in chain
    */
-  public async getNetworkStats(): Promise<{
-    isValid: boolean;
-  }> {
-    const model = await this.networkModelFactory.initModel();
-
-    return {
-      isValid: model.chain.validateChain(),
-    };
+  public async getNetworkStats(): Promise<ChainValidationReport & { identity?: ChainIdentity }> {
+    return this.chainValidation.getNetworkStats();
   }
 
   /**
@@ -0,0 +1,203 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { BlockchainProviderService, ScriptUtilService } from '@easylayer/bitcoin';
+import { BusinessConfig } from '../../config';
+import type { Prevout, PrevoutLookup } from '../framework';
+
+type Outpoint = `${string}:${number}`;
+
+const STATS_LOG_INTERVAL_BLOCKS = 100;
+
+function outpointOf(vin: { txid?: string; vout?: number; coinbase?: string }): Outpoint | undefined {
+  if (!vin || vin.coinbase || vin.txid === undefined || vin.vout === undefined) return undefined;
+  return `${vin.txid}:${vin.vout}`;
+}
+
+/**
+ * Resolves the previous outputs spent by block inputs.
+ *
+ * Order per input: prevout provided by the node (getblock verbosity 3) → bounded LRU cache of
+ * outputs created in processed blocks → provider fallback (batched per block). The cache is
+ * reorg-aware: outputs created above the reorganisation height are dropped on rollback.
+ * Spent outputs are not removed (a rolled back spend must stay resolvable); they age out.
+ */
+@Injectable()
+export class PrevoutResolverService {
+  private readonly logger = new Logger(PrevoutResolverService.name);
+  private readonly cache = new Map<Outpoint, Prevout>();
+  private providerUnsupported = false;
+
+  private hits = 0;
+  private misses = 0;
+  private unresolved = 0;
+  private blocks = 0;
+
+  constructor(
+    private readonly blockchainProvider: BlockchainProviderService,
+    private readonly businessConfig: BusinessConfig
+  ) {}
+
+  private get enabled(): boolean {
+    return this.businessConfig.PREVOUT_RESOLVER_ENABLED;
+  }
+
+  /** Indexes the block outputs and resolves all its inputs; call before models process the block. */
+  public async resolveBlock(block: any): Promise<PrevoutLookup> {
+    const resolved = new Map<Outpoint, Prevout>();
+    const missing = new Set<Outpoint>();
+    const txs: any[] = block?.tx ?? [];
+
+    // Outputs first: inputs may spend outputs created earlier in the same block
+    if (this.enabled) {
+      for (const tx of txs) {
+        for (const vout of tx?.vout ?? []) {
+          this.remember(`${tx.txid}:${vout.n}`, this.toPrevout(vout, block.height));
+        }
+      }
+    }
+
+    for (const tx of txs) {
+      for (const vin of tx?.vin ?? []) {
+        const key = outpointOf(vin);
+        if (!key || resolved.has(key)) continue;
+
+        if (vin.prevout) {
+          resolved.set(key, this.toPrevout(vin.prevout, vin.prevout.height));
+          continue;
+        }
+        if (!this.enabled) continue;
+
+        const cached = this.cache.get(key);
+        if (cached) {
+          this.hits++;
+          // refresh LRU position
+          this.cache.delete(key);
+          this.cache.set(key, cached);
+          resolved.set(key, cached);
+        } else {
+          this.misses++;
+          missing.add(key);
+        }
+      }
+    }
+
+    if (missing.size) {
+      await this.fetchMissing(missing, resolved);
+    }
+
+    if (this.enabled && ++this.blocks % STATS_LOG_INTERVAL_BLOCKS === 0) {
+      this.logStats();
+    }
+
+    return {
+      get: (vin) => {
+        const key = outpointOf(vin);
+        return key ? resolved.get(key) : undefined;
+      },
+    };
+  }
+
+  /** Drops outputs created above `blockHeight` (after a reorganisation rollback). */
+  public invalidateAbove(blockHeight: number): void {
+    let dropped = 0;
+    for (const [key, prevout] of this.cache) {
+      if (prevout.height !== undefined && prevout.height > blockHeight) {
+        this.cache.delete(key);
+        dropped++;
+      }
+    }
+
+    if (dropped) {
+      this.logger.debug('Prevout cache invalidated after reorganisation', { args: { blockHeight, dropped } });
+    }
+  }
+
+  public getStats() {
+    const lookups = this.hits + this.misses;
+    return {
+      size: this.cache.size,
+      maxEntries: this.businessConfig.PREVOUT_CACHE_MAX_ENTRIES,
+      hits: this.hits,
+      misses: this.misses,
+      unresolved: this.unresolved,
+      hitRate: lookups ? Number((this.hits / lookups).toFixed(4)) : 0,
+    };
+  }
+
+  private logStats(): void {
+    this.logger.log('Prevout cache stats', { args: this.getStats() });
+  }
+
+  private async fetchMissing(missing: Set<Outpoint>, resolved: Map<Outpoint, Prevout>): Promise<void> {
+    const provider: any = this.blockchainProvider;
+    if (typeof provider.getManyTransactionsByHashes !== 'function') {
+      this.unresolved += missing.size;
+      if (!this.providerUnsupported) {
+        this.providerUnsupported = true;
+        this.logger.warn('Provider cannot fetch transactions, prevout cache misses stay unresolved');
+      }
+      return;
+    }
+
+    const txids = [...new Set([...missing].map((key) => key.slice(0, key.lastIndexOf(':'))))];
+
+    let txs: any[] = [];
+    try {
+      txs = (await provider.getManyTransactionsByHashes(txids)) ?? [];
+    } catch (error) {
+      this.logger.warn('Prevout provider fallback failed', {
+        args: { txids: txids.length, message: (error as any)?.message },
+      });
+    }
+
+    for (const tx of txs) {
+      if (!tx) continue;
+      for (const vout of tx.vout ?? []) {
+        const key: Outpoint = `${tx.txid}:${vout.n}`;
+        // Not cached: without a reliable height the entry could not be invalidated on reorg
+        if (missing.has(key)) resolved.set(key, this.toPrevout(vout, tx.blockheight ?? tx.height));
+      }
+    }
+
+    const stillMissing = [...missing].filter((key) => !resolved.has(key)).length;
+    if (stillMissing) {
+      this.unresolved += stillMissing;
+      this.logger.verbose('Prevouts could not be resolved', { args: { count: stillMissing } });
+    }
+  }
+
+  private remember(key: Outpoint, prevout: Prevout): void {
+    this.cache.delete(key);
+    this.cache.set(key, prevout);
+
+    const max = this.businessConfig.PREVOUT_CACHE_MAX_ENTRIES;
+    while (this.cache.size > max) {
+      this.cache.delete(this.cache.keys().next().value as Outpoint);
+    }
+  }
+
+  private toPrevout(vout: any, height?: number): Prevout {
+    const scriptPubKey = vout?.scriptPubKey;
+    return {
+      value: Number(vout?.value ?? 0),
+      scriptPubKey,
+      address: this.extractAddress(scriptPubKey),
+      height: typeof height === 'number' ? height : undefined,
+    };
+  }
+
+  private extractAddress(scriptPubKey: any): string | undefined {
+    try {
+      if (scriptPubKey?.address) return scriptPubKey.address;
+      if (scriptPubKey?.addresses?.length) return scriptPubKey.addresses[0];
+      if (scriptPubKey?.hex) {
+        const network = (this.blockchainProvider as any).config?.network;
+        return network
+          ? ScriptUtilService.getScriptHashFromScriptPubKey(scriptPubKey, network) || undefined
+          : undefined;
+      }
+      return undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,204 @@
+import { Injectable } from '@nestjs/common';
+import { EventStoreReadService } from '@easylayer/common/eventstore';
+import { Model, defineEvent } from '../framework';
+import type { ModelEvent } from '../framework';
+
+export const REORG_HISTORY_AGGREGATE_ID = 'reorg_history';
+
+export interface ReorgRecord {
+  requestId: string;
+  /** Last height kept from the old branch. */
+  forkHeight: number;
+  depth: number;
+  /** Hashes of the rolled back blocks, lowest height first. */
+  orphanedHashes: string[];
+  /** Provider hashes at the same heights when the reorganisation was handled; shorter while the new branch is shorter. */
+  replacementHashes: string[];
+  /** User models that held blocks above the fork height. */
+  rolledBackModels: string[];
+  startedAt: number;
+  durationMs: number;
+}
+
+export interface ReorgBranchBlock {
+  height: number;
+  hash: string;
+  previousblockhash?: string;
+}
+
+/** A reorganisation deeper than NETWORK_MAX_REORG_DEPTH, or forking outside of the window, waiting for an operator. */
+export interface DeepReorgDetection {
+  requestId: string;
+  /** Last common height; with `forkOutsideWindow` the highest height the fork can be at. */
+  forkHeight: number;
+  depth: number;
+  maxDepth: number;
+  /** The fork point is older than the network model window, so it could not be located. */
+  forkOutsideWindow: boolean;
+  /** Blocks of the indexed branch above the fork height. */
+  oldBranch: ReorgBranchBlock[];
+  /** Blocks the provider has at the same heights; shorter while the new branch is shorter. */
+  newBranch: ReorgBranchBlock[];
+  detectedAt: number;
+}
+
+/** `proceed` rolls back onto the new branch, `pin` keeps the old one and rejects the other branch. */
+export type DeepReorgResolution = 'proceed' | 'pin';
+
+export interface DeepReorgResolvedPayload {
+  resolution: DeepReorgResolution;
+  /** Required to proceed when the fork is outside of the window: the height to roll back to. */
+  rollbackHeight?: number;
+  resolvedAt: number;
+}
+
+export interface DeepReorgPinExpiredPayload {
+  expiredAt: number;
+}
+
+export interface DeepReorgState extends DeepReorgDetection {
+  status: 'pending' | 'approved' | 'pinned';
+  rollbackHeight?: number;
+  resolvedAt?: number;
+}
+
+const isStringArray = (value: any) => Array.isArray(value) && value.every((item) => typeof item === 'string');
+const isBranch = (value: any) =>
+  Array.isArray(value) && value.every((b) => Number.isInteger(b?.height) && typeof b?.hash === 'string');
+
+const events = {
+  ReorgRecorded: defineEvent<ReorgRecord>(
+    (p: any) =>
+      (Number.isInteger(p?.forkHeight) &&
+        Number.isInteger(p?.depth) &&
+        isStringArray(p?.orphanedHashes) &&
+        isStringArray(p?.replacementHashes) &&
+        isStringArray(p?.rolledBackModels)) ||
+      'forkHeight and depth must be integers, hashes and model ids string arrays'
+  ),
+  DeepReorgDetected: defineEvent<DeepReorgDetection>(
+    (p: any) =>
+      (Number.isInteger(p?.forkHeight) &&
+        Number.isInteger(p?.depth) &&
+        isBranch(p?.oldBranch) &&
+        isBranch(p?.newBranch)) ||
+      'forkHeight and depth must be integers, branches lists of { height, hash }'
+  ),
+  DeepReorgResolved: defineEvent<DeepReorgResolvedPayload>(
+    (p: any) =>
+      ((p?.resolution === 'proceed' || p?.resolution === 'pin') &&
+        (p?.rollbackHeight === undefined || Number.isInteger(p.rollbackHeight))) ||
+      'resolution must be proceed or pin, rollbackHeight an integer'
+  ),
+  DeepReorgPinExpired: defineEvent<DeepReorgPinExpiredPayload>(
+    (p: any) => Number.isInteger(p?.expiredAt) || 'expiredAt must be an integer'
+  ),
+};
+
+/**
+ * System aggregate with every reorganisation handled by AddBlocksBatchCommandHandler and the deep
+ * reorganisation waiting for an operator, if any. Like the chain identity it lives in its own
+ * stream, so the rollbacks it describes do not remove it, and its events are published like the
+ * other system events.
+ */
+export class ReorgHistoryModel extends Model<typeof events> {
+  static modelId = REORG_HISTORY_AGGREGATE_ID;
+  static events = events;
+
+  /** Oldest first. */
+  public reorgs: ReorgRecord[] = [];
+  public deepReorg: DeepReorgState | null = null;
+
+  public record(reorg: ReorgRecord): void {
+    this.applyEvent('ReorgRecorded', reorg.forkHeight, reorg);
+  }
+
+  public detectDeepReorg(detection: DeepReorgDetection): void {
+    this.applyEvent('DeepReorgDetected', detection.forkHeight, detection);
+  }
+
+  public resolveDeepReorg(resolution: DeepReorgResolution, rollbackHeight?: number): void {
+    if (!this.deepReorg) {
+      throw new Error('There is no deep reorganisation to resolve');
+    }
+    this.applyEvent('DeepReorgResolved', this.deepReorg.forkHeight, {
+      resolution,
+      ...(rollbackHeight !== undefined && { rollbackHeight }),
+      resolvedAt: Date.now(),
+    });
+  }
+
+  /** Lifts an operator pin of the old chain once NETWORK_REORG_PIN_TTL_MS has passed. */
+  public expirePin(expiredAt: number): void {
+    if (this.deepReorg?.status !== 'pinned') {
+      throw new Error('There is no pinned chain to expire');
+    }
+    this.applyEvent('DeepReorgPinExpired', this.deepReorg.forkHeight, { expiredAt });
+  }
+
+  protected onReorgRecorded({ payload }: ModelEvent<ReorgRecord>) {
+    this.reorgs.push({ ...payload });
+    // The approved reorganisation is the one that has just been handled
+    if (this.deepReorg?.status === 'approved') this.deepReorg = null;
+  }
+
+  protected onDeepReorgDetected({ payload }: ModelEvent<DeepReorgDetection>) {
+    this.deepReorg = { ...payload, status: 'pending' };
+  }
+
+  protected onDeepReorgResolved({ payload }: ModelEvent<DeepReorgResolvedPayload>) {
+    if (!this.deepReorg) return;
+    this.deepReorg = {
+      ...this.deepReorg,
+      status: payload.resolution === 'proceed' ? 'approved' : 'pinned',
+      rollbackHeight: payload.rollbackHeight,
+      resolvedAt: payload.resolvedAt,
+    };
+  }
+
+  protected onDeepReorgPinExpired() {
+    if (this.deepReorg?.status === 'pinned') this.deepReorg = null;
+  }
+}
+
+@Injectable()
+export class ReorgHistoryModelFactoryService {
+  constructor(private readonly eventStoreService: EventStoreReadService<ReorgHistoryModel>) {}
+
+  public createNewModel(): ReorgHistoryModel {
+    return new ReorgHistoryModel();
+  }
+
+  public async initModel(): Promise<ReorgHistoryModel> {
+    return this.eventStoreService.getOne(this.createNewModel());
+  }
+
+  /**
+   * Gets recorded reorganisations, newest first, and the deep reorganisation waiting for an operator
+   * Complexity: O(n) where n = number of recorded reorganisations
+   */
+  public async getHistory(
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<{
+    reorgs: ReorgRecord[];
+    total: number;
+    deepReorg: DeepReorgState | null;
+  }> {
+    const { reorgs, deepReorg } = await this.initModel();
+    return {
+      reorgs: [...reorgs].reverse().slice(offset, offset + limit),
+      total: reorgs.length,
+      deepReorg,
+    };
+  }
+
+  /**
+   * Gets the last recorded reorganisation
+   * Complexity: O(n) where n = number of recorded reorganisations
+   */
+  public async getLastReorg(): Promise<ReorgRecord | null> {
+    const { reorgs } = await this.initModel();
+    return reorgs[reorgs.length - 1] ?? null;
+  }
+}
@@ -0,0 +1,91 @@
+import type { BlockchainProviderService } from '@easylayer/bitcoin';
+import { ProviderCompositionService } from '../provider-composition.service';
+import type { ProviderPoolService } from '../pool';
+import type { SimulatedProviderService } from '../simulated';
+import type { EsploraProviderService } from '../esplora';
+import type { ProviderLayer, ProviderTransport } from '../provider-transport';
+
+/** Stand-in for the library provider. */
+class LibraryProvider {
+  async getCurrentBlockHeightFromNetwork() {
+    return 1;
+  }
+  async getCurrentBlockHeightFromMempool() {
+    return 1;
+  }
+  async getBasicBlockByHeight(height: string | number) {
+    return { hash: `library-${height}` };
+  }
+  async getManyBlocksStatsByHeights() {
+    return ['library'];
+  }
+  async getManyBlocksByHeights() {
+    return ['library'];
+  }
+  async getManyBlocksByHashes() {
+    return ['library'];
+  }
+  async getManyTransactionsByHashes() {
+    return ['library'];
+  }
+  async getRawMempoolFromAll() {
+    return ['library'];
+  }
+  async getMempoolTransactionsByTxids() {
+    return ['library'];
+  }
+}
+
+/** Layer that records the order it was applied in and serves the tip with it. */
+function layer(name: string, applied: string[]): ProviderLayer {
+  return {
+    apply: (transport: ProviderTransport) => {
+      applied.push(name);
+      const height = transport.getCurrentBlockHeightFromNetwork;
+      return {
+        ...transport,
+        getCurrentBlockHeightFromNetwork: async () => (await height()) * 10 + applied.indexOf(name) + 1,
+      };
+    },
+  };
+}
+
+describe('ProviderCompositionService', () => {
+  it('installs the composed calls once and keeps the library methods it does not replace', async () => {
+    const provider = new LibraryProvider();
+    const libraryBlocks = provider.getManyBlocksByHeights;
+    const applied: string[] = [];
+
+    const composition = new ProviderCompositionService(
+      provider as BlockchainProviderService,
+      layer('pool', applied) as ProviderPoolService,
+      layer('simulated', applied) as SimulatedProviderService,
+      layer('esplora', applied) as EsploraProviderService,
+      layer('file', applied),
+      layer('cache', applied),
+      layer('zmq', applied)
+    );
+    await composition.onModuleInit();
+
+    expect(applied).toEqual(['pool', 'simulated', 'esplora', 'file', 'cache', 'zmq']);
+    expect(await provider.getCurrentBlockHeightFromNetwork()).toBe(1123456);
+    expect(provider.getManyBlocksByHeights).toBe(libraryBlocks);
+    expect(Object.keys(provider)).toEqual(['getCurrentBlockHeightFromNetwork']);
+  });
+
+  it('composes without the Node.js only layers', async () => {
+    const provider = new LibraryProvider();
+    const applied: string[] = [];
+
+    const composition = new ProviderCompositionService(
+      provider as BlockchainProviderService,
+      layer('pool', applied) as ProviderPoolService,
+      layer('simulated', applied) as SimulatedProviderService,
+      layer('esplora', applied) as EsploraProviderService
+    );
+    await composition.onModuleInit();
+
+    expect(applied).toEqual(['pool', 'simulated', 'esplora']);
+    expect(await provider.getCurrentBlockHeightFromNetwork()).toBe(1123);
+  });
+});
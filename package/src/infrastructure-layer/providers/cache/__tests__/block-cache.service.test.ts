@@ -0,0 +1,108 @@
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { BlockCacheService } from '../block-cache.service';
+import type { ProviderTransport } from '../../provider-transport';
+
+const blockAt = (height: number, fork = '') => ({ hash: `${fork}hash-${height}`, height, confirmations: 100, tx: [] });
+
+const unserved = async (): Promise<never> => {
+  throw new Error('Not cached');
+};
+
+function createProvider(blocks = (heights: (string | number)[]): any[] => heights.map((h) => blockAt(Number(h)))) {
+  return {
+    getCurrentBlockHeightFromNetwork: unserved,
+    getCurrentBlockHeightFromMempool: unserved,
+    getBasicBlockByHeight: unserved,
+    getManyBlocksStatsByHeights: unserved,
+    getManyBlocksByHeights: jest.fn(async (heights: (string | number)[]) => blocks(heights)),
+    getManyBlocksByHashes: unserved,
+    getManyTransactionsByHashes: unserved,
+    getRawMempoolFromAll: unserved,
+    getMempoolTransactionsByTxids: unserved,
+  };
+}
+
+function createConfig(dir: string, overrides: Record<string, any> = {}): any {
+  return {
+    BLOCK_CACHE_DIR: dir,
+    BLOCK_CACHE_MAX_SIZE_MB: 1024,
+    isSimulated: () => false,
+    isFileSource: () => false,
+    ...overrides,
+  };
+}
+
+async function createCache(provider: ProviderTransport, config: any) {
+  const cache = new BlockCacheService(config);
+  return { cache, transport: await cache.apply(provider) };
+}
+
+describe('BlockCacheService', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'block-cache-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('serves repeated heights from disk, also after a restart', async () => {
+    const provider = createProvider();
+    const { cache, transport } = await createCache(provider, createConfig(dir));
+
+    expect(await transport.getManyBlocksByHeights([1, 2])).toEqual([blockAt(1), blockAt(2)]);
+    expect(await transport.getManyBlocksByHeights([2, 3])).toEqual([blockAt(2), blockAt(3)]);
+    expect(provider.getManyBlocksByHeights).toHaveBeenLastCalledWith([3]);
+    expect(cache.getStats()).toMatchObject({ blocks: 3, hits: 1, misses: 3 });
+
+    const restartedProvider = createProvider();
+    const restarted = await createCache(restartedProvider, createConfig(dir));
+
+    expect(await restarted.transport.getManyBlocksByHeights([1, 2, 3])).toEqual([blockAt(1), blockAt(2), blockAt(3)]);
+    expect(restartedProvider.getManyBlocksByHeights).not.toHaveBeenCalled();
+  });
+
+  it('does not keep blocks that may still be reorganised', async () => {
+    const provider = createProvider((heights) => heights.map((h) => ({ ...blockAt(Number(h)), confirmations: 2 })));
+    const { cache, transport } = await createCache(provider, createConfig(dir));
+
+    await transport.getManyBlocksByHeights([1]);
+    expect(cache.getStats().blocks).toBe(0);
+  });
+
+  it('drops blocks above the reorganisation height', async () => {
+    const { cache, transport } = await createCache(createProvider(), createConfig(dir));
+    await transport.getManyBlocksByHeights([1, 2, 3]);
+
+    await cache.invalidateAbove(1);
+
+    expect(cache.getStats().blocks).toBe(1);
+    expect(await readdir(join(dir, 'blocks'))).toEqual(['hash-1.json']);
+  });
+
+  it('evicts least recently used blocks over the size limit', async () => {
+    const blockSize = Buffer.byteLength(JSON.stringify(blockAt(1)));
+    const { cache, transport } = await createCache(
+      createProvider(),
+      createConfig(dir, { BLOCK_CACHE_MAX_SIZE_MB: (blockSize * 2) / 1024 / 1024 })
+    );
+
+    await transport.getManyBlocksByHeights([1, 2]);
+    await transport.getManyBlocksByHeights([1]); // 1 becomes most recently used
+    await transport.getManyBlocksByHeights([3]);
+
+    expect(cache.getStats()).toMatchObject({ blocks: 2, evictions: 1 });
+    expect((await readdir(join(dir, 'blocks'))).sort()).toEqual(['hash-1.json', 'hash-3.json']);
+  });
+
+  it('stays off for local sources', async () => {
+    const provider = createProvider();
+    const { transport } = await createCache(provider, createConfig(dir, { isSimulated: () => true }));
+
+    expect(transport).toBe(provider);
+  });
+});
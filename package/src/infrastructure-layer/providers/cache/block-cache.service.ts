@@ -0,0 +1,228 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { appendFile, mkdir, readFile, rename, unlink, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { ProvidersConfig } from '../../../config';
+import type { ProviderLayer, ProviderTransport } from '../provider-transport';
+
+interface CacheEntry {
+  hash: string;
+  size: number;
+}
+
+const INDEX_FILE = 'index.log';
+const STATS_LOG_INTERVAL_REQUESTS = 100;
+/** Blocks closer to the tip may still be reorganised away, they are fetched every time. */
+const MIN_CONFIRMATIONS = 6;
+
+/**
+ * Keeps blocks fetched from the provider on disk (one JSON file per block hash) and serves
+ * `getManyBlocksByHeights` from there, so rebuilding models or resetting the event store does
+ * not download the chain again.
+ *
+ * The height → hash index is an append-only log replayed and compacted on startup. Entries
+ * are evicted least recently used first once BLOCK_CACHE_MAX_SIZE_MB is exceeded, and dropped
+ * above the reorganisation height when AddBlocksBatchCommandHandler handles a reorg.
+ */
+@Injectable()
+export class BlockCacheService implements ProviderLayer {
+  private readonly logger = new Logger(BlockCacheService.name);
+  private readonly entries = new Map<number, CacheEntry>();
+  private totalSize = 0;
+  private enabled = false;
+
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private requests = 0;
+
+  constructor(private readonly providersConfig: ProvidersConfig) {}
+
+  private get dir(): string {
+    return this.providersConfig.BLOCK_CACHE_DIR!;
+  }
+
+  private get maxSize(): number {
+    return this.providersConfig.BLOCK_CACHE_MAX_SIZE_MB * 1024 * 1024;
+  }
+
+  /** Serves `getManyBlocksByHeights` of `transport` through the cache when BLOCK_CACHE_DIR is set. */
+  async apply(transport: ProviderTransport): Promise<ProviderTransport> {
+    const config = this.providersConfig;
+    // Simulated and file sources are already local
+    if (!config.BLOCK_CACHE_DIR || config.isSimulated() || config.isFileSource()) return transport;
+
+    await mkdir(join(this.dir, 'blocks'), { recursive: true });
+    await this.loadIndex();
+    this.enabled = true;
+
+    this.logger.log('Block cache enabled', {
+      args: { dir: this.dir, blocks: this.entries.size, sizeMb: Math.round(this.totalSize / 1024 / 1024) },
+    });
+
+    return {
+      ...transport,
+      getManyBlocksByHeights: (heights: (string | number)[], ...rest: any[]) =>
+        this.getManyBlocksByHeights(heights, (missing) => transport.getManyBlocksByHeights(missing, ...rest)),
+    };
+  }
+
+  /** Serves cached heights from disk and fetches the rest in one provider call. */
+  public async getManyBlocksByHeights(
+    heights: (string | number)[],
+    fetch: (heights: number[]) => Promise<any[]>
+  ): Promise<any[]> {
+    const hs = heights.map(Number);
+    const found = new Map<number, any>();
+
+    for (const height of hs) {
+      const block = await this.read(height);
+      if (block) found.set(height, block);
+    }
+
+    const missing = hs.filter((h) => !found.has(h));
+    this.hits += found.size;
+    this.misses += missing.length;
+
+    if (missing.length) {
+      const blocks = (await fetch(missing)) ?? [];
+      for (const block of blocks) {
+        if (!block) continue;
+        found.set(Number(block.height), block);
+      }
+      await this.store(blocks.filter((b) => b && (b.confirmations ?? MIN_CONFIRMATIONS) >= MIN_CONFIRMATIONS));
+    }
+
+    if (++this.requests % STATS_LOG_INTERVAL_REQUESTS === 0) {
+      this.logger.log('Block cache stats', { args: this.getStats() });
+    }
+
+    return hs.filter((h) => found.has(h)).map((h) => found.get(h));
+  }
+
+  /** Drops cached blocks above `blockHeight` (after a reorganisation rollback). */
+  public async invalidateAbove(blockHeight: number): Promise<void> {
+    if (!this.enabled) return;
+
+    const heights = [...this.entries.keys()].filter((h) => h > blockHeight);
+    await this.drop(heights);
+
+    if (heights.length) {
+      this.logger.debug('Block cache invalidated after reorganisation', {
+        args: { blockHeight, dropped: heights.length },
+      });
+    }
+  }
+
+  public getStats() {
+    const lookups = this.hits + this.misses;
+    return {
+      blocks: this.entries.size,
+      sizeMb: Number((this.totalSize / 1024 / 1024).toFixed(2)),
+      maxSizeMb: this.providersConfig.BLOCK_CACHE_MAX_SIZE_MB,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      hitRate: lookups ? Number((this.hits / lookups).toFixed(4)) : 0,
+    };
+  }
+
+  private blockPath(hash: string): string {
+    return join(this.dir, 'blocks', `${hash}.json`);
+  }
+
+  private async read(height: number): Promise<any | undefined> {
+    const entry = this.entries.get(height);
+    if (!entry) return undefined;
+
+    try {
+      const block = JSON.parse(await readFile(this.blockPath(entry.hash), 'utf8'));
+      // refresh LRU position
+      this.entries.delete(height);
+      this.entries.set(height, entry);
+      return block;
+    } catch {
+      // Removed or truncated on disk: fetch again
+      await this.drop([height]);
+      return undefined;
+    }
+  }
+
+  private async store(blocks: any[]): Promise<void> {
+    const lines: string[] = [];
+
+    for (const block of blocks) {
+      const height = Number(block.height);
+      if (this.entries.get(height)?.hash === block.hash) continue;
+
+      const data = JSON.stringify(block);
+      const path = this.blockPath(block.hash);
+      await writeFile(`${path}.tmp`, data);
+      await rename(`${path}.tmp`, path);
+
+      const previous = this.entries.get(height);
+      if (previous) {
+        this.totalSize -= previous.size;
+        await unlink(this.blockPath(previous.hash)).catch(() => undefined);
+      }
+
+      const size = Buffer.byteLength(data);
+      this.entries.set(height, { hash: block.hash, size });
+      this.totalSize += size;
+      lines.push(`${height} ${block.hash} ${size}`);
+    }
+
+    if (lines.length) await appendFile(join(this.dir, INDEX_FILE), lines.join('\n') + '\n');
+    await this.evict();
+  }
+
+  private async evict(): Promise<void> {
+    const heights: number[] = [];
+    let size = this.totalSize;
+    for (const [height, entry] of this.entries) {
+      if (size <= this.maxSize) break;
+      heights.push(height);
+      size -= entry.size;
+    }
+
+    this.evictions += heights.length;
+    await this.drop(heights);
+  }
+
+  private async drop(heights: number[]): Promise<void> {
+    if (!heights.length) return;
+
+    for (const height of heights) {
+      const entry = this.entries.get(height);
+      if (!entry) continue;
+      this.entries.delete(height);
+      this.totalSize -= entry.size;
+      await unlink(this.blockPath(entry.hash)).catch(() => undefined);
+    }
+
+    await appendFile(join(this.dir, INDEX_FILE), heights.map((h) => `-${h}`).join('\n') + '\n');
+  }
+
+  private async loadIndex(): Promise<void> {
+    const path = join(this.dir, INDEX_FILE);
+    const log = await readFile(path, 'utf8').catch(() => '');
+
+    for (const line of log.split('\n')) {
+      if (!line) continue;
+      if (line.startsWith('-')) {
+        this.entries.delete(Number(line.slice(1)));
+        continue;
+      }
+      const [height, hash, size] = line.split(' ');
+      if (!hash) continue;
+      this.entries.delete(Number(height));
+      this.entries.set(Number(height), { hash, size: Number(size) });
+    }
+
+    this.totalSize = [...this.entries.values()].reduce((acc, e) => acc + e.size, 0);
+
+    // Compact the log to the live entries
+    const compacted = [...this.entries].map(([height, e]) => `${height} ${e.hash} ${e.size}\n`).join('');
+    await writeFile(`${path}.tmp`, compacted);
+    await rename(`${path}.tmp`, path);
+  }
+}
@@ -0,0 +1 @@
+export * from './block-cache.service';
@@ -0,0 +1,253 @@
+import { createServer } from 'node:http';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { bytesToHex, hexToBytes, reverseHex, sha256d } from '../../../../domain-layer/framework/crypto';
+import { EsploraClient, EsploraError } from '../esplora-client';
+import { esploraTransport } from '../esplora-provider.service';
+import type { ProviderTransport } from '../../provider-transport';
+
+const GENESIS_HASH = '000000000019d6689c085ae165831e934ff763ae46a2a6c172b3f1b60a8ce26f';
+const GENESIS_TXID = '4a5e1e4baab89f3a32518a88c31bc87f618f76673e2cc77ab2127b7afdeda33b';
+const GENESIS_HEADER =
+  '0100000000000000000000000000000000000000000000000000000000000000000000003ba3edfd7a7b12b27ac72c3e67768f617fc81bc3888a51323a9fb8aa4b1e5e4a29ab5f49ffff001d1dac2b7c';
+const GENESIS_SCRIPTSIG =
+  '04ffff001d0104455468652054696d65732030332f4a616e2f32303039204368616e63656c6c6f72206f6e206272696e6b206f66207365636f6e64206261696c6f757420666f722062616e6b73';
+const GENESIS_PUBKEY_SCRIPT =
+  '4104678afdb0fe5548271967f1a67130b7105cd6a828e03909a67962e0ea1f61deb649f6bc3f4cef38c4f35504e51ec112de5c384df7ba0b8d578a4c702b6bf11d5fac';
+const P2WPKH = '0014' + '22'.repeat(20);
+
+const le32 = (n: number) => reverseHex(n.toString(16).padStart(8, '0'));
+const le64 = (n: number) => reverseHex(n.toString(16).padStart(16, '0'));
+const count = (n: number) => n.toString(16).padStart(2, '0');
+const size = (hex: string) => count(hex.length / 2);
+const hashOf = (hex: string) => reverseHex(bytesToHex(sha256d(hexToBytes(hex))));
+
+interface TxSpec {
+  version: number;
+  vin: { txid: string; vout: number; scriptsig: string; sequence: number; witness?: string[]; prevout?: any }[];
+  vout: { value: number; scriptpubkey: string; scriptpubkey_type: string }[];
+}
+
+/** Serializes `spec` by hand and returns it with its Esplora JSON representation. */
+function transaction(spec: TxSpec, status: any, fee?: number): { hex: string; json: any } {
+  const segwit = spec.vin.some((input) => input.witness?.length);
+  const inputs = spec.vin
+    .map((i) => reverseHex(i.txid) + le32(i.vout) + size(i.scriptsig) + i.scriptsig + le32(i.sequence))
+    .join('');
+  const outputs = spec.vout.map((o) => le64(o.value) + size(o.scriptpubkey) + o.scriptpubkey).join('');
+  const witness = spec.vin.map(
+    (i) => count(i.witness?.length ?? 0) + (i.witness ?? []).map((w) => size(w) + w).join('')
+  );
+  const body = count(spec.vin.length) + inputs + count(spec.vout.length) + outputs;
+
+  const stripped = le32(spec.version) + body + le32(0);
+  const hex = segwit ? le32(spec.version) + '0001' + body + witness.join('') + le32(0) : stripped;
+  const weight = (stripped.length / 2) * 3 + hex.length / 2;
+
+  return {
+    hex,
+    json: {
+      txid: hashOf(stripped),
+      version: spec.version,
+      locktime: 0,
+      vin: spec.vin.map((i) => ({ ...i, prevout: i.prevout ?? null, is_coinbase: !i.prevout })),
+      vout: spec.vout,
+      size: hex.length / 2,
+      weight,
+      fee,
+      status,
+    },
+  };
+}
+
+/** Local Esplora REST stand-in: mainnet genesis, one block spending its coinbase, and a mempool. */
+class EsploraStandIn {
+  public readonly paths: string[] = [];
+  public failing = false;
+  public readonly blocks: { hash: string; height: number; raw: string }[] = [];
+  public readonly txs = new Map<string, any>();
+  public mempool: string[] = [];
+  private readonly server: Server;
+
+  constructor() {
+    const genesis = transaction(
+      {
+        version: 1,
+        vin: [{ txid: '00'.repeat(32), vout: 0xffffffff, scriptsig: GENESIS_SCRIPTSIG, sequence: 0xffffffff }],
+        vout: [{ value: 5000000000, scriptpubkey: GENESIS_PUBKEY_SCRIPT, scriptpubkey_type: 'p2pk' }],
+      },
+      { confirmed: true, block_height: 0, block_hash: GENESIS_HASH, block_time: 1231006505 }
+    );
+    this.blocks.push({ hash: GENESIS_HASH, height: 0, raw: GENESIS_HEADER + '01' + genesis.hex });
+    this.txs.set(genesis.json.txid, genesis.json);
+
+    const spend = transaction(
+      {
+        version: 2,
+        vin: [
+          {
+            txid: genesis.json.txid,
+            vout: 0,
+            scriptsig: '',
+            sequence: 0xfffffffd,
+            witness: ['aaaa', 'bbbbbb'],
+            prevout: { value: 5000000000, scriptpubkey: GENESIS_PUBKEY_SCRIPT, scriptpubkey_type: 'p2pk' },
+          },
+        ],
+        vout: [{ value: 4999000000, scriptpubkey: P2WPKH, scriptpubkey_type: 'v0_p2wpkh' }],
+      },
+      { confirmed: true, block_height: 1, block_time: 1231007105 },
+      1000000
+    );
+    const header =
+      le32(0x20000000) + reverseHex(GENESIS_HASH) + '00'.repeat(32) + le32(1231007105) + 'ffff001d' + le32(0);
+    this.blocks.push({ hash: hashOf(header), height: 1, raw: header + '01' + spend.hex });
+    spend.json.status.block_hash = hashOf(header);
+    this.txs.set(spend.json.txid, spend.json);
+
+    // Unconfirmed parent and child
+    let parent = spend;
+    for (const value of [4998000000, 4997000000]) {
+      const tx = transaction(
+        {
+          version: 2,
+          vin: [
+            {
+              txid: parent.json.txid,
+              vout: 0,
+              scriptsig: '',
+              sequence: 0xffffffff,
+              witness: ['cccc'],
+              prevout: { value: value + 1000000, scriptpubkey: P2WPKH, scriptpubkey_type: 'v0_p2wpkh' },
+            },
+          ],
+          vout: [{ value, scriptpubkey: P2WPKH, scriptpubkey_type: 'v0_p2wpkh' }],
+        },
+        { confirmed: false },
+        1000000
+      );
+      this.txs.set(tx.json.txid, tx.json);
+      this.mempool.push(tx.json.txid);
+      parent = tx;
+    }
+
+    this.server = createServer((req, res) => {
+      const path = req.url ?? '';
+      this.paths.push(path);
+      if (this.failing) {
+        res.writeHead(502).end('Bad gateway');
+        return;
+      }
+      const body = this.route(path);
+      if (body === undefined) res.writeHead(404).end('Not found');
+      else if (Buffer.isBuffer(body)) res.writeHead(200).end(body);
+      else res.writeHead(200).end(typeof body === 'string' ? body : JSON.stringify(body));
+    });
+  }
+
+  get url(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/api/`;
+  }
+
+  listen(): Promise<void> {
+    return new Promise((resolve) => this.server.listen(0, '127.0.0.1', () => resolve()));
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  private route(path: string): any {
+    const [, api, ...parts] = path.split('/');
+    if (api !== 'api') return undefined;
+    const [kind, id, extra] = parts;
+    const byHash = this.blocks.find((b) => b.hash === id);
+
+    if (kind === 'blocks' && id === 'tip' && extra === 'height') return String(this.blocks.length - 1);
+    if (kind === 'block-height') return this.blocks[Number(id)]?.hash;
+    if (kind === 'block' && byHash && extra === 'raw') return Buffer.from(byHash.raw, 'hex');
+    if (kind === 'block' && byHash) {
+      return { id: byHash.hash, height: byHash.height, size: byHash.raw.length / 2, tx_count: 1 };
+    }
+    if (kind === 'tx' && id) return this.txs.get(id);
+    if (kind === 'mempool' && id === 'txids') return this.mempool;
+    return undefined;
+  }
+}
+
+describe('Esplora provider', () => {
+  let esplora: EsploraStandIn;
+  let provider: ProviderTransport;
+
+  beforeEach(async () => {
+    esplora = new EsploraStandIn();
+    await esplora.listen();
+    provider = esploraTransport(new EsploraClient(esplora.url, { requestTimeoutMs: 1000, maxConcurrentRequests: 2 }), {
+      network: 'mainnet',
+    });
+  });
+
+  afterEach(async () => {
+    await esplora.close();
+  });
+
+  it('serves the tip and blocks in the getblock shape', async () => {
+    expect(await provider.getCurrentBlockHeightFromNetwork()).toBe(1);
+
+    const [genesis, block, missing] = await provider.getManyBlocksByHeights([0, 1, 2]);
+    expect(missing).toBeUndefined();
+    expect(genesis).toMatchObject({ hash: GENESIS_HASH, height: 0, confirmations: 2, nTx: 1 });
+    expect(genesis.tx[0].txid).toBe(GENESIS_TXID);
+    expect(block).toMatchObject({ hash: esplora.blocks[1]!.hash, height: 1, previousblockhash: GENESIS_HASH });
+    expect(block.tx[0].vin[0]).toMatchObject({ txid: GENESIS_TXID, vout: 0, txinwitness: ['aaaa', 'bbbbbb'] });
+
+    const [byHash] = await provider.getManyBlocksByHashes([esplora.blocks[1]!.hash]);
+    expect(byHash.tx[0].hash).toBe(block.tx[0].hash);
+
+    expect(await provider.getManyBlocksStatsByHeights([1, 5])).toEqual([
+      { blockhash: esplora.blocks[1]!.hash, total_size: esplora.blocks[1]!.raw.length / 2, height: 1 },
+    ]);
+  });
+
+  it('maps transactions with their prevouts and fee', async () => {
+    const txid = [...esplora.txs.keys()][1]!;
+    const [tx, unknown] = await provider.getManyTransactionsByHashes([txid, 'ff'.repeat(32)]);
+
+    expect(unknown).toBeNull();
+    expect(tx).toMatchObject({ txid, fee: 0.01, blockheight: 1, blockhash: esplora.blocks[1]!.hash });
+    expect(tx.hash).not.toBe(txid);
+    expect(esplora.blocks[1]!.raw).toContain(tx.hex);
+    expect(tx.vin[0].prevout).toMatchObject({
+      value: 50,
+      scriptPubKey: { hex: GENESIS_PUBKEY_SCRIPT, type: 'pubkey' },
+    });
+  });
+
+  it('builds the verbose mempool and only fetches new transactions', async () => {
+    const [parent, child] = esplora.mempool;
+    const [entries] = await provider.getRawMempoolFromAll();
+
+    expect(Object.keys(entries)).toEqual([parent, child]);
+    expect(entries[parent!]).toMatchObject({ fee: 0.01, depends: [], 'bip125-replaceable': false });
+    expect(entries[child!].depends).toEqual([parent]);
+    expect(entries[child!].vsize).toBe(Math.ceil(esplora.txs.get(child!).weight / 4));
+
+    // The parent is mined: it leaves the mempool and is not requested again
+    esplora.mempool = [child!];
+    esplora.paths.length = 0;
+    const [next] = await provider.getRawMempoolFromAll();
+    expect(Object.keys(next)).toEqual([child]);
+    expect(next[child!].depends).toEqual([]);
+    expect(esplora.paths.filter((p) => p.includes('/tx/'))).toEqual([]);
+
+    const [tx] = await provider.getMempoolTransactionsByTxids([child!]);
+    expect(tx).toMatchObject({ txid: child, fee: 0.01 });
+    expect(tx.blockhash).toBeUndefined();
+  });
+
+  it('fails with EsploraError on HTTP errors', async () => {
+    esplora.failing = true;
+    await expect(provider.getCurrentBlockHeightFromNetwork()).rejects.toThrow(EsploraError);
+    await expect(provider.getManyBlocksByHeights([0])).rejects.toThrow(/HTTP 502/);
+  });
+});
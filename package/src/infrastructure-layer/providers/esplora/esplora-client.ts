@@ -0,0 +1,105 @@
+export interface EsploraClientOptions {
+  requestTimeoutMs: number;
+  /** Requests in flight at once; public instances rate limit aggressively. */
+  maxConcurrentRequests: number;
+}
+
+export class EsploraError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'EsploraError';
+  }
+}
+
+/**
+ * Minimal Esplora/Electrs REST client (https://github.com/Blockstream/esplora/blob/master/API.md):
+ * plain `fetch` GETs with a timeout and a concurrency limit. A 404 is returned as undefined,
+ * other HTTP errors throw EsploraError.
+ */
+export class EsploraClient {
+  public readonly baseUrl: string;
+  private active = 0;
+  private readonly waiting: (() => void)[] = [];
+
+  constructor(
+    baseUrl: string,
+    private readonly options: EsploraClientOptions
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  async getTipHeight(): Promise<number> {
+    return Number(await this.text('/blocks/tip/height'));
+  }
+
+  async getBlockHash(height: number): Promise<string | undefined> {
+    return this.text(`/block-height/${height}`);
+  }
+
+  /** Block summary (id, height, size, weight, tx_count, ...), without transactions. */
+  async getBlock(hash: string): Promise<any | undefined> {
+    return this.json(`/block/${hash}`);
+  }
+
+  async getRawBlock(hash: string): Promise<Uint8Array | undefined> {
+    return this.request(`/block/${hash}/raw`, async (response) => new Uint8Array(await response.arrayBuffer()));
+  }
+
+  /** Transaction with prevouts, fee and confirmation status. */
+  async getTransaction(txid: string): Promise<any | undefined> {
+    return this.json(`/tx/${txid}`);
+  }
+
+  async getMempoolTxids(): Promise<string[]> {
+    return (await this.json('/mempool/txids')) ?? [];
+  }
+
+  private async text(path: string): Promise<string | undefined> {
+    return this.request(path, (response) => response.text());
+  }
+
+  private async json(path: string): Promise<any | undefined> {
+    return this.request(path, (response) => response.json());
+  }
+
+  private async request<T>(path: string, read: (response: Response) => Promise<T>): Promise<T | undefined> {
+    await this.acquire();
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.requestTimeoutMs);
+
+    try {
+      const response = await fetch(`${this.baseUrl}${path}`, { signal: controller.signal });
+      if (response.status === 404) return undefined;
+      if (!response.ok) {
+        const detail = (await response.text().catch(() => '')).slice(0, 200);
+        throw new EsploraError(`GET ${path}: HTTP ${response.status} ${detail}`.trim(), response.status);
+      }
+      return await read(response);
+    } catch (error: any) {
+      if (error?.name === 'AbortError') {
+        throw new EsploraError(`GET ${path}: request timed out after ${this.options.requestTimeoutMs}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      this.release();
+    }
+  }
+
+  private async acquire(): Promise<void> {
+    if (this.active < this.options.maxConcurrentRequests) {
+      this.active++;
+      return;
+    }
+    await new Promise<void>((resolve) => this.waiting.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) next();
+    else this.active--;
+  }
+}
@@ -0,0 +1,138 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { BusinessConfig, ProvidersConfig } from '../../../config';
+import { parseRawBlock } from '../file/raw-block';
+import { redactUrl } from '../pool/rpc-endpoint';
+import { EsploraClient } from './esplora-client';
+import { toMempoolEntry, toNodeTransaction } from './esplora-tx';
+import type { ProviderLayer, ProviderTransport } from '../provider-transport';
+
+export interface EsploraSourceOptions {
+  network?: string;
+}
+
+/**
+ * Serves every provider call of the crawler and the mempool loader from an Esplora/Electrs
+ * REST API.
+ *
+ * Blocks are fetched raw and parsed into the `getblock <hash> 2` shape (prevouts are left to
+ * PrevoutResolverService, like with RPC); transactions come with prevouts and fees.
+ */
+export function esploraTransport(client: EsploraClient, options: EsploraSourceOptions = {}): ProviderTransport {
+  const { network } = options;
+
+  let tipHeight: number | undefined;
+  // Mempool transactions by txid with the time they were first seen (the entry `time`)
+  const mempool = new Map<string, { tx: any; firstSeen: number }>();
+
+  const height = async () => {
+    tipHeight = await client.getTipHeight();
+    return tipHeight;
+  };
+
+  const withChainFields = (block: any) => ({
+    ...block,
+    ...(tipHeight !== undefined && { confirmations: Math.max(tipHeight - block.height + 1, 1) }),
+  });
+
+  const blockByHash = async (hash: string, blockHeight?: number) => {
+    const h = blockHeight ?? (await client.getBlock(hash))?.height;
+    if (h === undefined) return undefined;
+    const raw = await client.getRawBlock(hash);
+    return raw && withChainFields(parseRawBlock(raw, h, network));
+  };
+
+  const blockByHeight = async (h: number) => {
+    const hash = await client.getBlockHash(h);
+    return hash ? blockByHash(hash, h) : undefined;
+  };
+
+  const mempoolTransaction = async (txid: string) => {
+    const tx = mempool.get(txid)?.tx ?? (await client.getTransaction(txid));
+    return tx ? toNodeTransaction(tx, network) : null;
+  };
+
+  return {
+    getCurrentBlockHeightFromNetwork: async () => height(),
+    getCurrentBlockHeightFromMempool: async () => height(),
+    getBasicBlockByHeight: async (h: string | number) => (await blockByHeight(Number(h))) ?? null,
+    getManyBlocksStatsByHeights: async (heights: (string | number)[]) => {
+      const stats = await Promise.all(
+        heights.map(async (h) => {
+          const hash = await client.getBlockHash(Number(h));
+          const block = hash && (await client.getBlock(hash));
+          return block ? { blockhash: block.id, total_size: block.size, height: block.height } : undefined;
+        })
+      );
+      return stats.filter(Boolean);
+    },
+    getManyBlocksByHeights: async (heights: (string | number)[]) =>
+      (await Promise.all(heights.map((h) => blockByHeight(Number(h))))).filter(Boolean),
+    getManyBlocksByHashes: async (hashes: string[]) =>
+      (await Promise.all(hashes.map((hash) => blockByHash(hash)))).filter(Boolean),
+    getManyTransactionsByHashes: async (txids: string[]) =>
+      Promise.all(
+        txids.map(async (txid) => {
+          const tx = await client.getTransaction(txid);
+          return tx ? toNodeTransaction(tx, network) : null;
+        })
+      ),
+    getRawMempoolFromAll: async () => {
+      const txids = await client.getMempoolTxids();
+      const current = new Set(txids);
+      for (const txid of mempool.keys()) {
+        if (!current.has(txid)) mempool.delete(txid);
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      await Promise.all(
+        txids
+          .filter((txid) => !mempool.has(txid))
+          .map(async (txid) => {
+            const tx = await client.getTransaction(txid);
+            // Confirmed or evicted since the txids were listed
+            if (tx && !tx.status?.confirmed) mempool.set(txid, { tx, firstSeen: now });
+          })
+      );
+
+      const tip = tipHeight ?? (await height());
+      const entries: Record<string, any> = {};
+      for (const [txid, { tx, firstSeen }] of mempool) {
+        entries[txid] = toMempoolEntry(tx, firstSeen, tip, current);
+      }
+      return [entries];
+    },
+    getMempoolTransactionsByTxids: async (txids: string[]) => Promise.all(txids.map(mempoolTransaction)),
+  };
+}
+
+@Injectable()
+export class EsploraProviderService implements ProviderLayer {
+  private readonly logger = new Logger(EsploraProviderService.name);
+  private _client?: EsploraClient;
+
+  constructor(
+    private readonly providersConfig: ProvidersConfig,
+    private readonly businessConfig: BusinessConfig
+  ) {}
+
+  /** Client of PROVIDER_ESPLORA_URL; undefined unless NETWORK_PROVIDER_TYPE=esplora. */
+  get client(): EsploraClient | undefined {
+    return this._client;
+  }
+
+  /** Replaces every call with PROVIDER_ESPLORA_URL when NETWORK_PROVIDER_TYPE=esplora. */
+  apply(transport: ProviderTransport): ProviderTransport {
+    const config = this.providersConfig;
+    if (!config.isEsplora()) return transport;
+
+    this._client = new EsploraClient(config.PROVIDER_ESPLORA_URL!, {
+      requestTimeoutMs: config.PROVIDER_RPC_REQUEST_TIMEOUT,
+      maxConcurrentRequests: config.PROVIDER_RATE_LIMIT_MAX_CONCURRENT_REQUESTS,
+    });
+    this.logger.log('Esplora network provider enabled', {
+      args: { url: redactUrl(this._client.baseUrl), mempool: config.isMempoolEnabled() },
+    });
+
+    return esploraTransport(this._client, { network: this.businessConfig.NETWORK_TYPE });
+  }
+}
@@ -0,0 +1,131 @@
+import { hexToBytes, reverseHex } from '../../../domain-layer/framework/crypto';
+import { parseRawTransaction, NODE_SCRIPT_TYPES } from '../file/raw-block';
+
+/** Esplora scriptpubkey_type names mapped to the ones bitcoind reports. */
+const ESPLORA_SCRIPT_TYPES: Record<string, string> = {
+  p2pkh: NODE_SCRIPT_TYPES.p2pkh,
+  p2sh: NODE_SCRIPT_TYPES.p2sh,
+  v0_p2wpkh: NODE_SCRIPT_TYPES.p2wpkh,
+  v0_p2wsh: NODE_SCRIPT_TYPES.p2wsh,
+  v1_p2tr: NODE_SCRIPT_TYPES.p2tr,
+  p2pk: NODE_SCRIPT_TYPES.p2pk,
+  multisig: NODE_SCRIPT_TYPES.multisig,
+  op_return: NODE_SCRIPT_TYPES.op_return,
+};
+
+const u32le = (n: number) => {
+  const out = new Uint8Array(4);
+  new DataView(out.buffer).setUint32(0, n >>> 0, true);
+  return out;
+};
+
+const u64le = (n: number) => {
+  const out = new Uint8Array(8);
+  new DataView(out.buffer).setBigUint64(0, BigInt(n), true);
+  return out;
+};
+
+const varint = (n: number) => {
+  if (n < 0xfd) return new Uint8Array([n]);
+  if (n <= 0xffff) return new Uint8Array([0xfd, n & 0xff, n >> 8]);
+  return new Uint8Array([0xfe, ...u32le(n)]);
+};
+
+const withLength = (hex: string) => {
+  const bytes = hexToBytes(hex);
+  return [varint(bytes.length), bytes];
+};
+
+/** Esplora returns decoded transactions only; the node shape needs the serialization (hex, hash, sizes). */
+export function serializeEsploraTransaction(tx: any): Uint8Array {
+  const segwit = tx.vin.some((input: any) => input.witness?.length);
+  const parts: Uint8Array[] = [u32le(tx.version)];
+  if (segwit) parts.push(new Uint8Array([0, 1]));
+
+  parts.push(varint(tx.vin.length));
+  for (const input of tx.vin) {
+    parts.push(hexToBytes(reverseHex(input.txid)), u32le(input.vout), ...withLength(input.scriptsig ?? ''));
+    parts.push(u32le(input.sequence));
+  }
+
+  parts.push(varint(tx.vout.length));
+  for (const output of tx.vout) {
+    parts.push(u64le(output.value), ...withLength(output.scriptpubkey));
+  }
+
+  if (segwit) {
+    for (const input of tx.vin) {
+      const stack: string[] = input.witness ?? [];
+      parts.push(varint(stack.length), ...stack.flatMap(withLength));
+    }
+  }
+  parts.push(u32le(tx.locktime));
+
+  const out = new Uint8Array(parts.reduce((acc, p) => acc + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+/**
+ * Maps an Esplora transaction to the `getrawtransaction <txid> 2` shape: the serialized
+ * fields come from the parsed re-serialization, prevouts and fee from Esplora.
+ */
+export function toNodeTransaction(tx: any, network?: string): any {
+  const parsed = parseRawTransaction(serializeEsploraTransaction(tx), network);
+  if (parsed.txid !== tx.txid) {
+    throw new Error(`Esplora transaction ${tx.txid} does not match its serialization (${parsed.txid})`);
+  }
+
+  parsed.vin.forEach((input: any, i: number) => {
+    const prevout = tx.vin[i]?.prevout;
+    if (!prevout) return;
+    input.prevout = {
+      generated: false,
+      value: prevout.value / 1e8,
+      scriptPubKey: {
+        asm: prevout.scriptpubkey_asm ?? '',
+        hex: prevout.scriptpubkey,
+        type: ESPLORA_SCRIPT_TYPES[prevout.scriptpubkey_type] ?? NODE_SCRIPT_TYPES.nonstandard,
+        ...(prevout.scriptpubkey_address && { address: prevout.scriptpubkey_address }),
+      },
+    };
+  });
+
+  const status = tx.status ?? {};
+  return {
+    ...parsed,
+    ...(typeof tx.fee === 'number' && { fee: tx.fee / 1e8 }),
+    ...(status.confirmed && {
+      blockhash: status.block_hash,
+      blockheight: status.block_height,
+      blocktime: status.block_time,
+      time: status.block_time,
+    }),
+  };
+}
+
+/**
+ * Mempool entry of `getrawmempool true` built from an unconfirmed Esplora transaction;
+ * `mempool` (txids currently in the mempool) yields the unconfirmed parents.
+ */
+export function toMempoolEntry(tx: any, firstSeen: number, tipHeight: number, mempool: Set<string>): any {
+  const fee = (tx.fee ?? 0) / 1e8;
+  const unconfirmedParents = tx.vin.map((input: any) => input.txid).filter((txid: string) => mempool.has(txid));
+
+  return {
+    vsize: Math.ceil(tx.weight / 4),
+    weight: tx.weight,
+    time: firstSeen,
+    height: tipHeight,
+    fee,
+    fees: { base: fee, modified: fee, ancestor: fee, descendant: fee },
+    depends: [...new Set(unconfirmedParents)],
+    spentby: [],
+    'bip125-replaceable': tx.vin.some((input: any) => input.sequence < 0xfffffffe),
+    unbroadcast: false,
+  };
+}
@@ -0,0 +1,3 @@
+export * from './esplora-client';
+export * from './esplora-tx';
+export * from './esplora-provider.service';
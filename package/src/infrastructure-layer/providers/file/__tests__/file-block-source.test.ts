@@ -0,0 +1,282 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { bytesToHex, hexToBytes, reverseHex, sha256d } from '../../../../domain-layer/framework/crypto';
+import { parseRawBlock } from '../raw-block';
+import { decompressAmount, parseBlockUndo } from '../block-undo';
+import { BlkFileSource } from '../blk-file-source';
+import { NdjsonFileSource } from '../ndjson-file-source';
+import { withFileSource } from '../file-provider.service';
+import type { ProviderTransport } from '../../provider-transport';
+
+const GENESIS_HEX =
+  '0100000000000000000000000000000000000000000000000000000000000000000000003ba3edfd7a7b12b27ac72c3e67768f617fc81bc3888a51323a9fb8aa4b1e5e4a29ab5f49ffff001d1dac2b7c' +
+  '01' +
+  '01000000010000000000000000000000000000000000000000000000000000000000000000ffffffff4d04ffff001d0104455468652054696d65732030332f4a616e2f32303039204368616e63656c6c6f72206f6e206272696e6b206f66207365636f6e64206261696c6f757420666f722062616e6b73ffffffff0100f2052a01000000434104678afdb0fe5548271967f1a67130b7105cd6a828e03909a67962e0ea1f61deb649f6bc3f4cef38c4f35504e51ec112de5c384df7ba0b8d578a4c702b6bf11d5fac00000000';
+
+const REGTEST_MAGIC = 'fabfb5da';
+const G_X = '79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798';
+const G_Y = '483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8';
+
+const le32 = (n: number) => reverseHex(n.toString(16).padStart(8, '0'));
+const le64 = (n: bigint) => reverseHex(n.toString(16).padStart(16, '0'));
+const size = (hex: string) => (hex.length / 2).toString(16).padStart(2, '0');
+const hashOf = (hex: string) => reverseHex(bytesToHex(sha256d(hexToBytes(hex))));
+
+function coinbaseTx(tag: number): string {
+  const script = '51' + le32(tag);
+  return (
+    le32(1) +
+    '01' +
+    '00'.repeat(32) +
+    'ffffffff' +
+    size(script) +
+    script +
+    'ffffffff' +
+    '01' +
+    le64(5000000000n) +
+    '1976a914' +
+    '11'.repeat(20) +
+    '88ac' +
+    le32(0)
+  );
+}
+
+/** Segwit spend of `txid:0` paying to a p2wpkh output. */
+function spendTx(txid: string): string {
+  return (
+    le32(2) +
+    '0001' +
+    '01' +
+    reverseHex(txid) +
+    le32(0) +
+    '00' +
+    'fffffffd' +
+    '01' +
+    le64(4999000000n) +
+    '160014' +
+    '22'.repeat(20) +
+    '02' +
+    '02aaaa' +
+    '03bbbbbb' +
+    le32(0)
+  );
+}
+
+function block(prev: string, time: number, txs: string[]): { hash: string; hex: string } {
+  const header = le32(0x20000000) + reverseHex(prev) + '00'.repeat(32) + le32(time) + le32(0x207fffff) + le32(0);
+  return { hash: hashOf(header), hex: header + txs.length.toString(16).padStart(2, '0') + txs.join('') };
+}
+
+function record(hex: string): string {
+  return REGTEST_MAGIC + le32(hex.length / 2) + hex;
+}
+
+function xor(hex: string, key: Uint8Array): Buffer {
+  const bytes = hexToBytes(hex);
+  bytes.forEach((b, i) => (bytes[i] = b ^ key[i % key.length]!));
+  return Buffer.from(bytes);
+}
+
+describe('raw block parsing', () => {
+  it('parses the mainnet genesis block', () => {
+    const block = parseRawBlock(hexToBytes(GENESIS_HEX), 0, 'mainnet');
+
+    expect(block.hash).toBe('000000000019d6689c085ae165831e934ff763ae46a2a6c172b3f1b60a8ce26f');
+    expect(block.merkleroot).toBe('4a5e1e4baab89f3a32518a88c31bc87f618f76673e2cc77ab2127b7afdeda33b');
+    expect(block.previousblockhash).toBeUndefined();
+    expect(block.size).toBe(285);
+    expect(block.difficulty).toBe(1);
+
+    const [tx] = block.tx;
+    expect(tx.txid).toBe(block.merkleroot);
+    expect(tx.vin[0].coinbase).toMatch(/^04ffff001d/);
+    expect(tx.vout[0]).toMatchObject({ value: 50, n: 0, scriptPubKey: { type: 'pubkey' } });
+  });
+
+  it('separates txid from wtxid for segwit transactions', () => {
+    const funding = hashOf(coinbaseTx(1));
+    const raw = spendTx(funding);
+    const parsed = parseRawBlock(hexToBytes(block('00'.repeat(32), 1, [coinbaseTx(2), raw]).hex), 1, 'regtest').tx[1];
+
+    const stripped = raw.slice(0, 8) + raw.slice(12, raw.indexOf('02' + '02aaaa')) + le32(0);
+    expect(parsed.txid).toBe(hashOf(stripped));
+    expect(parsed.hash).toBe(hashOf(raw));
+    expect(parsed.vin[0]).toMatchObject({ txid: funding, vout: 0, txinwitness: ['aaaa', 'bbbbbb'] });
+    expect(parsed.vout[0].scriptPubKey).toMatchObject({ type: 'witness_v0_keyhash' });
+    expect(parsed.vout[0].scriptPubKey.address).toMatch(/^bcrt1q/);
+    expect(parsed.weight).toBe((stripped.length / 2) * 3 + raw.length / 2);
+  });
+});
+
+describe('block undo parsing', () => {
+  it('decompresses amounts like bitcoind', () => {
+    expect(decompressAmount(0x0)).toBe(0);
+    expect(decompressAmount(0x1)).toBe(1);
+    expect(decompressAmount(0x7)).toBe(1000000);
+    expect(decompressAmount(0x9)).toBe(100000000);
+    expect(decompressAmount(0x32)).toBe(5000000000);
+    expect(decompressAmount(0x1406f40)).toBe(2100000000000000);
+  });
+
+  it('restores compressed scripts including uncompressed pubkeys', () => {
+    // 1 tx, 2 coins: coinbase p2pkh at height 1 and a pubkey output at height 5
+    const undo = '01' + '02' + '03' + '00' + '32' + '00' + '11'.repeat(20) + '0a' + '00' + '09' + '04' + G_X;
+    const [coins] = parseBlockUndo(hexToBytes(undo), 'regtest');
+
+    expect(coins![0]).toMatchObject({ generated: true, height: 1, value: 50 });
+    expect(coins![0]!.scriptPubKey.hex).toBe('76a914' + '11'.repeat(20) + '88ac');
+    expect(coins![1]).toMatchObject({ generated: false, height: 5, value: 1 });
+    expect(coins![1]!.scriptPubKey.hex).toBe('4104' + G_X + G_Y + 'ac');
+  });
+});
+
+describe('BlkFileSource', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'blk-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('follows the branch with most work, out of order and through obfuscation, with prevouts from undo', async () => {
+    const genesis = block('00'.repeat(32), 0, [coinbaseTx(0)]);
+    const a1 = block(genesis.hash, 1, [coinbaseTx(1)]);
+    const b1 = block(genesis.hash, 2, [coinbaseTx(11)]);
+    const b2 = block(b1.hash, 3, [coinbaseTx(12), spendTx(hashOf(coinbaseTx(11)))]);
+
+    // b2 stored before its parent, a1 is a stale branch
+    const key = hexToBytes('0102030405060708');
+    await writeFile(join(dir, 'xor.dat'), Buffer.from(key));
+    await writeFile(join(dir, 'blk00000.dat'), xor([genesis, a1, b2, b1].map((b) => record(b.hex)).join(''), key));
+
+    // undo of b2: the spent coinbase of b1 (height 1, p2pkh)
+    const undo = '01' + '01' + '03' + '00' + '32' + '00' + '11'.repeat(20);
+    const checksum = bytesToHex(sha256d(hexToBytes(reverseHex(b1.hash) + undo)));
+    const emptyUndo = '00';
+    const emptyChecksum = bytesToHex(sha256d(hexToBytes(reverseHex(genesis.hash) + emptyUndo)));
+    await writeFile(join(dir, 'rev00000.dat'), xor(record(emptyUndo) + emptyChecksum + record(undo) + checksum, key));
+
+    const source = new BlkFileSource(dir, 'regtest');
+    await source.open();
+
+    expect(source.height).toBe(2);
+    expect(source.getStats(1)).toEqual({ blockhash: b1.hash, total_size: b1.hex.length / 2, height: 1 });
+    expect(await source.getBlockByHash(a1.hash)).toBeUndefined();
+
+    const tip = await source.getBlock(2);
+    expect(tip).toMatchObject({ hash: b2.hash, height: 2, previousblockhash: b1.hash, confirmations: 1 });
+    expect(tip.tx[1].vin[0].prevout).toMatchObject({ generated: true, height: 1, value: 50 });
+    expect((await source.getBlock(1)).nextblockhash).toBe(b2.hash);
+
+    await source.close();
+  });
+});
+
+describe('NdjsonFileSource', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ndjson-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('serves the linked range of a dump', async () => {
+    const blocks = [
+      { hash: 'h5', height: 5, tx: [] },
+      { hash: 'h6', height: 6, previousblockhash: 'h5', tx: [] },
+      { hash: 'h7', height: 7, previousblockhash: 'h6', tx: [{ txid: 't'.repeat(64) }] },
+      { hash: 'h9', height: 9, previousblockhash: 'h8', tx: [] },
+    ];
+    await writeFile(
+      join(dir, 'a.ndjson'),
+      blocks
+        .slice(0, 2)
+        .map((b) => JSON.stringify(b))
+        .join('\n') + '\n'
+    );
+    await writeFile(
+      join(dir, 'b.ndjson'),
+      blocks
+        .slice(2)
+        .map((b) => JSON.stringify(b))
+        .join('\r\n')
+    );
+
+    const source = new NdjsonFileSource(dir);
+    await source.open();
+
+    expect([source.startHeight, source.height]).toEqual([5, 7]);
+    expect(source.has(9)).toBe(false);
+    expect(await source.getBlock(7)).toMatchObject({ hash: 'h7', confirmations: 1, tx: [{ txid: 't'.repeat(64) }] });
+    expect(await source.getBlockByHash('h6')).toMatchObject({ height: 6, previousblockhash: 'h5' });
+  });
+});
+
+describe('withFileSource', () => {
+  const source = {
+    startHeight: 0,
+    height: 1,
+    has: (h: number) => h >= 0 && h <= 1,
+    open: async () => {},
+    close: async () => {},
+    getStats: (h: number) => ({ blockhash: `file-${h}`, total_size: 1, height: h }),
+    getBlock: async (h: number) => ({ hash: `file-${h}`, height: h }),
+    getBlockByHash: async (hash: string) => (hash === 'file-1' ? { hash, height: 1 } : undefined),
+  };
+
+  const unserved = async (): Promise<never> => {
+    throw new Error('Not a block call');
+  };
+  const rpcTransport = () => ({
+    getCurrentBlockHeightFromNetwork: jest.fn(async () => 3),
+    getCurrentBlockHeightFromMempool: unserved,
+    getBasicBlockByHeight: jest.fn(async (h: string | number) => ({ hash: `rpc-${h}`, height: Number(h) })),
+    getManyBlocksStatsByHeights: jest.fn(async (hs: (string | number)[]) =>
+      hs.map((h) => ({ blockhash: `rpc-${h}`, total_size: 2, height: Number(h) }))
+    ),
+    getManyBlocksByHeights: jest.fn(async (hs: (string | number)[]) =>
+      hs.map((h) => ({ hash: `rpc-${h}`, height: Number(h) }))
+    ),
+    getManyBlocksByHashes: jest.fn(async (hashes: string[]) => hashes.map((hash) => ({ hash, height: 3 }))),
+    getManyTransactionsByHashes: unserved,
+    getRawMempoolFromAll: unserved,
+    getMempoolTransactionsByTxids: unserved,
+  });
+
+  it('stops at the last file block without handover', async () => {
+    const rpc = rpcTransport();
+    const provider: ProviderTransport = withFileSource(rpc, source);
+
+    expect(await provider.getCurrentBlockHeightFromNetwork()).toBe(1);
+    expect((await provider.getManyBlocksByHeights([0, 1, 2])).map((b: any) => b.hash)).toEqual(['file-0', 'file-1']);
+    expect(rpc.getManyBlocksByHeights).not.toHaveBeenCalled();
+  });
+
+  it('hands over to the original provider above the file source', async () => {
+    const rpc = rpcTransport();
+    const onHandover = jest.fn();
+    const provider: ProviderTransport = withFileSource(rpc, source, { handover: true, onHandover });
+
+    expect(await provider.getCurrentBlockHeightFromNetwork()).toBe(3);
+    expect((await provider.getManyBlocksByHeights([1, 2, 3])).map((b: any) => b.hash)).toEqual([
+      'file-1',
+      'rpc-2',
+      'rpc-3',
+    ]);
+    expect(rpc.getManyBlocksByHeights).toHaveBeenCalledWith([2, 3]);
+    expect((await provider.getManyBlocksStatsByHeights([0, 3])).map((s: any) => s.blockhash)).toEqual([
+      'file-0',
+      'rpc-3',
+    ]);
+    expect((await provider.getManyBlocksByHashes(['file-1', 'x'])).map((b: any) => b.hash)).toEqual(['file-1', 'x']);
+    expect(onHandover).toHaveBeenCalledTimes(1);
+    expect(onHandover).toHaveBeenCalledWith(2);
+  });
+});
@@ -0,0 +1,282 @@
+import { open, readdir, readFile } from 'node:fs/promises';
+import type { FileHandle } from 'node:fs/promises';
+import { join } from 'node:path';
+import { bytesToHex, hexToBytes, reverseHex, sha256d } from '../../../domain-layer/framework/crypto';
+import { bitsToWork, parseBlockHeader, parseRawBlock } from './raw-block';
+import { applyBlockUndo, parseBlockUndo } from './block-undo';
+import type { FileBlockSource, FileBlockStats } from './file-block-source';
+
+/** Message start bytes of mainnet, testnet3, testnet4, signet and regtest. */
+const BLOCK_MAGICS = new Set(['f9beb4d9', '0b110907', '1c163f28', '0a03cf40', 'fabfb5da']);
+const ZERO_HASH = '00'.repeat(32);
+
+interface BlkIndexEntry {
+  hash: string;
+  prev: string;
+  file: number;
+  /** Offset of the serialized block (after magic and size). */
+  offset: number;
+  size: number;
+  bits: string;
+  /** Cumulative chainwork; -1n for headers not connected to genesis. */
+  work?: bigint;
+  /** Position among the best chain blocks of the same file that have undo data. */
+  undoRank?: number;
+}
+
+interface RevRecord {
+  offset: number;
+  size: number;
+  checksum: string;
+}
+
+const BLK_FILE = /^blk(\d{5})\.dat$/;
+const MAX_OPEN_FILES = 16;
+
+/**
+ * Reads blocks straight from a bitcoind `blocks/` directory.
+ *
+ * blk*.dat files hold blocks in download order, including stale branches. On open every
+ * file is scanned for headers only, and the best chain is the connected branch with the
+ * most cumulative work — the same rule bitcoind applies. rev*.dat undo records, when present,
+ * fill `vin[].prevout`. The directory must not be pruned and should not be written to while
+ * it is read (stop bitcoind or copy the directory).
+ */
+export class BlkFileSource implements FileBlockSource {
+  private readonly handles = new Map<string, FileHandle>();
+  private readonly revIndexes = new Map<number, RevRecord[]>();
+  /** Per rev file: how far records drifted from the block rank (stale blocks also leave undo data). */
+  private readonly revShifts = new Map<number, number>();
+  private readonly entries = new Map<string, BlkIndexEntry>();
+  private readonly heights = new Map<string, number>();
+  private chain: BlkIndexEntry[] = [];
+  private xorKey?: Uint8Array;
+
+  constructor(
+    private readonly dir: string,
+    private readonly network?: string
+  ) {}
+
+  get startHeight(): number {
+    return 0;
+  }
+
+  get height(): number {
+    return this.chain.length - 1;
+  }
+
+  has(height: number): boolean {
+    return height >= 0 && height < this.chain.length;
+  }
+
+  async open(): Promise<void> {
+    this.xorKey = await this.readXorKey();
+
+    const files = (await readdir(this.dir))
+      .map((name) => BLK_FILE.exec(name))
+      .filter((m): m is RegExpExecArray => !!m)
+      .map((m) => Number(m[1]))
+      .sort((a, b) => a - b);
+
+    for (const file of files) {
+      await this.scanFile(file);
+    }
+    this.buildBestChain();
+  }
+
+  async close(): Promise<void> {
+    await Promise.all([...this.handles.values()].map((h) => h.close().catch(() => undefined)));
+    this.handles.clear();
+  }
+
+  getStats(height: number): FileBlockStats | undefined {
+    const entry = this.chain[height];
+    return entry && { blockhash: entry.hash, total_size: entry.size, height };
+  }
+
+  async getBlock(height: number): Promise<any | undefined> {
+    const entry = this.chain[height];
+    if (!entry) return undefined;
+
+    const bytes = await this.read(blkName(entry.file), entry.offset, entry.size);
+    const block = parseRawBlock(bytes, height, this.network);
+
+    const undo = await this.readUndo(entry).catch(() => undefined);
+    if (undo) applyBlockUndo(block, parseBlockUndo(undo, this.network));
+
+    return {
+      ...block,
+      confirmations: this.height - height + 1,
+      chainwork: entry.work!.toString(16).padStart(64, '0'),
+      ...(this.chain[height + 1] && { nextblockhash: this.chain[height + 1]!.hash }),
+    };
+  }
+
+  async getBlockByHash(hash: string): Promise<any | undefined> {
+    // Stale branch blocks are not served: only the best chain has heights
+    const height = this.heights.get(hash);
+    return height === undefined ? undefined : this.getBlock(height);
+  }
+
+  private async scanFile(file: number): Promise<void> {
+    const name = blkName(file);
+    const handle = await this.handle(name);
+    const { size } = await handle.stat();
+
+    let pos = 0;
+    while (pos + 88 <= size) {
+      const head = await this.read(name, pos, 88);
+      // Preallocated tail of the file is zero-filled
+      if (!BLOCK_MAGICS.has(bytesToHex(head.subarray(0, 4)))) break;
+
+      const length = (head[4]! | (head[5]! << 8) | (head[6]! << 16) | (head[7]! << 24)) >>> 0;
+      const header = parseBlockHeader(head.subarray(8, 88));
+      if (!this.entries.has(header.hash)) {
+        this.entries.set(header.hash, {
+          hash: header.hash,
+          prev: header.previousblockhash,
+          file,
+          offset: pos + 8,
+          size: length,
+          bits: header.bits,
+        });
+      }
+      pos += 8 + length;
+    }
+  }
+
+  private buildBestChain(): void {
+    let best: BlkIndexEntry | undefined;
+
+    for (const entry of this.entries.values()) {
+      if (entry.work === undefined) this.resolveWork(entry);
+      if (entry.work! >= 0n && (!best || entry.work! > best.work!)) best = entry;
+    }
+
+    const chain: BlkIndexEntry[] = [];
+    for (let e = best; e; e = this.entries.get(e.prev)) chain.push(e);
+    this.chain = chain.reverse();
+
+    const ranks = new Map<number, number>();
+    this.chain.forEach((entry, height) => {
+      this.heights.set(entry.hash, height);
+      if (height === 0) return;
+      const rank = ranks.get(entry.file) ?? 0;
+      entry.undoRank = rank;
+      ranks.set(entry.file, rank + 1);
+    });
+  }
+
+  /** Iterative to stay safe on long chains. */
+  private resolveWork(entry: BlkIndexEntry): void {
+    const path: BlkIndexEntry[] = [];
+    let cursor: BlkIndexEntry | undefined = entry;
+    let base = 0n;
+
+    while (cursor && cursor.work === undefined) {
+      path.push(cursor);
+      if (cursor.prev === ZERO_HASH) break;
+      cursor = this.entries.get(cursor.prev);
+      if (!cursor) base = -1n;
+    }
+    if (cursor && cursor.work !== undefined) base = cursor.work;
+
+    for (let i = path.length - 1; i >= 0; i--) {
+      const e = path[i]!;
+      base = base < 0n ? -1n : base + bitsToWork(e.bits);
+      e.work = base;
+    }
+  }
+
+  private async readUndo(entry: BlkIndexEntry): Promise<Uint8Array | undefined> {
+    if (entry.undoRank === undefined) return undefined;
+
+    const records = await this.revIndex(entry.file);
+    const prev = hexToBytes(reverseHex(entry.prev));
+    const name = revName(entry.file);
+
+    // Undo records are written in connection order, so the block's rank in its file is the
+    // first guess; the checksum (hash of the previous block hash and the record) confirms it
+    const guess = entry.undoRank + (this.revShifts.get(entry.file) ?? 0);
+    const order = [guess, ...records.keys()].filter((i) => i >= 0 && i < records.length);
+
+    for (const i of order) {
+      const record = records[i]!;
+      const data = await this.read(name, record.offset, record.size);
+      const payload = new Uint8Array(prev.length + data.length);
+      payload.set(prev);
+      payload.set(data, prev.length);
+      if (bytesToHex(sha256d(payload)) === record.checksum) {
+        this.revShifts.set(entry.file, i - entry.undoRank);
+        return data;
+      }
+    }
+    return undefined;
+  }
+
+  private async revIndex(file: number): Promise<RevRecord[]> {
+    const cached = this.revIndexes.get(file);
+    if (cached) return cached;
+
+    const records: RevRecord[] = [];
+    const name = revName(file);
+    const { size } = await (await this.handle(name)).stat();
+
+    let pos = 0;
+    while (pos + 8 <= size) {
+      const head = await this.read(name, pos, 8);
+      if (!BLOCK_MAGICS.has(bytesToHex(head.subarray(0, 4)))) break;
+      const length = (head[4]! | (head[5]! << 8) | (head[6]! << 16) | (head[7]! << 24)) >>> 0;
+      const checksum = bytesToHex(await this.read(name, pos + 8 + length, 32));
+      records.push({ offset: pos + 8, size: length, checksum });
+      pos += 8 + length + 32;
+    }
+
+    this.revIndexes.set(file, records);
+    return records;
+  }
+
+  private async readXorKey(): Promise<Uint8Array | undefined> {
+    // bitcoind 28+ obfuscates block and undo files with the key in xor.dat
+    const key = await readFile(join(this.dir, 'xor.dat')).catch(() => undefined);
+    return key && key.some((b) => b !== 0) ? new Uint8Array(key) : undefined;
+  }
+
+  private async handle(name: string): Promise<FileHandle> {
+    let handle = this.handles.get(name);
+    if (handle) {
+      // refresh LRU position
+      this.handles.delete(name);
+    } else {
+      handle = await open(join(this.dir, name), 'r');
+      if (this.handles.size >= MAX_OPEN_FILES) {
+        const [oldest, stale] = this.handles.entries().next().value as [string, FileHandle];
+        this.handles.delete(oldest);
+        await stale.close().catch(() => undefined);
+      }
+    }
+    this.handles.set(name, handle);
+    return handle;
+  }
+
+  private async read(name: string, position: number, length: number): Promise<Uint8Array> {
+    const handle = await this.handle(name);
+    const buffer = new Uint8Array(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, position);
+    if (bytesRead < length) throw new Error(`Unexpected end of ${name} at offset ${position}`);
+
+    const key = this.xorKey;
+    if (key) {
+      for (let i = 0; i < length; i++) buffer[i] = buffer[i]! ^ key[(position + i) % key.length]!;
+    }
+    return buffer;
+  }
+}
+
+function blkName(file: number): string {
+  return `blk${String(file).padStart(5, '0')}.dat`;
+}
+
+function revName(file: number): string {
+  return `rev${String(file).padStart(5, '0')}.dat`;
+}
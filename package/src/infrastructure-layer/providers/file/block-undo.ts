@@ -0,0 +1,154 @@
+import { bytesToHex } from '../../../domain-layer/framework/crypto';
+import { classifyOutputScript } from '../../../domain-layer/framework/script';
+import { NODE_SCRIPT_TYPES } from './raw-block';
+
+/** Spent output restored from bitcoind undo data, in the shape of getblock verbosity 3 `vin[].prevout`. */
+export interface UndoPrevout {
+  generated: boolean;
+  height: number;
+  value: number;
+  scriptPubKey: { asm: string; hex: string; type: string; address?: string };
+}
+
+const SECP256K1_P = (1n << 256n) - (1n << 32n) - 977n;
+
+function modPow(base: bigint, exp: bigint, mod: bigint): bigint {
+  let result = 1n;
+  base %= mod;
+  while (exp > 0n) {
+    if (exp & 1n) result = (result * base) % mod;
+    base = (base * base) % mod;
+    exp >>= 1n;
+  }
+  return result;
+}
+
+/** Recovers the uncompressed public key from its x coordinate and y parity. */
+function decompressPubkey(x: Uint8Array, odd: boolean): string {
+  const xn = BigInt('0x' + bytesToHex(x));
+  let y = modPow((xn ** 3n + 7n) % SECP256K1_P, (SECP256K1_P + 1n) / 4n, SECP256K1_P);
+  if (((y & 1n) === 1n) !== odd) y = SECP256K1_P - y;
+  return '04' + bytesToHex(x) + y.toString(16).padStart(64, '0');
+}
+
+/** CompressAmount inverse (bitcoind compressor.cpp). */
+export function decompressAmount(x: number): number {
+  if (x === 0) return 0;
+  x--;
+  let e = x % 10;
+  x = Math.floor(x / 10);
+  let n: number;
+  if (e < 9) {
+    const d = (x % 9) + 1;
+    x = Math.floor(x / 9);
+    n = x * 10 + d;
+  } else {
+    n = x + 1;
+  }
+  while (e-- > 0) n *= 10;
+  return n;
+}
+
+class UndoReader {
+  public pos = 0;
+  constructor(private readonly bytes: Uint8Array) {}
+
+  u8(): number {
+    if (this.pos >= this.bytes.length) throw new Error('Unexpected end of undo data');
+    return this.bytes[this.pos++]!;
+  }
+
+  take(length: number): Uint8Array {
+    if (this.pos + length > this.bytes.length) throw new Error('Unexpected end of undo data');
+    const out = this.bytes.subarray(this.pos, this.pos + length);
+    this.pos += length;
+    return out;
+  }
+
+  /** CompactSize, used for vector lengths. */
+  compactSize(): number {
+    const first = this.u8();
+    if (first < 0xfd) return first;
+    const size = first === 0xfd ? 2 : first === 0xfe ? 4 : 8;
+    let n = 0;
+    for (let i = 0; i < size; i++) n += this.u8() * 2 ** (8 * i);
+    return n;
+  }
+
+  /** bitcoind VARINT (MSB base-128 with the +1 offset), used by coin serialization. */
+  varint(): number {
+    let n = 0;
+    for (;;) {
+      const ch = this.u8();
+      n = n * 128 + (ch & 0x7f);
+      if (ch & 0x80) n++;
+      else return n;
+    }
+  }
+
+  script(): string {
+    const size = this.varint();
+    switch (size) {
+      case 0:
+        return '76a914' + bytesToHex(this.take(20)) + '88ac';
+      case 1:
+        return 'a914' + bytesToHex(this.take(20)) + '87';
+      case 2:
+      case 3:
+        return '21' + size.toString(16).padStart(2, '0') + bytesToHex(this.take(32)) + 'ac';
+      case 4:
+      case 5:
+        return '41' + decompressPubkey(this.take(32), size === 5) + 'ac';
+      default:
+        return bytesToHex(this.take(size - 6));
+    }
+  }
+}
+
+/**
+ * Parses a CBlockUndo record from rev*.dat: one entry per non-coinbase transaction,
+ * each holding the outputs spent by its inputs in input order.
+ */
+export function parseBlockUndo(bytes: Uint8Array, network?: string): UndoPrevout[][] {
+  const r = new UndoReader(bytes);
+  const txs: UndoPrevout[][] = [];
+
+  const txCount = r.compactSize();
+  for (let t = 0; t < txCount; t++) {
+    const coins: UndoPrevout[] = [];
+    const coinCount = r.compactSize();
+    for (let c = 0; c < coinCount; c++) {
+      const code = r.varint();
+      const height = Math.floor(code / 2);
+      // Legacy nVersion, kept for format compatibility
+      if (height > 0) r.varint();
+      const sats = decompressAmount(r.varint());
+      const hex = r.script();
+      const script = classifyOutputScript(hex, network);
+      coins.push({
+        generated: code % 2 === 1,
+        height,
+        value: sats / 1e8,
+        scriptPubKey: {
+          asm: '',
+          hex,
+          type: NODE_SCRIPT_TYPES[script.type],
+          ...(script.address && { address: script.address }),
+        },
+      });
+    }
+    txs.push(coins);
+  }
+
+  return txs;
+}
+
+/** Attaches undo prevouts to the inputs of a parsed block (no-op when the shapes do not line up). */
+export function applyBlockUndo(block: any, undo: UndoPrevout[][]): boolean {
+  const txs: any[] = block?.tx ?? [];
+  if (undo.length !== txs.length - 1) return false;
+  if (undo.some((coins, i) => coins.length !== txs[i + 1].vin.length)) return false;
+
+  undo.forEach((coins, i) => coins.forEach((prevout, n) => (txs[i + 1].vin[n].prevout = prevout)));
+  return true;
+}
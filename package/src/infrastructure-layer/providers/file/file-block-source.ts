@@ -0,0 +1,44 @@
+import { readdir, stat } from 'node:fs/promises';
+import { BlkFileSource } from './blk-file-source';
+import { NdjsonFileSource } from './ndjson-file-source';
+
+export type FileBlockSourceFormat = 'auto' | 'blk' | 'ndjson';
+
+/** Same shape as BlockchainProviderService.getManyBlocksStatsByHeights items. */
+export interface FileBlockStats {
+  blockhash: string;
+  total_size: number;
+  height: number;
+}
+
+/**
+ * Blocks available offline, by height of a single linked chain.
+ * Blocks are returned in the getblock verbosity 2 shape (3 when prevouts are known).
+ */
+export interface FileBlockSource {
+  /** Lowest height served (NDJSON dumps may start above genesis). */
+  readonly startHeight: number;
+  /** Highest height served; -1 when the source is empty. */
+  readonly height: number;
+  has(height: number): boolean;
+  open(): Promise<void>;
+  close(): Promise<void>;
+  getStats(height: number): FileBlockStats | undefined;
+  getBlock(height: number): Promise<any | undefined>;
+  getBlockByHash(hash: string): Promise<any | undefined>;
+}
+
+/** Picks the reader for `path`: blk when it is a directory with blk*.dat files, otherwise ndjson. */
+export async function createFileBlockSource(
+  path: string,
+  format: FileBlockSourceFormat = 'auto',
+  network?: string
+): Promise<FileBlockSource> {
+  if (format === 'auto') {
+    const isDir = (await stat(path)).isDirectory();
+    const hasBlk = isDir && (await readdir(path)).some((name) => /^blk\d{5}\.dat$/.test(name));
+    format = hasBlk ? 'blk' : 'ndjson';
+  }
+
+  return format === 'blk' ? new BlkFileSource(path, network) : new NdjsonFileSource(path);
+}
@@ -0,0 +1,147 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { BusinessConfig, ProvidersConfig } from '../../../config';
+import type { ProviderLayer, ProviderTransport } from '../provider-transport';
+import { createFileBlockSource } from './file-block-source';
+import type { FileBlockSource } from './file-block-source';
+
+export interface FileSourceOptions {
+  /** Serve heights and hashes missing from the files with the calls of the underlying (RPC) transport. */
+  handover?: boolean;
+  /** Called once, the first time a block above the file source is requested from RPC. */
+  onHandover?: (height: number) => void;
+}
+
+/**
+ * Serves the block calls of `transport` from a FileBlockSource; with `handover` the calls of
+ * `transport` stay reachable for everything the files do not contain, so the crawler tails the
+ * live network once it walked past the last file block.
+ */
+export function withFileSource(
+  transport: ProviderTransport,
+  source: FileBlockSource,
+  options: FileSourceOptions = {}
+): ProviderTransport {
+  const handover = !!options.handover;
+  let handedOver = false;
+
+  const toRpc = (heights: number[]) => {
+    if (!handover || !heights.length) return false;
+    const above = heights.filter((h) => h > source.height);
+    if (!handedOver && above.length) {
+      handedOver = true;
+      options.onHandover?.(Math.min(...above));
+    }
+    return true;
+  };
+
+  // Keeps the requested order; heights the files do not have go to RPC in one call
+  const split = async <T>(
+    heights: (string | number)[],
+    fromFile: (height: number) => Promise<T | undefined> | T | undefined,
+    fromRpc: (heights: number[], ...rest: any[]) => Promise<(T & { height: number })[]>,
+    rest: any[]
+  ): Promise<T[]> => {
+    const hs = heights.map(Number);
+    const found = new Map<number, T>();
+    for (const h of hs) {
+      if (!source.has(h)) continue;
+      const item = await fromFile(h);
+      if (item) found.set(h, item);
+    }
+
+    const remaining = hs.filter((h) => !source.has(h));
+    if (toRpc(remaining)) {
+      const items = (await fromRpc(remaining, ...rest)) ?? [];
+      items.forEach((item) => item && found.set(Number(item.height), item));
+    }
+
+    return hs.filter((h) => found.has(h)).map((h) => found.get(h)!);
+  };
+
+  return {
+    ...transport,
+    getCurrentBlockHeightFromNetwork: async () =>
+      handover ? Math.max(source.height, Number(await transport.getCurrentBlockHeightFromNetwork())) : source.height,
+    getBasicBlockByHeight: async (height: string | number, ...rest: any[]) => {
+      const h = Number(height);
+      if (source.has(h)) return (await source.getBlock(h)) ?? null;
+      return toRpc([h]) ? transport.getBasicBlockByHeight(height, ...rest) : null;
+    },
+    getManyBlocksStatsByHeights: async (heights: (string | number)[], ...rest: any[]) =>
+      split(heights, (h) => source.getStats(h), transport.getManyBlocksStatsByHeights, rest),
+    getManyBlocksByHeights: async (heights: (string | number)[], ...rest: any[]) =>
+      split(heights, (h) => source.getBlock(h), transport.getManyBlocksByHeights, rest),
+    getManyBlocksByHashes: async (hashes: string[], ...rest: any[]) => {
+      const found = new Map<string, any>();
+      for (const hash of hashes) {
+        const block = await source.getBlockByHash(hash);
+        if (block) found.set(hash, block);
+      }
+
+      const remaining = hashes.filter((hash) => !found.has(hash));
+      if (remaining.length && handover) {
+        const blocks = (await transport.getManyBlocksByHashes(remaining, ...rest)) ?? [];
+        blocks.forEach((block: any) => block && found.set(block.hash, block));
+      }
+
+      return hashes.filter((hash) => found.has(hash)).map((hash) => found.get(hash));
+    },
+  };
+}
+
+@Injectable()
+export class FileProviderService implements ProviderLayer, OnModuleDestroy {
+  private readonly logger = new Logger(FileProviderService.name);
+  private _source?: FileBlockSource;
+
+  constructor(
+    private readonly providersConfig: ProvidersConfig,
+    private readonly businessConfig: BusinessConfig
+  ) {}
+
+  /** Source served to the crawler; undefined unless NETWORK_PROVIDER_TYPE=file. */
+  get source(): FileBlockSource | undefined {
+    return this._source;
+  }
+
+  /** Serves the block calls from PROVIDER_FILE_PATH when NETWORK_PROVIDER_TYPE=file. */
+  async apply(transport: ProviderTransport): Promise<ProviderTransport> {
+    if (!this.providersConfig.isFileSource()) return transport;
+
+    const config = this.providersConfig;
+    if (!config.PROVIDER_FILE_PATH) {
+      throw new Error('PROVIDER_FILE_PATH is required when using file network provider type');
+    }
+    if (config.PROVIDER_FILE_HANDOVER_TO_RPC && !config.PROVIDER_NETWORK_RPC_URLS?.length) {
+      throw new Error('PROVIDER_NETWORK_RPC_URLS is required when PROVIDER_FILE_HANDOVER_TO_RPC is enabled');
+    }
+
+    this.logger.log('Indexing file block source', {
+      args: { path: config.PROVIDER_FILE_PATH, format: config.PROVIDER_FILE_FORMAT },
+    });
+
+    const source = await createFileBlockSource(
+      config.PROVIDER_FILE_PATH,
+      config.PROVIDER_FILE_FORMAT,
+      this.businessConfig.NETWORK_TYPE
+    );
+    await source.open();
+    this._source = source;
+
+    this.logger.log('File network provider enabled', {
+      args: { startHeight: source.startHeight, height: source.height, handover: config.PROVIDER_FILE_HANDOVER_TO_RPC },
+    });
+
+    return withFileSource(transport, source, {
+      handover: config.PROVIDER_FILE_HANDOVER_TO_RPC,
+      onHandover: (height) =>
+        this.logger.log('File block source exhausted, handing over to RPC', {
+          args: { height, lastFileHeight: source.height },
+        }),
+    });
+  }
+
+  async onModuleDestroy() {
+    await this._source?.close();
+  }
+}
@@ -0,0 +1,6 @@
+export * from './raw-block';
+export * from './block-undo';
+export * from './file-block-source';
+export * from './blk-file-source';
+export * from './ndjson-file-source';
+export * from './file-provider.service';
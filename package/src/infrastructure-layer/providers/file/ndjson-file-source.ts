@@ -0,0 +1,147 @@
+import { open, readdir, stat } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { FileBlockSource, FileBlockStats } from './file-block-source';
+
+interface NdjsonLine {
+  file: string;
+  offset: number;
+  length: number;
+  hash: string;
+  previousblockhash?: string;
+  size: number;
+}
+
+const CHUNK_SIZE = 1 << 20;
+
+/**
+ * Reads newline-delimited JSON block dumps: one `getblock <hash> 2` (or 3) result per line,
+ * from a single file or from every *.ndjson file of a directory in name order.
+ *
+ * On open only heights, hashes and line offsets are kept. When a height appears more than
+ * once the later line wins, and the served range ends at the first block that does not
+ * link to its predecessor.
+ */
+export class NdjsonFileSource implements FileBlockSource {
+  private readonly lines = new Map<number, NdjsonLine>();
+  private readonly heights = new Map<string, number>();
+  private first = 0;
+  private last = -1;
+
+  constructor(private readonly path: string) {}
+
+  get startHeight(): number {
+    return this.first;
+  }
+
+  get height(): number {
+    return this.last;
+  }
+
+  has(height: number): boolean {
+    return height >= this.first && height <= this.last;
+  }
+
+  async open(): Promise<void> {
+    const files = (await stat(this.path)).isDirectory()
+      ? (await readdir(this.path))
+          .filter((name) => name.endsWith('.ndjson'))
+          .sort()
+          .map((name) => join(this.path, name))
+      : [this.path];
+
+    for (const file of files) {
+      await this.scanFile(file);
+    }
+
+    if (!this.lines.size) return;
+
+    this.first = Infinity;
+    for (const h of this.lines.keys()) if (h < this.first) this.first = h;
+    this.last = this.first;
+    while (this.lines.get(this.last + 1)?.previousblockhash === this.lines.get(this.last)!.hash) this.last++;
+
+    for (let h = this.first; h <= this.last; h++) this.heights.set(this.lines.get(h)!.hash, h);
+  }
+
+  async close(): Promise<void> {}
+
+  getStats(height: number): FileBlockStats | undefined {
+    const line = this.has(height) ? this.lines.get(height) : undefined;
+    return line && { blockhash: line.hash, total_size: line.size, height };
+  }
+
+  async getBlock(height: number): Promise<any | undefined> {
+    const line = this.has(height) ? this.lines.get(height) : undefined;
+    if (!line) return undefined;
+
+    const handle = await open(line.file, 'r');
+    try {
+      const buffer = Buffer.alloc(line.length);
+      await handle.read(buffer, 0, line.length, line.offset);
+      const block = JSON.parse(buffer.toString('utf8'));
+      return { ...block, height, confirmations: this.last - height + 1 };
+    } finally {
+      await handle.close();
+    }
+  }
+
+  async getBlockByHash(hash: string): Promise<any | undefined> {
+    const height = this.heights.get(hash);
+    return height === undefined ? undefined : this.getBlock(height);
+  }
+
+  private async scanFile(file: string): Promise<void> {
+    const handle = await open(file, 'r');
+    try {
+      let position = 0;
+      let lineStart = 0;
+      let pending: Buffer[] = [];
+
+      for (;;) {
+        const chunk = Buffer.alloc(CHUNK_SIZE);
+        const { bytesRead } = await handle.read(chunk, 0, CHUNK_SIZE, position);
+        if (!bytesRead) break;
+
+        let from = 0;
+        for (let nl = chunk.indexOf(10, from); nl !== -1 && nl < bytesRead; nl = chunk.indexOf(10, from)) {
+          pending.push(chunk.subarray(from, nl));
+          this.indexLine(file, lineStart, Buffer.concat(pending));
+          pending = [];
+          from = nl + 1;
+          lineStart = position + from;
+        }
+        pending.push(chunk.subarray(from, bytesRead));
+        position += bytesRead;
+      }
+
+      // Last line without a trailing newline
+      this.indexLine(file, lineStart, Buffer.concat(pending));
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private indexLine(file: string, offset: number, bytes: Buffer): void {
+    const text = bytes.toString('utf8').trim();
+    if (!text) return;
+
+    let block: any;
+    try {
+      block = JSON.parse(text);
+    } catch {
+      throw new Error(`Invalid JSON block at ${file}:${offset}`);
+    }
+    if (typeof block?.hash !== 'string' || typeof block?.height !== 'number') {
+      throw new Error(`Block at ${file}:${offset} has no hash or height`);
+    }
+
+    this.lines.set(block.height, {
+      file,
+      offset,
+      length: bytes.length,
+      hash: block.hash,
+      previousblockhash: block.previousblockhash,
+      size: block.size ?? bytes.length,
+    });
+  }
+}
@@ -0,0 +1,242 @@
+import { bytesToHex, reverseHex, sha256d } from '../../../domain-layer/framework/crypto';
+import { classifyOutputScript } from '../../../domain-layer/framework/script';
+import type { OutputScriptType } from '../../../domain-layer/framework/script';
+
+/** Script type names as reported by bitcoind in scriptPubKey.type. */
+export const NODE_SCRIPT_TYPES: Record<OutputScriptType, string> = {
+  p2pkh: 'pubkeyhash',
+  p2sh: 'scripthash',
+  p2wpkh: 'witness_v0_keyhash',
+  p2wsh: 'witness_v0_scripthash',
+  p2tr: 'witness_v1_taproot',
+  p2pk: 'pubkey',
+  multisig: 'multisig',
+  op_return: 'nulldata',
+  nonstandard: 'nonstandard',
+};
+
+class Reader {
+  public pos = 0;
+  constructor(private readonly bytes: Uint8Array) {}
+
+  u8(): number {
+    if (this.pos >= this.bytes.length) throw new Error('Unexpected end of raw block data');
+    return this.bytes[this.pos++]!;
+  }
+
+  u32(): number {
+    const v = this.u8() | (this.u8() << 8) | (this.u8() << 16) | (this.u8() << 24);
+    return v >>> 0;
+  }
+
+  u64(): bigint {
+    const lo = BigInt(this.u32());
+    const hi = BigInt(this.u32());
+    return (hi << 32n) | lo;
+  }
+
+  varint(): number {
+    const first = this.u8();
+    if (first < 0xfd) return first;
+    if (first === 0xfd) return this.u8() | (this.u8() << 8);
+    if (first === 0xfe) return this.u32();
+    return Number(this.u64());
+  }
+
+  bytesOf(length: number): Uint8Array {
+    if (this.pos + length > this.bytes.length) throw new Error('Unexpected end of raw block data');
+    const out = this.bytes.subarray(this.pos, this.pos + length);
+    this.pos += length;
+    return out;
+  }
+
+  hashHex(): string {
+    return reverseHex(bytesToHex(this.bytesOf(32)));
+  }
+
+  slice(from: number, to: number): Uint8Array {
+    return this.bytes.subarray(from, to);
+  }
+}
+
+export interface RawBlockHeader {
+  hash: string;
+  version: number;
+  previousblockhash: string;
+  merkleroot: string;
+  time: number;
+  bits: string;
+  nonce: number;
+}
+
+/** Parses an 80-byte block header. */
+export function parseBlockHeader(bytes: Uint8Array): RawBlockHeader {
+  const r = new Reader(bytes);
+  const version = r.u32();
+  const previousblockhash = r.hashHex();
+  const merkleroot = r.hashHex();
+  const time = r.u32();
+  const bits = r.u32().toString(16).padStart(8, '0');
+  const nonce = r.u32();
+  return {
+    hash: reverseHex(bytesToHex(sha256d(bytes.subarray(0, 80)))),
+    version,
+    previousblockhash,
+    merkleroot,
+    time,
+    bits,
+    nonce,
+  };
+}
+
+/** Target encoded by compact `bits`. */
+export function bitsToTarget(bits: string): bigint {
+  const n = parseInt(bits, 16);
+  const exponent = n >>> 24;
+  const mantissa = BigInt(n & 0x007fffff);
+  return exponent <= 3 ? mantissa >> BigInt(8 * (3 - exponent)) : mantissa << BigInt(8 * (exponent - 3));
+}
+
+/** Expected number of hashes for a header with these `bits` (what chainwork sums up). */
+export function bitsToWork(bits: string): bigint {
+  const target = bitsToTarget(bits);
+  return target <= 0n ? 0n : (1n << 256n) / (target + 1n);
+}
+
+const MAX_TARGET = bitsToTarget('1d00ffff');
+
+function parseTx(r: Reader, network?: string): any {
+  const start = r.pos;
+  const version = r.u32();
+
+  let segwit = false;
+  let count = r.varint();
+  if (count === 0) {
+    // marker 0x00 + flag 0x01
+    r.u8();
+    segwit = true;
+    count = r.varint();
+  }
+
+  const vin: any[] = [];
+  for (let i = 0; i < count; i++) {
+    const txid = r.hashHex();
+    const vout = r.u32();
+    const script = bytesToHex(r.bytesOf(r.varint()));
+    const sequence = r.u32();
+    vin.push(
+      txid === '00'.repeat(32) && vout === 0xffffffff
+        ? { coinbase: script, sequence }
+        : { txid, vout, scriptSig: { asm: '', hex: script }, sequence }
+    );
+  }
+
+  const outputs: any[] = [];
+  const outCount = r.varint();
+  for (let n = 0; n < outCount; n++) {
+    const sats = r.u64();
+    const hex = bytesToHex(r.bytesOf(r.varint()));
+    const script = classifyOutputScript(hex, network);
+    outputs.push({
+      value: Number(sats) / 1e8,
+      n,
+      scriptPubKey: {
+        asm: '',
+        hex,
+        type: NODE_SCRIPT_TYPES[script.type],
+        ...(script.address && { address: script.address }),
+      },
+    });
+  }
+  const witnessStart = r.pos;
+
+  if (segwit) {
+    for (const input of vin) {
+      const items = r.varint();
+      const stack: string[] = [];
+      for (let i = 0; i < items; i++) stack.push(bytesToHex(r.bytesOf(r.varint())));
+      if (items) input.txinwitness = stack;
+    }
+  }
+  const witnessEnd = r.pos;
+  const locktime = r.u32();
+  const end = r.pos;
+
+  const full = r.slice(start, end);
+  // txid: serialization without marker/flag and witnesses
+  const stripped = segwit
+    ? concat(r.slice(start, start + 4), r.slice(start + 6, witnessStart), r.slice(witnessEnd, end))
+    : full;
+  const size = full.length;
+  const weight = stripped.length * 3 + size;
+
+  return {
+    txid: reverseHex(bytesToHex(sha256d(stripped))),
+    hash: reverseHex(bytesToHex(sha256d(full))),
+    version,
+    size,
+    vsize: Math.ceil(weight / 4),
+    weight,
+    locktime,
+    vin,
+    vout: outputs,
+    hex: bytesToHex(full),
+    strippedSize: stripped.length,
+  };
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((acc, p) => acc + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+/** Parses a serialized transaction into the shape of `getrawtransaction <txid> true` (without block fields). */
+export function parseRawTransaction(bytes: Uint8Array, network?: string): any {
+  const r = new Reader(bytes);
+  const parsed = parseTx(r, network);
+  delete parsed.strippedSize;
+  if (r.pos !== bytes.length) throw new Error('Unexpected trailing bytes after raw transaction');
+  return parsed;
+}
+
+/**
+ * Parses a serialized block into the shape of `getblock <hash> 2`
+ * (without fields that need the chain: confirmations, chainwork, nextblockhash, tx fees).
+ */
+export function parseRawBlock(bytes: Uint8Array, height: number, network?: string): any {
+  const header = parseBlockHeader(bytes.subarray(0, 80));
+  const r = new Reader(bytes);
+  r.pos = 80;
+
+  const count = r.varint();
+  const tx: any[] = [];
+  let strippedsize = r.pos;
+  for (let i = 0; i < count; i++) {
+    const { strippedSize, ...parsed } = parseTx(r, network);
+    strippedsize += strippedSize;
+    tx.push(parsed);
+  }
+
+  return {
+    hash: header.hash,
+    strippedsize,
+    size: r.pos,
+    weight: strippedsize * 3 + r.pos,
+    height,
+    version: header.version,
+    versionHex: header.version.toString(16).padStart(8, '0'),
+    merkleroot: header.merkleroot,
+    tx,
+    time: header.time,
+    nonce: header.nonce,
+    bits: header.bits,
+    difficulty: Number((MAX_TARGET * 1000000n) / bitsToTarget(header.bits)) / 1e6,
+    nTx: count,
+    ...(header.previousblockhash !== '00'.repeat(32) && { previousblockhash: header.previousblockhash }),
+  };
+}
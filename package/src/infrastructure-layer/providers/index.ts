@@ -0,0 +1,6 @@
+export * from './simulated';
+export * from './pool';
+export * from './esplora';
+export * from './integrity';
+export * from './provider-transport';
+export * from './provider-composition.service';
@@ -0,0 +1,172 @@
+import 'reflect-metadata';
+import { transformAndValidate } from 'class-transformer-validator';
+import { ProvidersConfig } from '../../../../config/providers.config';
+import {
+  bytesToHex,
+  computeMerkleRoot,
+  hexToBytes,
+  reverseHex,
+  serializeBlockHeader,
+  sha256d,
+} from '../../../../domain-layer/framework/crypto';
+import { bitsToTarget, parseRawBlock } from '../../file/raw-block';
+import { BlockIntegrityError, verifyBlockIntegrity } from '../block-integrity';
+
+const GENESIS_HEADER =
+  '0100000000000000000000000000000000000000000000000000000000000000000000003ba3edfd7a7b12b27ac72c3e67768f617fc81bc3888a51323a9fb8aa4b1e5e4a29ab5f49ffff001d1dac2b7c';
+const GENESIS_SCRIPTSIG =
+  '04ffff001d0104455468652054696d65732030332f4a616e2f32303039204368616e63656c6c6f72206f6e206272696e6b206f66207365636f6e64206261696c6f757420666f722062616e6b73';
+const GENESIS_PUBKEY_SCRIPT =
+  '4104678afdb0fe5548271967f1a67130b7105cd6a828e03909a67962e0ea1f61deb649f6bc3f4cef38c4f35504e51ec112de5c384df7ba0b8d578a4c702b6bf11d5fac';
+const P2WPKH = '0014' + '22'.repeat(20);
+const REGTEST_BITS = '207fffff';
+
+const le32 = (n: number) => reverseHex(n.toString(16).padStart(8, '0'));
+const le64 = (n: number) => reverseHex(n.toString(16).padStart(16, '0'));
+const count = (n: number) => n.toString(16).padStart(2, '0');
+const size = (hex: string) => count(hex.length / 2);
+const hashOf = (hex: string) => reverseHex(bytesToHex(sha256d(hexToBytes(hex))));
+
+interface TxSpec {
+  version?: number;
+  vin: { txid: string; vout: number; script: string; witness?: string[] }[];
+  vout: { value: number; script: string }[];
+}
+
+/** Serialized transaction with its txid and wtxid. */
+function transaction({ version = 2, vin, vout }: TxSpec): { hex: string; txid: string; wtxid: string } {
+  const segwit = vin.some((input) => input.witness?.length);
+  const body =
+    count(vin.length) +
+    vin.map((i) => reverseHex(i.txid) + le32(i.vout) + size(i.script) + i.script + 'ffffffff').join('') +
+    count(vout.length) +
+    vout.map((o) => le64(o.value) + size(o.script) + o.script).join('');
+  const witness = vin.map((i) => count(i.witness?.length ?? 0) + (i.witness ?? []).map((w) => size(w) + w).join(''));
+
+  const stripped = le32(version) + body + le32(0);
+  const hex = segwit ? le32(version) + '0001' + body + witness.join('') + le32(0) : stripped;
+  return { hex, txid: hashOf(stripped), wtxid: hashOf(hex) };
+}
+
+/** Header with the first nonce whose hash does (or with `meetsTarget: false` does not) meet the regtest target. */
+function mineHeader(merkleroot: string, meetsTarget = true): { header: string; nonce: number } {
+  const target = bitsToTarget(REGTEST_BITS);
+  for (let nonce = 0; ; nonce++) {
+    const header =
+      le32(0x20000000) +
+      'bb'.repeat(32) +
+      reverseHex(merkleroot) +
+      le32(1700000000) +
+      reverseHex(REGTEST_BITS) +
+      le32(nonce);
+    if (BigInt('0x' + hashOf(header)) <= target === meetsTarget) return { header, nonce };
+  }
+}
+
+/** Regtest block with a coinbase carrying the witness commitment and one segwit spend. */
+function segwitBlock(spendWitness = ['cccc', 'dddd']): any {
+  const spend = transaction({
+    vin: [{ txid: 'aa'.repeat(32), vout: 0, script: '', witness: spendWitness }],
+    vout: [{ value: 4999000000, script: P2WPKH }],
+  });
+  const nonce = '00'.repeat(32);
+  const witnessRoot = computeMerkleRoot(['00'.repeat(32), spend.wtxid]);
+  const commitment = bytesToHex(sha256d(hexToBytes(reverseHex(witnessRoot) + nonce)));
+  const coinbase = transaction({
+    vin: [{ txid: '00'.repeat(32), vout: 0xffffffff, script: '0101', witness: [nonce] }],
+    vout: [
+      { value: 5000000000, script: P2WPKH },
+      { value: 0, script: '6a24aa21a9ed' + commitment },
+    ],
+  });
+
+  const { header } = mineHeader(computeMerkleRoot([coinbase.txid, spend.txid]));
+  return parseRawBlock(hexToBytes(header + count(2) + coinbase.hex + spend.hex), 1, 'regtest');
+}
+
+const segwit = { segwit: true };
+
+describe('Block integrity', () => {
+  it('accepts genuine blocks, with full transactions or txids only', () => {
+    const genesisTx = transaction({
+      version: 1,
+      vin: [{ txid: '00'.repeat(32), vout: 0xffffffff, script: GENESIS_SCRIPTSIG }],
+      vout: [{ value: 5000000000, script: GENESIS_PUBKEY_SCRIPT }],
+    }).hex;
+    const genesis = parseRawBlock(hexToBytes(GENESIS_HEADER + '01' + genesisTx), 0, 'mainnet');
+    expect(genesis.hash).toBe('000000000019d6689c085ae165831e934ff763ae46a2a6c172b3f1b60a8ce26f');
+    expect(() => verifyBlockIntegrity(genesis, segwit)).not.toThrow();
+
+    const block = segwitBlock();
+    expect(() => verifyBlockIntegrity(block, segwit)).not.toThrow();
+    expect(() => verifyBlockIntegrity({ ...block, tx: block.tx.map((tx: any) => tx.txid) }, segwit)).not.toThrow();
+  });
+
+  it('rejects headers that do not hash to the block hash or miss the target', () => {
+    const block = segwitBlock();
+    expect(() => verifyBlockIntegrity({ ...block, time: block.time + 1 }, segwit)).toThrow(/header hashes to/);
+
+    const { header, nonce } = mineHeader(block.merkleroot, false);
+    const weak = { ...block, nonce, hash: hashOf(header) };
+    expect(serializeBlockHeader(weak)).toBe(header);
+    expect(() => verifyBlockIntegrity(weak, segwit)).toThrow(/does not meet the target of bits 207fffff/);
+  });
+
+  it('rejects a transaction list that does not build the merkle root', () => {
+    const block = segwitBlock();
+    const [coinbase, spend] = block.tx;
+    expect(() => verifyBlockIntegrity({ ...block, tx: [coinbase], nTx: 1 }, segwit)).toThrow(/merkle root/);
+
+    const forged = { ...spend, vout: [{ ...spend.vout[0], value: 49.99 + 1 }] };
+    expect(() => verifyBlockIntegrity({ ...block, tx: [coinbase, forged] }, segwit)).toThrow(
+      /output 0 of .* does not match its hex/
+    );
+  });
+
+  it('checks the witness commitment when segwit is enabled', () => {
+    const block = segwitBlock();
+    // Same txid (merkle root unchanged), other witness
+    const other = segwitBlock(['eeee']).tx[1];
+    expect(other.txid).toBe(block.tx[1].txid);
+    const swapped = { ...block, tx: [block.tx[0], other] };
+
+    const error = (() => {
+      try {
+        verifyBlockIntegrity(swapped, segwit);
+      } catch (e) {
+        return e;
+      }
+    })();
+    expect(error).toBeInstanceOf(BlockIntegrityError);
+    expect(error).toMatchObject({
+      blockHash: block.hash,
+      height: 1,
+      reason: 'witness commitment does not match the transactions',
+    });
+    expect(() => verifyBlockIntegrity(swapped, { segwit: false })).not.toThrow();
+
+    const withoutCommitment = { ...block.tx[0], vout: [block.tx[0].vout[0]], hex: undefined };
+    expect(() => verifyBlockIntegrity({ ...block, tx: [withoutCommitment, block.tx[1]] }, segwit)).toThrow(
+      /witness data without a witness commitment/
+    );
+  });
+
+  it('requires several RPC endpoints so a failing block is requested from another one', async () => {
+    const config = (env: Record<string, string>) =>
+      transformAndValidate(ProvidersConfig, { PROVIDER_VERIFY_BLOCKS: 'true', ...env });
+
+    const single = await config({
+      PROVIDER_NETWORK_RPC_URLS: 'http://a:8332',
+      PROVIDER_RPC_COOKIE_PATH: '/data/.cookie',
+    });
+    expect(() => single.validateNetwork()).toThrow(/requires NETWORK_PROVIDER_TYPE=rpc with several/);
+    const esplora = await config({ NETWORK_PROVIDER_TYPE: 'esplora', PROVIDER_ESPLORA_URL: 'http://e/api/' });
+    expect(() => esplora.validateNetwork()).toThrow(/requires NETWORK_PROVIDER_TYPE=rpc with several/);
+
+    const pooled = await config({ PROVIDER_NETWORK_RPC_URLS: 'http://a:8332,http://b:8332' });
+    expect(() => pooled.validateNetwork()).not.toThrow();
+    expect(pooled.isProviderPoolEnabled()).toBe(true);
+    const simulated = await config({ NETWORK_PROVIDER_TYPE: 'simulated' });
+    expect(() => simulated.validateNetwork()).not.toThrow();
+  });
+});
@@ -0,0 +1,125 @@
+import {
+  bytesToHex,
+  computeMerkleRoot,
+  hexToBytes,
+  reverseHex,
+  serializeBlockHeader,
+  sha256d,
+} from '../../../domain-layer/framework/crypto';
+import { bitsToTarget, parseRawTransaction } from '../file/raw-block';
+
+export interface BlockIntegrityOptions {
+  /** Check the BIP141 witness commitment of the coinbase (NETWORK_HAS_SEGWIT). */
+  segwit: boolean;
+}
+
+export class BlockIntegrityError extends Error {
+  constructor(
+    public readonly blockHash: string,
+    public readonly height: number | undefined,
+    public readonly reason: string
+  ) {
+    super(`Block ${blockHash} at height ${height} failed integrity verification: ${reason}`);
+    this.name = 'BlockIntegrityError';
+  }
+}
+
+/** OP_RETURN OP_PUSHBYTES_36 aa21a9ed <32-byte commitment> */
+const WITNESS_COMMITMENT_PREFIX = '6a24aa21a9ed';
+const ZERO_HASH = '00'.repeat(32);
+
+const toSats = (btc: number) => Math.round(Number(btc) * 1e8);
+
+/** Differences between a transaction and its own hex (a forged JSON body next to a genuine hex). */
+function contentMismatch(tx: any, parsed: any): string | undefined {
+  if (tx.txid !== parsed.txid) return `txid ${tx.txid} does not match its hex (${parsed.txid})`;
+  if (tx.hash !== undefined && tx.hash !== parsed.hash) return `wtxid of ${tx.txid} does not match its hex`;
+
+  const vin: any[] = tx.vin ?? [];
+  const vout: any[] = tx.vout ?? [];
+  if (vin.length !== parsed.vin.length || vout.length !== parsed.vout.length) {
+    return `inputs or outputs of ${tx.txid} do not match its hex`;
+  }
+  for (const [i, input] of vin.entries()) {
+    const expected = parsed.vin[i];
+    const same = expected.coinbase
+      ? input.coinbase === expected.coinbase
+      : input.txid === expected.txid &&
+        input.vout === expected.vout &&
+        JSON.stringify(input.txinwitness ?? []) === JSON.stringify(expected.txinwitness ?? []);
+    if (!same) return `input ${i} of ${tx.txid} does not match its hex`;
+  }
+  for (const [n, output] of vout.entries()) {
+    const expected = parsed.vout[n];
+    if (toSats(output.value) !== toSats(expected.value) || output.scriptPubKey?.hex !== expected.scriptPubKey.hex) {
+      return `output ${n} of ${tx.txid} does not match its hex`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Checks that a block returned by a provider is what its hash commits to:
+ * - the header hashes to `hash` and meets the target encoded by `bits`
+ * - the txids (recomputed from `hex` when present) build `merkleroot`
+ * - with `segwit`, the wtxids build the witness commitment of the coinbase, and witness data
+ *   only appears when there is a commitment
+ * - transactions carrying `hex` match it (txid, inputs, witnesses, output values and scripts)
+ *
+ * Works on `getblock <hash> 1` (txids only) and `getblock <hash> 2` blocks. Throws BlockIntegrityError.
+ */
+export function verifyBlockIntegrity(block: any, options: BlockIntegrityOptions): void {
+  const fail = (reason: string): never => {
+    throw new BlockIntegrityError(block?.hash, block?.height, reason);
+  };
+
+  const headerFields = ['hash', 'version', 'merkleroot', 'time', 'bits', 'nonce'];
+  const missing = headerFields.filter((field) => block?.[field] === undefined);
+  if (missing.length) fail(`missing header fields: ${missing.join(', ')}`);
+
+  const hash = reverseHex(bytesToHex(sha256d(hexToBytes(serializeBlockHeader(block)))));
+  if (hash !== block.hash) fail(`header hashes to ${hash}`);
+  if (BigInt('0x' + hash) > bitsToTarget(block.bits)) fail(`hash does not meet the target of bits ${block.bits}`);
+
+  const txs: any[] = block.tx ?? [];
+  if (!txs.length) fail('block has no transactions');
+  if (block.nTx !== undefined && block.nTx !== txs.length) fail(`nTx is ${block.nTx} but ${txs.length} are listed`);
+
+  const txids: string[] = [];
+  const wtxids: string[] = [];
+  for (const tx of txs) {
+    if (typeof tx === 'string') {
+      txids.push(tx);
+      continue;
+    }
+    const parsed = tx.hex ? parseRawTransaction(hexToBytes(tx.hex)) : undefined;
+    const mismatch = parsed && contentMismatch(tx, parsed);
+    if (mismatch) fail(mismatch);
+    txids.push(tx.txid);
+    wtxids.push(parsed?.hash ?? tx.hash ?? tx.txid);
+  }
+
+  const merkleroot = computeMerkleRoot(txids);
+  if (merkleroot !== block.merkleroot) fail(`transactions build merkle root ${merkleroot}`);
+
+  // Only full transactions carry what the witness commitment covers
+  if (!options.segwit || wtxids.length !== txs.length) return;
+
+  const coinbase = txs[0];
+  const commitment = [...(coinbase.vout ?? [])]
+    .reverse()
+    .map((output: any) => String(output.scriptPubKey?.hex ?? ''))
+    .find((script) => script.startsWith(WITNESS_COMMITMENT_PREFIX) && script.length >= 76);
+
+  if (!commitment) {
+    if (wtxids.some((wtxid, i) => i > 0 && wtxid !== txids[i])) fail('witness data without a witness commitment');
+    return;
+  }
+
+  const nonce = coinbase.vin?.[0]?.txinwitness?.[0];
+  if (typeof nonce !== 'string' || nonce.length !== 64) fail('coinbase has no witness reserved value');
+
+  const witnessRoot = computeMerkleRoot([ZERO_HASH, ...wtxids.slice(1)]);
+  const expected = bytesToHex(sha256d(hexToBytes(reverseHex(witnessRoot) + nonce)));
+  if (commitment.slice(12, 76) !== expected) fail('witness commitment does not match the transactions');
+}
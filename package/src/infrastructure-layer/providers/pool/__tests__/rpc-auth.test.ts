@@ -0,0 +1,222 @@
+import 'reflect-metadata';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { createServer } from 'node:http';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { transformAndValidate } from 'class-transformer-validator';
+import { ProvidersConfig } from '../../../../config/providers.config';
+import type { BusinessConfig } from '../../../../config/business.config';
+import { RpcAuthorization, toRpcConnections } from '../rpc-auth';
+import { RpcEndpoint, RpcError } from '../rpc-endpoint';
+import { ProviderPool } from '../provider-pool';
+import { ProviderPoolService, withMempoolPool } from '../provider-pool.service';
+import type { ProviderTransport } from '../../provider-transport';
+
+const unserved = async (): Promise<never> => {
+  throw new Error('Not served by the pool');
+};
+/** Library calls the pool is applied over; none of them should be reached. */
+const library: ProviderTransport = {
+  getCurrentBlockHeightFromNetwork: unserved,
+  getCurrentBlockHeightFromMempool: unserved,
+  getBasicBlockByHeight: unserved,
+  getManyBlocksStatsByHeights: unserved,
+  getManyBlocksByHeights: unserved,
+  getManyBlocksByHashes: unserved,
+  getManyTransactionsByHashes: unserved,
+  getRawMempoolFromAll: unserved,
+  getMempoolTransactionsByTxids: unserved,
+};
+
+/** bitcoind stand-in that only answers requests carrying the expected Authorization header. */
+class AuthNodeStandIn {
+  public expected = '';
+  public readonly seen: (string | undefined)[] = [];
+  private readonly server: Server;
+
+  constructor() {
+    this.server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        this.seen.push(req.headers.authorization);
+        if (req.headers.authorization !== this.expected) {
+          res.writeHead(401).end();
+          return;
+        }
+        const calls = JSON.parse(body);
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(calls.map((call: any) => this.answer(call))));
+      });
+    });
+  }
+
+  get url(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  listen(): Promise<void> {
+    return new Promise((resolve) => this.server.listen(0, '127.0.0.1', () => resolve()));
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  private answer({ id, method, params }: any) {
+    switch (method) {
+      case 'getblockcount':
+        return { id, result: 7, error: null };
+      case 'getbestblockhash':
+        return { id, result: 'bb'.repeat(32), error: null };
+      case 'getrawmempool':
+        return { id, result: { ['aa'.repeat(32)]: { vsize: 100 } }, error: null };
+      case 'getrawtransaction':
+        return params[0] === 'aa'.repeat(32)
+          ? { id, result: { txid: params[0] }, error: null }
+          : { id, result: null, error: { code: -5, message: 'No such mempool or blockchain transaction' } };
+      default:
+        return { id, result: null, error: { code: -32601, message: 'Method not found' } };
+    }
+  }
+}
+
+const options = { circuitFailures: 3, circuitCooldownMs: 50, requestTimeoutMs: 1000 };
+const basic = (userPass: string) => `Basic ${Buffer.from(userPass).toString('base64')}`;
+
+describe('RPC authentication', () => {
+  let node: AuthNodeStandIn;
+  let dir: string;
+
+  beforeEach(async () => {
+    node = new AuthNodeStandIn();
+    await node.listen();
+    dir = await mkdtemp(join(tmpdir(), 'rpc-auth-'));
+  });
+
+  afterEach(async () => {
+    await node.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('re-reads a rotated cookie file once the node rejects the old one', async () => {
+    const cookiePath = join(dir, '.cookie');
+    await writeFile(cookiePath, '__cookie__:first\n');
+    node.expected = basic('__cookie__:first');
+    const endpoint = new RpcEndpoint(
+      node.url,
+      options,
+      new RpcAuthorization({ type: 'cookie', path: cookiePath }, (path) => readFile(path, 'utf8'))
+    );
+    expect(await endpoint.call('getblockcount')).toBe(7);
+
+    // bitcoind restarted with a new cookie
+    await writeFile(cookiePath, '__cookie__:second\n');
+    node.expected = basic('__cookie__:second');
+    expect(await endpoint.call('getblockcount')).toBe(7);
+    expect(node.seen.slice(-2)).toEqual([basic('__cookie__:first'), basic('__cookie__:second')]);
+
+    // Unchanged cookie: no retry loop
+    node.expected = 'none';
+    await expect(endpoint.call('getblockcount')).rejects.toThrow(RpcError);
+    expect(node.seen).toHaveLength(4);
+  });
+
+  it('sends bearer tokens and does not need a cookie reader for them', async () => {
+    node.expected = 'Bearer t0ken';
+    const endpoint = new RpcEndpoint(node.url, options, new RpcAuthorization({ type: 'bearer', token: 't0ken' }));
+    expect(await endpoint.call('getblockcount')).toBe(7);
+
+    const cookie = new RpcEndpoint(node.url, options, new RpcAuthorization({ type: 'cookie', path: '/x/.cookie' }));
+    await expect(cookie.call('getblockcount')).rejects.toThrow(/only supported on Node.js/);
+  });
+
+  it('resolves per-endpoint credentials and keeps them out of the URLs', async () => {
+    const config = await transformAndValidate(ProvidersConfig, {
+      PROVIDER_NETWORK_RPC_URLS: 'http://a:8332,http://u:p%40ss@b:8332,http://c:8332,http://d:8332',
+      PROVIDER_NETWORK_RPC_USERS: 'alice,,,',
+      PROVIDER_NETWORK_RPC_PASSWORDS: 'secret,,,',
+      PROVIDER_NETWORK_RPC_TOKENS: ',,t0ken,',
+      PROVIDER_RPC_COOKIE_PATH: '/data/.cookie',
+      PROVIDER_MEMPOOL_RPC_URLS: 'http://m:8332',
+      PROVIDER_MEMPOOL_RPC_TOKENS: 'mempool-token',
+    });
+
+    expect(config.getNetworkRpcEndpoints()).toEqual([
+      { url: 'http://a:8332', credentials: { type: 'basic', username: 'alice', password: 'secret' } },
+      { url: 'http://b:8332', credentials: { type: 'basic', username: 'u', password: 'p@ss' } },
+      { url: 'http://c:8332', credentials: { type: 'bearer', token: 't0ken' } },
+      { url: 'http://d:8332', credentials: { type: 'cookie', path: '/data/.cookie' } },
+    ]);
+    expect(config.getMempoolRpcEndpoints()).toEqual([
+      { url: 'http://m:8332', credentials: { type: 'bearer', token: 'mempool-token' } },
+    ]);
+    expect(config.isMempoolPoolEnabled()).toBe(true);
+
+    const mismatched = await transformAndValidate(ProvidersConfig, {
+      PROVIDER_NETWORK_RPC_URLS: 'http://a:8332,http://b:8332,http://c:8332',
+      PROVIDER_NETWORK_RPC_USERS: 'alice,bob',
+    });
+    expect(() => mismatched.validateNetwork()).toThrow(/single value or one per PROVIDER_NETWORK_RPC_URLS entry/);
+  });
+
+  it('re-reads a rotated cookie on every RPC path and keeps credentials out of library connections', async () => {
+    const cookiePath = join(dir, '.cookie');
+    await writeFile(cookiePath, '__cookie__:first\n');
+    node.expected = basic('__cookie__:first');
+    const businessConfig: Pick<BusinessConfig, 'NETWORK_HAS_SEGWIT'> = { NETWORK_HAS_SEGWIT: true };
+    const services: ProviderPoolService[] = [];
+    const pooled = async (env: Record<string, string>) => {
+      const config = await transformAndValidate(ProvidersConfig, { PROVIDER_RPC_COOKIE_PATH: cookiePath, ...env });
+      const service = new ProviderPoolService(config, businessConfig as BusinessConfig, (path) =>
+        readFile(path, 'utf8')
+      );
+      services.push(service);
+      expect(toRpcConnections([...config.getNetworkRpcEndpoints(), ...config.getMempoolRpcEndpoints()])).toEqual([
+        { baseUrl: node.url },
+      ]);
+      return service.apply(library);
+    };
+
+    try {
+      const rpc = await pooled({ PROVIDER_NETWORK_RPC_URLS: node.url });
+      const file = await pooled({ NETWORK_PROVIDER_TYPE: 'file', PROVIDER_NETWORK_RPC_URLS: node.url });
+      const mempool = await pooled({ PROVIDER_MEMPOOL_RPC_URLS: node.url });
+      const calls = () =>
+        Promise.all([
+          rpc.getCurrentBlockHeightFromNetwork(),
+          file.getCurrentBlockHeightFromNetwork(),
+          mempool.getCurrentBlockHeightFromMempool(),
+        ]);
+      expect(await calls()).toEqual([7, 7, 7]);
+
+      // bitcoind restarted with a new cookie: each path is rejected once, re-reads it and retries
+      await writeFile(cookiePath, '__cookie__:second\n');
+      node.expected = basic('__cookie__:second');
+      node.seen.length = 0;
+      expect(await calls()).toEqual([7, 7, 7]);
+      expect(node.seen.filter((header) => header === basic('__cookie__:first'))).toHaveLength(3);
+      expect(node.seen.filter((header) => header === basic('__cookie__:second'))).toHaveLength(3);
+    } finally {
+      services.forEach((service) => service.onModuleDestroy());
+    }
+  });
+
+  it('serves mempool calls through a pool with header credentials', async () => {
+    node.expected = 'Bearer mempool-token';
+    const pool = new ProviderPool(
+      [{ url: node.url, auth: new RpcAuthorization({ type: 'bearer', token: 'mempool-token' }) }],
+      { ...options, tipConsensus: 1, maxLagBlocks: 2 }
+    );
+    const provider = withMempoolPool(library, pool);
+
+    expect(await provider.getCurrentBlockHeightFromMempool()).toBe(7);
+    expect(await provider.getRawMempoolFromAll()).toEqual([{ ['aa'.repeat(32)]: { vsize: 100 } }]);
+    expect(await provider.getMempoolTransactionsByTxids(['aa'.repeat(32), 'bb'.repeat(32)])).toEqual([
+      { txid: 'aa'.repeat(32) },
+      null,
+    ]);
+  });
+});
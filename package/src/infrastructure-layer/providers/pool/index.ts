@@ -0,0 +1,4 @@
+export * from './rpc-auth';
+export * from './rpc-endpoint';
+export * from './provider-pool';
+export * from './provider-pool.service';
@@ -0,0 +1,205 @@
+import { Inject, Injectable, Logger, OnModuleDestroy, Optional } from '@nestjs/common';
+import { BusinessConfig, ProvidersConfig } from '../../../config';
+import type { RpcEndpointConfig } from '../../../config';
+import { ProviderPool } from './provider-pool';
+import type { ProviderPoolOptions, ProviderPoolStatus } from './provider-pool';
+import { RpcAuthorization } from './rpc-auth';
+import { verifyBlockIntegrity } from '../integrity/block-integrity';
+import type { RpcCookieReader } from './rpc-auth';
+import type { RpcEndpoint } from './rpc-endpoint';
+import type { ProviderLayer, ProviderTransport } from '../provider-transport';
+
+const BLOCK_STATS_FIELDS = ['blockhash', 'total_size', 'height'];
+
+const maxOf = (heights: number[]) => heights.reduce((max, h) => (h > max ? h : max), -1);
+
+export interface ProviderPoolSourceOptions {
+  /** Throws for a block that fails verification; the endpoint is penalised and the next one is asked. */
+  verifyBlock?: (block: any) => void;
+}
+
+/**
+ * Serves the tip, block and transaction calls of `transport` from a ProviderPool; mempool calls
+ * are left to `transport` unless withMempoolPool is applied as well.
+ */
+export function withProviderPool(
+  transport: ProviderTransport,
+  pool: ProviderPool,
+  options: ProviderPoolSourceOptions = {}
+): ProviderTransport {
+  const { verifyBlock } = options;
+
+  const verified = <T>(endpoint: RpcEndpoint, blocks: T[]): T[] => {
+    if (!verifyBlock) return blocks;
+    try {
+      for (const block of blocks) if (block) verifyBlock(block);
+    } catch (error) {
+      endpoint.reject(error);
+      throw error;
+    }
+    return blocks;
+  };
+
+  return {
+    ...transport,
+    getCurrentBlockHeightFromNetwork: async () => pool.getTipHeight(),
+    getManyBlocksStatsByHeights: async (heights: (string | number)[]) => {
+      const hs = heights.map(Number);
+      return pool.request(
+        (endpoint) => endpoint.batch(hs.map((h) => ({ method: 'getblockstats', params: [h, BLOCK_STATS_FIELDS] }))),
+        maxOf(hs)
+      );
+    },
+    getManyBlocksByHeights: async (heights: (string | number)[]) => {
+      const hs = heights.map(Number);
+      return pool.request(async (endpoint) => {
+        const hashes = await endpoint.batch<string>(hs.map((h) => ({ method: 'getblockhash', params: [h] })));
+        const blocks = await endpoint.batch(hashes.map((hash) => ({ method: 'getblock', params: [hash, 2] })));
+        pool.verify(blocks);
+        return verified(endpoint, blocks);
+      }, maxOf(hs));
+    },
+    getManyBlocksByHashes: async (hashes: string[]) =>
+      pool.request(async (endpoint) => {
+        const blocks = await endpoint.batch(hashes.map((hash) => ({ method: 'getblock', params: [hash, 2] })));
+        pool.verify(blocks);
+        return verified(endpoint, blocks);
+      }),
+    getBasicBlockByHeight: async (height: string | number) =>
+      pool.request(async (endpoint) => {
+        const [hash] = await endpoint.batchSettled<string>([{ method: 'getblockhash', params: [Number(height)] }]);
+        return hash ? verified(endpoint, [await endpoint.call('getblock', [hash, 1])])[0] : null;
+      }, Number(height)),
+    getManyTransactionsByHashes: async (txids: string[]) =>
+      pool.request(async (endpoint) => {
+        const txs = await endpoint.batchSettled(
+          txids.map((txid) => ({ method: 'getrawtransaction', params: [txid, true] }))
+        );
+        return txs.map((tx) => tx ?? null);
+      }),
+  };
+}
+
+/** Serves the mempool calls of `transport` from a pool of PROVIDER_MEMPOOL_RPC_URLS. */
+export function withMempoolPool(transport: ProviderTransport, pool: ProviderPool): ProviderTransport {
+  return {
+    ...transport,
+    getCurrentBlockHeightFromMempool: async () => pool.request((endpoint) => endpoint.call<number>('getblockcount')),
+    getRawMempoolFromAll: async () => [await pool.request((endpoint) => endpoint.call('getrawmempool', [true]))],
+    getMempoolTransactionsByTxids: async (txids: string[]) =>
+      pool.request(async (endpoint) => {
+        const txs = await endpoint.batchSettled(
+          txids.map((txid) => ({ method: 'getrawtransaction', params: [txid, true] }))
+        );
+        return txs.map((tx) => tx ?? null);
+      }),
+  };
+}
+
+@Injectable()
+export class ProviderPoolService implements ProviderLayer, OnModuleDestroy {
+  private readonly logger = new Logger(ProviderPoolService.name);
+  private timer?: ReturnType<typeof setInterval>;
+  private _pool?: ProviderPool;
+  private _mempoolPool?: ProviderPool;
+  private readonly states = new Map<string, string>();
+
+  constructor(
+    private readonly providersConfig: ProvidersConfig,
+    private readonly businessConfig: BusinessConfig,
+    @Optional() @Inject('RpcCookieReader') private readonly readCookie?: RpcCookieReader
+  ) {}
+
+  /** Undefined unless the pool is enabled (see ProvidersConfig.isProviderPoolEnabled). */
+  get pool(): ProviderPool | undefined {
+    return this._pool;
+  }
+
+  /** Serves the mempool and (ProvidersConfig.isProviderPoolEnabled) network RPC calls from pools. */
+  apply(transport: ProviderTransport): ProviderTransport {
+    const config = this.providersConfig;
+
+    if (config.isMempoolPoolEnabled()) {
+      this._mempoolPool = this.createPool(config.getMempoolRpcEndpoints());
+      transport = withMempoolPool(transport, this._mempoolPool);
+      this.logger.log('RPC mempool pool enabled', {
+        args: { endpoints: this._mempoolPool.endpoints.map((e) => e.url) },
+      });
+    }
+
+    if (!config.isProviderPoolEnabled()) return transport;
+
+    this._pool = this.createPool(config.getNetworkRpcEndpoints());
+    const segwit = this.businessConfig.NETWORK_HAS_SEGWIT;
+    const pooled = withProviderPool(transport, this._pool, {
+      ...(config.isBlockVerificationEnabled() && {
+        verifyBlock: (block: any) => verifyBlockIntegrity(block, { segwit }),
+      }),
+    });
+
+    this.logger.log('RPC provider pool enabled', {
+      args: {
+        endpoints: this._pool.endpoints.map((e) => e.url),
+        tipConsensus: config.PROVIDER_TIP_CONSENSUS,
+        verifyBlocks: config.isBlockVerificationEnabled(),
+      },
+    });
+
+    this.timer = setInterval(() => {
+      this._pool
+        ?.probe()
+        .then(() => this.logStateChanges())
+        .catch(() => undefined);
+    }, config.PROVIDER_POOL_PROBE_INTERVAL_MS);
+    this.timer.unref?.();
+
+    return pooled;
+  }
+
+  onModuleDestroy() {
+    if (this.timer) clearInterval(this.timer);
+  }
+
+  /** Per-endpoint health, circuit state and tip; `enabled: false` when the pool is not in use. */
+  public getStatus(): ProviderPoolStatus & { enabled: boolean } {
+    if (!this._pool) {
+      return {
+        enabled: false,
+        consensus: { minProviders: this.providersConfig.PROVIDER_TIP_CONSENSUS },
+        endpoints: [],
+      };
+    }
+    return { enabled: true, ...this._pool.getStatus() };
+  }
+
+  private createPool(endpoints: RpcEndpointConfig[]): ProviderPool {
+    const config = this.providersConfig;
+    const options: ProviderPoolOptions = {
+      tipConsensus: config.PROVIDER_TIP_CONSENSUS,
+      maxLagBlocks: config.PROVIDER_POOL_MAX_LAG_BLOCKS,
+      circuitFailures: config.PROVIDER_POOL_CIRCUIT_FAILURES,
+      circuitCooldownMs: config.PROVIDER_POOL_CIRCUIT_COOLDOWN_MS,
+      requestTimeoutMs: config.PROVIDER_RPC_REQUEST_TIMEOUT,
+    };
+    return new ProviderPool(
+      endpoints.map(({ url, credentials }) => ({ url, auth: new RpcAuthorization(credentials, this.readCookie) })),
+      options
+    );
+  }
+
+  private logStateChanges(): void {
+    for (const endpoint of this._pool!.endpoints) {
+      const previous = this.states.get(endpoint.url) ?? 'closed';
+      if (previous === endpoint.state) continue;
+      this.states.set(endpoint.url, endpoint.state);
+
+      if (endpoint.state === 'open') {
+        this.logger.warn('RPC endpoint circuit opened', {
+          args: { url: endpoint.url, lastError: endpoint.lastError },
+        });
+      } else if (endpoint.state === 'closed') {
+        this.logger.log('RPC endpoint recovered', { args: { url: endpoint.url } });
+      }
+    }
+  }
+}
@@ -0,0 +1,226 @@
+import { RpcEndpoint, RpcError } from './rpc-endpoint';
+import type { RpcEndpointOptions, RpcEndpointStatus } from './rpc-endpoint';
+import type { RpcAuthorization } from './rpc-auth';
+
+export interface ProviderPoolOptions extends RpcEndpointOptions {
+  /** Providers that must report the same block hash before a new tip is accepted (1: off). */
+  tipConsensus: number;
+  /** Endpoints further behind the best tip are only used when no other endpoint is available. */
+  maxLagBlocks: number;
+  /** Weighted routing source of randomness (tests). */
+  random?: () => number;
+}
+
+export interface ProviderPoolStatus {
+  bestTipHeight?: number;
+  consensus: {
+    minProviders: number;
+    height?: number;
+    hash?: string;
+  };
+  endpoints: RpcEndpointStatus[];
+}
+
+/** Heights below the K-th highest tip tried when providers disagree at that height. */
+const MAX_CONSENSUS_STEPS = 10;
+/** Agreed hashes kept to check fetched blocks against. */
+const MAX_AGREED_HASHES = 100;
+
+/**
+ * Health-scored set of JSON-RPC endpoints (PROVIDER_NETWORK_RPC_URLS or PROVIDER_MEMPOOL_RPC_URLS).
+ *
+ * Requests go to an endpoint picked at random, weighted by its score; endpoints behind
+ * the requested height or lagging the best tip are tried last, endpoints with an open
+ * circuit not at all. A failed request is retried on the next candidate.
+ *
+ * With `tipConsensus` K > 1 the tip only moves to a height once K endpoints report the
+ * same block hash there, and fetched blocks at agreed heights must carry that hash.
+ */
+export class ProviderPool {
+  public readonly endpoints: RpcEndpoint[];
+  private readonly agreedHashes = new Map<number, string>();
+  private agreedHeight?: number;
+  private readonly random: () => number;
+
+  constructor(
+    urls: (string | { url: string; auth?: RpcAuthorization })[],
+    private readonly options: ProviderPoolOptions
+  ) {
+    this.endpoints = urls.map((item) =>
+      typeof item === 'string' ? new RpcEndpoint(item, options) : new RpcEndpoint(item.url, options, item.auth)
+    );
+    this.random = options.random ?? Math.random;
+  }
+
+  /** Highest tip reported by an endpoint whose circuit is not open. */
+  get bestTipHeight(): number | undefined {
+    let best: number | undefined;
+    for (const endpoint of this.endpoints) {
+      if (endpoint.state === 'open' || endpoint.tipHeight === undefined) continue;
+      if (best === undefined || endpoint.tipHeight > best) best = endpoint.tipHeight;
+    }
+    return best;
+  }
+
+  /** Refreshes the tip of every endpoint that accepts requests; failures only update health. */
+  async probe(): Promise<void> {
+    await Promise.all(
+      this.endpoints
+        .filter((endpoint) => endpoint.available())
+        .map(async (endpoint) => {
+          try {
+            const [height, hash] = await endpoint.batch([{ method: 'getblockcount' }, { method: 'getbestblockhash' }]);
+            endpoint.tipHeight = height;
+            endpoint.tipHash = hash;
+            endpoint.lastProbeAt = Date.now();
+          } catch {
+            // recorded on the endpoint
+          }
+        })
+    );
+  }
+
+  /** Runs `request` on the best candidate, falling over to the next ones on errors. */
+  async request<T>(request: (endpoint: RpcEndpoint) => Promise<T>, minHeight?: number): Promise<T> {
+    const candidates = this.candidates(minHeight);
+    if (!candidates.length) {
+      throw new RpcError('No RPC endpoint available, all circuits are open');
+    }
+
+    let lastError: unknown;
+    for (const endpoint of candidates) {
+      try {
+        return await request(endpoint);
+      } catch (error) {
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Tip height the crawler may advance to: the best tip, or with tip consensus the highest
+   * height at least K endpoints agree on. Without agreement the last agreed height is kept.
+   */
+  async getTipHeight(): Promise<number> {
+    await this.probe();
+
+    const reporting = this.endpoints.filter((e) => e.state !== 'open' && e.tipHeight !== undefined);
+    if (!reporting.length) throw new RpcError('No RPC endpoint reported a tip height');
+
+    const k = this.options.tipConsensus;
+    if (k <= 1) return this.bestTipHeight!;
+
+    const heights = reporting.map((e) => e.tipHeight!).sort((a, b) => b - a);
+    if (heights.length >= k) {
+      const candidate = heights[k - 1]!;
+      for (let height = candidate; height >= Math.max(candidate - MAX_CONSENSUS_STEPS, 0); height--) {
+        const hash = await this.agreeOn(height, reporting);
+        if (hash) {
+          this.agree(height, hash);
+          return height;
+        }
+      }
+    }
+
+    if (this.agreedHeight === undefined) {
+      throw new RpcError(`Tip consensus not reached: ${k} RPC endpoints must report the same block`);
+    }
+    return this.agreedHeight;
+  }
+
+  /** Throws when a block at an agreed height carries another hash (the endpoint is on a different branch). */
+  verify(blocks: any[]): void {
+    for (const block of blocks) {
+      const agreed = block && this.agreedHashes.get(Number(block.height));
+      if (agreed && agreed !== block.hash) {
+        throw new RpcError(`Block ${block.hash} at height ${block.height} differs from the agreed ${agreed}`);
+      }
+    }
+  }
+
+  getStatus(): ProviderPoolStatus {
+    const best = this.bestTipHeight;
+    return {
+      bestTipHeight: best,
+      consensus: {
+        minProviders: this.options.tipConsensus,
+        height: this.agreedHeight,
+        hash: this.agreedHeight !== undefined ? this.agreedHashes.get(this.agreedHeight) : undefined,
+      },
+      endpoints: this.endpoints.map((e) => e.status(best)),
+    };
+  }
+
+  private async agreeOn(height: number, reporting: RpcEndpoint[]): Promise<string | undefined> {
+    const voters = reporting.filter((e) => e.tipHeight! >= height);
+    if (voters.length < this.options.tipConsensus) return undefined;
+
+    const hashes = await Promise.all(
+      voters.map((e) =>
+        e.tipHeight === height && e.tipHash
+          ? e.tipHash
+          : e.call<string>('getblockhash', [height]).catch(() => undefined)
+      )
+    );
+
+    const votes = new Map<string, number>();
+    for (const hash of hashes) {
+      if (!hash) continue;
+      const count = (votes.get(hash) ?? 0) + 1;
+      if (count >= this.options.tipConsensus) return hash;
+      votes.set(hash, count);
+    }
+    return undefined;
+  }
+
+  private agree(height: number, hash: string): void {
+    // Agreement at a lower height (reorganisation) withdraws the hashes above it
+    for (const h of this.agreedHashes.keys()) {
+      if (h >= height) this.agreedHashes.delete(h);
+    }
+    this.agreedHeight = height;
+    this.agreedHashes.set(height, hash);
+    for (const h of this.agreedHashes.keys()) {
+      if (this.agreedHashes.size <= MAX_AGREED_HASHES) break;
+      this.agreedHashes.delete(h);
+    }
+  }
+
+  private candidates(minHeight?: number): RpcEndpoint[] {
+    const best = this.bestTipHeight;
+    const available = this.endpoints.filter((e) => e.available());
+
+    const preferred: RpcEndpoint[] = [];
+    const lagging: RpcEndpoint[] = [];
+    for (const endpoint of available) {
+      const tip = endpoint.tipHeight;
+      const behind =
+        tip !== undefined &&
+        ((minHeight !== undefined && tip < minHeight) ||
+          (best !== undefined && best - tip > this.options.maxLagBlocks));
+      (behind ? lagging : preferred).push(endpoint);
+    }
+
+    return [...this.weightedOrder(preferred, best), ...this.weightedOrder(lagging, best)];
+  }
+
+  /** Weighted random order without replacement; every endpoint keeps a minimal weight. */
+  private weightedOrder(endpoints: RpcEndpoint[], best?: number): RpcEndpoint[] {
+    const rest = endpoints.map((endpoint) => ({ endpoint, weight: Math.max(1, endpoint.score(best)) }));
+    const ordered: RpcEndpoint[] = [];
+
+    while (rest.length) {
+      const total = rest.reduce((acc, e) => acc + e.weight, 0);
+      let pick = this.random() * total;
+      let index = 0;
+      while (index < rest.length - 1 && pick >= rest[index]!.weight) {
+        pick -= rest[index]!.weight;
+        index++;
+      }
+      ordered.push(rest.splice(index, 1)[0]!.endpoint);
+    }
+
+    return ordered;
+  }
+}
@@ -0,0 +1,54 @@
+import type { RpcCredentials, RpcEndpointConfig } from '../../../config';
+
+/** Reads a bitcoind `.cookie` file; provided by the Node.js app module (the browser has no file system). */
+export type RpcCookieReader = (path: string) => Promise<string>;
+
+const basic = (userPass: string) => `Basic ${btoa(userPass)}`;
+
+/**
+ * Authorization header of one RPC endpoint. A cookie (`__cookie__:<password>`) is read once
+ * and re-read by `refresh()` when the node rejects it, as bitcoind writes a new one on every start.
+ */
+export class RpcAuthorization {
+  private cookie?: string;
+
+  constructor(
+    private readonly credentials?: RpcCredentials,
+    private readonly readCookie?: RpcCookieReader
+  ) {}
+
+  async header(): Promise<string | undefined> {
+    const credentials = this.credentials;
+    if (!credentials) return undefined;
+    if (credentials.type === 'bearer') return `Bearer ${credentials.token}`;
+    if (credentials.type === 'basic') return basic(`${credentials.username}:${credentials.password}`);
+
+    this.cookie ??= await this.read(credentials.path);
+    return basic(this.cookie);
+  }
+
+  /** Re-reads the cookie file; true when the credentials changed and a rejected request is worth retrying. */
+  async refresh(): Promise<boolean> {
+    if (this.credentials?.type !== 'cookie') return false;
+    const previous = this.cookie;
+    this.cookie = await this.read(this.credentials.path);
+    return this.cookie !== previous;
+  }
+
+  private async read(path: string): Promise<string> {
+    if (!this.readCookie) {
+      throw new Error('PROVIDER_RPC_COOKIE_PATH is only supported on Node.js');
+    }
+    return (await this.readCookie(path)).trim();
+  }
+}
+
+/**
+ * Connections of the library RPC providers: the credential-free URLs only. Every call made on an
+ * endpoint with credentials is served by ProviderPoolService instead (see
+ * ProvidersConfig.isProviderPoolEnabled and isMempoolPoolEnabled), which sends them and re-reads
+ * a rotated cookie.
+ */
+export function toRpcConnections(endpoints: RpcEndpointConfig[]): Array<{ baseUrl: string }> {
+  return endpoints.map(({ url }) => ({ baseUrl: url }));
+}
@@ -0,0 +1,258 @@
+import { RpcAuthorization } from './rpc-auth';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface RpcEndpointOptions {
+  /** Consecutive failures that open the circuit. */
+  circuitFailures: number;
+  /** How long an open circuit rejects requests before one trial request is let through. */
+  circuitCooldownMs: number;
+  requestTimeoutMs: number;
+}
+
+export interface RpcEndpointStatus {
+  url: string;
+  state: CircuitState;
+  /** 0..100, the routing weight relative to the other endpoints. */
+  score: number;
+  latencyMs: number;
+  errorRate: number;
+  requests: number;
+  failures: number;
+  tipHeight?: number;
+  tipHash?: string;
+  lagBlocks?: number;
+  lastError?: string;
+  lastProbeAt?: number;
+}
+
+export class RpcError extends Error {
+  constructor(
+    message: string,
+    public readonly code?: number
+  ) {
+    super(message);
+    this.name = 'RpcError';
+  }
+}
+
+/** Smoothing factor of the latency and error rate moving averages. */
+const EWMA_ALPHA = 0.2;
+/** Latency at which an endpoint has half the weight of an instant one. */
+const LATENCY_HALF_WEIGHT_MS = 250;
+
+/** URL with the credentials removed, safe for logs and status queries. */
+export function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.username = '';
+    parsed.password = '';
+    return parsed.toString().replace(/\/$/, '');
+  } catch {
+    return url.replace(/\/\/[^@/]*@/, '//');
+  }
+}
+
+/**
+ * One JSON-RPC endpoint of the provider pool: plain `fetch` calls with a timeout, plus
+ * the health the pool routes on (latency and error rate moving averages, last known tip)
+ * and a circuit breaker.
+ */
+export class RpcEndpoint {
+  public readonly url: string;
+  private readonly endpoint: string;
+  private readonly auth: RpcAuthorization;
+
+  public state: CircuitState = 'closed';
+  public latencyMs = 0;
+  public errorRate = 0;
+  public requests = 0;
+  public failures = 0;
+  public tipHeight?: number;
+  public tipHash?: string;
+  public lastError?: string;
+  public lastProbeAt?: number;
+
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private nextId = 0;
+
+  /** `auth` takes precedence over credentials embedded in `url`. */
+  constructor(
+    url: string,
+    private readonly options: RpcEndpointOptions,
+    auth?: RpcAuthorization
+  ) {
+    this.url = redactUrl(url);
+
+    // fetch refuses URLs with credentials, they go into the Authorization header
+    const parsed = new URL(url);
+    const embedded = parsed.username || parsed.password;
+    this.auth =
+      auth ??
+      new RpcAuthorization(
+        embedded
+          ? {
+              type: 'basic',
+              username: decodeURIComponent(parsed.username),
+              password: decodeURIComponent(parsed.password),
+            }
+          : undefined
+      );
+    parsed.username = '';
+    parsed.password = '';
+    this.endpoint = parsed.toString();
+  }
+
+  /** Whether a request may be sent now; an open circuit lets one trial through after the cooldown. */
+  available(now = Date.now()): boolean {
+    if (this.state === 'closed') return true;
+    if (this.state === 'open' && now - this.openedAt >= this.options.circuitCooldownMs) {
+      this.state = 'half-open';
+    }
+    return this.state === 'half-open' && !this.trialInFlight;
+  }
+
+  /** Routing weight: faster, more reliable and less lagging endpoints get more requests. */
+  score(bestTip?: number): number {
+    if (this.state === 'open') return 0;
+    const latency = LATENCY_HALF_WEIGHT_MS / (LATENCY_HALF_WEIGHT_MS + this.latencyMs);
+    const reliability = 1 - this.errorRate;
+    const lag = bestTip !== undefined && this.tipHeight !== undefined ? Math.max(0, bestTip - this.tipHeight) : 0;
+    const trial = this.state === 'half-open' ? 0.1 : 1;
+    return Math.round(100 * latency * reliability * trial * (1 / (1 + lag)));
+  }
+
+  async call<T = any>(method: string, params: any[] = []): Promise<T> {
+    const [result] = await this.batch<T>([{ method, params }]);
+    return result!;
+  }
+
+  /**
+   * JSON-RPC batch; fails as a whole when any call fails, results keep the request order.
+   * Only transport failures (network, timeout, non JSON-RPC responses) count against the
+   * endpoint health, errors the node answered with (e.g. unknown block) do not.
+   */
+  async batch<T = any>(calls: { method: string; params?: any[] }[]): Promise<T[]> {
+    return (await this.send(calls)).map(({ method, item }) => {
+      if (item.error) throw new RpcError(`${method}: ${item.error.message}`, item.error.code);
+      return item.result as T;
+    });
+  }
+
+  /** Like `batch`, with `undefined` for the calls the node answered with an error (e.g. unknown transaction). */
+  async batchSettled<T = any>(calls: { method: string; params?: any[] }[]): Promise<(T | undefined)[]> {
+    return (await this.send(calls)).map(({ item }) => (item.error ? undefined : (item.result as T)));
+  }
+
+  /** Counts a response the caller rejected (e.g. a block failing verification) against the endpoint health. */
+  reject(error: unknown): void {
+    this.failed(error);
+  }
+
+  status(bestTip?: number): RpcEndpointStatus {
+    return {
+      url: this.url,
+      state: this.state,
+      score: this.score(bestTip),
+      latencyMs: Math.round(this.latencyMs),
+      errorRate: Number(this.errorRate.toFixed(4)),
+      requests: this.requests,
+      failures: this.failures,
+      tipHeight: this.tipHeight,
+      tipHash: this.tipHash,
+      lagBlocks: bestTip !== undefined && this.tipHeight !== undefined ? bestTip - this.tipHeight : undefined,
+      lastError: this.lastError,
+      lastProbeAt: this.lastProbeAt,
+    };
+  }
+
+  private async send(calls: { method: string; params?: any[] }[]): Promise<{ method: string; item: any }[]> {
+    if (!calls.length) return [];
+
+    const halfOpen = this.state === 'half-open';
+    if (halfOpen) this.trialInFlight = true;
+    const started = Date.now();
+    const body = calls.map(({ method, params = [] }) => ({ jsonrpc: '1.0', id: this.nextId++, method, params }));
+
+    let response: any[];
+    try {
+      response = await this.post(body);
+      this.succeeded(Date.now() - started);
+    } catch (error) {
+      this.failed(error);
+      throw error;
+    } finally {
+      if (halfOpen) this.trialInFlight = false;
+    }
+
+    const byId = new Map<number, any>(response.map((item: any) => [item.id, item]));
+    return body.map(({ id, method }) => {
+      const item = byId.get(id);
+      if (!item) throw new RpcError(`No response for ${method}`);
+      return { method, item };
+    });
+  }
+
+  private async post(body: any[], retried = false): Promise<any[]> {
+    const authorization = await this.auth.header();
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.requestTimeoutMs);
+
+    try {
+      const response = await fetch(this.endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(authorization && { Authorization: authorization }),
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+      if (response.status === 401) {
+        // A rotated cookie is retried once with the new one
+        if (!retried && (await this.auth.refresh())) return this.post(body, true);
+        throw new RpcError('HTTP 401 Unauthorized, check the RPC credentials', 401);
+      }
+      // bitcoind answers errors of single calls with HTTP 500 and a JSON-RPC error body
+      const text = await response.text();
+      let parsed: any;
+      try {
+        parsed = JSON.parse(text);
+      } catch {
+        throw new RpcError(`HTTP ${response.status} ${response.statusText}`.trim());
+      }
+      return Array.isArray(parsed) ? parsed : [parsed];
+    } catch (error: any) {
+      if (error?.name === 'AbortError') {
+        throw new RpcError(`Request timed out after ${this.options.requestTimeoutMs}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private succeeded(latencyMs: number): void {
+    this.requests++;
+    const first = this.requests - this.failures === 1;
+    this.latencyMs = first ? latencyMs : this.latencyMs + EWMA_ALPHA * (latencyMs - this.latencyMs);
+    this.errorRate = this.errorRate * (1 - EWMA_ALPHA);
+    this.consecutiveFailures = 0;
+    this.state = 'closed';
+  }
+
+  private failed(error: unknown): void {
+    this.requests++;
+    this.failures++;
+    this.errorRate = this.errorRate + EWMA_ALPHA * (1 - this.errorRate);
+    this.lastError = (error as any)?.message ?? String(error);
+    this.consecutiveFailures++;
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.options.circuitFailures) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+}
@@ -0,0 +1,50 @@
+import { Inject, Injectable, Logger, OnModuleInit, Optional } from '@nestjs/common';
+import { BlockchainProviderService } from '@easylayer/bitcoin';
+import { ProviderPoolService } from './pool';
+import { SimulatedProviderService } from './simulated';
+import { EsploraProviderService } from './esplora';
+import { installTransport, libraryTransport } from './provider-transport';
+import type { ProviderLayer, ProviderTransport } from './provider-transport';
+
+/**
+ * Builds the provider calls from the configured sources and wrappers in one place, innermost
+ * first, and installs them on the shared BlockchainProviderService instance once:
+ * 1. RPC pools replace the library RPC calls.
+ * 2. A block source replaces them: the simulated chain, Esplora, or files handing over to them.
+ * 3. The block cache wraps whichever source serves blocks.
+ * 4. ZMQ notifications answer tip polls from a cached height.
+ */
+@Injectable()
+export class ProviderCompositionService implements OnModuleInit {
+  private readonly logger = new Logger(ProviderCompositionService.name);
+
+  constructor(
+    private readonly blockchainProvider: BlockchainProviderService,
+    private readonly providerPool: ProviderPoolService,
+    private readonly simulated: SimulatedProviderService,
+    private readonly esplora: EsploraProviderService,
+    // Node.js only layers
+    @Optional() @Inject('FileProvider') private readonly file?: ProviderLayer,
+    @Optional() @Inject('BlockCache') private readonly cache?: ProviderLayer,
+    @Optional() @Inject('ZmqNotifications') private readonly zmq?: ProviderLayer
+  ) {}
+
+  async onModuleInit() {
+    const library = libraryTransport(this.blockchainProvider);
+    installTransport(this.blockchainProvider, await this.compose(library), library);
+    this.logger.debug('Provider calls composed');
+  }
+
+  /** Applies every layer to `library` in the order documented on the class. */
+  public async compose(library: ProviderTransport): Promise<ProviderTransport> {
+    const layers = [this.providerPool, this.simulated, this.esplora, this.file, this.cache, this.zmq].filter(
+      (layer): layer is ProviderLayer => !!layer
+    );
+
+    let transport = library;
+    for (const layer of layers) {
+      transport = await layer.apply(transport);
+    }
+    return transport;
+  }
+}
@@ -0,0 +1,76 @@
+import type { BlockchainProviderService } from '@easylayer/bitcoin';
+
+/**
+ * The BlockchainProviderService calls made by the crawler, the blocks queue and the mempool loader.
+ * Block sources (simulated chain, files, Esplora, RPC pools) implement them and wrappers (block
+ * cache, ZMQ tip) decorate them; ProviderCompositionService stacks them in a fixed order and
+ * installs the result on the shared provider instance.
+ */
+export interface ProviderTransport {
+  getCurrentBlockHeightFromNetwork(): Promise<number>;
+  getCurrentBlockHeightFromMempool(): Promise<number>;
+  getBasicBlockByHeight(height: string | number, ...rest: any[]): Promise<any>;
+  getManyBlocksStatsByHeights(heights: (string | number)[], ...rest: any[]): Promise<any[]>;
+  getManyBlocksByHeights(heights: (string | number)[], ...rest: any[]): Promise<any[]>;
+  getManyBlocksByHashes(hashes: string[], ...rest: any[]): Promise<any[]>;
+  getManyTransactionsByHashes(txids: string[], ...rest: any[]): Promise<any[]>;
+  getRawMempoolFromAll(...rest: any[]): Promise<any[]>;
+  getMempoolTransactionsByTxids(txids: string[], ...rest: any[]): Promise<any[]>;
+}
+
+/** One step of the composition: returns `transport` unchanged when its feature is not configured. */
+export interface ProviderLayer {
+  apply(transport: ProviderTransport): Promise<ProviderTransport> | ProviderTransport;
+}
+
+const TRANSPORT_METHODS: (keyof ProviderTransport)[] = [
+  'getCurrentBlockHeightFromNetwork',
+  'getCurrentBlockHeightFromMempool',
+  'getBasicBlockByHeight',
+  'getManyBlocksStatsByHeights',
+  'getManyBlocksByHeights',
+  'getManyBlocksByHashes',
+  'getManyTransactionsByHashes',
+  'getRawMempoolFromAll',
+  'getMempoolTransactionsByTxids',
+];
+
+/** The calls of the library provider itself (RPC or P2P), bound so they outlive installTransport(). */
+export function libraryTransport(provider: BlockchainProviderService): ProviderTransport {
+  const library: ProviderTransport = provider;
+  return {
+    getCurrentBlockHeightFromNetwork: library.getCurrentBlockHeightFromNetwork.bind(library),
+    getCurrentBlockHeightFromMempool: library.getCurrentBlockHeightFromMempool.bind(library),
+    getBasicBlockByHeight: library.getBasicBlockByHeight.bind(library),
+    getManyBlocksStatsByHeights: library.getManyBlocksStatsByHeights.bind(library),
+    getManyBlocksByHeights: library.getManyBlocksByHeights.bind(library),
+    getManyBlocksByHashes: library.getManyBlocksByHashes.bind(library),
+    getManyTransactionsByHashes: library.getManyTransactionsByHashes.bind(library),
+    getRawMempoolFromAll: library.getRawMempoolFromAll.bind(library),
+    getMempoolTransactionsByTxids: library.getMempoolTransactionsByTxids.bind(library),
+  };
+}
+
+function copyMethod<K extends keyof ProviderTransport>(
+  target: ProviderTransport,
+  source: ProviderTransport,
+  method: K
+): void {
+  target[method] = source[method];
+}
+
+/**
+ * Serves the calls of the shared provider instance from `transport`, so every consumer (library
+ * services included) goes through the same composition. Calls `transport` left to `library`
+ * keep the original methods.
+ */
+export function installTransport(
+  provider: BlockchainProviderService,
+  transport: ProviderTransport,
+  library: ProviderTransport
+): void {
+  const target: ProviderTransport = provider;
+  for (const method of TRANSPORT_METHODS) {
+    if (transport[method] !== library[method]) copyMethod(target, transport, method);
+  }
+}
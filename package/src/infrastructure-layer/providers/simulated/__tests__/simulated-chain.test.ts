@@ -0,0 +1,89 @@
+import { SimulatedChain, computeMerkleRoot } from '../simulated-chain';
+import { bytesToHex, hexToBytes, reverseHex, sha256d } from '../../../../domain-layer/framework/crypto';
+
+function headerHash(block: any): string {
+  const u32 = (n: number) => reverseHex(n.toString(16).padStart(8, '0'));
+  const header =
+    u32(block.version) +
+    reverseHex(block.previousblockhash ?? '00'.repeat(32)) +
+    reverseHex(block.merkleroot) +
+    u32(block.time) +
+    reverseHex(block.bits) +
+    u32(block.nonce);
+  return reverseHex(bytesToHex(sha256d(hexToBytes(header))));
+}
+
+describe('SimulatedChain', () => {
+  it('generates the same chain for the same seed', () => {
+    const a = new SimulatedChain({ seed: 'alpha', height: 5 });
+    const b = new SimulatedChain({ seed: 'alpha', height: 5 });
+    const c = new SimulatedChain({ seed: 'beta', height: 5 });
+
+    expect(a.height).toBe(5);
+    expect(a.tip.hash).toBe(b.tip.hash);
+    expect(a.tip.hash).not.toBe(c.tip.hash);
+  });
+
+  it('produces linked blocks with valid header hashes and merkle roots', () => {
+    const chain = new SimulatedChain({ seed: 'links', height: 4 });
+
+    for (let h = 0; h <= chain.height; h++) {
+      const block = chain.getBlock(h);
+      expect(headerHash(block)).toBe(block.hash);
+      expect(computeMerkleRoot(block.tx.map((tx: any) => tx.txid))).toBe(block.merkleroot);
+      expect(block.confirmations).toBe(chain.height - h + 1);
+      if (h > 0) expect(block.previousblockhash).toBe(chain.getBlock(h - 1).hash);
+    }
+
+    // Non-coinbase inputs spend outputs of earlier blocks
+    const spends = chain
+      .getBlock(3)
+      .tx.slice(1)
+      .flatMap((tx: any) => tx.vin);
+    expect(spends.length).toBeGreaterThan(0);
+    for (const vin of spends) expect(chain.getTransaction(vin.txid)).toBeDefined();
+  });
+
+  it('replaces blocks on fork', () => {
+    const chain = new SimulatedChain({ seed: 'fork', height: 5 });
+    const before = [3, 4, 5].map((h) => chain.getBlock(h).hash);
+
+    chain.fork(3, 4);
+
+    expect(chain.height).toBe(6);
+    expect([3, 4, 5].map((h) => chain.getBlock(h).hash)).not.toEqual(before);
+    expect(chain.getBlock(3).previousblockhash).toBe(chain.getBlock(2).hash);
+    expect(chain.getBlockByHash(before[0]!)).toBeUndefined();
+  });
+
+  it('injects, drops and mines mempool transactions', () => {
+    const chain = new SimulatedChain({ seed: 'mempool', height: 3 });
+
+    const kept = chain.injectMempoolTx();
+    const dropped = chain.injectMempoolTx();
+    expect(Object.keys(chain.getRawMempool())).toEqual([kept.txid, dropped.txid]);
+
+    chain.dropMempoolTx(dropped.txid);
+    const [block] = chain.extend(1);
+
+    expect(block.tx.map((tx: any) => tx.txid)).toContain(kept.txid);
+    expect(block.tx.map((tx: any) => tx.txid)).not.toContain(dropped.txid);
+    expect(chain.mempool).toEqual([]);
+  });
+
+  it('runs scripted steps once the block was served', () => {
+    const chain = new SimulatedChain({ seed: 'script', height: 2 });
+    chain.when(2, { action: 'extend', count: 2 }).when(4, (c) => c.fork(3, 3));
+
+    chain.served([0, 1]);
+    expect(chain.height).toBe(2);
+
+    chain.served([2]);
+    expect(chain.height).toBe(4);
+
+    const stale = chain.getBlock(4).hash;
+    chain.served([3, 4]);
+    expect(chain.height).toBe(5);
+    expect(chain.getBlock(4).hash).not.toBe(stale);
+  });
+});
@@ -0,0 +1,2 @@
+export * from './simulated-chain';
+export * from './simulated-provider.service';
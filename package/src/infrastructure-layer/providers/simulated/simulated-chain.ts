@@ -0,0 +1,380 @@
+import {
+  bytesToHex,
+  computeMerkleRoot,
+  hexToBytes,
+  reverseHex,
+  sha256,
+  sha256d,
+} from '../../../domain-layer/framework/crypto';
+import { classifyOutputScript } from '../../../domain-layer/framework/script';
+
+export { computeMerkleRoot };
+
+export interface SimulatedChainOptions {
+  /** Same seed, same chain: hashes, txids, amounts and scripts are derived from it. */
+  seed?: string;
+  /** Tip height after construction (-1: empty chain). */
+  height?: number;
+  /** Non-coinbase transactions generated per block. */
+  txsPerBlock?: number;
+  /** Network used for output addresses. */
+  network?: string;
+  /** Time of block 0 (unix seconds); blocks are 600s apart. */
+  genesisTime?: number;
+}
+
+export type SimulatedChainStep =
+  | { action: 'extend'; count: number }
+  | { action: 'fork'; height: number; count: number }
+  | { action: 'inject'; count?: number }
+  | { action: 'drop'; txid: string };
+
+interface Utxo {
+  txid: string;
+  n: number;
+  value: number;
+  scriptPubKey: any;
+}
+
+// Regtest target: roughly every second header hash satisfies it
+const BITS = '207fffff';
+const TARGET = BigInt('0x7fffff' + '00'.repeat(29));
+const COINBASE_VALUE = 50;
+const FEE = 0.00001;
+
+const round8 = (v: number) => Math.round(v * 1e8) / 1e8;
+
+function u32le(n: number): string {
+  return bytesToHex(new Uint8Array([n & 0xff, (n >>> 8) & 0xff, (n >>> 16) & 0xff, (n >>> 24) & 0xff]));
+}
+
+/**
+ * Deterministic in-memory chain for offline development and reorg / mempool testing
+ * (NETWORK_PROVIDER_TYPE=simulated).
+ *
+ * Blocks have the shape of `getblock <hash> 2`: real header hashes with regtest proof of work,
+ * real merkle roots over the txids, and transactions spending earlier outputs of the chain.
+ * Transactions carry no raw `hex`; txids are derived from the seed.
+ *
+ *   const chain = new SimulatedChain({ seed: 'test', height: 5 });
+ *   chain.when(5, (c) => c.fork(3, 4)); // once block 5 was served: replace 3..5 by 3'..6'
+ *   chain.injectMempoolTx();
+ */
+export class SimulatedChain {
+  public readonly seed: string;
+  private readonly txsPerBlock: number;
+  private readonly network: string;
+  private readonly genesisTime: number;
+
+  private blocks: any[] = [];
+  private utxos = new Map<string, Utxo>();
+  private mempoolTxs = new Map<string, any>();
+  private branch = 0;
+  private txCounter = 0;
+  private readonly triggers: Array<{ height: number; run: (chain: SimulatedChain) => void }> = [];
+
+  constructor(options: SimulatedChainOptions = {}) {
+    this.seed = options.seed ?? 'easylayer';
+    this.txsPerBlock = options.txsPerBlock ?? 2;
+    this.network = options.network ?? 'regtest';
+    this.genesisTime = options.genesisTime ?? 1600000000;
+    this.extend((options.height ?? 10) + 1, { includeMempool: false });
+  }
+
+  /** Tip height (-1 when empty). */
+  public get height(): number {
+    return this.blocks.length - 1;
+  }
+
+  public get tip(): any | undefined {
+    return this.getBlock(this.height);
+  }
+
+  public getBlock(height: number): any | undefined {
+    const block = this.blocks[height];
+    return block && { ...block, confirmations: this.height - height + 1 };
+  }
+
+  public getBlockByHash(hash: string): any | undefined {
+    const block = this.blocks.find((b) => b.hash === hash);
+    return block && this.getBlock(block.height);
+  }
+
+  /** Confirmed or mempool transaction by txid. */
+  public getTransaction(txid: string): any | undefined {
+    if (this.mempoolTxs.has(txid)) return this.mempoolTxs.get(txid);
+    for (const block of this.blocks) {
+      const tx = block.tx.find((t: any) => t.txid === txid);
+      if (tx) return { ...tx, blockhash: block.hash };
+    }
+    return undefined;
+  }
+
+  public get mempool(): any[] {
+    return [...this.mempoolTxs.values()];
+  }
+
+  /** Mines `count` blocks; the first one includes the current mempool unless disabled. */
+  public extend(count: number, { includeMempool = true }: { includeMempool?: boolean } = {}): any[] {
+    const mined: any[] = [];
+    for (let i = 0; i < count; i++) {
+      const pending = includeMempool && i === 0 ? this.mempool : [];
+      if (pending.length) this.mempoolTxs.clear();
+      mined.push(this.mine(pending));
+    }
+    return mined;
+  }
+
+  /**
+   * Replaces blocks from `height` up by `count` blocks of a new branch (new tip: height + count - 1).
+   * Mempool transactions spending outputs of replaced blocks are dropped; transactions of
+   * replaced blocks are not returned to the mempool.
+   */
+  public fork(height: number, count: number): any[] {
+    if (height < 1 || height > this.height + 1) {
+      throw new Error(`Cannot fork at height ${height}: chain tip is ${this.height}`);
+    }
+    this.branch++;
+    this.blocks = this.blocks.slice(0, height);
+    if (this.blocks.length) this.blocks[this.blocks.length - 1].nextblockhash = undefined;
+    this.rebuildUtxos();
+    for (const [txid, tx] of this.mempoolTxs) {
+      if (tx.vin.some((vin: any) => !this.utxos.has(`${vin.txid}:${vin.vout}`))) this.mempoolTxs.delete(txid);
+    }
+    return this.extend(count, { includeMempool: false });
+  }
+
+  /** Adds a generated transaction spending a confirmed output to the mempool. */
+  public injectMempoolTx(): any {
+    const spent = new Set(this.mempool.flatMap((tx) => tx.vin.map((vin: any) => `${vin.txid}:${vin.vout}`)));
+    const candidates = [...this.utxos.keys()].filter((key) => !spent.has(key)).sort();
+    if (!candidates.length) throw new Error('No spendable outputs for a mempool transaction');
+
+    const key = candidates[this.random(`mempool:${this.txCounter}`) % candidates.length]!;
+    const tx = this.createTx(this.utxos.get(key)!, `mempool:${this.txCounter++}`);
+    this.mempoolTxs.set(tx.txid, tx);
+    return tx;
+  }
+
+  public dropMempoolTx(txid: string): boolean {
+    return this.mempoolTxs.delete(txid);
+  }
+
+  /** Applies a scripted step (e.g. from a test timeline). */
+  public apply(step: SimulatedChainStep): void {
+    switch (step.action) {
+      case 'extend':
+        this.extend(step.count);
+        break;
+      case 'fork':
+        this.fork(step.height, step.count);
+        break;
+      case 'inject':
+        for (let i = 0; i < (step.count ?? 1); i++) this.injectMempoolTx();
+        break;
+      case 'drop':
+        this.dropMempoolTx(step.txid);
+        break;
+    }
+  }
+
+  /** Runs `step` once, right after block `height` was served to the crawler (see served()). */
+  public when(height: number, step: SimulatedChainStep | ((chain: SimulatedChain) => void)): this {
+    const run = typeof step === 'function' ? step : (chain: SimulatedChain) => chain.apply(step);
+    this.triggers.push({ height, run });
+    return this;
+  }
+
+  /** Called by the provider after it returned blocks; fires due `when` triggers. */
+  public served(heights: number[]): void {
+    const max = Math.max(...heights);
+    for (const trigger of [...this.triggers]) {
+      if (trigger.height <= max) {
+        this.triggers.splice(this.triggers.indexOf(trigger), 1);
+        trigger.run(this);
+      }
+    }
+  }
+
+  /** Verbose getrawmempool entries keyed by txid. */
+  public getRawMempool(): Record<string, any> {
+    const time = this.blocks[this.height]?.time ?? this.genesisTime;
+    return Object.fromEntries(
+      this.mempool.map((tx) => [
+        tx.txid,
+        {
+          vsize: tx.vsize,
+          weight: tx.weight,
+          time,
+          height: this.height,
+          fee: FEE,
+          fees: { base: FEE, modified: FEE, ancestor: FEE, descendant: FEE },
+          depends: [],
+          spentby: [],
+          'bip125-replaceable': false,
+          unbroadcast: false,
+        },
+      ])
+    );
+  }
+
+  // ---------- generation ----------
+
+  /** Deterministic 32-bit value for a label on the current branch. */
+  private random(label: string): number {
+    const h = sha256(new TextEncoder().encode(`${this.seed}:${this.branch}:${label}`));
+    return ((h[0]! << 24) | (h[1]! << 16) | (h[2]! << 8) | h[3]!) >>> 0;
+  }
+
+  private hashHex(label: string): string {
+    return bytesToHex(sha256d(new TextEncoder().encode(`${this.seed}:${this.branch}:${label}`)));
+  }
+
+  private outputScript(label: string): { hex: string; type: string } {
+    const program = this.hashHex(`script:${label}`);
+    switch (this.random(`type:${label}`) % 3) {
+      case 0:
+        return { hex: '0014' + program.slice(0, 40), type: 'witness_v0_keyhash' };
+      case 1:
+        return { hex: '5120' + program, type: 'witness_v1_taproot' };
+      default:
+        return { hex: '76a914' + program.slice(0, 40) + '88ac', type: 'pubkeyhash' };
+    }
+  }
+
+  private createVout(n: number, value: number, label: string): any {
+    const { hex, type } = this.outputScript(label);
+    const address = classifyOutputScript(hex, this.network).address;
+    return { value: round8(value), n, scriptPubKey: { asm: '', hex, type, address } };
+  }
+
+  private createTx(input: Utxo, label: string): any {
+    const txid = this.hashHex(`tx:${label}`);
+    const witness = input.scriptPubKey.type !== 'pubkeyhash';
+    const pay = round8(((this.random(`pay:${label}`) % 90) + 5) / 100) * input.value;
+    const change = input.value - pay - FEE;
+    const vout =
+      change > FEE
+        ? [this.createVout(0, pay, `${label}:0`), this.createVout(1, change, `${label}:1`)]
+        : [this.createVout(0, input.value - FEE, `${label}:0`)];
+    const size = 10 + 148 + vout.length * 34;
+    const weight = witness ? size * 3 + size + 108 : size * 4;
+
+    return {
+      txid,
+      hash: witness ? this.hashHex(`wtx:${label}`) : txid,
+      version: 2,
+      size: witness ? size + 108 : size,
+      vsize: Math.ceil(weight / 4),
+      weight,
+      locktime: 0,
+      vin: [
+        {
+          txid: input.txid,
+          vout: input.n,
+          scriptSig: witness
+            ? { asm: '', hex: '' }
+            : { asm: '', hex: '47' + 'aa'.repeat(71) + '21' + '02' + 'bb'.repeat(32) },
+          ...(witness && { txinwitness: ['aa'.repeat(71), '02' + 'bb'.repeat(32)] }),
+          sequence: 4294967293,
+        },
+      ],
+      vout,
+    };
+  }
+
+  private mine(mempoolTxs: any[]): any {
+    const height = this.blocks.length;
+    const prev = this.blocks[height - 1];
+    const txs: any[] = [];
+
+    // Spend deterministic confirmed outputs (not those spent by included mempool txs)
+    const spent = new Set(mempoolTxs.flatMap((tx) => tx.vin.map((vin: any) => `${vin.txid}:${vin.vout}`)));
+    const spendable = [...this.utxos.keys()].filter((key) => !spent.has(key)).sort();
+    for (let i = 0; i < this.txsPerBlock && spendable.length; i++) {
+      const idx = this.random(`pick:${height}:${i}`) % spendable.length;
+      const [key] = spendable.splice(idx, 1);
+      txs.push(this.createTx(this.utxos.get(key!)!, `${height}:${i}`));
+    }
+    txs.unshift(...mempoolTxs);
+
+    const fees = round8(txs.length * FEE);
+    const coinbaseId = this.hashHex(`coinbase:${height}`);
+    const coinbase = {
+      txid: coinbaseId,
+      hash: coinbaseId,
+      version: 2,
+      size: 120,
+      vsize: 120,
+      weight: 480,
+      locktime: 0,
+      vin: [
+        {
+          coinbase: u32le(height).slice(0, 6) + this.hashHex(`extranonce:${height}`).slice(0, 16),
+          sequence: 4294967295,
+        },
+      ],
+      vout: [this.createVout(0, COINBASE_VALUE + fees, `coinbase:${height}`)],
+    };
+    txs.unshift(coinbase);
+
+    const time = this.genesisTime + height * 600;
+    const prevHash = prev?.hash ?? '00'.repeat(32);
+    const merkleroot = computeMerkleRoot(txs.map((tx) => tx.txid));
+    const header = (nonce: number) =>
+      u32le(0x20000000) + reverseHex(prevHash) + reverseHex(merkleroot) + u32le(time) + reverseHex(BITS) + u32le(nonce);
+
+    let nonce = 0;
+    let hash = reverseHex(bytesToHex(sha256d(hexToBytes(header(nonce)))));
+    while (BigInt('0x' + hash) > TARGET) {
+      nonce++;
+      hash = reverseHex(bytesToHex(sha256d(hexToBytes(header(nonce)))));
+    }
+
+    const size = 80 + txs.reduce((acc, tx) => acc + tx.size, 0);
+    const weight = 320 + txs.reduce((acc, tx) => acc + tx.weight, 0);
+    const block = {
+      hash,
+      strippedsize: size,
+      size,
+      weight,
+      height,
+      version: 0x20000000,
+      versionHex: '20000000',
+      merkleroot,
+      tx: txs,
+      time,
+      mediantime: time,
+      nonce,
+      bits: BITS,
+      difficulty: 4.656542373906925e-10,
+      chainwork: ((height + 1) * 2).toString(16).padStart(64, '0'),
+      nTx: txs.length,
+      previousblockhash: prev?.hash,
+    };
+
+    if (prev) prev.nextblockhash = hash;
+    this.blocks.push(block);
+    this.applyToUtxos(block);
+    return block;
+  }
+
+  private applyToUtxos(block: any): void {
+    for (const tx of block.tx) {
+      for (const vin of tx.vin) if (!vin.coinbase) this.utxos.delete(`${vin.txid}:${vin.vout}`);
+      for (const vout of tx.vout) {
+        this.utxos.set(`${tx.txid}:${vout.n}`, {
+          txid: tx.txid,
+          n: vout.n,
+          value: vout.value,
+          scriptPubKey: vout.scriptPubKey,
+        });
+      }
+    }
+  }
+
+  private rebuildUtxos(): void {
+    this.utxos = new Map();
+    for (const block of this.blocks) this.applyToUtxos(block);
+  }
+}
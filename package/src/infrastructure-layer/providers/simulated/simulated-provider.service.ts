@@ -0,0 +1,93 @@
+import { Inject, Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { BusinessConfig, ProvidersConfig } from '../../../config';
+import type { BootstrapConfig } from '../../../config';
+import type { ProviderLayer, ProviderTransport } from '../provider-transport';
+import { SimulatedChain } from './simulated-chain';
+
+/**
+ * Serves every provider call made by the crawler, the blocks queue and the mempool loader from
+ * a SimulatedChain.
+ */
+export function simulatedTransport(chain: SimulatedChain): ProviderTransport {
+  const blocksByHeights = (heights: (string | number)[]) => {
+    const hs = heights.map(Number);
+    const blocks = hs.map((h) => chain.getBlock(h)).filter(Boolean);
+    chain.served(hs.filter((h) => h <= chain.height));
+    return blocks;
+  };
+
+  return {
+    getCurrentBlockHeightFromNetwork: async () => chain.height,
+    getCurrentBlockHeightFromMempool: async () => chain.height,
+    getBasicBlockByHeight: async (height: string | number) => chain.getBlock(Number(height)) ?? null,
+    getManyBlocksStatsByHeights: async (heights: (string | number)[]) =>
+      heights
+        .map((h) => chain.getBlock(Number(h)))
+        .filter(Boolean)
+        .map((b: any) => ({ blockhash: b.hash, total_size: b.size, height: b.height })),
+    getManyBlocksByHeights: async (heights: (string | number)[]) => blocksByHeights(heights),
+    getManyBlocksByHashes: async (hashes: string[]) => {
+      const blocks = hashes.map((hash) => chain.getBlockByHash(hash)).filter(Boolean);
+      chain.served(blocks.map((b: any) => b.height));
+      return blocks;
+    },
+    getManyTransactionsByHashes: async (txids: string[]) => txids.map((txid) => chain.getTransaction(txid) ?? null),
+    getRawMempoolFromAll: async () => [chain.getRawMempool()],
+    getMempoolTransactionsByTxids: async (txids: string[]) =>
+      txids.map((txid) => chain.mempool.find((tx) => tx.txid === txid) ?? null),
+  };
+}
+
+@Injectable()
+export class SimulatedProviderService implements ProviderLayer, OnModuleDestroy {
+  private readonly logger = new Logger(SimulatedProviderService.name);
+  private timer?: ReturnType<typeof setInterval>;
+  private _chain?: SimulatedChain;
+
+  constructor(
+    private readonly providersConfig: ProvidersConfig,
+    private readonly businessConfig: BusinessConfig,
+    @Inject('BootstrapConfig') private readonly bootstrapConfig: BootstrapConfig
+  ) {}
+
+  /** Chain served to the crawler; undefined unless NETWORK_PROVIDER_TYPE=simulated. */
+  get chain(): SimulatedChain | undefined {
+    return this._chain;
+  }
+
+  /** Replaces every call with the simulated chain when NETWORK_PROVIDER_TYPE=simulated. */
+  apply(transport: ProviderTransport): ProviderTransport {
+    if (!this.providersConfig.isSimulated()) return transport;
+
+    const config = this.providersConfig;
+    this._chain =
+      this.bootstrapConfig?.simulatedChain ??
+      new SimulatedChain({
+        seed: config.PROVIDER_SIMULATED_SEED,
+        height: config.PROVIDER_SIMULATED_INITIAL_HEIGHT,
+        txsPerBlock: config.PROVIDER_SIMULATED_TXS_PER_BLOCK,
+        network: this.businessConfig.NETWORK_TYPE,
+      });
+
+    this.logger.log('Simulated network provider enabled', {
+      args: { seed: this._chain.seed, height: this._chain.height },
+    });
+
+    const interval = config.PROVIDER_SIMULATED_BLOCK_INTERVAL_MS;
+    if (interval > 0) {
+      // Offline development: mine the mempool into a block, then refill it
+      this.timer = setInterval(() => {
+        const chain = this._chain!;
+        chain.extend(1);
+        for (let i = 0; i < config.PROVIDER_SIMULATED_TXS_PER_BLOCK; i++) chain.injectMempoolTx();
+      }, interval);
+      this.timer.unref?.();
+    }
+
+    return simulatedTransport(this._chain);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) clearInterval(this.timer);
+  }
+}
@@ -0,0 +1,234 @@
+import { AddressInfo, Server, Socket, createServer } from 'node:net';
+import { ZmqSubscriber, encodeFrame, encodeReady } from '../zmq-subscriber';
+import { ZmqNotificationsService } from '../zmq-notifications.service';
+import type { ProvidersConfig } from '../../../../config';
+import type { MempoolCommandFactoryService } from '../../../../application-layer/services';
+import type { ProviderTransport } from '../../provider-transport';
+
+/** Local stand-in for a bitcoind ZMQ publisher (ZMTP 3.0, NULL mechanism, PUB socket). */
+class PublisherStandIn {
+  private readonly server: Server;
+  private readonly peers = new Map<Socket, Set<string>>();
+  private sequence = 0;
+
+  constructor() {
+    this.server = createServer((socket) => this.accept(socket));
+  }
+
+  get endpoint(): string {
+    return `tcp://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  listen(port = 0): Promise<void> {
+    return new Promise((resolve) => this.server.listen(port, '127.0.0.1', () => resolve()));
+  }
+
+  close(): Promise<void> {
+    this.dropPeers();
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  dropPeers(): void {
+    for (const socket of this.peers.keys()) socket.destroy();
+    this.peers.clear();
+  }
+
+  subscriptions(): string[] {
+    return [...this.peers.values()].flatMap((topics) => [...topics]);
+  }
+
+  publish(topic: string, body: Buffer): void {
+    const seq = Buffer.alloc(4);
+    seq.writeUInt32LE(this.sequence++);
+    for (const [socket, topics] of this.peers) {
+      if (!topics.has(topic)) continue;
+      socket.write(
+        Buffer.concat([encodeFrame(Buffer.from(topic, 'ascii'), 1), encodeFrame(body, 1), encodeFrame(seq)])
+      );
+    }
+  }
+
+  private accept(socket: Socket): void {
+    const greeting = Buffer.alloc(64);
+    greeting[0] = 0xff;
+    greeting[9] = 0x7f;
+    greeting[10] = 3;
+    greeting.write('NULL', 12, 'ascii');
+    greeting[32] = 1; // as-server
+    socket.write(greeting);
+
+    const topics = new Set<string>();
+    this.peers.set(socket, topics);
+    socket.on('close', () => this.peers.delete(socket));
+    socket.on('error', () => undefined);
+
+    let buffer = Buffer.alloc(0);
+    let greeted = false;
+    socket.on('data', (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      if (!greeted) {
+        if (buffer.length < 64) return;
+        buffer = buffer.subarray(64);
+        greeted = true;
+      }
+      while (buffer.length >= 2 && buffer.length >= 2 + buffer[1]!) {
+        const flags = buffer[0]!;
+        const body = buffer.subarray(2, 2 + buffer[1]!);
+        buffer = buffer.subarray(2 + buffer[1]!);
+        if (flags & 0x04) socket.write(encodeReady('PUB'));
+        else if (body[0] === 1) topics.add(body.subarray(1).toString('ascii'));
+      }
+    });
+  }
+}
+
+const waitFor = async (condition: () => boolean, timeoutMs = 3000) => {
+  const started = Date.now();
+  while (!condition()) {
+    if (Date.now() - started > timeoutMs) throw new Error('Timed out');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
+
+describe('ZmqSubscriber', () => {
+  let publisher: PublisherStandIn;
+  let subscriber: ZmqSubscriber | undefined;
+
+  beforeEach(async () => {
+    publisher = new PublisherStandIn();
+    await publisher.listen();
+  });
+
+  afterEach(async () => {
+    subscriber?.close();
+    await publisher.close();
+  });
+
+  it('subscribes and receives multipart notifications, including long frames', async () => {
+    const messages: [string, Buffer[]][] = [];
+    subscriber = new ZmqSubscriber({
+      endpoint: publisher.endpoint,
+      topics: ['hashblock', 'rawtx'],
+      onMessage: (topic, frames) => messages.push([topic, frames]),
+    });
+    subscriber.connect();
+    await waitFor(() => publisher.subscriptions().length === 2);
+
+    const hash = Buffer.alloc(32, 0xab);
+    const tx = Buffer.alloc(300, 0x01);
+    publisher.publish('hashblock', hash);
+    publisher.publish('rawtx', tx);
+    publisher.publish('hashtx', Buffer.alloc(32));
+    await waitFor(() => messages.length === 2);
+
+    expect(messages[0]![0]).toBe('hashblock');
+    expect(messages[0]![1][1]).toEqual(hash);
+    expect(messages[0]![1][2]!.readUInt32LE(0)).toBe(0);
+    expect(messages[1]![0]).toBe('rawtx');
+    expect(messages[1]![1][1]).toEqual(tx);
+  });
+
+  it('reconnects after the publisher dropped the connection', async () => {
+    const statuses: boolean[] = [];
+    subscriber = new ZmqSubscriber({
+      endpoint: publisher.endpoint,
+      topics: ['hashblock'],
+      onMessage: () => undefined,
+      onStatus: (connected) => statuses.push(connected),
+      reconnectMinMs: 20,
+    });
+    subscriber.connect();
+    await waitFor(() => subscriber!.connected);
+
+    publisher.dropPeers();
+    await waitFor(() => statuses.length === 3);
+
+    expect(statuses).toEqual([true, false, true]);
+    expect(subscriber.connected).toBe(true);
+  });
+});
+
+describe('ZmqNotificationsService', () => {
+  let publisher: PublisherStandIn;
+  let service: ZmqNotificationsService;
+  let provider: ProviderTransport;
+  let rpcHeight: jest.Mock;
+  let mempoolCommandFactory: { sync: jest.Mock };
+
+  beforeEach(async () => {
+    publisher = new PublisherStandIn();
+    await publisher.listen();
+
+    let height = 100;
+    rpcHeight = jest.fn(async () => height++);
+    const unserved = async (): Promise<never> => {
+      throw new Error('Not a tip call');
+    };
+    const rpc: ProviderTransport = {
+      getCurrentBlockHeightFromNetwork: rpcHeight,
+      getCurrentBlockHeightFromMempool: unserved,
+      getBasicBlockByHeight: unserved,
+      getManyBlocksStatsByHeights: unserved,
+      getManyBlocksByHeights: unserved,
+      getManyBlocksByHashes: unserved,
+      getManyTransactionsByHashes: unserved,
+      getRawMempoolFromAll: unserved,
+      getMempoolTransactionsByTxids: unserved,
+    };
+    mempoolCommandFactory = { sync: jest.fn(async () => undefined) };
+    const commands: Pick<MempoolCommandFactoryService, 'sync'> = mempoolCommandFactory;
+
+    const config: Pick<
+      ProvidersConfig,
+      'PROVIDER_NETWORK_ZMQ_ENDPOINT' | 'PROVIDER_MEMPOOL_ZMQ_ENDPOINT' | 'isZmqEnabled' | 'isMempoolEnabled'
+    > = {
+      PROVIDER_NETWORK_ZMQ_ENDPOINT: publisher.endpoint,
+      isZmqEnabled: () => true,
+      isMempoolEnabled: () => true,
+    };
+    service = new ZmqNotificationsService(config as ProvidersConfig, commands as MempoolCommandFactoryService);
+    service.onModuleInit();
+    provider = service.apply(rpc);
+    await waitFor(() => publisher.subscriptions().length === 2);
+  });
+
+  afterEach(async () => {
+    service.onModuleDestroy();
+    await publisher.close();
+  });
+
+  it('answers tip polls from the cache until a new block is announced', async () => {
+    expect(await provider.getCurrentBlockHeightFromNetwork()).toBe(100);
+    expect(await provider.getCurrentBlockHeightFromNetwork()).toBe(100);
+    expect(rpcHeight).toHaveBeenCalledTimes(1);
+
+    publisher.publish('hashblock', Buffer.alloc(32, 1));
+    await waitFor(() => (service as any).tipHeight === undefined);
+
+    expect(await provider.getCurrentBlockHeightFromNetwork()).toBe(101);
+    expect(rpcHeight).toHaveBeenCalledTimes(2);
+  });
+
+  it('falls back to polling RPC when the socket is lost', async () => {
+    await provider.getCurrentBlockHeightFromNetwork();
+    await publisher.close();
+    await waitFor(() => !service.isConnected);
+
+    await provider.getCurrentBlockHeightFromNetwork();
+    await provider.getCurrentBlockHeightFromNetwork();
+    expect(rpcHeight).toHaveBeenCalledTimes(3);
+  });
+
+  it('triggers one mempool sync for a burst of transactions once the mempool is initialised', async () => {
+    publisher.publish('rawtx', Buffer.alloc(60));
+    await new Promise((resolve) => setTimeout(resolve, 700));
+    expect(mempoolCommandFactory.sync).not.toHaveBeenCalled();
+
+    service.startMempool();
+    for (let i = 0; i < 3; i++) publisher.publish('rawtx', Buffer.alloc(60, i));
+    await waitFor(() => mempoolCommandFactory.sync.mock.calls.length > 0);
+
+    expect(mempoolCommandFactory.sync).toHaveBeenCalledTimes(1);
+    expect(mempoolCommandFactory.sync.mock.calls[0]![0]).toHaveProperty('requestId');
+  });
+});
@@ -0,0 +1,2 @@
+export * from './zmq-subscriber';
+export * from './zmq-notifications.service';
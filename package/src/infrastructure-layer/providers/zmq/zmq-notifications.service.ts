@@ -0,0 +1,145 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ProvidersConfig } from '../../../config';
+import { MempoolCommandFactoryService } from '../../../application-layer/services';
+import type { ProviderLayer, ProviderTransport } from '../provider-transport';
+import { ZmqSubscriber } from './zmq-subscriber';
+
+const MEMPOOL_SYNC_DEBOUNCE_MS = 500;
+
+/**
+ * bitcoind ZMQ notifications for the real-time mode.
+ *
+ * `hashblock`: while the socket is up, the blocks queue polls the tip height on a short
+ * interval (PROVIDER_NETWORK_ZMQ_POLL_INTERVAL_MS) and this service answers from a cached
+ * height, asking RPC only after a notification; a new tip is therefore picked up right away
+ * without extra RPC load. When the socket is down every poll goes to RPC (plain polling).
+ *
+ * `rawtx`: new mempool transactions trigger a (debounced) SyncMempoolCommand instead of
+ * waiting for the next mempool loader round.
+ */
+@Injectable()
+export class ZmqNotificationsService implements ProviderLayer, OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ZmqNotificationsService.name);
+  private readonly subscribers: ZmqSubscriber[] = [];
+  private readonly sequences = new Map<string, number>();
+  private blocksSubscriber?: ZmqSubscriber;
+  private tipHeight?: number;
+  private mempoolReady = false;
+  private pendingTxs = 0;
+  private syncTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    private readonly providersConfig: ProvidersConfig,
+    private readonly mempoolCommandFactory: MempoolCommandFactoryService
+  ) {}
+
+  /** True while block notifications arrive, i.e. tip polling is served without RPC. */
+  get isConnected(): boolean {
+    return !!this.blocksSubscriber?.connected;
+  }
+
+  onModuleInit() {
+    const config = this.providersConfig;
+    if (!config.isZmqEnabled()) return;
+
+    const blocksEndpoint = config.PROVIDER_NETWORK_ZMQ_ENDPOINT!;
+    const mempoolEndpoint = config.isMempoolEnabled()
+      ? config.PROVIDER_MEMPOOL_ZMQ_ENDPOINT || blocksEndpoint
+      : undefined;
+
+    this.blocksSubscriber = this.subscribe(
+      blocksEndpoint,
+      mempoolEndpoint === blocksEndpoint ? ['hashblock', 'rawtx'] : ['hashblock']
+    );
+    if (mempoolEndpoint && mempoolEndpoint !== blocksEndpoint) {
+      this.subscribe(mempoolEndpoint, ['rawtx']);
+    }
+  }
+
+  /** Answers the tip calls of `transport` from the cached height while the block socket is up. */
+  apply(transport: ProviderTransport): ProviderTransport {
+    if (!this.providersConfig.isZmqEnabled()) return transport;
+
+    return {
+      ...transport,
+      getCurrentBlockHeightFromNetwork: async () => {
+        if (this.isConnected && this.tipHeight !== undefined) return this.tipHeight;
+        const height = await transport.getCurrentBlockHeightFromNetwork();
+        if (this.isConnected) this.tipHeight = height;
+        return height;
+      },
+    };
+  }
+
+  onModuleDestroy() {
+    if (this.syncTimer) clearTimeout(this.syncTimer);
+    this.subscribers.forEach((s) => s.close());
+  }
+
+  /** Mempool syncs are only triggered once the mempool model was initialised. */
+  public startMempool(): void {
+    this.mempoolReady = true;
+  }
+
+  private subscribe(endpoint: string, topics: string[]): ZmqSubscriber {
+    const subscriber = new ZmqSubscriber({
+      endpoint,
+      topics,
+      onMessage: (topic, frames) => this.onMessage(endpoint, topic, frames),
+      onStatus: (connected, error) => {
+        // A notification may have been missed while (re)connecting
+        this.tipHeight = undefined;
+        this.sequences.clear();
+        if (connected) {
+          this.logger.log('ZMQ subscription connected', { args: { endpoint, topics } });
+        } else {
+          this.logger.warn('ZMQ subscription lost, falling back to polling', {
+            args: { endpoint, message: error?.message },
+          });
+        }
+      },
+    });
+    subscriber.connect();
+    this.subscribers.push(subscriber);
+    return subscriber;
+  }
+
+  private onMessage(endpoint: string, topic: string, frames: Buffer[]): void {
+    const sequence = frames[2]?.length === 4 ? frames[2].readUInt32LE(0) : undefined;
+    const key = `${endpoint}/${topic}`;
+    const previous = this.sequences.get(key);
+    if (sequence !== undefined) this.sequences.set(key, sequence);
+    if (previous !== undefined && sequence !== undefined && sequence !== previous + 1) {
+      this.logger.verbose('ZMQ notifications skipped', { args: { topic, missed: sequence - previous - 1 } });
+    }
+
+    if (topic === 'hashblock') {
+      this.tipHeight = undefined;
+      this.logger.verbose('New block notification', {
+        args: { hash: frames[1] ? Buffer.from(frames[1]).toString('hex') : undefined },
+      });
+    } else if (topic === 'rawtx') {
+      this.pendingTxs++;
+      this.scheduleMempoolSync();
+    }
+  }
+
+  private scheduleMempoolSync(): void {
+    if (!this.mempoolReady || this.syncTimer) return;
+
+    this.syncTimer = setTimeout(() => {
+      this.syncTimer = undefined;
+      const txs = this.pendingTxs;
+      this.pendingTxs = 0;
+
+      this.logger.verbose('Mempool sync triggered by ZMQ', { args: { txs } });
+      this.mempoolCommandFactory
+        .sync({ requestId: uuidv4() })
+        .catch((error) =>
+          this.logger.warn('ZMQ triggered mempool sync failed', { args: { message: (error as any)?.message } })
+        );
+    }, MEMPOOL_SYNC_DEBOUNCE_MS);
+    this.syncTimer.unref?.();
+  }
+}
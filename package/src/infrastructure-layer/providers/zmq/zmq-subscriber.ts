@@ -0,0 +1,178 @@
+import { createConnection } from 'node:net';
+import type { Socket } from 'node:net';
+
+export interface ZmqSubscriberOptions {
+  /** `tcp://host:port`, as configured with bitcoind `-zmqpub*`. */
+  endpoint: string;
+  topics: string[];
+  /** Multipart message: topic, body and (bitcoind) a 4-byte little-endian sequence number. */
+  onMessage: (topic: string, frames: Buffer[]) => void;
+  /** Connected after the handshake, disconnected when the socket closed (a reconnect follows). */
+  onStatus?: (connected: boolean, error?: Error) => void;
+  reconnectMinMs?: number;
+  reconnectMaxMs?: number;
+}
+
+const FLAG_MORE = 0x01;
+const FLAG_LONG = 0x02;
+const FLAG_COMMAND = 0x04;
+const GREETING_SIZE = 64;
+
+/** ZMTP 3.0 greeting with the NULL security mechanism, as a client. */
+function greeting(): Buffer {
+  const out = Buffer.alloc(GREETING_SIZE);
+  out[0] = 0xff;
+  out[9] = 0x7f;
+  out[10] = 3; // major
+  out[11] = 0; // minor: 3.0 peers take subscriptions as messages
+  out.write('NULL', 12, 'ascii');
+  return out;
+}
+
+export function encodeFrame(body: Buffer, flags = 0): Buffer {
+  if (body.length <= 255) return Buffer.concat([Buffer.from([flags, body.length]), body]);
+  const head = Buffer.alloc(9);
+  head[0] = flags | FLAG_LONG;
+  head.writeBigUInt64BE(BigInt(body.length), 1);
+  return Buffer.concat([head, body]);
+}
+
+/** READY command announcing the socket type (ZMTP 3.0 metadata). */
+export function encodeReady(socketType: string): Buffer {
+  const name = Buffer.from('Socket-Type', 'ascii');
+  const value = Buffer.from(socketType, 'ascii');
+  const valueSize = Buffer.alloc(4);
+  valueSize.writeUInt32BE(value.length);
+  const body = Buffer.concat([
+    Buffer.from([5]),
+    Buffer.from('READY', 'ascii'),
+    Buffer.from([name.length]),
+    name,
+    valueSize,
+    value,
+  ]);
+  return encodeFrame(body, FLAG_COMMAND);
+}
+
+/**
+ * Minimal ZeroMQ SUB socket (ZMTP 3.0 over TCP, NULL mechanism) — enough for bitcoind
+ * notifications without a native zeromq binding. Reconnects with exponential backoff
+ * until `close()`.
+ */
+export class ZmqSubscriber {
+  private socket?: Socket;
+  private buffer = Buffer.alloc(0);
+  private greeted = false;
+  private ready = false;
+  private parts: Buffer[] = [];
+  private closed = false;
+  private retryMs: number;
+  private retryTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(private readonly options: ZmqSubscriberOptions) {
+    this.retryMs = options.reconnectMinMs ?? 500;
+  }
+
+  get connected(): boolean {
+    return this.ready;
+  }
+
+  connect(): void {
+    const url = /^tcp:\/\/(.+):(\d+)$/.exec(this.options.endpoint);
+    if (!url) throw new Error(`Unsupported ZMQ endpoint: ${this.options.endpoint} (expected tcp://host:port)`);
+
+    this.closed = false;
+    const host = url[1]!.replace(/^\[|\]$/g, '');
+    const socket = createConnection({ host, port: Number(url[2]) });
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+    this.greeted = false;
+    this.ready = false;
+    this.parts = [];
+
+    socket.setKeepAlive(true, 10000);
+    // Late events of a replaced socket are ignored
+    const current = () => this.socket === socket;
+    socket.on('connect', () => socket.write(greeting()));
+    socket.on('data', (chunk: Buffer) => current() && this.onData(chunk));
+    socket.on('error', (error) => current() && this.onClose(error));
+    socket.on('close', () => current() && this.onClose());
+  }
+
+  close(): void {
+    this.closed = true;
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.socket?.destroy();
+    this.socket = undefined;
+  }
+
+  private onClose(error?: Error): void {
+    const socket = this.socket;
+    if (!socket) return;
+    this.socket = undefined;
+    socket.destroy();
+
+    const wasReady = this.ready;
+    this.ready = false;
+    if (wasReady || error) this.options.onStatus?.(false, error);
+    if (this.closed) return;
+
+    this.retryTimer = setTimeout(() => this.connect(), this.retryMs);
+    this.retryTimer.unref?.();
+    this.retryMs = Math.min(this.retryMs * 2, this.options.reconnectMaxMs ?? 30000);
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    if (!this.greeted) {
+      if (this.buffer.length < GREETING_SIZE) return;
+      if (this.buffer[0] !== 0xff || this.buffer[9] !== 0x7f || this.buffer[10]! < 3) {
+        this.onClose(new Error('Peer is not a ZMTP 3 socket'));
+        return;
+      }
+      this.buffer = this.buffer.subarray(GREETING_SIZE);
+      this.greeted = true;
+      this.socket!.write(encodeReady('SUB'));
+    }
+
+    for (;;) {
+      if (!this.socket || this.buffer.length < 2) return;
+      const flags = this.buffer[0]!;
+      const long = (flags & FLAG_LONG) !== 0;
+      const headSize = long ? 9 : 2;
+      if (this.buffer.length < headSize) return;
+      const size = long ? Number(this.buffer.readBigUInt64BE(1)) : this.buffer[1]!;
+      if (this.buffer.length < headSize + size) return;
+
+      const body = this.buffer.subarray(headSize, headSize + size);
+      this.buffer = this.buffer.subarray(headSize + size);
+
+      if (flags & FLAG_COMMAND) this.onCommand(body);
+      else this.onFrame(Buffer.from(body), (flags & FLAG_MORE) !== 0);
+    }
+  }
+
+  private onCommand(body: Buffer): void {
+    const name = body.subarray(1, 1 + body[0]!).toString('ascii');
+    if (name === 'READY' && !this.ready) {
+      this.ready = true;
+      this.retryMs = this.options.reconnectMinMs ?? 500;
+      for (const topic of this.options.topics) {
+        this.socket!.write(encodeFrame(Buffer.concat([Buffer.from([1]), Buffer.from(topic, 'ascii')])));
+      }
+      this.options.onStatus?.(true);
+    } else if (name === 'ERROR') {
+      this.onClose(new Error(`ZMQ peer error: ${body.subarray(7).toString('ascii')}`));
+    }
+  }
+
+  private onFrame(frame: Buffer, more: boolean): void {
+    this.parts.push(frame);
+    if (more) return;
+
+    const frames = this.parts;
+    this.parts = [];
+    this.options.onMessage(frames[0]!.toString('ascii'), frames);
+  }
+}
@@ -1,3 +1,4 @@
+import { readFile } from 'node:fs/promises';
 import { Global, Module, DynamicModule, Provider } from '@nestjs/common';
 import { transformAndValidate } from 'class-transformer-validator';
 import { CqrsTransportModule } from '@easylayer/common/cqrs-transport';
@@ -13,12 +14,35 @@ import {
 } from '../application-layer/services';
 import {
   NetworkModelFactoryService,
+  ChainIdentityModelFactoryService,
+  ChainIdentityModel,
+  ReorgHistoryModelFactoryService,
+  ReorgHistoryModel,
   MempoolModelFactoryService,
   MempoolReadService,
   NetworkReadService,
+  ExecutionContextFactoryService,
+  ModelBackfillService,
+  PrevoutResolverService,
+  ChainValidationService,
+  ChainRepairService,
+  DeepReorgGuardService,
   NETWORK_AGGREGATE_ID,
   MEMPOOL_AGGREGATE_ID,
+  CHAIN_IDENTITY_AGGREGATE_ID,
+  REORG_HISTORY_AGGREGATE_ID,
 } from '../domain-layer/services';
+import {
+  SimulatedProviderService,
+  ProviderPoolService,
+  EsploraProviderService,
+  ProviderCompositionService,
+  toRpcConnections,
+} from '../infrastructure-layer/providers';
+import type { RpcCookieReader } from '../infrastructure-layer/providers';
+import { FileProviderService } from '../infrastructure-layer/providers/file';
+import { BlockCacheService } from '../infrastructure-layer/providers/cache';
+import { ZmqNotificationsService } from '../infrastructure-layer/providers/zmq';
 import {
   AppConfig,
   BusinessConfig,
@@ -27,10 +51,12 @@ import {
   ProvidersConfig,
   BootstrapConfig,
 } from '../config';
-import { TransportConfig } from './config';
+import { TransportConfig, readSecretFiles } from './config';
 import { ModelFactoryService, normalizeModelsBTC, ModelInput } from '../domain-layer/framework';
 import { ConsolePromptService } from './console-prompt.service';
 
+const readCookie: RpcCookieReader = (path) => readFile(path, 'utf8');
+
 export interface AppModuleOptions {
   appName: string;
   Models?: ModelInput[];
@@ -47,8 +73,8 @@ export class AppModule {
     Providers = [],
     config = {},
   }: AppModuleOptions): Promise<DynamicModule> {
-    // Read from process.env (Node environment)
-    const env = process.env;
+    // Read from process.env (Node environment), secrets may come from <NAME>_FILE files
+    const env = readSecretFiles(process.env);
 
     const eventstoreConfig = await transformAndValidate(EventStoreConfig, env, {
       validator: { whitelist: true },
@@ -65,6 +91,7 @@ export class AppModule {
     const providersConfig = await transformAndValidate(ProvidersConfig, env, {
       validator: { whitelist: true },
     });
+    providersConfig.validateNetwork();
     const transportConfig = await transformAndValidate(TransportConfig, env, {
       validator: { whitelist: true },
     });
@@ -76,23 +103,38 @@ export class AppModule {
     // This models will not be used, only for run event store
     const networkModel = new Network({ aggregateId: NETWORK_AGGREGATE_ID, maxSize: 0, blockHeight: -1 });
     const mempoolModel = new Mempool({ aggregateId: MEMPOOL_AGGREGATE_ID, blockHeight: -1 });
+    const chainIdentityModel = new ChainIdentityModel();
+    const reorgHistoryModel = new ReorgHistoryModel();
 
     const NormalizedModels = normalizeModelsBTC(Models);
     const userModels = NormalizedModels.map((ModelCtr) => new ModelCtr());
 
-    const networkConnections: any = providersConfig.PROVIDER_NETWORK_RPC_URLS?.map((item) => ({
-      baseUrl: item,
-    }));
+    // RPC connections never carry credentials in their URLs, see toRpcConnections
+    const networkConnections: any =
+      providersConfig.getBlockchainProviderType() === 'p2p'
+        ? providersConfig.getP2PConnections()
+        : toRpcConnections(providersConfig.getNetworkRpcEndpoints()).map((connection) => ({
+            ...connection,
+            ...(providersConfig.PROVIDER_NETWORK_ZMQ_ENDPOINT && {
+              zmqEndpoint: providersConfig.PROVIDER_NETWORK_ZMQ_ENDPOINT,
+            }),
+          }));
 
-    const mempoolConnections: any = providersConfig.PROVIDER_MEMPOOL_RPC_URLS?.map((item) => ({
-      baseUrl: item,
-    }));
+    const mempoolConnections: any = toRpcConnections(providersConfig.getMempoolRpcEndpoints());
 
     return {
       module: AppModule,
       controllers: [],
       imports: [
-        CqrsTransportModule.forRoot({ isGlobal: true, systemAggregates: [NETWORK_AGGREGATE_ID, MEMPOOL_AGGREGATE_ID] }),
+        CqrsTransportModule.forRoot({
+          isGlobal: true,
+          systemAggregates: [
+            NETWORK_AGGREGATE_ID,
+            MEMPOOL_AGGREGATE_ID,
+            CHAIN_IDENTITY_AGGREGATE_ID,
+            REORG_HISTORY_AGGREGATE_ID,
+          ],
+        }),
         NetworkTransportModule.forRoot({
           isGlobal: true,
           transports: transportConfig.getEnabledTransports(),
@@ -103,7 +145,7 @@ export class AppModule {
           network: businessConfig.getNetworkConfig(),
           rateLimits: providersConfig.getRateLimits(),
           networkProviders: {
-            type: providersConfig.NETWORK_PROVIDER_TYPE,
+            type: providersConfig.getBlockchainProviderType(),
             connections: networkConnections,
           },
           mempoolProviders: {
@@ -114,7 +156,7 @@ export class AppModule {
         EventStoreModule.forRootAsync({
           isGlobal: true,
           name: `${appName}-eventstore`,
-          aggregates: [...userModels, networkModel, mempoolModel],
+          aggregates: [...userModels, networkModel, mempoolModel, chainIdentityModel, reorgHistoryModel],
           logging: eventstoreConfig.isLogging(),
           type: eventstoreConfig.EVENTSTORE_DB_TYPE as any,
           database: eventstoreConfig.EVENTSTORE_DB_NAME,
@@ -159,7 +201,10 @@ export class AppModule {
           queueLoaderRequestBlocksBatchSize,
           queueIteratorBlocksBatchSize,
           maxQueueSize,
-          blockTimeMs: businessConfig.NETWORK_TARGET_BLOCK_TIME,
+          // With ZMQ the tip is polled often but answered from notifications (ZmqNotificationsService)
+          blockTimeMs: providersConfig.isZmqEnabled()
+            ? providersConfig.PROVIDER_NETWORK_ZMQ_POLL_INTERVAL_MS
+            : businessConfig.NETWORK_TARGET_BLOCK_TIME,
         }),
       ],
       providers: [
@@ -170,8 +215,10 @@ export class AppModule {
         { provide: ProvidersConfig, useValue: providersConfig },
         { provide: TransportConfig, useValue: transportConfig },
         { provide: 'BootstrapConfig', useValue: config },
+        { provide: 'UserProviders', useValue: Providers },
         { provide: 'FrameworkModelsConstructors', useValue: NormalizedModels },
         { provide: 'ConsolePromptService', useClass: ConsolePromptService },
+        { provide: 'RpcCookieReader', useValue: readCookie },
         {
           provide: ModelFactoryService,
           useFactory: (eventStoreService: EventStoreReadService) =>
@@ -182,17 +229,37 @@ export class AppModule {
         ArithmeticService,
         NetworkCommandFactoryService,
         NetworkModelFactoryService,
+        ChainIdentityModelFactoryService,
+        ReorgHistoryModelFactoryService,
         ReadStateExceptionHandlerService,
         MempoolCommandFactoryService,
         MempoolModelFactoryService,
         MempoolReadService,
         NetworkReadService,
+        ExecutionContextFactoryService,
+        ModelBackfillService,
+        PrevoutResolverService,
+        ChainValidationService,
+        ChainRepairService,
+        DeepReorgGuardService,
+        SimulatedProviderService,
+        ProviderPoolService,
+        EsploraProviderService,
+        ProviderCompositionService,
+        FileProviderService,
+        { provide: 'FileProvider', useExisting: FileProviderService },
+        BlockCacheService,
+        { provide: 'BlockCache', useExisting: BlockCacheService },
+        ZmqNotificationsService,
+        { provide: 'ZmqNotifications', useExisting: ZmqNotificationsService },
         ...Providers,
       ],
       exports: [
         AppService,
         NetworkCommandFactoryService,
         NetworkModelFactoryService,
+        ChainIdentityModelFactoryService,
+        ReorgHistoryModelFactoryService,
         ReadStateExceptionHandlerService,
         MempoolCommandFactoryService,
         MempoolModelFactoryService,
@@ -204,11 +271,27 @@ export class AppModule {
         'FrameworkModelsConstructors',
         'BootstrapConfig',
         'ConsolePromptService',
+        'RpcCookieReader',
         ModelFactoryService,
         BlocksQueueModule,
         EventStoreModule,
         MempoolReadService,
         NetworkReadService,
+        ExecutionContextFactoryService,
+        ModelBackfillService,
+        PrevoutResolverService,
+        ChainValidationService,
+        ChainRepairService,
+        DeepReorgGuardService,
+        SimulatedProviderService,
+        ProviderPoolService,
+        EsploraProviderService,
+        FileProviderService,
+        'FileProvider',
+        BlockCacheService,
+        'BlockCache',
+        ZmqNotificationsService,
+        'ZmqNotifications',
         ...Providers,
       ],
     };
@@ -0,0 +1,36 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { readSecretFiles } from '../secret-files';
+
+describe('readSecretFiles', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'secret-files-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('sets <NAME> from <NAME>_FILE unless it is set directly', async () => {
+    await writeFile(join(dir, 'token'), 's3cret\n');
+    const env = readSecretFiles({
+      PROVIDER_NETWORK_RPC_TOKENS_FILE: join(dir, 'token'),
+      EVENTSTORE_DB_PASSWORD: 'direct',
+      EVENTSTORE_DB_PASSWORD_FILE: join(dir, 'missing'),
+      LOGS_FILE: join(dir, 'app.log'),
+    });
+
+    expect(env.PROVIDER_NETWORK_RPC_TOKENS).toBe('s3cret');
+    expect(env.EVENTSTORE_DB_PASSWORD).toBe('direct');
+    expect(env.LOGS).toBeUndefined();
+  });
+
+  it('fails with the setting name when the file cannot be read', () => {
+    expect(() => readSecretFiles({ PROVIDER_NETWORK_RPC_PASSWORDS_FILE: join(dir, 'missing') })).toThrow(
+      /Failed to read PROVIDER_NETWORK_RPC_PASSWORDS_FILE/
+    );
+  });
+});
@@ -1 +1,2 @@
 export * from './transport.config';
+export * from './secret-files';
@@ -0,0 +1,26 @@
+import { readFileSync } from 'node:fs';
+
+/** Settings that end in `_FILE` themselves and are not a pointer to a secret. */
+const FILE_SETTINGS = new Set(['LOGS_FILE']);
+
+/**
+ * Docker/Kubernetes secrets convention: `<NAME>_FILE=/run/secrets/x` sets `<NAME>` to the
+ * trimmed content of that file. A value set directly for `<NAME>` wins over the file.
+ */
+export function readSecretFiles(env: Record<string, string | undefined>): Record<string, string | undefined> {
+  const resolved = { ...env };
+
+  for (const [key, path] of Object.entries(env)) {
+    if (!key.endsWith('_FILE') || FILE_SETTINGS.has(key) || !path) continue;
+    const name = key.slice(0, -'_FILE'.length);
+    if (!name || resolved[name]) continue;
+
+    try {
+      resolved[name] = readFileSync(path, 'utf8').trim();
+    } catch (error) {
+      throw new Error(`Failed to read ${key}: ${(error as any)?.message}`);
+    }
+  }
+
+  return resolved;
+}
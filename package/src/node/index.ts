@@ -1,2 +1,8 @@
 export { bootstrap } from './bootstrap';
+export { createModelTestBed } from '../utils/testing-helpers';
+export type { ModelTestBed, ModelTestBedOptions, CapturedModelEvent } from '../utils/testing-helpers';
 export * from '../domain-layer/framework';
+export * from '../domain-layer/queries';
+export * from '../domain-layer/commands';
+export { SimulatedChain } from '../infrastructure-layer/providers';
+export type { SimulatedChainOptions, SimulatedChainStep } from '../infrastructure-layer/providers';
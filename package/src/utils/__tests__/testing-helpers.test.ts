@@ -0,0 +1,75 @@
+import type { DeclarativeModel } from '../../domain-layer/framework';
+import { createModelTestBed } from '../testing-helpers';
+
+const WATCHED = 'bc1qwatched';
+
+const block = (height: number, txid: string, vout: any[], vin: any[] = [{ coinbase: '00' }]) => ({
+  height,
+  hash: `h${height}`,
+  tx: [{ txid, vin, vout }],
+});
+
+const deposit = (n: number, value: number, address = WATCHED) => ({ n, value, scriptPubKey: { hex: '', address } });
+
+const Balances: DeclarativeModel<{ balance: number; deposits: number }> = {
+  modelId: 'balances',
+  state: () => ({ balance: 0, deposits: 0 }),
+  sources: {
+    vout: (ctx) => (ctx.vout.scriptPubKey.address === WATCHED ? ctx.vout.value : undefined),
+    vin: (ctx) => (ctx.prevout?.address === WATCHED ? -ctx.prevout.value : undefined),
+    block: (ctx) => {
+      const deltas = [...ctx.locals.vout, ...ctx.locals.vin];
+      if (deltas.length) ctx.applyEvent('BalanceChanged', ctx.block.height, { deltas });
+    },
+  },
+  reducers: {
+    BalanceChanged: (state, e) => {
+      for (const delta of e.payload.deltas) {
+        state.balance += delta;
+        if (delta > 0) state.deposits += 1;
+      }
+    },
+  },
+  selectors: {
+    balance: (state) => state.balance,
+  },
+};
+
+const blocks = [
+  block(0, 'a', [deposit(0, 5)]),
+  block(1, 'b', [deposit(0, 3), deposit(1, 7, 'other')]),
+  block(2, 'c', [deposit(0, 1, 'other')], [{ txid: 'a', vout: 0 }]),
+];
+
+describe('createModelTestBed', () => {
+  it('runs blocks in memory and captures events', async () => {
+    const bed = createModelTestBed(Balances);
+
+    const events = await bed.processBlocks(blocks);
+
+    expect(events.map((e) => [e.type, e.blockHeight])).toEqual([
+      ['BalanceChanged', 0],
+      ['BalanceChanged', 1],
+      ['BalanceChanged', 2],
+    ]);
+    // block 2 spends the output of block 0 (resolved from the processed fixtures)
+    expect(events[2]!.payload).toEqual({ deltas: [-5] });
+    expect(bed.state).toEqual({ balance: 3, deposits: 2 });
+    expect(bed.select('balance')).toBe(3);
+    expect(bed.height).toBe(2);
+  });
+
+  it('rebuilds state on rollback and continues on the new branch', async () => {
+    const bed = createModelTestBed(Balances);
+    await bed.processBlocks(blocks);
+
+    await bed.rollback(0);
+
+    expect(bed.events).toHaveLength(1);
+    expect(bed.state).toEqual({ balance: 5, deposits: 1 });
+    expect(bed.height).toBe(0);
+
+    await bed.processBlock(block(1, 'b2', [deposit(0, 10)]));
+    expect(bed.select('balance')).toBe(15);
+  });
+});
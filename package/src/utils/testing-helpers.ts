@@ -2,6 +2,25 @@ import type { Observable } from 'rxjs';
 import { filter } from 'rxjs/operators';
 import type { INestApplicationContext } from '@nestjs/common';
 import { EventBus } from '@easylayer/common/cqrs';
+import type { NetworkConfig } from '@easylayer/bitcoin';
+import {
+  ModelsAccessor,
+  ModelServices,
+  normalizeModelsBTC,
+  getDependencyId,
+  getModelDependencyIds,
+  getModelIdByCtor,
+  getModelStartHeight,
+} from '../domain-layer/framework';
+import type {
+  Model,
+  ModelInput,
+  ModelDependency,
+  NormalizedModelCtor,
+  Prevout,
+  PrevoutLookup,
+  ServiceToken,
+} from '../domain-layer/framework';
 
 export interface EventWaiter<T = any> {
   eventType: new (...args: any[]) => T;
@@ -65,3 +84,225 @@ export function setupTestEventSubscribers(app: INestApplicationContext, testing:
   }
   return promises;
 }
+
+/** Event captured by the test bed: what the model passed to applyEvent(). */
+export interface CapturedModelEvent {
+  type: string;
+  blockHeight: number;
+  payload: any;
+}
+
+export interface ModelTestBedOptions {
+  /** Network of the fixtures (addresses in ctx.script, ctx.networkConfig); default: mainnet. */
+  networkConfig?: Partial<NetworkConfig>;
+  /** Providers for ctx.services.get(Token). */
+  services?: Array<[ServiceToken, any]>;
+  /** Value of ctx.network / ctx.mempool in processBlock (default: throws on access). */
+  network?: any;
+  mempool?: any;
+}
+
+export interface ModelTestBed<T extends Model = Model> {
+  /** Current instance of the model under test (replaced by rollback()). */
+  readonly model: T;
+  /** State of a declarative model (or `model.state` of a class-based one). */
+  readonly state: any;
+  /** Events applied by the model under test, in order; rollback() drops those above the height. */
+  readonly events: CapturedModelEvent[];
+  /** Height of the last processed fixture block (-1 before the first one). */
+  readonly height: number;
+  processBlock(block: any): Promise<CapturedModelEvent[]>;
+  processBlocks(blocks: any[]): Promise<CapturedModelEvent[]>;
+  /** Runs mempoolTick() with ctx.mempool set to the snapshot ({ tx: [...] } or a mempool stub). */
+  mempoolTick(mempool: any): Promise<CapturedModelEvent[]>;
+  /** Simulates a reorg rollback: the models are rebuilt from their events up to `height`. */
+  rollback(height: number): Promise<void>;
+  /** Calls a selector (declarative) or a public method (class-based) of the model. */
+  select<R = any>(name: string, ...args: any[]): R;
+  /** Events applied by a dependency declared in dependsOn. */
+  eventsOf(dep: ModelDependency): CapturedModelEvent[];
+}
+
+function unavailable(name: string): any {
+  return new Proxy(
+    {},
+    {
+      get(_target, prop) {
+        if (prop === 'then') return undefined;
+        throw new Error(`ctx.${name}.${String(prop)} is not available in the model test bed; pass options.${name}`);
+      },
+    }
+  );
+}
+
+/** Model inputs declared in dependsOn, transitively, followed by the model itself. */
+function collectInputs(input: ModelInput): ModelInput[] {
+  const seen = new Map<string, ModelInput>();
+  const visit = (item: ModelInput) => {
+    const id = getDependencyId(item as ModelDependency);
+    if (seen.has(id)) return;
+    for (const dep of ((item as any).dependsOn ?? []) as ModelInput[]) visit(dep);
+    seen.set(id, item);
+  };
+  visit(input);
+  return [...seen.values()];
+}
+
+/**
+ * Runs a model (class-based or declarative) against fixture blocks in memory: no NestJS,
+ * no EventStore, no provider. Dependencies from `dependsOn` are processed before it, outputs of
+ * processed fixtures serve as ctx.prevouts, and rollback() rebuilds the models from their
+ * captured events the same way a reorg restores them from the EventStore.
+ *
+ *   const bed = createModelTestBed(BalanceModel, { networkConfig: { network: 'regtest' } });
+ *   await bed.processBlocks(blocks);
+ *   expect(bed.events.map((e) => e.type)).toEqual(['Deposit']);
+ *   await bed.rollback(1);
+ *   expect(bed.select('balanceOf', address)).toBe(0);
+ */
+export function createModelTestBed<T extends Model = Model>(
+  input: ModelInput<T>,
+  options: ModelTestBedOptions = {}
+): ModelTestBed<T> {
+  const ctors = normalizeModelsBTC(collectInputs(input)) as NormalizedModelCtor[];
+  const targetId = getDependencyId(input as ModelDependency);
+  const networkConfig = { network: 'mainnet', ...options.networkConfig } as NetworkConfig;
+  const registry = new Map<ServiceToken, any>(options.services ?? []);
+  const services = new ModelServices((token) => registry.get(token), {
+    nodeProvider: unavailable('services.nodeProvider'),
+    userModelService: unavailable('services.userModelService'),
+  });
+
+  const captured = new Map<string, CapturedModelEvent[]>();
+  const outputs = new Map<string, Prevout & { height: number }>();
+  let height = -1;
+
+  const instantiate = (Ctor: NormalizedModelCtor, replay: CapturedModelEvent[]): Model => {
+    const model = new Ctor();
+    // Same starting point as ModelFactoryService: the first processed block is the start height
+    (model as any)._lastBlockHeight = (getModelStartHeight(Ctor) ?? 0) - 1;
+    for (const e of replay) model.applyEvent(e.type, e.blockHeight, e.payload);
+
+    // Replayed events stay captured, as they would stay in the EventStore
+    const events = [...replay];
+    captured.set(getModelIdByCtor(Ctor), events);
+    const applyEvent = model.applyEvent.bind(model);
+    (model as any).applyEvent = (type: string, blockHeight: number, payload?: any) => {
+      const result = applyEvent(type, blockHeight, payload);
+      events.push({ type, blockHeight, payload });
+      return result;
+    };
+    return model;
+  };
+
+  let instances = new Map<string, Model>(ctors.map((Ctor) => [getModelIdByCtor(Ctor), instantiate(Ctor, [])]));
+
+  const prevouts: PrevoutLookup = {
+    get(vin) {
+      if (!vin || vin.coinbase || vin.txid === undefined || vin.vout === undefined) return undefined;
+      return (vin as any).prevout ?? outputs.get(`${vin.txid}:${vin.vout}`);
+    },
+  };
+
+  const forModel = (ctx: any, model: Model) => {
+    const view = Object.create(ctx);
+    const allowed = new Set(getModelDependencyIds(model.constructor as any));
+    view.models = new ModelsAccessor(model.aggregateId, allowed, instances);
+    if ((model.constructor as any).deterministic === true) {
+      view.services = services.forDeterministicModel(model.aggregateId);
+    }
+    return view;
+  };
+
+  const eventsSince = (from: number): CapturedModelEvent[] => (captured.get(targetId) ?? []).slice(from);
+
+  const bed: ModelTestBed<T> = {
+    get model() {
+      return instances.get(targetId) as T;
+    },
+    get state() {
+      return (instances.get(targetId) as any).state;
+    },
+    get events() {
+      return captured.get(targetId) ?? [];
+    },
+    get height() {
+      return height;
+    },
+
+    async processBlock(block: any) {
+      const before = bed.events.length;
+      const ctx = {
+        block,
+        prevouts,
+        network: options.network ?? unavailable('network'),
+        mempool: options.mempool ?? unavailable('mempool'),
+        networkConfig,
+        services,
+      };
+
+      for (const Ctor of ctors) {
+        const model = instances.get(getModelIdByCtor(Ctor))!;
+        if (block.height < (getModelStartHeight(Ctor) ?? 0)) continue;
+        await model.processBlock(forModel(ctx, model));
+      }
+
+      for (const tx of block.tx ?? []) {
+        for (const vout of tx.vout ?? []) {
+          const address = vout.scriptPubKey?.address ?? vout.scriptPubKey?.addresses?.[0];
+          outputs.set(`${tx.txid}:${vout.n}`, {
+            value: vout.value,
+            scriptPubKey: vout.scriptPubKey,
+            address,
+            height: block.height,
+          });
+        }
+      }
+      height = block.height;
+      return eventsSince(before);
+    },
+
+    async processBlocks(blocks: any[]) {
+      const before = bed.events.length;
+      for (const block of blocks) await bed.processBlock(block);
+      return eventsSince(before);
+    },
+
+    async mempoolTick(mempool: any) {
+      const before = bed.events.length;
+      const ctx = { network: options.network ?? unavailable('network'), mempool, networkConfig, services };
+      for (const Ctor of ctors) {
+        const model = instances.get(getModelIdByCtor(Ctor))!;
+        if (typeof model.mempoolTick === 'function') await model.mempoolTick(forModel(ctx, model));
+      }
+      return eventsSince(before);
+    },
+
+    async rollback(to: number) {
+      const replay = new Map(
+        [...captured].map(([id, events]) => [id, events.filter((e) => e.blockHeight <= to)] as const)
+      );
+      instances = new Map(
+        ctors.map((Ctor) => {
+          const id = getModelIdByCtor(Ctor);
+          return [id, instantiate(Ctor, replay.get(id) ?? [])] as const;
+        })
+      );
+      for (const [key, output] of outputs) if (output.height > to) outputs.delete(key);
+      height = Math.min(height, to);
+    },
+
+    select(name: string, ...args: any[]) {
+      const model = instances.get(targetId) as any;
+      const fn = model.selectors?.[name] ?? (typeof model[name] === 'function' ? model[name].bind(model) : undefined);
+      if (!fn) throw new Error(`Model "${targetId}" has no selector or method "${name}"`);
+      return fn(...args);
+    },
+
+    eventsOf(dep: ModelDependency) {
+      return captured.get(getDependencyId(dep)) ?? [];
+    },
+  };
+
+  return bed;
+}